@@ -105,6 +105,7 @@ module.exports = [
       'src/bin/**/*.ts',
       'src/utils/**/*.ts',
       'src/session/**/*.ts',
+      'src/mcp/**/*.ts',
     ],
     rules: {
       '@typescript-eslint/no-explicit-any': 'off',
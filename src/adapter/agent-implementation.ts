@@ -8,27 +8,28 @@
  * communication, allowing file system tools to call client methods.
  */
 
-import type {
-  Agent,
-  AgentSideConnection,
-  InitializeRequest,
-  InitializeResponse,
-  NewSessionRequest,
-  NewSessionResponse,
-  LoadSessionRequest,
-  LoadSessionResponse,
-  SetSessionModeRequest,
-  SetSessionModeResponse,
-  SetSessionModelRequest,
-  SetSessionModelResponse,
-  AuthenticateRequest,
-  AuthenticateResponse,
-  PromptRequest,
-  PromptResponse,
-  CancelNotification,
+import {
+  RequestError,
+  type Agent,
+  type AgentSideConnection,
+  type InitializeRequest,
+  type InitializeResponse,
+  type NewSessionRequest,
+  type NewSessionResponse,
+  type LoadSessionRequest,
+  type LoadSessionResponse,
+  type SetSessionModeRequest,
+  type SetSessionModeResponse,
+  type SetSessionModelRequest,
+  type SetSessionModelResponse,
+  type AuthenticateRequest,
+  type AuthenticateResponse,
+  type PromptRequest,
+  type PromptResponse,
+  type CancelNotification,
 } from '@agentclientprotocol/sdk';
 import type { CursorAgentAdapter } from './cursor-agent-adapter';
-import type { Logger } from '../types';
+import { AdapterError, type Logger } from '../types';
 
 /**
  * Agent implementation that delegates to CursorAgentAdapter
@@ -69,7 +70,7 @@ export class CursorAgentImplementation implements Agent {
       return result;
     } catch (error) {
       this.logger.error('Agent.initialize failed', { error, params });
-      throw error;
+      throw toRequestError(error);
     }
   }
 
@@ -85,7 +86,7 @@ export class CursorAgentImplementation implements Agent {
       return result;
     } catch (error) {
       this.logger.error('Agent.newSession failed', { error, params });
-      throw error;
+      throw toRequestError(error);
     }
   }
 
@@ -101,7 +102,7 @@ export class CursorAgentImplementation implements Agent {
       return result;
     } catch (error) {
       this.logger.error('Agent.loadSession failed', { error, params });
-      throw error;
+      throw toRequestError(error);
     }
   }
 
@@ -119,7 +120,7 @@ export class CursorAgentImplementation implements Agent {
       return result;
     } catch (error) {
       this.logger.error('Agent.setSessionMode failed', { error, params });
-      throw error;
+      throw toRequestError(error);
     }
   }
 
@@ -140,7 +141,7 @@ export class CursorAgentImplementation implements Agent {
         error,
         params,
       });
-      throw error;
+      throw toRequestError(error);
     }
   }
 
@@ -154,12 +155,10 @@ export class CursorAgentImplementation implements Agent {
     this.logger.debug('Agent.authenticate called', { params });
 
     try {
-      // Currently not implemented - no authentication required
-      this.logger.info('Authentication not required for this agent');
-      return undefined;
+      return await this.adapter.handleAuthenticateFromAgent(params);
     } catch (error) {
       this.logger.error('Agent.authenticate failed', { error, params });
-      throw error;
+      throw toRequestError(error);
     }
   }
 
@@ -180,7 +179,7 @@ export class CursorAgentImplementation implements Agent {
         error,
         sessionId: params.sessionId,
       });
-      throw error;
+      throw toRequestError(error);
     }
   }
 
@@ -233,7 +232,7 @@ export class CursorAgentImplementation implements Agent {
           error,
           params,
         });
-        throw error;
+        throw toRequestError(error);
       }
     }
 
@@ -252,7 +251,7 @@ export class CursorAgentImplementation implements Agent {
         throw notFoundError;
       }
       // Re-throw other errors
-      throw error;
+      throw toRequestError(error);
     }
   }
 
@@ -290,3 +289,14 @@ export class CursorAgentImplementation implements Agent {
     }
   }
 }
+
+/**
+ * Gives typed adapter errors their JSON-RPC code and data
+ * The SDK reports any error that is not a RequestError as -32603.
+ */
+function toRequestError(error: unknown): unknown {
+  if (error instanceof AdapterError && error.rpcCode !== undefined) {
+    return new RequestError(error.rpcCode, error.message, error.data);
+  }
+  return error;
+}
@@ -8,9 +8,13 @@
  * - Stdio transport handling (per ACP spec)
  */
 
+import * as path from 'path';
 import {
   AgentSideConnection,
   ndJsonStream,
+  RequestError,
+  type AuthenticateRequest,
+  type AuthenticateResponse,
   type InitializeRequest,
   type InitializeResponse,
   type NewSessionRequest,
@@ -32,12 +36,18 @@ import {
   type WriteTextFileRequest,
   type WriteTextFileResponse,
   type RequestId,
+  type McpServer,
   type Error as JsonRpcError,
 } from '@agentclientprotocol/sdk';
 import type { AnyRequest } from '@agentclientprotocol/sdk/dist/jsonrpc.js';
 import { CursorAgentImplementation } from './agent-implementation';
 import {
   AdapterError,
+  AdapterErrorCode,
+  CursorAuthenticationError,
+  CursorError,
+  CursorNotInstalledError,
+  PermissionDeniedError,
   ProtocolError,
   type AdapterConfig,
   type AdapterOptions,
@@ -47,27 +57,55 @@ import {
   type SessionDeleteParams,
   type SessionMetadata,
   type ToolCallParams,
+  type McpServerStatus,
+  type PermissionOutcome,
+  type RequestPermissionParams,
 } from '../types';
 import { createLogger } from '../utils/logger';
 import { validateConfig } from '../utils/config';
+import {
+  applyConfigPaths,
+  isUnder,
+  planConfigReload,
+  type ConfigReloadResult,
+} from '../utils/config-reload';
 import {
   validateObjectParams,
   createErrorResponse,
   createSuccessResponse,
+  toJsonRpcError,
   toRequestId,
+  JsonRpcErrorCode,
 } from '../utils/json-rpc';
 import { SessionManager } from '../session/manager';
 import { CursorCliBridge } from '../cursor/cli-bridge';
 import { ToolRegistry } from '../tools/registry';
 import { ToolCallManager } from '../tools/tool-call-manager';
-import { InitializationHandler } from '../protocol/initialization';
+import {
+  CURSOR_LOGIN_AUTH_METHOD,
+  InitializationHandler,
+  getPackageVersion,
+} from '../protocol/initialization';
 import { PromptHandler } from '../protocol/prompt';
 import { PermissionsHandler } from '../protocol/permissions';
+import { PermissionStore, describeRule } from '../protocol/permission-store';
+import {
+  PermissionPolicy,
+  buildPermissionPolicy,
+  type PermissionPolicyContext,
+} from '../protocol/permission-policy';
+import { ImageAttachmentStore } from '../protocol/image-attachments';
+import { ResourceLinkResolver } from '../protocol/resource-links';
 import type { ClientConnection } from '../client/client-connection';
 import { AcpFileSystemClient } from '../client/filesystem-client';
-import { FilesystemToolProvider } from '../tools/filesystem';
+import {
+  FilesystemToolProvider,
+  type FilesystemToolsOptions,
+} from '../tools/filesystem';
+import { TerminalManager, getTerminalPolicy } from '../tools/terminal-manager';
 import { SlashCommandsRegistry } from '../tools/slash-commands';
 import { ExtensionRegistry } from '../tools/extension-registry';
+import { McpManager, getMcpStatusSummary } from '../mcp/manager';
 
 export class CursorAgentAdapter implements ClientConnection {
   private config: AdapterConfig;
@@ -85,6 +123,11 @@ export class CursorAgentAdapter implements ClientConnection {
   private promptHandler?: PromptHandler;
   private slashCommandsRegistry?: SlashCommandsRegistry;
   private extensionRegistry?: ExtensionRegistry;
+  private mcpManager?: McpManager;
+  private permissionStore?: PermissionStore;
+  private permissionPolicy?: PermissionPolicy;
+  private terminalManager?: TerminalManager;
+  private imageStore?: ImageAttachmentStore;
 
   // ACP-compliant file system client
   private fileSystemClient?: AcpFileSystemClient;
@@ -92,6 +135,9 @@ export class CursorAgentAdapter implements ClientConnection {
   // SDK connection for bi-directional communication
   private agentConnection?: AgentSideConnection;
 
+  // cursor-agent login state: unknown until initialize; prompts wait while false
+  private cursorAuthenticated: boolean | undefined;
+
   constructor(config: AdapterConfig, options: AdapterOptions = {}) {
     this.config = config;
     this.logger =
@@ -312,6 +358,89 @@ export class CursorAgentAdapter implements ClientConnection {
     }
   }
 
+  /**
+   * Set the terminal manager that receives terminal policy changes on reload
+   */
+  setTerminalManager(manager: TerminalManager): void {
+    this.terminalManager = manager;
+    this.terminalManager.updatePolicy(
+      getTerminalPolicy(this.config.tools.terminal)
+    );
+    this.toolRegistry?.setTerminalManager(manager);
+  }
+
+  /**
+   * Apply a changed configuration without restarting the ACP connection
+   *
+   * Changes to the log level, session limits, tool settings, cursor-agent
+   * timeouts and the permission policy are applied live. Other changes are
+   * rejected and logged with the reason; an invalid configuration is
+   * rejected as a whole.
+   */
+  async reloadConfig(next: AdapterConfig): Promise<ConfigReloadResult> {
+    const validation = validateConfig(next);
+    if (!validation.valid) {
+      this.logger.warn('Configuration reload rejected: invalid configuration', {
+        errors: validation.errors,
+      });
+      return {
+        applied: [],
+        rejected: validation.errors.map((reason) => ({ path: '*', reason })),
+      };
+    }
+
+    const plan = planConfigReload(this.config, next);
+    if (plan.live.includes('logLevel') && !this.logger.setLevel) {
+      plan.live = plan.live.filter((configPath) => configPath !== 'logLevel');
+      plan.rejected.push({
+        path: 'logLevel',
+        reason: 'the logger does not support changing its level',
+      });
+    }
+
+    for (const { path: configPath, reason } of plan.rejected) {
+      this.logger.warn(
+        `Configuration change to ${configPath} not applied: ${reason}`
+      );
+    }
+
+    if (plan.live.length === 0) {
+      return { applied: [], rejected: plan.rejected };
+    }
+
+    // Components share this.config, so updating it in place reaches them all
+    applyConfigPaths(this.config, next, plan.live);
+    const changed = (...prefixes: string[]) =>
+      plan.live.some((configPath) => isUnder(configPath, prefixes));
+
+    if (changed('logLevel')) {
+      this.logger.setLevel?.(this.config.logLevel);
+    }
+    if (changed('maxSessions', 'sessionTimeout')) {
+      this.sessionManager?.updateLimits({
+        maxSessions: this.config.maxSessions,
+        sessionTimeout: this.config.sessionTimeout,
+      });
+    }
+    if (changed('tools.terminal')) {
+      this.terminalManager?.updatePolicy(
+        getTerminalPolicy(this.config.tools.terminal)
+      );
+    }
+    if (changed('tools.filesystem', 'tools.cursor')) {
+      await this.reloadTools();
+    }
+    if (changed('permissions.policy', 'modes')) {
+      this.permissionPolicy?.update(buildPermissionPolicy(this.config));
+    }
+    if (changed('modes')) {
+      await this.resetUnknownSessionModes();
+    }
+
+    this.logger.info('Configuration reloaded', { applied: plan.live });
+    return { applied: plan.live, rejected: plan.rejected };
+  }
+
   /**
    * Get the slash commands registry
    * Per ACP spec: Provides access to register and manage slash commands
@@ -385,6 +514,9 @@ export class CursorAgentAdapter implements ClientConnection {
         case 'initialize':
           return await this.handleInitialize(request);
 
+        case 'authenticate':
+          return await this.handleAuthenticate(request);
+
         case 'session/new':
           return await this.handleSessionNew(request);
 
@@ -441,14 +573,12 @@ export class CursorAgentAdapter implements ClientConnection {
       >{
         jsonrpc: '2.0',
         id: request.id,
-        error: {
-          code: error instanceof ProtocolError ? -32601 : -32603,
-          message: error instanceof Error ? error.message : 'Unknown error',
-          data:
-            error instanceof Error
-              ? { name: error.name, stack: error.stack }
-              : undefined,
-        },
+        error: toJsonRpcError(
+          error,
+          error instanceof ProtocolError
+            ? JsonRpcErrorCode.METHOD_NOT_FOUND
+            : JsonRpcErrorCode.INTERNAL_ERROR
+        ),
       };
     }
   }
@@ -460,6 +590,13 @@ export class CursorAgentAdapter implements ClientConnection {
     return this.sessionManager;
   }
 
+  /**
+   * Get the tool registry (for testing purposes)
+   */
+  getToolRegistry(): ToolRegistry | undefined {
+    return this.toolRegistry;
+  }
+
   /**
    * Get adapter status and metrics
    */
@@ -545,9 +682,13 @@ export class CursorAgentAdapter implements ClientConnection {
       this.sessionManager
         .listSessions()
         .then((result) => {
-          result.items.forEach((session) => {
-            this.sendAvailableCommandsUpdate(session.id);
-          });
+          // listSessions also returns sessions persisted on disk; only
+          // sessions loaded in memory are open on the client
+          result.items
+            .filter((session) => this.sessionManager?.hasSession(session.id))
+            .forEach((session) => {
+              this.sendAvailableCommandsUpdate(session.id);
+            });
           this.logger.debug(
             'Slash commands updated, notified all active sessions'
           );
@@ -559,21 +700,63 @@ export class CursorAgentAdapter implements ClientConnection {
         });
     });
 
+    // Initialize PermissionStore for "allow/reject always" decisions
+    // Rules are persisted next to the session files when enabled
+    this.permissionStore = new PermissionStore({
+      logger: this.logger,
+      persistDir: this.config.permissions?.persistRules
+        ? path.join(this.sessionManager.getSessionDir(), 'permissions')
+        : undefined,
+    });
+    this.sessionManager.onSessionDeleted((sessionId) =>
+      this.permissionStore?.clearSession(sessionId)
+    );
+    this.registerPermissionExtensionMethods();
+    this.registerUsageExtensionMethods();
+
+    // Initialize PermissionPolicy from permissions.policy and the mode rules
+    const permissionPolicy = new PermissionPolicy({
+      logger: this.logger,
+      policy: buildPermissionPolicy(this.config),
+    });
+    this.permissionPolicy = permissionPolicy;
+    const getPermissionContext = (sessionId: string) =>
+      this.getPermissionContext(sessionId);
+    const requestPermission = async (
+      params: RequestPermissionParams
+    ): Promise<PermissionOutcome> => {
+      // Per ACP spec: session/request_permission is a client method
+      // https://agentclientprotocol.com/protocol/tool-calls#requesting-permission
+      if (this.agentConnection) {
+        const response = await this.agentConnection.requestPermission(params);
+        return response.outcome;
+      }
+      // Without a client connection there is nobody to ask, so the tool
+      // call is cancelled rather than run unseen
+      this.logger.warn('No client connection for permission request', {
+        sessionId: params.sessionId,
+        toolCallId: params.toolCall.toolCallId,
+      });
+      return { outcome: 'cancelled' };
+    };
+
     // Initialize PermissionsHandler
     this.permissionsHandler = new PermissionsHandler({
       logger: this.logger,
+      permissionStore: this.permissionStore,
+      permissionPolicy,
+      getPermissionContext,
+      requestPermission,
     });
 
     // Initialize ToolCallManager with permissions support
     this.toolCallManager = new ToolCallManager({
       logger: this.logger,
       sendNotification: this.sendNotification.bind(this),
-      requestPermission: async (params) => {
-        if (!this.permissionsHandler) {
-          throw new ProtocolError('Permissions handler not initialized');
-        }
-        return this.permissionsHandler.createPermissionRequest(params);
-      },
+      requestPermission,
+      permissionStore: this.permissionStore,
+      permissionPolicy,
+      getPermissionContext,
     });
 
     // Initialize ToolRegistry
@@ -582,6 +765,27 @@ export class CursorAgentAdapter implements ClientConnection {
     // Connect ToolCallManager to ToolRegistry
     this.toolRegistry.setToolCallManager(this.toolCallManager);
 
+    // The session mode limits the tools offered and when permission is needed
+    const sessionManager = this.sessionManager;
+    this.toolRegistry.setSessionModeConfigGetter((sessionId) =>
+      sessionManager.getModeConfig(sessionManager.getSessionMode(sessionId))
+    );
+    this.toolRegistry.setSessionCwdGetter((sessionId) =>
+      sessionManager.getSessionCwd(sessionId)
+    );
+    this.sessionManager.onSessionDeleted((sessionId) =>
+      this.toolRegistry?.releaseSession(sessionId)
+    );
+
+    // Initialize McpManager for the MCP servers passed in session/new and
+    // session/load; connections are closed when a session is deleted or expires
+    this.mcpManager = new McpManager(this.logger, {
+      clientInfo: { name: 'cursor-agent-acp', version: getPackageVersion() },
+    });
+    this.sessionManager.onSessionDeleted((sessionId) =>
+      this.disconnectMcpServers(sessionId)
+    );
+
     // Initialize protocol handlers
     this.initializationHandler = new InitializationHandler(
       this.config,
@@ -599,19 +803,43 @@ export class CursorAgentAdapter implements ClientConnection {
       return this.cursorBridge || undefined;
     });
 
-    this.promptHandler = new PromptHandler({
-      sessionManager: this.sessionManager,
-      cursorBridge: this.cursorBridge,
+    // Initialize ImageAttachmentStore for image content in prompts
+    this.imageStore = new ImageAttachmentStore({
       config: this.config,
       logger: this.logger,
-      sendNotification: this.sendNotification.bind(this),
-      slashCommandsRegistry: this.slashCommandsRegistry,
     });
+    this.sessionManager.onSessionDeleted((sessionId) =>
+      this.imageStore?.releaseSession(sessionId)
+    );
 
     // Initialize ACP-compliant file system client
     // Per ACP spec: This adapter implements ClientConnection to enable
     // filesystem tools to call client methods (fs/read_text_file, fs/write_text_file)
     this.fileSystemClient = new AcpFileSystemClient(this, this.logger);
+    this.toolRegistry.setFileSystemClient(
+      this.fileSystemClient,
+      () => this.initializationHandler?.getClientCapabilities() ?? null
+    );
+
+    this.promptHandler = new PromptHandler({
+      sessionManager: this.sessionManager,
+      cursorBridge: this.cursorBridge,
+      config: this.config,
+      logger: this.logger,
+      sendNotification: this.sendNotification.bind(this),
+      slashCommandsRegistry: this.slashCommandsRegistry,
+      toolCallManager: this.toolCallManager,
+      imageStore: this.imageStore,
+      // Reads @-mentioned files through the client when it supports fs reads
+      resourceLinkResolver: new ResourceLinkResolver({
+        config: this.config,
+        logger: this.logger,
+        fileSystemClient: this.fileSystemClient,
+        getClientCapabilities: () =>
+          this.initializationHandler?.getClientCapabilities() ?? null,
+        getSessionCwd: (sessionId) => sessionManager.getSessionCwd(sessionId),
+      }),
+    });
 
     // Register filesystem tool provider if enabled
     // Per ACP spec: Only offer filesystem tools if client supports them
@@ -621,7 +849,8 @@ export class CursorAgentAdapter implements ClientConnection {
         this.config,
         this.logger,
         null, // Client capabilities set after initialization
-        this.fileSystemClient
+        this.fileSystemClient,
+        this.getFilesystemToolsOptions()
       );
       // Note: Provider will check capabilities and only offer tools if supported
       this.toolRegistry.registerProvider(filesystemProvider);
@@ -630,6 +859,129 @@ export class CursorAgentAdapter implements ClientConnection {
     this.logger.debug('All components initialized');
   }
 
+  /**
+   * Rebuild the tool providers from the current configuration
+   * ToolRegistry.reload() drops every provider, so the filesystem provider
+   * is registered again with the client capabilities known so far.
+   */
+  private async reloadTools(): Promise<void> {
+    if (!this.toolRegistry) {
+      return;
+    }
+
+    await this.toolRegistry.reload();
+
+    if (this.config.tools.filesystem.enabled && this.fileSystemClient) {
+      this.toolRegistry.registerProvider(
+        new FilesystemToolProvider(
+          this.config,
+          this.logger,
+          this.initializationHandler?.getClientCapabilities() ?? null,
+          this.fileSystemClient,
+          this.getFilesystemToolsOptions()
+        )
+      );
+    }
+  }
+
+  /**
+   * Roots the workspace file system tools at each session's working directory
+   */
+  private getFilesystemToolsOptions(): FilesystemToolsOptions {
+    return {
+      getSessionCwd: (sessionId) =>
+        this.sessionManager?.getSessionCwd(sessionId),
+    };
+  }
+
+  /**
+   * Register extension methods for inspecting and revoking permission rules
+   * Per ACP spec: Extension methods start with underscore
+   */
+  private registerPermissionExtensionMethods(): void {
+    if (!this.extensionRegistry) {
+      return;
+    }
+
+    // _cursor/permission_rules: { sessionId } -> { rules }
+    this.extensionRegistry.registerMethod(
+      '_cursor/permission_rules',
+      async (params) => {
+        const sessionId = this.requireSessionIdParam(params);
+        const rules = await this.permissionStore!.listRules(sessionId);
+        return {
+          sessionId,
+          rules: rules.map((rule) => ({
+            ...rule,
+            createdAt: rule.createdAt.toISOString(),
+            description: describeRule(rule),
+          })),
+        };
+      }
+    );
+
+    // _cursor/revoke_permission_rule: { sessionId, ruleId } -> { revoked }
+    this.extensionRegistry.registerMethod(
+      '_cursor/revoke_permission_rule',
+      async (params) => {
+        const sessionId = this.requireSessionIdParam(params);
+        const ruleId = params['ruleId'];
+        if (typeof ruleId !== 'string' || !ruleId) {
+          throw new ProtocolError('ruleId is required and must be a string');
+        }
+        const revoked = await this.permissionStore!.revokeRule(
+          sessionId,
+          ruleId
+        );
+        return { sessionId, ruleId, revoked };
+      }
+    );
+  }
+
+  /**
+   * Register the extension method that reports token usage and cost
+   */
+  private registerUsageExtensionMethods(): void {
+    if (!this.extensionRegistry) {
+      return;
+    }
+
+    // _cursor/usage: { sessionId } -> { sessionId, usage }
+    this.extensionRegistry.registerMethod('_cursor/usage', async (params) => {
+      const sessionId = this.requireSessionIdParam(params);
+      const usage = await this.sessionManager!.getSessionUsage(sessionId);
+      return { sessionId, usage };
+    });
+  }
+
+  private requireSessionIdParam(params: Record<string, unknown>): string {
+    const sessionId = params['sessionId'];
+    if (typeof sessionId !== 'string' || !sessionId) {
+      throw new ProtocolError('sessionId is required and must be a string');
+    }
+    return sessionId;
+  }
+
+  /**
+   * Gets the session mode and cwd that permission policy rules match against
+   */
+  private async getPermissionContext(
+    sessionId: string
+  ): Promise<PermissionPolicyContext> {
+    if (!this.sessionManager) {
+      throw new AdapterError(
+        'Session manager not initialized',
+        'COMPONENT_ERROR'
+      );
+    }
+
+    const session = await this.sessionManager.loadSession(sessionId);
+    return {
+      mode: this.sessionManager.getSessionMode(sessionId),
+      cwd: session.metadata.cwd,
+    };
+  }
+
   /**
    * Register default slash commands
    * Per ACP spec: Agents MAY advertise available commands
@@ -757,17 +1109,32 @@ export class CursorAgentAdapter implements ClientConnection {
 
       // Check if this is a "command not found" error
       const isNotFoundError =
+        error instanceof CursorNotInstalledError ||
         errorMessage.includes('ENOENT') ||
         errorMessage.includes('not found') ||
         errorMessage.includes('command not found') ||
         errorMessage.includes('spawn cursor-agent ENOENT');
 
-      if (isNotFoundError) {
+      const { binaryPath } = this.config.cursor;
+
+      if (
+        error instanceof CursorError &&
+        error.code === 'CURSOR_INCOMPATIBLE'
+      ) {
+        this.logger.warn(
+          `Incompatible cursor-agent CLI - cursor-agent features will be unavailable: ${errorMessage}`
+        );
+        this.logger.warn(
+          'Check that cursor.binaryPath points to the cursor-agent CLI'
+        );
+      } else if (isNotFoundError) {
         this.logger.warn(
-          'cursor-agent CLI not found in PATH - cursor-agent features will be unavailable'
+          binaryPath
+            ? `cursor-agent CLI not found at ${binaryPath} - cursor-agent features will be unavailable`
+            : 'cursor-agent CLI not found in PATH - cursor-agent features will be unavailable'
         );
         this.logger.warn(
-          'To install cursor-agent CLI, visit: https://cursor.sh/docs/agent'
+          'To install cursor-agent CLI, visit: https://cursor.sh/docs/agent, or set cursor.binaryPath to its location'
         );
       } else {
         this.logger.warn(
@@ -807,6 +1174,18 @@ export class CursorAgentAdapter implements ClientConnection {
     method: string;
     params?: any;
   }): void {
+    // Keep conversation history for session/load replay
+    if (
+      notification.method === 'session/update' &&
+      notification.params?.sessionId &&
+      notification.params.update
+    ) {
+      this.sessionManager?.recordSessionUpdate(
+        notification.params.sessionId,
+        notification.params.update
+      );
+    }
+
     const notificationStr = JSON.stringify(notification);
     this.logger.debug('Sending notification to client', {
       method: notification.method,
@@ -834,6 +1213,8 @@ export class CursorAgentAdapter implements ClientConnection {
     // Pass the entire params object to InitializationHandler
     // It will validate protocolVersion and handle all fields properly
     const result = await this.initializationHandler.initialize(params);
+    this.cursorAuthenticated =
+      this.initializationHandler.getCursorAuthenticated();
 
     return <
       {
@@ -933,20 +1314,12 @@ export class CursorAgentAdapter implements ClientConnection {
       mcpServerNames: mcpServers.map((s: any) => s.name || 'unnamed'),
     });
 
-    // TODO: Connect to MCP servers specified in mcpServers array
-    // For now, we accept the configuration but don't connect
-    if (mcpServers.length > 0) {
-      this.logger.warn(
-        'MCP server connections are not yet implemented. ' +
-          'Server configurations stored but not connected. ' +
-          'Servers will be available when MCP integration is completed.',
-        {
-          mcpServerCount: mcpServers.length,
-          serverTypes: mcpServers.map((s: any) => s.type || 'unknown'),
-          serverNames: mcpServers.map((s: any) => s.name || 'unnamed'),
-        }
-      );
-    }
+    // Per ACP spec: Agent connects to the MCP servers specified by the client
+    const mcpStatuses = await this.connectMcpServers(
+      sessionData.id,
+      mcpServers,
+      cwd
+    );
 
     // Build mode and model state using helper methods
     const modes: SessionModeState | null = this.buildSessionModeState(
@@ -965,13 +1338,9 @@ export class CursorAgentAdapter implements ClientConnection {
         createdAt: sessionData.createdAt.toISOString(),
         cwd,
         mcpServerCount: mcpServers.length,
-        ...(mcpServers.length > 0 && {
-          mcpStatus: 'not-implemented',
-          mcpServers: mcpServers.map((s: any) => ({
-            name: s.name || 'unnamed',
-            type: s.type || 'unknown',
-            status: 'pending-implementation',
-          })),
+        ...(mcpStatuses.length > 0 && {
+          mcpStatus: getMcpStatusSummary(mcpStatuses),
+          mcpServers: mcpStatuses,
         }),
       },
     };
@@ -1048,9 +1417,30 @@ export class CursorAgentAdapter implements ClientConnection {
       ...params.metadata,
     });
 
+    // Per ACP spec: Agent connects to the MCP servers specified by the client
+    // Replaces any connections left from an earlier new/load of this session
+    const mcpStatuses = await this.connectMcpServers(
+      sessionId,
+      mcpServers,
+      cwd
+    );
+
     // Per ACP spec: Agent MUST replay entire conversation via session/update notifications
     // Stream each message in the conversation history
     for (const message of sessionData.conversation) {
+      // Turns recorded as they streamed replay with their tool calls,
+      // thoughts and plans, keeping the original IDs and statuses
+      if (message.updates && message.updates.length > 0) {
+        for (const update of message.updates) {
+          this.sendNotification({
+            jsonrpc: '2.0',
+            method: 'session/update',
+            params: { sessionId, update },
+          });
+        }
+        continue;
+      }
+
       // Determine the session update type based on message role
       let sessionUpdateType: string;
       if (message.role === 'user') {
@@ -1103,6 +1493,10 @@ export class CursorAgentAdapter implements ClientConnection {
         lastActivity: sessionData.state.lastActivity.toISOString(),
         cwd,
         mcpServerCount: mcpServers.length,
+        ...(mcpStatuses.length > 0 && {
+          mcpStatus: getMcpStatusSummary(mcpStatuses),
+          mcpServers: mcpStatuses,
+        }),
       },
     };
 
@@ -1321,7 +1715,92 @@ export class CursorAgentAdapter implements ClientConnection {
     if (!this.promptHandler) {
       throw new ProtocolError('Prompt handler not available');
     }
-    return this.promptHandler.processPrompt(request);
+
+    await this.ensureCursorAuthenticated();
+    const response = await this.promptHandler.processPrompt(request);
+
+    // cursor-agent was logged out while the adapter was running
+    if (
+      response.result?._meta?.stopReasonDetails?.errorCode ===
+      AdapterErrorCode.NOT_AUTHENTICATED
+    ) {
+      this.cursorAuthenticated = false;
+    }
+    return response;
+  }
+
+  /**
+   * Handle authenticate by running `cursor-agent login`
+   * Per ACP spec: https://agentclientprotocol.com/protocol/initialization
+   *
+   * The sign-in URL printed by cursor-agent is relayed to the client with a
+   * `_cursor/login_url` notification while the login waits for the browser.
+   */
+  private async handleAuthenticate(request: AnyRequest): Promise<{
+    jsonrpc: '2.0';
+    id: RequestId;
+    result?: AuthenticateResponse;
+    error?: JsonRpcError;
+  }> {
+    if (!this.cursorBridge) {
+      throw new ProtocolError('Cursor bridge not available');
+    }
+
+    const params =
+      (request.params as AuthenticateRequest) || ({} as AuthenticateRequest);
+    if (params.methodId !== CURSOR_LOGIN_AUTH_METHOD.id) {
+      return createErrorResponse(toRequestId(request.id), {
+        code: JsonRpcErrorCode.INVALID_PARAMS,
+        message: `Unknown authentication method: ${params.methodId}`,
+        data: { supported: [CURSOR_LOGIN_AUTH_METHOD.id] },
+      });
+    }
+
+    const status = await this.cursorBridge.login({
+      onUrl: (url) =>
+        this.sendNotification({
+          jsonrpc: '2.0',
+          method: '_cursor/login_url',
+          params: { methodId: params.methodId, url },
+        }),
+    });
+    this.cursorAuthenticated = status.authenticated;
+
+    if (!status.authenticated) {
+      throw new CursorAuthenticationError(
+        `cursor-agent login finished but cursor-agent is not logged in${
+          status.error ? `: ${status.error}` : ''
+        }`
+      );
+    }
+
+    this.logger.info('Cursor CLI authenticated', {
+      user: status.user,
+      email: status.email,
+    });
+    return createSuccessResponse(toRequestId(request.id), {
+      _meta: {
+        ...(status.user && { user: status.user }),
+        ...(status.email && { email: status.email }),
+      },
+    });
+  }
+
+  /**
+   * Rejects prompts with auth_required while cursor-agent is logged out
+   * The status is checked again on every prompt, so a login from a terminal
+   * unblocks them as well.
+   */
+  private async ensureCursorAuthenticated(): Promise<void> {
+    if (this.cursorAuthenticated !== false || !this.cursorBridge) {
+      return;
+    }
+
+    const status = await this.cursorBridge.checkAuthentication();
+    this.cursorAuthenticated = status.authenticated;
+    if (!status.authenticated) {
+      throw new CursorAuthenticationError();
+    }
   }
 
   private async handleSessionCancel(request: AnyRequest): Promise<{
@@ -1411,7 +1890,13 @@ export class CursorAgentAdapter implements ClientConnection {
       throw new ProtocolError('Tool registry not available');
     }
 
-    const tools = this.toolRegistry.getTools();
+    // Sessions are only offered the tools their mode allows
+    const sessionId = (request.params as { sessionId?: unknown } | undefined)
+      ?.sessionId;
+    const tools =
+      typeof sessionId === 'string'
+        ? this.toolRegistry.getSessionTools(sessionId)
+        : this.toolRegistry.getTools();
 
     return <
       {
@@ -1480,11 +1965,18 @@ export class CursorAgentAdapter implements ClientConnection {
       >{
         jsonrpc: '2.0',
         id: request.id,
-        error: {
-          code: -32603,
-          message: result.error || 'Tool execution failed',
-          data: result.metadata,
-        },
+        error: result.metadata?.['permissionDenied']
+          ? toJsonRpcError(
+              new PermissionDeniedError(
+                toolCall.name,
+                result.metadata['toolCallId']
+              )
+            )
+          : {
+              code: -32603,
+              message: result.error || 'Tool execution failed',
+              data: result.metadata,
+            },
       };
     }
 
@@ -1691,6 +2183,70 @@ export class CursorAgentAdapter implements ClientConnection {
   // Private Helper Methods for Session Setup
   // ============================================================================
 
+  /**
+   * Connects a session to its MCP servers and exposes their tools
+   * cursor-agent only loads MCP servers from its own mcp.json files and
+   * cannot be given servers per invocation, so the adapter connects to them
+   * and registers their tools as a session-scoped tool provider.
+   */
+  private async connectMcpServers(
+    sessionId: string,
+    mcpServers: McpServer[],
+    cwd: string
+  ): Promise<McpServerStatus[]> {
+    if (!this.mcpManager || !this.toolRegistry) {
+      return [];
+    }
+
+    this.toolRegistry.unregisterSessionProvider(sessionId);
+    const statuses = await this.mcpManager.connectSession(
+      sessionId,
+      mcpServers,
+      cwd
+    );
+
+    if (this.mcpManager.hasConnections(sessionId)) {
+      this.toolRegistry.registerSessionProvider(
+        sessionId,
+        this.mcpManager.createToolProvider(sessionId)
+      );
+    }
+
+    return statuses;
+  }
+
+  /**
+   * Closes the MCP server connections of a deleted or expired session
+   */
+  private async disconnectMcpServers(sessionId: string): Promise<void> {
+    this.toolRegistry?.unregisterSessionProvider(sessionId);
+    await this.mcpManager?.disconnectSession(sessionId);
+  }
+
+  /**
+   * Moves sessions whose mode was removed from the configuration to the
+   * fallback mode and tells the client about their new mode
+   */
+  private async resetUnknownSessionModes(): Promise<void> {
+    if (!this.sessionManager) {
+      return;
+    }
+
+    for (const sessionId of await this.sessionManager.resetUnknownModes()) {
+      this.sendNotification({
+        jsonrpc: '2.0',
+        method: 'session/update',
+        params: {
+          sessionId,
+          update: {
+            sessionUpdate: 'current_mode_update',
+            currentModeId: this.sessionManager.getSessionMode(sessionId),
+          },
+        },
+      });
+    }
+  }
+
   /**
    * Builds session mode state for responses
    * Per ACP spec: Returns available modes and current mode
@@ -1807,11 +2363,24 @@ export class CursorAgentAdapter implements ClientConnection {
     // Store the connection for filesystem operations
     this.agentConnection = connection;
 
+    // Per ACP spec: terminals are only requested from clients that support them
+    const clientCapabilities =
+      this.initializationHandler?.getClientCapabilities();
+    if (this.config.tools.terminal.enabled && clientCapabilities?.terminal) {
+      this.setTerminalManager(
+        new TerminalManager(
+          {
+            clientSupportsTerminals: true,
+            ...getTerminalPolicy(this.config.tools.terminal),
+          },
+          connection,
+          this.logger
+        )
+      );
+    }
+
     // Per ACP spec: After initialization, update filesystem provider with client capabilities
     if (this.toolRegistry && this.fileSystemClient) {
-      const clientCapabilities =
-        this.initializationHandler?.getClientCapabilities();
-
       // Re-register filesystem provider with actual client capabilities
       if (this.config.tools.filesystem.enabled && clientCapabilities) {
         // Unregister old provider (if any)
@@ -1822,7 +2391,8 @@ export class CursorAgentAdapter implements ClientConnection {
           this.config,
           this.logger,
           clientCapabilities,
-          this.fileSystemClient
+          this.fileSystemClient,
+          this.getFilesystemToolsOptions()
         );
         this.toolRegistry.registerProvider(filesystemProvider);
 
@@ -1839,6 +2409,30 @@ export class CursorAgentAdapter implements ClientConnection {
     return response.result as InitializeResponse;
   }
 
+  /**
+   * Handle authenticate from Agent implementation
+   */
+  async handleAuthenticateFromAgent(
+    params: AuthenticateRequest
+  ): Promise<AuthenticateResponse> {
+    const response = await this.handleAuthenticate({
+      jsonrpc: '2.0',
+      id: '1',
+      method: 'authenticate',
+      params,
+    } as unknown as AnyRequest);
+
+    if (response.error) {
+      throw new RequestError(
+        response.error.code,
+        response.error.message,
+        response.error.data
+      );
+    }
+
+    return response.result ?? {};
+  }
+
   /**
    * Handle newSession from Agent implementation
    */
@@ -1992,6 +2586,15 @@ export class CursorAgentAdapter implements ClientConnection {
       params,
     } as unknown as AnyRequest);
 
+    // Keep the code and data of failed prompts, e.g. session not found
+    if (response.error) {
+      throw new RequestError(
+        response.error.code,
+        response.error.message,
+        response.error.data
+      );
+    }
+
     return response.result as PromptResponse;
   }
 
@@ -2030,6 +2633,16 @@ export class CursorAgentAdapter implements ClientConnection {
       await this.toolRegistry.cleanup();
     }
 
+    // Close all MCP server connections
+    if (this.mcpManager) {
+      await this.mcpManager.cleanup();
+    }
+
+    // Remove image attachments left by unfinished turns
+    if (this.imageStore) {
+      await this.imageStore.cleanup();
+    }
+
     if (this.cursorBridge) {
       await this.cursorBridge.close();
     }
@@ -2105,19 +2718,10 @@ export class CursorAgentAdapter implements ClientConnection {
       });
 
       // Return proper JSON-RPC error
-      const errorData: Record<string, unknown> | undefined =
-        error instanceof Error
-          ? {
-              name: error.name,
-              ...(error.stack && { stack: error.stack }),
-            }
-          : undefined;
-
-      return createErrorResponse(toRequestId(request.id), {
-        code: -32603,
-        message: error instanceof Error ? error.message : 'Internal error',
-        ...(errorData && { data: errorData }),
-      });
+      return createErrorResponse(
+        toRequestId(request.id),
+        toJsonRpcError(error)
+      );
     }
   }
 
@@ -12,9 +12,15 @@ import { readFileSync } from 'fs';
 import { join } from 'path';
 import { spawn } from 'child_process';
 import { CursorAgentAdapter } from '../adapter/cursor-agent-adapter';
-import { CursorCliBridge } from '../cursor/cli-bridge';
+import { CursorCliBridge, getCursorCommand } from '../cursor/cli-bridge';
 import { createLogger } from '../utils/logger';
-import { validateConfig } from '../utils/config';
+import {
+  explainConfig,
+  resolveConfig,
+  type ConfigOverride,
+  type ResolvedConfig,
+} from '../utils/config-loader';
+import { ConfigWatcher } from '../utils/config-reload';
 import { DEFAULT_CONFIG } from '../index';
 import type { AdapterConfig } from '../types';
 
@@ -27,12 +33,14 @@ interface CliOptions {
   retries: string;
   maxSessions: string;
   sessionTimeout: string;
-  noFilesystem?: boolean;
-  noTerminal?: boolean;
+  filesystem: boolean;
+  terminal: boolean;
   maxProcesses: string;
   verbose?: boolean;
   quiet?: boolean;
   validate?: boolean;
+  explain?: boolean;
+  watchConfig: boolean;
   testCursor?: boolean;
 }
 
@@ -114,6 +122,11 @@ program
   .option('-v, --verbose', 'enable verbose logging')
   .option('-q, --quiet', 'suppress all output except errors')
   .option('--validate', 'validate configuration and exit')
+  .option(
+    '--explain',
+    'log every configuration value and the source it came from'
+  )
+  .option('--no-watch-config', 'do not reload the configuration file on change')
   .option('--test-cursor', 'test cursor-agent connectivity and exit')
   .action(() => {
     // Default action: run the adapter in stdio mode (ACP standard transport)
@@ -128,6 +141,27 @@ const isSubcommand = process.argv.some((arg) => ['auth', 'help'].includes(arg));
 
 const options = program.opts() as CliOptions;
 
+/**
+ * Loads the configuration for auth commands, so they run the same
+ * cursor-agent binary, arguments and environment as the adapter
+ */
+function loadAuthConfig(
+  logger: ReturnType<typeof createLogger>
+): AdapterConfig {
+  try {
+    return resolveConfig({
+      defaults: DEFAULT_CONFIG,
+      configFile: options.config,
+      env: process.env,
+    }).config;
+  } catch (error) {
+    logger.warn(
+      `Failed to load configuration, using defaults: ${error instanceof Error ? error.message : String(error)}`
+    );
+    return { ...DEFAULT_CONFIG };
+  }
+}
+
 /**
  * Handle auth login command
  */
@@ -137,10 +171,13 @@ async function handleAuthLogin(options: { check?: boolean }): Promise<void> {
   logger.info('Starting Cursor CLI login...');
   logger.info('This will open your browser for authentication.');
 
+  const config = loadAuthConfig(logger);
+  const cursorCommand = getCursorCommand(config.cursor, ['login']);
+
   return new Promise<void>((resolve, reject) => {
-    const childProcess = spawn('cursor-agent', ['login'], {
+    const childProcess = spawn(cursorCommand.command, cursorCommand.args, {
       stdio: 'inherit', // Inherit stdin/stdout/stderr for interactive login
-      env: { ...process.env },
+      env: cursorCommand.env,
     });
 
     childProcess.on('close', async (code: number | null) => {
@@ -150,7 +187,6 @@ async function handleAuthLogin(options: { check?: boolean }): Promise<void> {
         // Check authentication status if requested
         if (options.check) {
           try {
-            const config: AdapterConfig = { ...DEFAULT_CONFIG };
             const bridge = new CursorCliBridge(config, logger);
             const authStatus = await bridge.checkAuthentication();
 
@@ -205,10 +241,14 @@ async function handleAuthLogout(): Promise<void> {
 
   logger.info('Logging out from Cursor CLI...');
 
+  const cursorCommand = getCursorCommand(loadAuthConfig(logger).cursor, [
+    'logout',
+  ]);
+
   return new Promise<void>((resolve, reject) => {
-    const childProcess = spawn('cursor-agent', ['logout'], {
+    const childProcess = spawn(cursorCommand.command, cursorCommand.args, {
       stdio: 'inherit', // Inherit stdin/stdout/stderr for interactive logout
-      env: { ...process.env },
+      env: cursorCommand.env,
     });
 
     childProcess.on('close', (code: number | null) => {
@@ -240,7 +280,7 @@ async function handleAuthStatus(): Promise<void> {
   logger.info('Checking authentication status...');
 
   try {
-    const config: AdapterConfig = { ...DEFAULT_CONFIG };
+    const config = loadAuthConfig(logger);
     const bridge = new CursorCliBridge(config, logger);
     const authStatus = await bridge.checkAuthentication();
 
@@ -273,70 +313,109 @@ async function handleAuthStatus(): Promise<void> {
   }
 }
 
+/**
+ * Collect the config values set explicitly by command line flags
+ * Flags left at their defaults do not override the config file or environment.
+ */
+function getCliOverrides(): ConfigOverride[] {
+  const flags: Array<{
+    key: keyof CliOptions;
+    flag: string;
+    path: string;
+    parse?: (value: string) => unknown;
+  }> = [
+    { key: 'logLevel', flag: '--log-level', path: 'logLevel' },
+    { key: 'sessionDir', flag: '--session-dir', path: 'sessionDir' },
+    {
+      key: 'timeout',
+      flag: '--timeout',
+      path: 'cursor.timeout',
+      parse: Number,
+    },
+    {
+      key: 'retries',
+      flag: '--retries',
+      path: 'cursor.retries',
+      parse: Number,
+    },
+    {
+      key: 'maxSessions',
+      flag: '--max-sessions',
+      path: 'maxSessions',
+      parse: Number,
+    },
+    {
+      key: 'sessionTimeout',
+      flag: '--session-timeout',
+      path: 'sessionTimeout',
+      parse: Number,
+    },
+    {
+      key: 'maxProcesses',
+      flag: '--max-processes',
+      path: 'tools.terminal.maxProcesses',
+      parse: Number,
+    },
+    {
+      key: 'filesystem',
+      flag: '--no-filesystem',
+      path: 'tools.filesystem.enabled',
+    },
+    { key: 'terminal', flag: '--no-terminal', path: 'tools.terminal.enabled' },
+  ];
+
+  return flags
+    .filter(({ key }) => program.getOptionValueSource(key) === 'cli')
+    .map(({ key, flag, path, parse }) => ({
+      path,
+      value: parse ? parse(String(options[key])) : options[key],
+      source: { kind: 'cli', name: flag },
+    }));
+}
+
 async function main(): Promise<void> {
   try {
+    // Load and merge configuration: defaults < config file < env < flags
+    const resolveOptions = {
+      defaults: DEFAULT_CONFIG,
+      configFile: options.config,
+      env: process.env,
+      cliOverrides: getCliOverrides(),
+    };
+    let resolved: ResolvedConfig;
+    try {
+      resolved = resolveConfig(resolveOptions);
+    } catch (error) {
+      createLogger({ level: 'error' }).error(
+        `Failed to load configuration: ${error instanceof Error ? error.message : String(error)}`
+      );
+      process.exit(1);
+    }
+    const config: AdapterConfig = resolved.config;
+
     // Create logger based on options
     const logLevel = options.quiet
       ? 'error'
       : options.verbose
         ? 'debug'
-        : (options.logLevel as 'error' | 'warn' | 'info' | 'debug');
+        : config.logLevel;
     const logger = createLogger({
       level: logLevel,
       ...(options.logFile !== undefined && { filename: options.logFile }),
     });
 
     logger.info(`Starting Cursor Agent ACP Adapter v${VERSION}`);
-
-    // Load and merge configuration
-    let config: AdapterConfig = { ...DEFAULT_CONFIG };
-
-    // Load config file if specified
-    if (options.config) {
-      try {
-        const configFile = readFileSync(options.config, 'utf8');
-        const fileConfig = JSON.parse(configFile) as Partial<AdapterConfig>;
-        config = { ...config, ...fileConfig };
-        logger.info(`Loaded configuration from ${options.config}`);
-      } catch (error) {
-        logger.error(
-          `Failed to load configuration file: ${error instanceof Error ? error.message : String(error)}`
-        );
-        process.exit(1);
-      }
+    if (resolved.configFile) {
+      logger.info(`Loaded configuration from ${resolved.configFile}`);
     }
 
-    // Override config with command line options
-    if (options.logLevel) {
-      config.logLevel = options.logLevel as 'error' | 'warn' | 'info' | 'debug';
-    }
-    if (options.sessionDir) {
-      config.sessionDir = options.sessionDir;
-    }
-    if (options.timeout) {
-      config.cursor.timeout = parseInt(options.timeout, 10);
-    }
-    if (options.retries) {
-      config.cursor.retries = parseInt(options.retries, 10);
-    }
-    if (options.maxSessions) {
-      config.maxSessions = parseInt(options.maxSessions, 10);
-    }
-    if (options.sessionTimeout) {
-      config.sessionTimeout = parseInt(options.sessionTimeout, 10);
-    }
-    if (options.maxProcesses) {
-      config.tools.terminal.maxProcesses = parseInt(options.maxProcesses, 10);
-    }
-    if (options.noFilesystem) {
-      config.tools.filesystem.enabled = false;
-    }
-    if (options.noTerminal) {
-      config.tools.terminal.enabled = false;
+    if (options.explain) {
+      logger.info('Resolved configuration:');
+      explainConfig(resolved).forEach((line) => logger.info(`  ${line}`));
     }
 
     // Validate configuration
-    const validation = validateConfig(config);
+    const validation = resolved.validation;
     if (!validation.valid) {
       logger.error('Configuration validation failed:');
       validation.errors.forEach((error: string) =>
@@ -372,9 +451,22 @@ async function main(): Promise<void> {
       }
     }
 
+    // Reload the config file on change; env and flags keep overriding it
+    const configWatcher =
+      resolved.configFile && options.watchConfig
+        ? new ConfigWatcher({
+            filePath: resolved.configFile,
+            logger,
+            onChange: async () => {
+              await adapter.reloadConfig(resolveConfig(resolveOptions).config);
+            },
+          })
+        : null;
+
     // Setup graceful shutdown
     const shutdown = async (signal: string): Promise<void> => {
       logger.info(`Received ${signal}, shutting down gracefully...`);
+      configWatcher?.stop();
       try {
         await adapter.shutdown();
         logger.info('Adapter stopped successfully');
@@ -402,6 +494,9 @@ async function main(): Promise<void> {
       process.exit(1);
     });
 
+    // startStdio() resolves only once the connection closes
+    configWatcher?.start();
+
     // Start the adapter with stdio transport (ACP standard)
     logger.info('Starting ACP adapter server with stdio transport...');
     await adapter.startStdio();
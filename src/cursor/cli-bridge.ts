@@ -6,8 +6,13 @@
  */
 
 import { spawn, ChildProcess } from 'child_process';
+import { constants as fsConstants } from 'fs';
+import { access } from 'fs/promises';
 import {
+  CursorAuthenticationError,
   CursorError,
+  CursorNotInstalledError,
+  CursorTimeoutError,
   type AdapterConfig,
   type Logger,
   type CursorCommandOptions,
@@ -16,15 +21,30 @@ import {
   type CursorAuthStatus,
   type StreamChunk,
   type StreamProgress,
+  type CursorStreamEvent,
 } from '../types';
+import { CursorStreamParser, parseCursorUsage } from './stream-parser';
+import { classifyCursorFailure } from './error-classifier';
 
 export interface PromptOptions {
   sessionId: string;
   content: ProcessedContent;
   metadata?: Record<string, any> | undefined;
+  // Flags of the session mode; defaults to DEFAULT_CURSOR_ARGS
+  cursorArgs?: string[] | undefined;
+  // Absolute limit for the turn; cursor.timeout when unset
+  turnTimeoutMs?: number | undefined;
 }
 
+// Allow commands unless explicitly denied
+export const DEFAULT_CURSOR_ARGS = ['--force'];
+
+// How long `cursor-agent login` may wait for the user to sign in
+const LOGIN_TIMEOUT_MS = 5 * 60 * 1000;
+
 export interface StreamingPromptOptions extends PromptOptions {
+  // Limit for a stretch without cursor-agent output; cursor.timeout when unset
+  idleTimeoutMs?: number | undefined;
   abortSignal?: AbortSignal | undefined;
   onChunk?: ((chunk: StreamChunk) => Promise<void>) | undefined;
   onProgress?: ((progress: StreamProgress) => void) | undefined;
@@ -109,12 +129,14 @@ export class CursorCliBridge {
         }
 
         // If we got user info, we're authenticated
-        const authenticated = Boolean(
-          user ||
-          email ||
-          cleanOutput.toLowerCase().includes('signed in') ||
-          cleanOutput.toLowerCase().includes('logged in')
-        );
+        const authenticated =
+          !/not (?:logged|signed) in/i.test(cleanOutput) &&
+          Boolean(
+            user ||
+            email ||
+            cleanOutput.toLowerCase().includes('signed in') ||
+            cleanOutput.toLowerCase().includes('logged in')
+          );
 
         const result: CursorAuthStatus = {
           authenticated,
@@ -144,6 +166,72 @@ export class CursorCliBridge {
     }
   }
 
+  /**
+   * Logs in with `cursor-agent login`
+   * cursor-agent prints a sign-in URL and waits until the user finishes in
+   * the browser; the URL is passed to `onUrl` as soon as it appears.
+   *
+   * @returns The authentication status after login
+   */
+  async login(
+    options: { onUrl?: (url: string) => void; timeoutMs?: number } = {}
+  ): Promise<CursorAuthStatus> {
+    const timeoutMs = options.timeoutMs ?? LOGIN_TIMEOUT_MS;
+    this.logger.info('Starting cursor-agent login');
+
+    await new Promise<void>((resolve, reject) => {
+      const childProcess = this.spawnCursorAgent(['login']);
+
+      let output = '';
+      let url: string | undefined;
+      const onData = (data: Buffer) => {
+        output += data.toString();
+        if (!url) {
+          // Strip ANSI escape codes so they don't end up in the URL
+          // eslint-disable-next-line no-control-regex
+          const match = /https?:\/\/[^\s\x1B]+/.exec(output);
+          if (match) {
+            url = match[0];
+            this.logger.info(`Open this URL to log in to Cursor: ${url}`);
+            options.onUrl?.(url);
+          }
+        }
+      };
+      childProcess.stdout?.on('data', onData);
+      childProcess.stderr?.on('data', onData);
+
+      const timeout = setTimeout(() => {
+        childProcess.kill('SIGTERM');
+        reject(
+          new CursorTimeoutError(
+            `cursor-agent login did not finish within ${timeoutMs}ms`,
+            timeoutMs
+          )
+        );
+      }, timeoutMs);
+
+      childProcess.on('close', (code: number | null) => {
+        clearTimeout(timeout);
+        if (code === 0) {
+          resolve();
+        } else {
+          reject(
+            new CursorAuthenticationError(
+              `cursor-agent login failed: ${output.trim() || `exit code ${code}`}`
+            )
+          );
+        }
+      });
+
+      childProcess.on('error', (error: NodeJS.ErrnoException) => {
+        clearTimeout(timeout);
+        reject(toSpawnError(error));
+      });
+    });
+
+    return this.checkAuthentication();
+  }
+
   /**
    * Gets the cursor-agent version
    */
@@ -151,6 +239,7 @@ export class CursorCliBridge {
     this.logger.debug('Getting cursor-agent version');
 
     try {
+      await this.checkBinaryPath();
       const response = await this.executeCommand(['--version']);
 
       if (!response.success) {
@@ -160,8 +249,16 @@ export class CursorCliBridge {
       // Parse version from output - cursor-agent returns version in format like "1.2.3"
       const versionOutput = response.stdout?.trim() || '';
       const versionMatch = versionOutput.match(/\d+\.\d+\.\d+/);
+      if (!versionMatch) {
+        const { command } = getCursorCommand(this.config.cursor, []);
+        throw new CursorError(
+          `${command} does not look like cursor-agent: --version printed "${versionOutput}"`,
+          undefined,
+          'CURSOR_INCOMPATIBLE'
+        );
+      }
 
-      return versionMatch ? versionMatch[0] : versionOutput || 'unknown';
+      return versionMatch[0];
     } catch (error) {
       this.logger.error('Failed to get cursor-agent version', error);
       throw error instanceof CursorError
@@ -173,6 +270,28 @@ export class CursorCliBridge {
     }
   }
 
+  /**
+   * Checks that a configured cursor.binaryPath exists and is executable
+   */
+  private async checkBinaryPath(): Promise<void> {
+    const { binaryPath } = this.config.cursor;
+    if (!binaryPath) {
+      return;
+    }
+
+    try {
+      await access(binaryPath, fsConstants.X_OK);
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException).code;
+      throw new CursorNotInstalledError(
+        code === 'ENOENT'
+          ? `cursor-agent binary not found at ${binaryPath} (cursor.binaryPath)`
+          : `cursor-agent binary at ${binaryPath} is not executable (cursor.binaryPath)`,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
   /**
    * Executes a cursor-agent command
    */
@@ -189,7 +308,7 @@ export class CursorCliBridge {
       // Retry logic
       let lastError: Error | null = null;
       let attempt = 0;
-      const maxAttempts = this.config.cursor.retries + 1;
+      const maxAttempts = (options.retries ?? this.config.cursor.retries) + 1;
 
       while (attempt < maxAttempts) {
         try {
@@ -215,6 +334,10 @@ export class CursorCliBridge {
         }
       }
 
+      // Keep timeouts typed so callers can tell them from other failures
+      if (lastError instanceof CursorTimeoutError) {
+        throw lastError;
+      }
       throw new CursorError(
         `Command failed after ${maxAttempts} attempts: ${commandStr}`,
         lastError || undefined
@@ -430,13 +553,11 @@ export class CursorCliBridge {
     return new Promise((resolve, reject) => {
       this.logger.info(`About to spawn: cursor-agent ${command.join(' ')}`);
 
-      const childProcess = spawn('cursor-agent', command, {
+      // Don't use spawn's timeout option - it causes issues with cursor-agent
+      // We handle timeout manually with setTimeout below
+      const childProcess = this.spawnCursorAgent(command, {
         cwd: workingDir,
-        env: { ...process.env, ...options.env },
-        // Don't use spawn's timeout option - it causes issues with cursor-agent
-        // We handle timeout manually with setTimeout below
-        // Use 'ignore' for stdin since cursor-agent gets input from args, not stdin
-        stdio: ['ignore', 'pipe', 'pipe'],
+        ...(options.env && { env: options.env }),
       });
 
       this.logger.debug('Process spawned', { pid: childProcess.pid });
@@ -506,12 +627,12 @@ export class CursorCliBridge {
         resolve(response);
       });
 
-      childProcess.on('error', (error: Error) => {
+      childProcess.on('error', (error: NodeJS.ErrnoException) => {
         const duration = Date.now() - startTime;
         this.logger.error(
           `cursor-agent process error after ${duration}ms: ${error.message}`
         );
-        reject(new CursorError(`Process error: ${error.message}`, error));
+        reject(toSpawnError(error));
       });
 
       // Handle timeout
@@ -527,7 +648,12 @@ export class CursorCliBridge {
             }
           );
           childProcess.kill('SIGTERM');
-          reject(new CursorError(`Command timed out after ${timeoutMs}ms`));
+          reject(
+            new CursorTimeoutError(
+              `Command timed out after ${timeoutMs}ms`,
+              timeoutMs
+            )
+          );
         }
       }, timeoutMs);
 
@@ -575,7 +701,7 @@ export class CursorCliBridge {
           '--print',
           '--output-format',
           'json',
-          '--force', // Allow commands unless explicitly denied
+          ...(options.cursorArgs ?? DEFAULT_CURSOR_ARGS),
           content.value,
         ];
 
@@ -604,7 +730,22 @@ export class CursorCliBridge {
           `Running: cursor-agent ${args.join(' ')} (cwd: ${workingDir})`
         );
 
-        const response = await this.executeCommand(args, { cwd: workingDir });
+        // A prompt is not retried: cursor-agent may already have made changes
+        const response = await this.executeCommand(args, {
+          cwd: workingDir,
+          retries: 0,
+          ...(options.turnTimeoutMs && { timeout: options.turnTimeoutMs }),
+        }).catch((error: unknown) => {
+          if (error instanceof CursorTimeoutError && options.turnTimeoutMs) {
+            throw new CursorTimeoutError(
+              `cursor-agent turn exceeded ${options.turnTimeoutMs}ms`,
+              options.turnTimeoutMs,
+              error,
+              'turn'
+            );
+          }
+          throw error;
+        });
 
         this.logger.debug('cursor-agent response', {
           success: response.success,
@@ -620,8 +761,9 @@ export class CursorCliBridge {
             stderr: response.stderr,
             error: response.error,
           });
-          throw new CursorError(
-            `Cursor agent failed: ${response.error || response.stderr}`
+          throw classifyCursorFailure(
+            `Cursor agent failed: ${response.error || response.stderr}`,
+            { exitCode: response.exitCode, stderr: response.stderr, model }
           );
         }
 
@@ -658,6 +800,7 @@ export class CursorCliBridge {
             ...metadata,
             processedAt: new Date().toISOString(),
             contentLength: content.value.length,
+            ...getResultStats(parsedResponse),
           },
         };
       } finally {
@@ -714,7 +857,7 @@ export class CursorCliBridge {
         '--output-format',
         'stream-json',
         '--stream-partial-output',
-        '--force',
+        ...(options.cursorArgs ?? DEFAULT_CURSOR_ARGS),
         content.value,
       ];
 
@@ -735,32 +878,33 @@ export class CursorCliBridge {
 
       let responseContent = '';
       let processedChunks = 0;
+      const parser = new CursorStreamParser(this.logger);
+
+      const emitEvents = async (events: CursorStreamEvent[]) => {
+        if (!onChunk) {
+          return;
+        }
+        for (const event of events) {
+          if (event.type === 'text') {
+            // Non-JSON output is forwarded as plain text
+            await onChunk({ type: 'content', data: event.text });
+          } else {
+            await onChunk({ type: 'event', data: event });
+          }
+        }
+      };
 
       // Execute streaming command
       const streamOptions: any = {
         cwd: workingDir,
+        idleTimeoutMs: options.idleTimeoutMs,
+        turnTimeoutMs: options.turnTimeoutMs,
         onData: async (chunk: string) => {
           processedChunks++;
           responseContent += chunk;
 
-          // Try to parse as JSON stream
-          try {
-            const jsonChunk = JSON.parse(chunk);
-            if (onChunk) {
-              await onChunk({
-                type: 'content',
-                data: jsonChunk,
-              });
-            }
-          } catch {
-            // If not JSON, send as plain text
-            if (onChunk) {
-              await onChunk({
-                type: 'content',
-                data: chunk,
-              });
-            }
-          }
+          // Only complete lines are decoded; partial lines stay buffered
+          await emitEvents(parser.push(chunk));
 
           if (onProgress) {
             onProgress({
@@ -778,6 +922,9 @@ export class CursorCliBridge {
 
       const response = await this.executeStreamingCommand(args, streamOptions);
 
+      // Decode a final line that was not newline-terminated
+      await emitEvents(parser.flush());
+
       // Send completion chunk
       if (onChunk) {
         await onChunk({
@@ -832,25 +979,73 @@ export class CursorCliBridge {
       abortSignal?: AbortSignal;
       onData?: (chunk: string) => Promise<void>;
       cwd?: string;
+      idleTimeoutMs?: number;
+      turnTimeoutMs?: number;
     } = {}
   ): Promise<CursorResponse> {
     const { abortSignal, onData, cwd } = options;
+    const idleTimeoutMs = options.idleTimeoutMs ?? this.config.cursor.timeout;
+    const turnTimeoutMs = options.turnTimeoutMs;
 
     return new Promise((resolve, reject) => {
-      const childProcess = spawn('cursor-agent', command, {
-        // Use 'ignore' for stdin since cursor-agent gets input from args
-        stdio: ['ignore', 'pipe', 'pipe'],
-        env: { ...process.env },
+      const childProcess = this.spawnCursorAgent(command, {
         cwd: cwd || process.cwd(),
       });
 
       let stdout = '';
       let stderr = '';
+      // Data handlers run one at a time, in arrival order
+      let dataQueue: Promise<void> = Promise.resolve();
+
+      // Stops the process; the error is reported once the output received so
+      // far has been handled, so callers can keep it
+      const stopWithTimeout = (error: CursorTimeoutError) => {
+        if (childProcess.killed) {
+          return;
+        }
+        this.logger.warn(error.message, { command: command[0] });
+        childProcess.kill('SIGTERM');
+        dataQueue.then(() => reject(error));
+      };
+
+      // Idle limit, restarted whenever cursor-agent writes output
+      let idleTimeout: NodeJS.Timeout | undefined;
+      const resetIdleTimeout = () => {
+        clearTimeout(idleTimeout);
+        idleTimeout = setTimeout(() => {
+          stopWithTimeout(
+            new CursorTimeoutError(
+              `cursor-agent produced no output for ${idleTimeoutMs}ms`,
+              idleTimeoutMs,
+              undefined,
+              'idle'
+            )
+          );
+        }, idleTimeoutMs);
+      };
+      resetIdleTimeout();
+
+      // Absolute limit for the whole turn
+      const turnTimeout =
+        turnTimeoutMs !== undefined
+          ? setTimeout(() => {
+              stopWithTimeout(
+                new CursorTimeoutError(
+                  `cursor-agent turn exceeded ${turnTimeoutMs}ms`,
+                  turnTimeoutMs,
+                  undefined,
+                  'turn'
+                )
+              );
+            }, turnTimeoutMs)
+          : undefined;
 
       if (childProcess.stdout) {
-        childProcess.stdout.on('data', async (data: Buffer) => {
-          const chunk = data.toString();
+        // Decode as UTF-8 so multi-byte characters split across reads stay intact
+        childProcess.stdout.setEncoding('utf8');
+        childProcess.stdout.on('data', (chunk: string) => {
           stdout += chunk;
+          resetIdleTimeout();
 
           // Check for abort signal
           if (abortSignal?.aborted) {
@@ -860,11 +1055,13 @@ export class CursorCliBridge {
           }
 
           if (onData) {
-            try {
-              await onData(chunk);
-            } catch (error) {
-              this.logger.error('Error in data handler', error);
-            }
+            dataQueue = dataQueue.then(async () => {
+              try {
+                await onData(chunk);
+              } catch (error) {
+                this.logger.error('Error in data handler', error);
+              }
+            });
           }
         });
       }
@@ -872,6 +1069,7 @@ export class CursorCliBridge {
       if (childProcess.stderr) {
         childProcess.stderr.on('data', (data: Buffer) => {
           stderr += data.toString();
+          resetIdleTimeout();
         });
       }
 
@@ -889,23 +1087,19 @@ export class CursorCliBridge {
           response.error = stderr || `Process exited with code ${code}`;
         }
 
-        resolve(response);
+        // Let pending data handlers finish before reporting completion
+        dataQueue.then(() => resolve(response));
       });
 
-      childProcess.on('error', (error: Error) => {
-        reject(new CursorError(`Process error: ${error.message}`, error));
+      childProcess.on('error', (error: NodeJS.ErrnoException) => {
+        clearTimeout(idleTimeout);
+        clearTimeout(turnTimeout);
+        reject(toSpawnError(error));
       });
 
-      // Handle timeout
-      const timeout = setTimeout(() => {
-        if (!childProcess.killed) {
-          childProcess.kill('SIGTERM');
-          reject(new CursorError('Streaming command timed out'));
-        }
-      }, this.config.cursor.timeout);
-
       childProcess.on('close', () => {
-        clearTimeout(timeout);
+        clearTimeout(idleTimeout);
+        clearTimeout(turnTimeout);
       });
 
       // Handle abort signal
@@ -919,7 +1113,72 @@ export class CursorCliBridge {
     });
   }
 
+  /**
+   * Spawns cursor-agent with the configured binary, extra arguments and
+   * environment; stdin is ignored since cursor-agent gets input from args
+   */
+  private spawnCursorAgent(
+    args: string[],
+    options: { cwd?: string; env?: Record<string, string> } = {}
+  ): ChildProcess {
+    const cursorCommand = getCursorCommand(this.config.cursor, args);
+    return spawn(cursorCommand.command, cursorCommand.args, {
+      cwd: options.cwd || process.cwd(),
+      env: { ...cursorCommand.env, ...options.env },
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+  }
+
   private sleep(ms: number): Promise<void> {
     return new Promise((resolve) => setTimeout(resolve, ms));
   }
 }
+
+/**
+ * Reads the duration and usage fields from a `--output-format json` result
+ */
+function getResultStats(parsed: unknown): Record<string, any> {
+  if (!parsed || typeof parsed !== 'object') {
+    return {};
+  }
+
+  const result = parsed as Record<string, any>;
+  const usage = parseCursorUsage(result);
+  return {
+    ...(typeof result['duration_ms'] === 'number' && {
+      cursorDurationMs: result['duration_ms'],
+    }),
+    ...(typeof result['duration_api_ms'] === 'number' && {
+      cursorApiDurationMs: result['duration_api_ms'],
+    }),
+    ...(usage && { usage }),
+  };
+}
+
+/**
+ * Wraps a spawn failure; ENOENT means the cursor-agent executable is missing
+ */
+function toSpawnError(error: NodeJS.ErrnoException): CursorError {
+  return error.code === 'ENOENT'
+    ? new CursorNotInstalledError(
+        `cursor-agent CLI not installed or not in PATH: ${error.message}`,
+        error
+      )
+    : new CursorError(`Process error: ${error.message}`, error);
+}
+
+/**
+ * Builds a cursor-agent invocation from the `cursor` config
+ * `extraArgs` go before the command's own arguments; `env` is added to the
+ * adapter's environment.
+ */
+export function getCursorCommand(
+  cursor: AdapterConfig['cursor'],
+  args: string[]
+): { command: string; args: string[]; env: NodeJS.ProcessEnv } {
+  return {
+    command: cursor.binaryPath || 'cursor-agent',
+    args: [...(cursor.extraArgs ?? []), ...args],
+    env: { ...process.env, ...cursor.env },
+  };
+}
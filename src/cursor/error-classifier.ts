@@ -0,0 +1,95 @@
+/**
+ * Classification of cursor-agent failures
+ *
+ * cursor-agent reports most failures as text on stderr or in the result
+ * event of a turn. This module maps that text to the typed adapter errors,
+ * so clients get a stable JSON-RPC error code instead of a message to parse.
+ */
+
+import {
+  CursorAuthenticationError,
+  CursorNotInstalledError,
+  CursorProcessCrashError,
+  CursorRateLimitError,
+  CursorTimeoutError,
+  ModelUnavailableError,
+  type CursorError,
+} from '../types';
+
+const NOT_INSTALLED =
+  /\bENOENT\b|command not found|not installed|not in PATH|not found in PATH/i;
+const NOT_AUTHENTICATED =
+  /not authenticated|not logged in|unauthori[sz]ed|authentication (?:failed|required)|cursor-agent login|\b401\b/i;
+const RATE_LIMITED =
+  /rate.?limit|too many requests|\b429\b|quota (?:exceeded|exhausted)|usage limit/i;
+const MODEL_UNAVAILABLE =
+  /(?:unknown|invalid|unsupported) model|model\b.*\b(?:not (?:available|found|supported)|unavailable)/i;
+const TIMED_OUT = /timed out|\btimeout\b/i;
+// "retry after 30s", "Retry-After: 30"
+const RETRY_AFTER = /retry[- ]after:?\s*(\d+)\s*(ms|s)?/i;
+
+export interface CursorFailureContext {
+  exitCode?: number | undefined;
+  signal?: string | undefined;
+  stderr?: string | undefined;
+  model?: string | undefined;
+  timeoutMs?: number | undefined;
+  cause?: Error | undefined;
+}
+
+/**
+ * Maps a cursor-agent failure message to a typed error
+ * Failures that match no known cause are reported as a process crash.
+ *
+ * @param message - Error message, usually including cursor-agent's output
+ * @param context - Exit details of the cursor-agent process
+ */
+export function classifyCursorFailure(
+  message: string,
+  context: CursorFailureContext = {}
+): CursorError {
+  const text = `${message}\n${context.stderr ?? ''}`;
+
+  if (NOT_INSTALLED.test(text)) {
+    return new CursorNotInstalledError(message, context.cause);
+  }
+  if (NOT_AUTHENTICATED.test(text)) {
+    return new CursorAuthenticationError(message, context.cause);
+  }
+  if (RATE_LIMITED.test(text)) {
+    return new CursorRateLimitError(
+      message,
+      parseRetryAfter(text),
+      context.cause
+    );
+  }
+  if (MODEL_UNAVAILABLE.test(text)) {
+    return new ModelUnavailableError(message, context.model, context.cause);
+  }
+  if (TIMED_OUT.test(text)) {
+    return new CursorTimeoutError(
+      message,
+      context.timeoutMs ?? 0,
+      context.cause
+    );
+  }
+
+  return new CursorProcessCrashError(
+    message,
+    {
+      exitCode: context.exitCode,
+      signal: context.signal,
+      stderr: context.stderr,
+    },
+    context.cause
+  );
+}
+
+function parseRetryAfter(text: string): number | undefined {
+  const match = RETRY_AFTER.exec(text);
+  if (!match) {
+    return undefined;
+  }
+  const value = Number(match[1]);
+  return match[2]?.toLowerCase() === 'ms' ? value : value * 1000;
+}
@@ -0,0 +1,134 @@
+/**
+ * Plan mapping for cursor-agent todo lists
+ *
+ * cursor-agent keeps a todo list while it works and reports every change as
+ * a todo tool call (`updateTodosToolCall` in stream-json output). This module
+ * turns those lists into ACP plan entries, and reads markdown checklists from
+ * plain answers for turns that produced no todo events.
+ *
+ * Per ACP spec: https://agentclientprotocol.com/protocol/agent-plan
+ */
+
+import type {
+  PlanEntry,
+  PlanEntryPriority,
+  PlanEntryStatus,
+} from '@agentclientprotocol/sdk';
+import type { CursorToolCallEvent } from '../types';
+
+// cursor-agent tool names (without the `ToolCall` suffix) that carry todos
+const TODO_TOOL_NAMES = new Set(['todo', 'todoWrite', 'updateTodos']);
+
+const PRIORITIES: readonly PlanEntryPriority[] = ['high', 'medium', 'low'];
+
+// `- [ ] item`, `* [x] item`, `1. [~] item`
+const CHECKLIST_ITEM = /^\s*(?:[-*+]|\d+[.)])\s+\[([ xX~-])\]\s+(.+?)\s*$/;
+
+/**
+ * Whether a cursor-agent tool call updates its todo list
+ */
+export function isTodoToolCall(event: CursorToolCallEvent): boolean {
+  return TODO_TOOL_NAMES.has(event.toolName);
+}
+
+/**
+ * Applies a todo tool call to the plan entries of a turn, keyed by todo ID
+ * Calls with `merge: true` update and add items; others replace the list.
+ *
+ * @returns Whether the plan changed
+ */
+export function applyTodoUpdate(
+  entries: Map<string, PlanEntry>,
+  event: CursorToolCallEvent
+): boolean {
+  const todos = event.args['todos'];
+  if (!Array.isArray(todos)) {
+    return false;
+  }
+
+  const before = JSON.stringify([...entries]);
+  if (event.args['merge'] !== true) {
+    entries.clear();
+  }
+
+  todos.forEach((todo: unknown, index) => {
+    if (!todo || typeof todo !== 'object') {
+      return;
+    }
+    const item = todo as Record<string, unknown>;
+    const id = typeof item['id'] === 'string' ? item['id'] : `todo-${index}`;
+    const previous = entries.get(id);
+    const content =
+      typeof item['content'] === 'string' && item['content'].trim()
+        ? item['content'].trim()
+        : previous?.content;
+    if (!content) {
+      return;
+    }
+
+    const status = toPlanStatus(item['status']);
+    entries.set(id, {
+      content,
+      priority:
+        toPlanPriority(item['priority']) ?? previous?.priority ?? 'medium',
+      status: status?.status ?? previous?.status ?? 'pending',
+      ...(status?.cancelled && { _meta: { cancelled: true } }),
+    });
+  });
+
+  return JSON.stringify([...entries]) !== before;
+}
+
+/**
+ * Reads plan entries from the markdown checklist items of an answer
+ * `[x]` items are completed, `[~]` and `[-]` items in progress.
+ */
+export function parseMarkdownChecklist(text: string): PlanEntry[] {
+  const entries: PlanEntry[] = [];
+
+  for (const line of text.split('\n')) {
+    const match = CHECKLIST_ITEM.exec(line);
+    if (!match) {
+      continue;
+    }
+    const mark = match[1]!.toLowerCase();
+    entries.push({
+      content: match[2]!,
+      priority: 'medium',
+      status:
+        mark === 'x' ? 'completed' : mark === ' ' ? 'pending' : 'in_progress',
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * Maps cursor-agent todo statuses, e.g. `TODO_STATUS_IN_PROGRESS` or
+ * `in_progress`; cancelled items count as completed
+ */
+function toPlanStatus(
+  value: unknown
+): { status: PlanEntryStatus; cancelled?: boolean } | undefined {
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+
+  switch (value.toLowerCase().replace(/^todo_status_/, '')) {
+    case 'pending':
+      return { status: 'pending' };
+    case 'in_progress':
+      return { status: 'in_progress' };
+    case 'completed':
+      return { status: 'completed' };
+    case 'cancelled':
+      return { status: 'completed', cancelled: true };
+    default:
+      return undefined;
+  }
+}
+
+function toPlanPriority(value: unknown): PlanEntryPriority | undefined {
+  const priority = typeof value === 'string' ? value.toLowerCase() : '';
+  return PRIORITIES.find((p) => p === priority);
+}
@@ -0,0 +1,316 @@
+/**
+ * CursorStreamParser - Decodes cursor-agent stream-json output
+ *
+ * `cursor-agent --output-format stream-json` writes one JSON event per line
+ * (NDJSON). Pipe reads do not respect line boundaries: a single event can be
+ * split across several reads and several events can arrive in one read. This
+ * parser buffers partial lines until their newline arrives and turns each
+ * complete line into a typed CursorStreamEvent.
+ */
+
+import type {
+  Logger,
+  CursorStreamEvent,
+  CursorToolCallEvent,
+  CursorUsage,
+} from '../types';
+
+const TOOL_CALL_SUFFIX = 'ToolCall';
+
+export class CursorStreamParser {
+  private logger: Logger;
+  private buffer = '';
+
+  constructor(logger: Logger) {
+    this.logger = logger;
+  }
+
+  /**
+   * Feeds a chunk of stdout into the parser
+   * Returns the events for every line completed by this chunk
+   */
+  push(chunk: string): CursorStreamEvent[] {
+    this.buffer += chunk;
+
+    const events: CursorStreamEvent[] = [];
+    let newlineIndex = this.buffer.indexOf('\n');
+
+    while (newlineIndex !== -1) {
+      const line = this.buffer.slice(0, newlineIndex);
+      this.buffer = this.buffer.slice(newlineIndex + 1);
+
+      const event = this.parseLine(line);
+      if (event) {
+        events.push(event);
+      }
+
+      newlineIndex = this.buffer.indexOf('\n');
+    }
+
+    return events;
+  }
+
+  /**
+   * Parses any trailing line that was not newline-terminated
+   * Call once the process has exited
+   */
+  flush(): CursorStreamEvent[] {
+    const line = this.buffer;
+    this.buffer = '';
+
+    const event = this.parseLine(line);
+    return event ? [event] : [];
+  }
+
+  /**
+   * Parses a single line of stream-json output
+   * Returns null for blank lines
+   */
+  parseLine(line: string): CursorStreamEvent | null {
+    const trimmed = line.replace(/\r$/, '');
+    if (!trimmed.trim()) {
+      return null;
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(trimmed);
+    } catch {
+      this.logger.debug('Non-JSON line in cursor-agent stream output', {
+        length: trimmed.length,
+      });
+      return { type: 'text', text: `${trimmed}\n` };
+    }
+
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      return { type: 'text', text: `${trimmed}\n` };
+    }
+
+    return this.toEvent(parsed as Record<string, any>);
+  }
+
+  private toEvent(raw: Record<string, any>): CursorStreamEvent {
+    const sessionId =
+      typeof raw['session_id'] === 'string' ? raw['session_id'] : undefined;
+
+    switch (raw['type']) {
+      case 'system':
+        if (raw['subtype'] === 'init') {
+          return {
+            type: 'system',
+            subtype: 'init',
+            ...(sessionId && { sessionId }),
+            ...(typeof raw['model'] === 'string' && { model: raw['model'] }),
+            ...(typeof raw['cwd'] === 'string' && { cwd: raw['cwd'] }),
+            raw,
+          };
+        }
+        break;
+
+      case 'assistant': {
+        const text = this.extractMessageText(raw['message']);
+        if (text !== null) {
+          return {
+            type: 'assistant',
+            text,
+            isDelta: raw['timestamp_ms'] !== undefined,
+            ...(sessionId && { sessionId }),
+            raw,
+          };
+        }
+        break;
+      }
+
+      case 'thinking':
+        return {
+          type: 'thinking',
+          subtype: typeof raw['subtype'] === 'string' ? raw['subtype'] : '',
+          ...(typeof raw['text'] === 'string' && { text: raw['text'] }),
+          ...(sessionId && { sessionId }),
+          raw,
+        };
+
+      case 'tool_call': {
+        const event = this.toToolCallEvent(raw, sessionId);
+        if (event) {
+          return event;
+        }
+        break;
+      }
+
+      case 'result': {
+        const usage = parseCursorUsage(raw);
+        return {
+          type: 'result',
+          subtype: typeof raw['subtype'] === 'string' ? raw['subtype'] : '',
+          isError: raw['is_error'] === true || raw['subtype'] === 'error',
+          ...(typeof raw['result'] === 'string' && { result: raw['result'] }),
+          ...(typeof raw['duration_ms'] === 'number' && {
+            durationMs: raw['duration_ms'],
+          }),
+          ...(typeof raw['duration_api_ms'] === 'number' && {
+            durationApiMs: raw['duration_api_ms'],
+          }),
+          ...(usage && { usage }),
+          ...(sessionId && { sessionId }),
+          raw,
+        };
+      }
+    }
+
+    return { type: 'unknown', raw };
+  }
+
+  /**
+   * Normalizes a tool_call event
+   * cursor-agent wraps each call in a single key naming the tool, e.g.
+   * `{ readToolCall: { args, result } }`, or uses a generic
+   * `{ function: { name, arguments } }` form for other tools.
+   */
+  private toToolCallEvent(
+    raw: Record<string, any>,
+    sessionId: string | undefined
+  ): CursorToolCallEvent | null {
+    const subtype = raw['subtype'];
+    if (subtype !== 'started' && subtype !== 'completed') {
+      return null;
+    }
+
+    const callId = raw['call_id'];
+    const toolCall = raw['tool_call'];
+    if (
+      typeof callId !== 'string' ||
+      !toolCall ||
+      typeof toolCall !== 'object'
+    ) {
+      return null;
+    }
+
+    const [key] = Object.keys(toolCall);
+    if (!key) {
+      return null;
+    }
+
+    const body = (toolCall[key] ?? {}) as Record<string, any>;
+    let toolName = key;
+    let args: Record<string, any> = {};
+
+    if (key === 'function') {
+      toolName = typeof body['name'] === 'string' ? body['name'] : 'function';
+      args = this.parseFunctionArguments(body['arguments']);
+    } else {
+      if (key.endsWith(TOOL_CALL_SUFFIX)) {
+        toolName = key.slice(0, -TOOL_CALL_SUFFIX.length);
+      }
+      if (body['args'] && typeof body['args'] === 'object') {
+        args = body['args'];
+      }
+    }
+
+    return {
+      type: 'tool_call',
+      subtype,
+      callId,
+      toolName,
+      args,
+      ...(body['result'] &&
+        typeof body['result'] === 'object' && { result: body['result'] }),
+      ...(sessionId && { sessionId }),
+      raw,
+    };
+  }
+
+  private parseFunctionArguments(value: unknown): Record<string, any> {
+    if (value && typeof value === 'object') {
+      return value as Record<string, any>;
+    }
+    if (typeof value === 'string') {
+      try {
+        const parsed = JSON.parse(value);
+        if (parsed && typeof parsed === 'object') {
+          return parsed;
+        }
+      } catch {
+        // Fall through to wrapping the raw string
+      }
+      return { arguments: value };
+    }
+    return {};
+  }
+
+  /**
+   * Joins the text parts of an assistant message
+   * Returns null when the message has no text content
+   */
+  private extractMessageText(message: unknown): string | null {
+    if (!message || typeof message !== 'object') {
+      return null;
+    }
+
+    const content = (message as Record<string, any>)['content'];
+    if (typeof content === 'string') {
+      return content;
+    }
+    if (!Array.isArray(content)) {
+      return null;
+    }
+
+    const parts = content
+      .filter(
+        (part: any) =>
+          part && part.type === 'text' && typeof part.text === 'string'
+      )
+      .map((part: any) => part.text as string);
+
+    return parts.length > 0 ? parts.join('') : null;
+  }
+}
+
+/**
+ * Reads the token usage and cost from a cursor-agent result object
+ * Counts may be reported in camelCase or snake_case; missing counts are 0.
+ *
+ * @returns undefined when the result carries no usage
+ */
+export function parseCursorUsage(
+  raw: Record<string, any>
+): CursorUsage | undefined {
+  const usage = raw['usage'];
+  const costUsd = readNumber(raw, 'totalCostUsd', 'total_cost_usd');
+  if ((!usage || typeof usage !== 'object') && costUsd === undefined) {
+    return undefined;
+  }
+
+  const counts: Record<string, any> =
+    usage && typeof usage === 'object' ? usage : {};
+  const inputTokens = readNumber(counts, 'inputTokens', 'input_tokens') ?? 0;
+  const outputTokens = readNumber(counts, 'outputTokens', 'output_tokens') ?? 0;
+  const cacheReadTokens =
+    readNumber(counts, 'cacheReadTokens', 'cache_read_input_tokens') ?? 0;
+  const cacheWriteTokens =
+    readNumber(counts, 'cacheWriteTokens', 'cache_creation_input_tokens') ?? 0;
+
+  return {
+    inputTokens,
+    outputTokens,
+    cacheReadTokens,
+    cacheWriteTokens,
+    totalTokens:
+      readNumber(counts, 'totalTokens', 'total_tokens') ??
+      inputTokens + outputTokens + cacheReadTokens + cacheWriteTokens,
+    ...(costUsd !== undefined && { costUsd }),
+  };
+}
+
+function readNumber(
+  source: Record<string, any>,
+  ...keys: string[]
+): number | undefined {
+  for (const key of keys) {
+    const value = source[key];
+    if (typeof value === 'number' && Number.isFinite(value) && value >= 0) {
+      return value;
+    }
+  }
+  return undefined;
+}
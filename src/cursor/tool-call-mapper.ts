@@ -0,0 +1,311 @@
+/**
+ * Tool call mapping for cursor-agent stream events
+ *
+ * Translates cursor-agent's own tool activity (`tool_call` stream-json events)
+ * into the fields of ACP tool_call / tool_call_update notifications, so
+ * clients can follow the files the agent touches and render its edits as diffs.
+ *
+ * Per ACP spec: https://agentclientprotocol.com/protocol/tool-calls
+ */
+
+import * as path from 'path';
+import type {
+  ToolKind,
+  ToolCallContent,
+  ToolCallLocation,
+  ToolCallStatus,
+} from '@agentclientprotocol/sdk';
+import type { CursorToolCallEvent } from '../types';
+
+export interface MappedToolCallStart {
+  title: string;
+  kind: ToolKind;
+  locations: ToolCallLocation[];
+  rawInput: Record<string, any>;
+}
+
+export interface MappedToolCallResult {
+  status: Extract<ToolCallStatus, 'completed' | 'failed'>;
+  content: ToolCallContent[];
+  rawOutput?: Record<string, any>;
+  error?: string;
+}
+
+// cursor-agent tool names (without the `ToolCall` suffix) -> ACP tool kinds
+const TOOL_KINDS: Record<string, ToolKind> = {
+  read: 'read',
+  ls: 'read',
+  write: 'edit',
+  edit: 'edit',
+  multiEdit: 'edit',
+  delete: 'delete',
+  move: 'move',
+  shell: 'execute',
+  terminal: 'execute',
+  grep: 'search',
+  glob: 'search',
+  semSearch: 'search',
+  codebaseSearch: 'search',
+  fileSearch: 'search',
+  webSearch: 'fetch',
+  webFetch: 'fetch',
+  fetch: 'fetch',
+  todo: 'think',
+  updateTodos: 'think',
+};
+
+/**
+ * Gets the ACP tool kind for a cursor-agent tool name
+ */
+export function getCursorToolKind(toolName: string): ToolKind {
+  return TOOL_KINDS[toolName] ?? 'other';
+}
+
+/**
+ * Maps a `tool_call` started event to ACP tool_call fields
+ */
+export function mapToolCallStart(
+  event: CursorToolCallEvent,
+  cwd: string
+): MappedToolCallStart {
+  return {
+    title: getToolTitle(event, cwd),
+    kind: getCursorToolKind(event.toolName),
+    locations: getToolLocations(event, cwd),
+    rawInput: event.args,
+  };
+}
+
+/**
+ * Maps a `tool_call` completed event to ACP tool_call_update fields
+ * cursor-agent reports results as `{ success: {...} }`, or as an `error`,
+ * `failure` or `rejected` entry when the call did not succeed.
+ */
+export function mapToolCallResult(
+  event: CursorToolCallEvent,
+  cwd: string
+): MappedToolCallResult {
+  const result = event.result;
+  const success = result?.['success'];
+
+  if (!result || !success || typeof success !== 'object') {
+    const error = getErrorMessage(result);
+    return {
+      status: 'failed',
+      content: [],
+      ...(result && { rawOutput: result }),
+      error,
+    };
+  }
+
+  return {
+    status: 'completed',
+    content: getResultContent(event, success, cwd),
+    rawOutput: result,
+  };
+}
+
+function getToolTitle(event: CursorToolCallEvent, cwd: string): string {
+  const args = event.args;
+  const filePath = getPathArg(args);
+  const displayPath = filePath
+    ? path.relative(cwd, resolve(cwd, filePath))
+    : '';
+  const target = displayPath || filePath || '';
+
+  switch (event.toolName) {
+    case 'read':
+      return target ? `Read ${target}` : 'Read file';
+    case 'write':
+      return target ? `Write ${target}` : 'Write file';
+    case 'edit':
+    case 'multiEdit':
+      return target ? `Edit ${target}` : 'Edit file';
+    case 'delete':
+      return target ? `Delete ${target}` : 'Delete file';
+    case 'ls':
+      return target ? `List ${target}` : 'List directory';
+    case 'shell':
+    case 'terminal':
+      return typeof args['command'] === 'string'
+        ? `Run: ${args['command']}`
+        : 'Run command';
+    case 'grep':
+      return typeof args['pattern'] === 'string'
+        ? `Search: ${args['pattern']}`
+        : 'Search';
+    case 'glob':
+      return typeof args['globPattern'] === 'string'
+        ? `Find files: ${args['globPattern']}`
+        : 'Find files';
+    case 'semSearch':
+    case 'codebaseSearch':
+      return typeof args['query'] === 'string'
+        ? `Search codebase: ${args['query']}`
+        : 'Search codebase';
+    case 'todo':
+    case 'updateTodos':
+      return 'Update plan';
+    default:
+      return target ? `${event.toolName} ${target}` : event.toolName;
+  }
+}
+
+function getToolLocations(
+  event: CursorToolCallEvent,
+  cwd: string
+): ToolCallLocation[] {
+  const args = event.args;
+  const filePath = getPathArg(args) ?? getDirectoryArg(args);
+  if (!filePath) {
+    return [];
+  }
+
+  const location: ToolCallLocation = { path: resolve(cwd, filePath) };
+  if (typeof args['offset'] === 'number' && args['offset'] > 0) {
+    location.line = args['offset'];
+  }
+  return [location];
+}
+
+function getResultContent(
+  event: CursorToolCallEvent,
+  success: Record<string, any>,
+  cwd: string
+): ToolCallContent[] {
+  const args = event.args;
+  const filePath = getPathArg(args) ?? success['path'];
+
+  switch (event.toolName) {
+    case 'write':
+      if (
+        typeof filePath === 'string' &&
+        typeof args['fileText'] === 'string'
+      ) {
+        return [
+          {
+            type: 'diff',
+            path: resolve(cwd, filePath),
+            oldText: stringOrNull(success['beforeFullFileContent']),
+            newText: args['fileText'],
+          },
+        ];
+      }
+      return [];
+
+    case 'edit':
+    case 'multiEdit':
+      return getEditContent(args, success, filePath, cwd);
+
+    case 'shell':
+    case 'terminal': {
+      const output = [success['stdout'], success['stderr']]
+        .filter((text): text is string => typeof text === 'string' && !!text)
+        .join('\n');
+      return output ? [textContent(`\`\`\`\n${output}\n\`\`\``)] : [];
+    }
+
+    default:
+      return [];
+  }
+}
+
+function getEditContent(
+  args: Record<string, any>,
+  success: Record<string, any>,
+  filePath: unknown,
+  cwd: string
+): ToolCallContent[] {
+  if (typeof filePath !== 'string') {
+    return [];
+  }
+  const absolutePath = resolve(cwd, filePath);
+
+  // Full before/after file contents give the most precise diff
+  if (typeof success['afterFullFileContent'] === 'string') {
+    return [
+      {
+        type: 'diff',
+        path: absolutePath,
+        oldText: stringOrNull(success['beforeFullFileContent']),
+        newText: success['afterFullFileContent'],
+      },
+    ];
+  }
+
+  // Otherwise fall back to the replaced snippet from the arguments
+  const strReplace = args['strReplace'];
+  if (
+    strReplace &&
+    typeof strReplace === 'object' &&
+    typeof strReplace['newText'] === 'string'
+  ) {
+    return [
+      {
+        type: 'diff',
+        path: absolutePath,
+        oldText: stringOrNull(strReplace['oldText']),
+        newText: strReplace['newText'],
+      },
+    ];
+  }
+
+  if (typeof success['diffString'] === 'string' && success['diffString']) {
+    return [textContent(`\`\`\`diff\n${success['diffString']}\n\`\`\``)];
+  }
+
+  return [];
+}
+
+function getErrorMessage(result: Record<string, any> | undefined): string {
+  if (!result) {
+    return 'Tool call returned no result';
+  }
+
+  for (const key of ['error', 'failure', 'rejected']) {
+    const value = result[key];
+    if (typeof value === 'string' && value) {
+      return value;
+    }
+    if (value && typeof value === 'object') {
+      for (const field of ['message', 'error', 'reason', 'stderr']) {
+        if (typeof value[field] === 'string' && value[field]) {
+          return value[field];
+        }
+      }
+      return key === 'rejected' ? 'Tool call rejected' : 'Tool call failed';
+    }
+  }
+
+  return 'Tool call failed';
+}
+
+function getPathArg(args: Record<string, any>): string | undefined {
+  for (const key of ['path', 'filePath', 'targetFile']) {
+    if (typeof args[key] === 'string' && args[key]) {
+      return args[key];
+    }
+  }
+  return undefined;
+}
+
+function getDirectoryArg(args: Record<string, any>): string | undefined {
+  for (const key of ['targetDirectory', 'directory']) {
+    if (typeof args[key] === 'string' && args[key]) {
+      return args[key];
+    }
+  }
+  return undefined;
+}
+
+function resolve(cwd: string, filePath: string): string {
+  return path.isAbsolute(filePath) ? filePath : path.resolve(cwd, filePath);
+}
+
+function stringOrNull(value: unknown): string | null {
+  return typeof value === 'string' ? value : null;
+}
+
+function textContent(text: string): ToolCallContent {
+  return { type: 'content', content: { type: 'text', text } };
+}
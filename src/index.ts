@@ -36,10 +36,23 @@ export type {
 
   // Error types
   AdapterError,
+  AdapterErrorData,
   ProtocolError,
   CursorError,
+  CursorNotInstalledError,
+  CursorAuthenticationError,
+  CursorRateLimitError,
+  ModelUnavailableError,
+  CursorTimeoutError,
+  CursorTimeoutLimit,
+  CursorProcessCrashError,
+  SessionNotFoundError,
+  PermissionDeniedError,
 } from './types';
 
+// JSON-RPC error codes of typed adapter errors
+export { AdapterErrorCode } from './types';
+
 // Protocol types
 export type { InitializationConfig } from './protocol/initialization';
 
@@ -66,6 +79,7 @@ export {
   validateObjectParams,
   createErrorResponse,
   createSuccessResponse,
+  toJsonRpcError,
   JsonRpcErrorCode,
 } from './utils/json-rpc';
 
@@ -0,0 +1,294 @@
+/**
+ * McpClient - JSON-RPC client for a single MCP server
+ *
+ * Performs the MCP initialize handshake over a transport, then lists and
+ * calls the server's tools.
+ *
+ * Per MCP spec: https://modelcontextprotocol.io/specification/2025-06-18/basic/lifecycle
+ * Per MCP spec: https://modelcontextprotocol.io/specification/2025-06-18/server/tools
+ */
+
+import type { McpServer } from '@agentclientprotocol/sdk';
+import { McpError, type Logger, type McpServerType } from '../types';
+import {
+  createMcpTransport,
+  getMcpServerType,
+  type McpMessage,
+  type McpTransport,
+  type McpTransportOptions,
+} from './transport';
+
+export const MCP_PROTOCOL_VERSION = '2025-06-18';
+
+const DEFAULT_REQUEST_TIMEOUT = 30000;
+
+export interface McpClientOptions extends McpTransportOptions {
+  /** Milliseconds to wait for each request before failing it */
+  requestTimeout?: number;
+  clientInfo?: { name: string; version: string };
+}
+
+export interface McpToolInfo {
+  name: string;
+  title?: string;
+  description?: string;
+  inputSchema: Record<string, any>;
+}
+
+export interface McpCallToolResult {
+  content: Array<Record<string, any>>;
+  structuredContent?: Record<string, any>;
+  isError?: boolean;
+}
+
+interface PendingRequest {
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+  timeout: NodeJS.Timeout;
+}
+
+export class McpClient {
+  readonly name: string;
+  readonly type: McpServerType;
+
+  private server: McpServer;
+  private logger: Logger;
+  private options: McpClientOptions;
+  private transport: McpTransport | null = null;
+  private nextId = 1;
+  private pending = new Map<number, PendingRequest>();
+  private connected = false;
+
+  constructor(
+    server: McpServer,
+    logger: Logger,
+    options: McpClientOptions = {}
+  ) {
+    this.server = server;
+    this.name = server.name;
+    this.type = getMcpServerType(server);
+    this.logger = logger;
+    this.options = options;
+  }
+
+  /**
+   * Starts the transport and performs the initialize handshake
+   */
+  async connect(): Promise<void> {
+    const transport = createMcpTransport(
+      this.server,
+      this.logger,
+      this.options
+    );
+    transport.onMessage = (message) => this.handleMessage(message);
+    transport.onClose = (error) => this.handleClose(error);
+    this.transport = transport;
+
+    try {
+      await transport.start();
+
+      const result = await this.request('initialize', {
+        protocolVersion: MCP_PROTOCOL_VERSION,
+        capabilities: {},
+        clientInfo: this.options.clientInfo ?? {
+          name: 'cursor-agent-acp',
+          version: '0.0.0',
+        },
+      });
+      await this.notify('notifications/initialized');
+      this.connected = true;
+
+      this.logger.debug(`Connected to MCP server: ${this.name}`, {
+        type: this.type,
+        protocolVersion: result?.protocolVersion,
+        serverInfo: result?.serverInfo,
+      });
+    } catch (error) {
+      await this.close();
+      throw error instanceof McpError
+        ? error
+        : new McpError(
+            `Failed to connect to MCP server ${this.name}: ${error instanceof Error ? error.message : String(error)}`,
+            this.name,
+            error instanceof Error ? error : undefined
+          );
+    }
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  /**
+   * Lists all tools offered by the server, following pagination cursors
+   */
+  async listTools(): Promise<McpToolInfo[]> {
+    const tools: McpToolInfo[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const result = await this.request('tools/list', cursor ? { cursor } : {});
+      for (const tool of result?.tools ?? []) {
+        if (tool && typeof tool.name === 'string') {
+          tools.push({
+            name: tool.name,
+            ...(typeof tool.title === 'string' && { title: tool.title }),
+            ...(typeof tool.description === 'string' && {
+              description: tool.description,
+            }),
+            inputSchema:
+              tool.inputSchema && typeof tool.inputSchema === 'object'
+                ? tool.inputSchema
+                : { type: 'object' },
+          });
+        }
+      }
+      cursor =
+        typeof result?.nextCursor === 'string' ? result.nextCursor : undefined;
+    } while (cursor);
+
+    return tools;
+  }
+
+  /**
+   * Calls a tool on the server
+   */
+  async callTool(
+    name: string,
+    args: Record<string, any>
+  ): Promise<McpCallToolResult> {
+    const result = await this.request('tools/call', {
+      name,
+      arguments: args,
+    });
+
+    return {
+      content: Array.isArray(result?.content) ? result.content : [],
+      ...(result?.structuredContent && {
+        structuredContent: result.structuredContent,
+      }),
+      ...(result?.isError === true && { isError: true }),
+    };
+  }
+
+  /**
+   * Closes the connection and fails any in-flight requests
+   */
+  async close(): Promise<void> {
+    this.connected = false;
+    const transport = this.transport;
+    this.transport = null;
+
+    this.rejectPending(
+      new McpError(`MCP server ${this.name} connection closed`, this.name)
+    );
+
+    if (transport) {
+      delete transport.onClose;
+      await transport.close();
+    }
+  }
+
+  private async request(method: string, params: Record<string, any>) {
+    const transport = this.transport;
+    if (!transport) {
+      throw new McpError(`MCP server ${this.name} is not connected`, this.name);
+    }
+
+    const id = this.nextId++;
+    const timeoutMs = this.options.requestTimeout ?? DEFAULT_REQUEST_TIMEOUT;
+
+    const response = new Promise<any>((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        this.pending.delete(id);
+        reject(
+          new McpError(
+            `MCP request ${method} to ${this.name} timed out after ${timeoutMs}ms`,
+            this.name
+          )
+        );
+      }, timeoutMs);
+      this.pending.set(id, { resolve, reject, timeout });
+    });
+
+    try {
+      await transport.send({ jsonrpc: '2.0', id, method, params });
+    } catch (error) {
+      const pending = this.pending.get(id);
+      if (!pending) {
+        // The connection closed during the write and already failed it
+        return response;
+      }
+      clearTimeout(pending.timeout);
+      this.pending.delete(id);
+      throw error;
+    }
+
+    return response;
+  }
+
+  private async notify(method: string): Promise<void> {
+    await this.transport?.send({ jsonrpc: '2.0', method });
+  }
+
+  private handleMessage(message: McpMessage): void {
+    // Server-initiated requests (e.g. ping) need a response
+    if (typeof message['method'] === 'string' && message['id'] !== undefined) {
+      const reply =
+        message['method'] === 'ping'
+          ? { jsonrpc: '2.0', id: message['id'], result: {} }
+          : {
+              jsonrpc: '2.0',
+              id: message['id'],
+              error: { code: -32601, message: 'Method not found' },
+            };
+      this.transport?.send(reply).catch((error) => {
+        this.logger.debug(`Failed to reply to MCP server ${this.name}`, {
+          error,
+        });
+      });
+      return;
+    }
+
+    const id = message['id'];
+    if (typeof id !== 'number') {
+      return;
+    }
+
+    const pending = this.pending.get(id);
+    if (!pending) {
+      return;
+    }
+    clearTimeout(pending.timeout);
+    this.pending.delete(id);
+
+    if (message['error']) {
+      pending.reject(
+        new McpError(
+          `MCP server ${this.name} error: ${message['error'].message ?? 'Unknown error'}`,
+          this.name
+        )
+      );
+    } else {
+      pending.resolve(message['result']);
+    }
+  }
+
+  private handleClose(error?: Error): void {
+    this.connected = false;
+    this.logger.warn(`MCP server connection closed: ${this.name}`, {
+      error: error?.message,
+    });
+    this.rejectPending(
+      error ?? new McpError(`MCP server ${this.name} disconnected`, this.name)
+    );
+  }
+
+  private rejectPending(error: Error): void {
+    for (const pending of this.pending.values()) {
+      clearTimeout(pending.timeout);
+      pending.reject(error);
+    }
+    this.pending.clear();
+  }
+}
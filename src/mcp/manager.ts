@@ -0,0 +1,280 @@
+/**
+ * McpManager - Per-session MCP server connections
+ *
+ * Connects to the MCP servers an ACP client passes in session/new and
+ * session/load, and exposes their tools as a session-scoped ToolProvider.
+ * Connections live as long as the session and are closed when it is
+ * deleted or expires.
+ *
+ * Per ACP spec: https://agentclientprotocol.com/protocol/session-setup#mcp-servers
+ */
+
+import type { McpServer } from '@agentclientprotocol/sdk';
+import type {
+  Logger,
+  McpServerStatus,
+  Tool,
+  ToolParameters,
+  ToolProvider,
+  ToolResult,
+} from '../types';
+import { McpClient, type McpClientOptions, type McpToolInfo } from './client';
+import { getMcpServerType } from './transport';
+
+// Tools are exposed as mcp__<server>__<tool> so names stay unique per session
+const TOOL_NAME_PREFIX = 'mcp';
+const TOOL_NAME_SEPARATOR = '__';
+
+interface McpConnection {
+  client: McpClient;
+  tools: McpToolInfo[];
+}
+
+interface SessionConnections {
+  connections: McpConnection[];
+  statuses: McpServerStatus[];
+}
+
+export class McpManager {
+  private logger: Logger;
+  private options: McpClientOptions;
+  private sessions = new Map<string, SessionConnections>();
+
+  constructor(logger: Logger, options: McpClientOptions = {}) {
+    this.logger = logger;
+    this.options = options;
+  }
+
+  /**
+   * Connects a session to its MCP servers
+   * Existing connections for the session are closed first. A server that
+   * fails to connect is reported as failed and does not affect the others.
+   */
+  async connectSession(
+    sessionId: string,
+    servers: McpServer[],
+    cwd?: string
+  ): Promise<McpServerStatus[]> {
+    await this.disconnectSession(sessionId);
+
+    if (servers.length === 0) {
+      return [];
+    }
+
+    this.logger.info('Connecting MCP servers for session', {
+      sessionId,
+      servers: servers.map((server) => server.name),
+    });
+
+    const results = await Promise.all(
+      servers.map((server) => this.connectServer(server, cwd))
+    );
+
+    const session: SessionConnections = {
+      connections: results
+        .map((result) => result.connection)
+        .filter((connection): connection is McpConnection => !!connection),
+      statuses: results.map((result) => result.status),
+    };
+    this.sessions.set(sessionId, session);
+
+    return session.statuses;
+  }
+
+  /**
+   * Closes all MCP connections of a session
+   */
+  async disconnectSession(sessionId: string): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+    this.sessions.delete(sessionId);
+
+    await Promise.all(
+      session.connections.map(async ({ client }) => {
+        try {
+          await client.close();
+        } catch (error) {
+          this.logger.warn(`Failed to close MCP server: ${client.name}`, {
+            error,
+          });
+        }
+      })
+    );
+
+    this.logger.debug('Disconnected MCP servers for session', {
+      sessionId,
+      serverCount: session.connections.length,
+    });
+  }
+
+  /**
+   * Gets the connection status of each MCP server of a session
+   */
+  getStatus(sessionId: string): McpServerStatus[] {
+    return this.sessions.get(sessionId)?.statuses ?? [];
+  }
+
+  /**
+   * Checks whether a session has any connected MCP servers
+   */
+  hasConnections(sessionId: string): boolean {
+    return (this.sessions.get(sessionId)?.connections.length ?? 0) > 0;
+  }
+
+  /**
+   * Creates a ToolProvider exposing the MCP tools of a session
+   */
+  createToolProvider(sessionId: string): ToolProvider {
+    return {
+      name: `mcp:${sessionId}`,
+      description: 'Tools from MCP servers connected to this session',
+      getTools: () => this.getSessionTools(sessionId),
+    };
+  }
+
+  /**
+   * Gets the MCP tools of a session as registry tools
+   */
+  getSessionTools(sessionId: string): Tool[] {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return [];
+    }
+
+    return session.connections.flatMap(({ client, tools }) =>
+      tools.map((tool) => this.toTool(client, tool))
+    );
+  }
+
+  /**
+   * Closes every MCP connection
+   */
+  async cleanup(): Promise<void> {
+    const sessionIds = Array.from(this.sessions.keys());
+    await Promise.all(
+      sessionIds.map((sessionId) => this.disconnectSession(sessionId))
+    );
+    this.logger.debug('McpManager cleanup completed');
+  }
+
+  private async connectServer(
+    server: McpServer,
+    cwd?: string
+  ): Promise<{ connection?: McpConnection; status: McpServerStatus }> {
+    const type = getMcpServerType(server);
+    const client = new McpClient(server, this.logger, {
+      ...this.options,
+      ...(cwd && { cwd }),
+    });
+
+    try {
+      await client.connect();
+      const tools = await client.listTools();
+
+      this.logger.info(`Connected to MCP server: ${server.name}`, {
+        type,
+        toolCount: tools.length,
+      });
+
+      return {
+        connection: { client, tools },
+        status: {
+          name: server.name,
+          type,
+          status: 'connected',
+          toolCount: tools.length,
+        },
+      };
+    } catch (error) {
+      await client.close();
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.warn(`Failed to connect to MCP server: ${server.name}`, {
+        type,
+        error: message,
+      });
+
+      return {
+        status: {
+          name: server.name,
+          type,
+          status: 'failed',
+          toolCount: 0,
+          error: message,
+        },
+      };
+    }
+  }
+
+  private toTool(client: McpClient, tool: McpToolInfo): Tool {
+    return {
+      name: getMcpToolName(client.name, tool.name),
+      description:
+        tool.description ?? tool.title ?? `${tool.name} (${client.name})`,
+      parameters: toToolParameters(tool.inputSchema),
+      handler: async (params): Promise<ToolResult> => {
+        // Drop adapter-injected parameters such as _sessionId
+        const args = Object.fromEntries(
+          Object.entries(params).filter(([key]) => !key.startsWith('_'))
+        );
+
+        const result = await client.callTool(tool.name, args);
+        const text = result.content
+          .filter((item) => item['type'] === 'text')
+          .map((item) => item['text'])
+          .join('\n');
+
+        return {
+          success: !result.isError,
+          result: {
+            content: result.content,
+            ...(result.structuredContent && {
+              structuredContent: result.structuredContent,
+            }),
+          },
+          ...(result.isError && { error: text || 'MCP tool call failed' }),
+          metadata: { mcpServer: client.name, mcpTool: tool.name },
+        };
+      },
+    };
+  }
+}
+
+/**
+ * Summarizes the connection statuses of a session's MCP servers
+ */
+export function getMcpStatusSummary(
+  statuses: McpServerStatus[]
+): 'connected' | 'partial' | 'failed' {
+  const connected = statuses.filter(
+    (status) => status.status === 'connected'
+  ).length;
+  if (connected === statuses.length) {
+    return 'connected';
+  }
+  return connected > 0 ? 'partial' : 'failed';
+}
+
+/**
+ * Builds the registry name of an MCP tool
+ */
+export function getMcpToolName(serverName: string, toolName: string): string {
+  const server = serverName.replace(/[^A-Za-z0-9_-]/g, '_');
+  return [TOOL_NAME_PREFIX, server, toolName].join(TOOL_NAME_SEPARATOR);
+}
+
+function toToolParameters(schema: Record<string, any>): ToolParameters {
+  return {
+    type: 'object',
+    properties:
+      schema['properties'] && typeof schema['properties'] === 'object'
+        ? schema['properties']
+        : {},
+    ...(Array.isArray(schema['required']) && {
+      required: schema['required'].filter(
+        (name: unknown): name is string => typeof name === 'string'
+      ),
+    }),
+  };
+}
@@ -0,0 +1,530 @@
+/**
+ * MCP transports - Message channels to MCP servers
+ *
+ * ACP clients pass MCP server configurations in session/new and
+ * session/load. Each configuration names one of three transports:
+ * - stdio: a local process speaking newline-delimited JSON-RPC
+ * - http: the MCP Streamable HTTP transport (POST per message)
+ * - sse: the legacy HTTP+SSE transport (GET event stream, POST endpoint)
+ *
+ * Per ACP spec: https://agentclientprotocol.com/protocol/session-setup#mcp-servers
+ * Per MCP spec: https://modelcontextprotocol.io/specification/2025-06-18/basic/transports
+ */
+
+import { spawn, type ChildProcess } from 'child_process';
+import type { McpServer } from '@agentclientprotocol/sdk';
+import { McpError, type Logger, type McpServerType } from '../types';
+
+export type McpMessage = Record<string, any>;
+
+export interface McpTransport {
+  /** Called for every JSON-RPC message received from the server */
+  onMessage?: (message: McpMessage) => void;
+  /** Called once when the connection closes unexpectedly */
+  onClose?: (error?: Error) => void;
+  start(): Promise<void>;
+  send(message: McpMessage): Promise<void>;
+  close(): Promise<void>;
+}
+
+export interface McpTransportOptions {
+  /** Working directory for stdio servers */
+  cwd?: string;
+  /** Milliseconds to wait for a stdio server to exit after stdin closes */
+  closeTimeout?: number;
+}
+
+const DEFAULT_CLOSE_TIMEOUT = 2000;
+
+interface ServerSentEvent {
+  event: string;
+  data: string;
+}
+
+/**
+ * Creates the transport for an ACP McpServer configuration
+ */
+export function createMcpTransport(
+  server: McpServer,
+  logger: Logger,
+  options: McpTransportOptions = {}
+): McpTransport {
+  if ('type' in server && server.type === 'http') {
+    return new HttpMcpTransport(
+      server.name,
+      server.url,
+      headersOf(server),
+      logger
+    );
+  }
+  if ('type' in server && server.type === 'sse') {
+    return new SseMcpTransport(
+      server.name,
+      server.url,
+      headersOf(server),
+      logger
+    );
+  }
+  if ('command' in server) {
+    return new StdioMcpTransport(server, logger, options);
+  }
+  throw new McpError(
+    `Unsupported MCP server configuration: ${(server as any).type ?? 'unknown'}`,
+    (server as any).name
+  );
+}
+
+/**
+ * Gets the transport type of an ACP McpServer configuration
+ */
+export function getMcpServerType(server: McpServer): McpServerType {
+  if ('type' in server && (server.type === 'http' || server.type === 'sse')) {
+    return server.type;
+  }
+  return 'stdio';
+}
+
+/**
+ * stdio transport: one JSON-RPC message per line on stdin/stdout
+ */
+class StdioMcpTransport implements McpTransport {
+  onMessage?: (message: McpMessage) => void;
+  onClose?: (error?: Error) => void;
+
+  private server: Extract<McpServer, { command: string }>;
+  private logger: Logger;
+  private options: McpTransportOptions;
+  private process: ChildProcess | null = null;
+  private buffer = '';
+  private closing = false;
+  private closed = false;
+
+  constructor(
+    server: Extract<McpServer, { command: string }>,
+    logger: Logger,
+    options: McpTransportOptions
+  ) {
+    this.server = server;
+    this.logger = logger;
+    this.options = options;
+  }
+
+  async start(): Promise<void> {
+    const env: Record<string, string | undefined> = { ...process.env };
+    for (const variable of this.server.env ?? []) {
+      env[variable.name] = variable.value;
+    }
+
+    const child = spawn(this.server.command, this.server.args ?? [], {
+      ...(this.options.cwd && { cwd: this.options.cwd }),
+      env,
+      stdio: ['pipe', 'pipe', 'pipe'],
+    });
+    this.process = child;
+
+    await new Promise<void>((resolve, reject) => {
+      const onStartError = (error: Error) => {
+        // A process that never spawned emits no exit event to wait for
+        this.process = null;
+        reject(
+          new McpError(
+            `Failed to start MCP server ${this.server.name}: ${error.message}`,
+            this.server.name,
+            error
+          )
+        );
+      };
+      child.once('spawn', () => {
+        child.off('error', onStartError);
+        resolve();
+      });
+      child.once('error', onStartError);
+    });
+
+    child.stdout!.setEncoding('utf8');
+    child.stdout!.on('data', (chunk: string) => this.handleData(chunk));
+    child.stderr!.setEncoding('utf8');
+    child.stderr!.on('data', (chunk: string) => {
+      this.logger.debug(`MCP server ${this.server.name} stderr`, {
+        output: chunk.trimEnd(),
+      });
+    });
+    // Writes to a server that has exited fail with EPIPE; without these
+    // listeners the error event would crash the adapter
+    child.stdin!.on('error', (error) => {
+      this.fail(
+        new McpError(
+          `MCP server ${this.server.name} stopped reading input: ${error.message}`,
+          this.server.name,
+          error
+        )
+      );
+    });
+    child.on('error', (error) => {
+      this.fail(
+        new McpError(
+          `MCP server ${this.server.name} failed: ${error.message}`,
+          this.server.name,
+          error
+        )
+      );
+    });
+    child.on('exit', (code, signal) => {
+      this.process = null;
+      this.fail(
+        new McpError(
+          `MCP server ${this.server.name} exited (code: ${code}, signal: ${signal})`,
+          this.server.name
+        )
+      );
+    });
+  }
+
+  async send(message: McpMessage): Promise<void> {
+    const stdin = this.process?.stdin;
+    if (this.closed || !stdin || !stdin.writable) {
+      throw new McpError(
+        `MCP server ${this.server.name} is not running`,
+        this.server.name
+      );
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      stdin.write(`${JSON.stringify(message)}\n`, (error) =>
+        error
+          ? reject(
+              new McpError(
+                `Failed to write to MCP server ${this.server.name}: ${error.message}`,
+                this.server.name,
+                error
+              )
+            )
+          : resolve()
+      );
+    });
+  }
+
+  async close(): Promise<void> {
+    const child = this.process;
+    this.closing = true;
+    if (!child) {
+      return;
+    }
+
+    // Per MCP spec: close stdin first, then escalate to signals
+    await new Promise<void>((resolve) => {
+      const timeout = setTimeout(() => {
+        child.kill('SIGKILL');
+      }, this.options.closeTimeout ?? DEFAULT_CLOSE_TIMEOUT);
+      child.once('exit', () => {
+        clearTimeout(timeout);
+        resolve();
+      });
+      child.stdin?.end();
+      child.kill('SIGTERM');
+    });
+  }
+
+  /**
+   * Marks the transport closed and reports the first failure once
+   */
+  private fail(error: McpError): void {
+    if (this.closing || this.closed) {
+      return;
+    }
+    this.closed = true;
+    this.onClose?.(error);
+  }
+
+  private handleData(chunk: string): void {
+    this.buffer += chunk;
+
+    let newlineIndex = this.buffer.indexOf('\n');
+    while (newlineIndex !== -1) {
+      const line = this.buffer.slice(0, newlineIndex).trim();
+      this.buffer = this.buffer.slice(newlineIndex + 1);
+      if (line) {
+        this.dispatch(line);
+      }
+      newlineIndex = this.buffer.indexOf('\n');
+    }
+  }
+
+  private dispatch(line: string): void {
+    try {
+      this.onMessage?.(JSON.parse(line));
+    } catch {
+      this.logger.debug(`Ignoring non-JSON output from MCP server`, {
+        server: this.server.name,
+        length: line.length,
+      });
+    }
+  }
+}
+
+/**
+ * Streamable HTTP transport: each message is POSTed to the server URL and
+ * responses arrive either as a JSON body or as an SSE stream
+ */
+class HttpMcpTransport implements McpTransport {
+  onMessage?: (message: McpMessage) => void;
+  onClose?: (error?: Error) => void;
+
+  private name: string;
+  private url: string;
+  private headers: Record<string, string>;
+  private logger: Logger;
+  private sessionId: string | null = null;
+  private abortController = new AbortController();
+
+  constructor(
+    name: string,
+    url: string,
+    headers: Record<string, string>,
+    logger: Logger
+  ) {
+    this.name = name;
+    this.url = url;
+    this.headers = headers;
+    this.logger = logger;
+  }
+
+  async start(): Promise<void> {
+    // Connection state is established by the initialize request
+  }
+
+  async send(message: McpMessage): Promise<void> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: {
+        ...this.headers,
+        'content-type': 'application/json',
+        accept: 'application/json, text/event-stream',
+        ...(this.sessionId && { 'mcp-session-id': this.sessionId }),
+      },
+      body: JSON.stringify(message),
+      signal: this.abortController.signal,
+    });
+
+    const sessionId = response.headers.get('mcp-session-id');
+    if (sessionId) {
+      this.sessionId = sessionId;
+    }
+
+    if (!response.ok) {
+      throw new McpError(
+        `MCP server ${this.name} returned HTTP ${response.status}`,
+        this.name
+      );
+    }
+
+    const contentType = response.headers.get('content-type') ?? '';
+    if (contentType.includes('text/event-stream') && response.body) {
+      // Read the stream in the background; responses are dispatched as events
+      readEventStream(response.body, (event) => this.dispatch(event)).catch(
+        (error) => {
+          this.logger.debug(`MCP server ${this.name} stream ended`, { error });
+        }
+      );
+      return;
+    }
+
+    const text = await response.text();
+    if (!text.trim()) {
+      return;
+    }
+    const payload = JSON.parse(text);
+    for (const item of Array.isArray(payload) ? payload : [payload]) {
+      this.onMessage?.(item);
+    }
+  }
+
+  async close(): Promise<void> {
+    this.abortController.abort();
+    if (!this.sessionId) {
+      return;
+    }
+
+    // Per MCP spec: clients SHOULD end the session with DELETE
+    try {
+      await fetch(this.url, {
+        method: 'DELETE',
+        headers: { ...this.headers, 'mcp-session-id': this.sessionId },
+      });
+    } catch (error) {
+      this.logger.debug(`Failed to end MCP session for ${this.name}`, {
+        error,
+      });
+    }
+    this.sessionId = null;
+  }
+
+  private dispatch(event: ServerSentEvent): void {
+    if (event.event !== 'message' || !event.data) {
+      return;
+    }
+    try {
+      this.onMessage?.(JSON.parse(event.data));
+    } catch {
+      this.logger.debug(`Ignoring invalid event from MCP server ${this.name}`);
+    }
+  }
+}
+
+/**
+ * Legacy HTTP+SSE transport: the server streams messages over a GET event
+ * stream and announces the endpoint that accepts POSTed client messages
+ */
+class SseMcpTransport implements McpTransport {
+  onMessage?: (message: McpMessage) => void;
+  onClose?: (error?: Error) => void;
+
+  private name: string;
+  private url: string;
+  private headers: Record<string, string>;
+  private logger: Logger;
+  private endpoint: string | null = null;
+  private abortController = new AbortController();
+
+  constructor(
+    name: string,
+    url: string,
+    headers: Record<string, string>,
+    logger: Logger
+  ) {
+    this.name = name;
+    this.url = url;
+    this.headers = headers;
+    this.logger = logger;
+  }
+
+  async start(): Promise<void> {
+    const response = await fetch(this.url, {
+      headers: { ...this.headers, accept: 'text/event-stream' },
+      signal: this.abortController.signal,
+    });
+    if (!response.ok || !response.body) {
+      throw new McpError(
+        `MCP server ${this.name} returned HTTP ${response.status}`,
+        this.name
+      );
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      readEventStream(response.body!, (event) => {
+        if (event.event === 'endpoint') {
+          this.endpoint = new URL(event.data, this.url).toString();
+          resolve();
+          return;
+        }
+        if (event.event === 'message' && event.data) {
+          try {
+            this.onMessage?.(JSON.parse(event.data));
+          } catch {
+            this.logger.debug(
+              `Ignoring invalid event from MCP server ${this.name}`
+            );
+          }
+        }
+      })
+        .then(() => {
+          if (!this.endpoint) {
+            reject(
+              new McpError(
+                `MCP server ${this.name} closed the stream before sending an endpoint`,
+                this.name
+              )
+            );
+            return;
+          }
+          this.onClose?.();
+        })
+        .catch((error) => {
+          if (!this.endpoint) {
+            reject(error);
+            return;
+          }
+          if (!this.abortController.signal.aborted) {
+            this.onClose?.(error instanceof Error ? error : undefined);
+          }
+        });
+    });
+  }
+
+  async send(message: McpMessage): Promise<void> {
+    if (!this.endpoint) {
+      throw new McpError(`MCP server ${this.name} is not connected`, this.name);
+    }
+
+    const response = await fetch(this.endpoint, {
+      method: 'POST',
+      headers: { ...this.headers, 'content-type': 'application/json' },
+      body: JSON.stringify(message),
+    });
+    if (!response.ok) {
+      throw new McpError(
+        `MCP server ${this.name} returned HTTP ${response.status}`,
+        this.name
+      );
+    }
+  }
+
+  async close(): Promise<void> {
+    this.abortController.abort();
+    this.endpoint = null;
+  }
+}
+
+function headersOf(server: McpServer): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if ('headers' in server) {
+    for (const header of server.headers ?? []) {
+      headers[header.name] = header.value;
+    }
+  }
+  return headers;
+}
+
+/**
+ * Reads a text/event-stream body, calling onEvent for each complete event
+ * Resolves when the stream ends
+ */
+async function readEventStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: ServerSentEvent) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let event = 'message';
+  let data: string[] = [];
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      return;
+    }
+    buffer += decoder.decode(value, { stream: true });
+
+    let newlineIndex = buffer.indexOf('\n');
+    while (newlineIndex !== -1) {
+      const line = buffer.slice(0, newlineIndex).replace(/\r$/, '');
+      buffer = buffer.slice(newlineIndex + 1);
+
+      if (line === '') {
+        // A blank line terminates the event
+        if (data.length > 0) {
+          onEvent({ event, data: data.join('\n') });
+        }
+        event = 'message';
+        data = [];
+      } else if (line.startsWith('event:')) {
+        event = line.slice(6).trim();
+      } else if (line.startsWith('data:')) {
+        data.push(line.slice(5).replace(/^ /, ''));
+      }
+
+      newlineIndex = buffer.indexOf('\n');
+    }
+  }
+}
@@ -13,10 +13,22 @@
 
 import type { ContentBlock } from '@agentclientprotocol/sdk';
 import { ProtocolError, type Logger, type AdapterConfig } from '../types';
+import type { ImageAttachmentStore } from './image-attachments';
+import type {
+  ResourceLinkBudget,
+  ResourceLinkResolver,
+} from './resource-links';
 
 export interface ContentProcessorOptions {
   config: AdapterConfig;
   logger: Logger;
+  imageStore?: ImageAttachmentStore | undefined;
+  resourceLinkResolver?: ResourceLinkResolver | undefined;
+}
+
+export interface ContentProcessingContext {
+  /** Session the content belongs to; images are saved for this session */
+  sessionId: string;
 }
 
 export interface ProcessedContent {
@@ -32,6 +44,18 @@ interface ContentMetadata {
     [key: string]: any;
   }>;
   totalSize: number;
+  // Resource links whose contents were cut to fit the byte budgets
+  truncatedResources?: Array<{
+    index: number;
+    uri: string;
+    bytes: number;
+    originalBytes: number;
+  }>;
+}
+
+// Per-prompt state shared by the blocks of one processContent call
+interface BlockContext extends ContentProcessingContext {
+  linkBudget?: ResourceLinkBudget;
 }
 
 interface StreamingState {
@@ -43,17 +67,27 @@ interface StreamingState {
 
 export class ContentProcessor {
   private readonly logger: Logger;
+  private readonly imageStore: ImageAttachmentStore | undefined;
+  private readonly resourceLinkResolver: ResourceLinkResolver | undefined;
   private streamingState: StreamingState | null = null;
 
   constructor(options: ContentProcessorOptions) {
     // this.config = options.config; // Not needed for current implementation
     this.logger = options.logger;
+    this.imageStore = options.imageStore;
+    this.resourceLinkResolver = options.resourceLinkResolver;
   }
 
   /**
    * Process content blocks for sending to Cursor CLI
+   * Images are written to files when an image store and a session are
+   * given; otherwise they are described by a placeholder. The same goes for
+   * inlining the files behind resource links.
    */
-  async processContent(blocks: ContentBlock[]): Promise<ProcessedContent> {
+  async processContent(
+    blocks: ContentBlock[],
+    context?: ContentProcessingContext
+  ): Promise<ProcessedContent> {
     this.logger.debug('Processing content blocks', { count: blocks.length });
 
     const processedBlocks: string[] = [];
@@ -61,6 +95,12 @@ export class ContentProcessor {
       blocks: [],
       totalSize: 0,
     };
+    const blockContext: BlockContext | undefined = context && {
+      ...context,
+      ...(this.resourceLinkResolver?.isEnabled() && {
+        linkBudget: this.resourceLinkResolver.createBudget(),
+      }),
+    };
 
     for (let i = 0; i < blocks.length; i++) {
       const block = blocks[i];
@@ -68,9 +108,25 @@ export class ContentProcessor {
         continue;
       }
 
-      const processedBlock = await this.processContentBlock(block, i);
+      const processedBlock = await this.processContentBlock(
+        block,
+        i,
+        blockContext
+      );
       processedBlocks.push(processedBlock.value);
 
+      if (processedBlock.metadata['truncated']) {
+        metadata.truncatedResources = [
+          ...(metadata.truncatedResources ?? []),
+          {
+            index: i,
+            uri: processedBlock.metadata['uri'],
+            bytes: processedBlock.metadata['inlinedBytes'],
+            originalBytes: processedBlock.metadata['fileBytes'],
+          },
+        ];
+      }
+
       metadata.blocks.push({
         index: i,
         type: block.type,
@@ -89,6 +145,7 @@ export class ContentProcessor {
     this.logger.debug('Content processing completed', {
       totalBlocks: blocks.length,
       totalSize: metadata.totalSize,
+      truncatedResources: metadata.truncatedResources?.length ?? 0,
     });
 
     return result;
@@ -99,19 +156,20 @@ export class ContentProcessor {
    */
   private async processContentBlock(
     block: ContentBlock,
-    index: number
+    index: number,
+    context?: BlockContext
   ): Promise<ProcessedContent> {
     switch (block.type) {
       case 'text':
         return this.processTextBlock(block, index);
       case 'image':
-        return this.processImageBlock(block, index);
+        return this.processImageBlock(block, index, context);
       case 'audio':
         return this.processAudioBlock(block, index);
       case 'resource':
         return this.processResourceBlock(block, index);
       case 'resource_link':
-        return this.processResourceLinkBlock(block, index);
+        return this.processResourceLinkBlock(block, index, context);
       default:
         // TypeScript knows this should be unreachable, but at runtime invalid blocks might arrive
         throw new ProtocolError(
@@ -152,10 +210,14 @@ export class ContentProcessor {
   /**
    * Process image content block
    * Per ACP spec: uses 'data' field
+   *
+   * cursor-agent takes prompts as text, so the image is saved to a file and
+   * the prompt points at it.
    */
   private async processImageBlock(
     block: Extract<ContentBlock, { type: 'image' }>,
-    index: number
+    index: number,
+    context?: ContentProcessingContext
   ): Promise<ProcessedContent> {
     const imageData = block.data;
 
@@ -181,22 +243,34 @@ export class ContentProcessor {
       value += `# Image (${block.mimeType})\n`;
     }
 
-    value += `[Image data: ${block.mimeType}, ${this.formatDataSize(imageData.length)} base64]`;
+    const metadata: Record<string, any> = {
+      mimeType: block.mimeType,
+      uri: block.uri,
+      dataSize: imageData.length,
+      isValidBase64: true,
+      annotations: block.annotations,
+    };
 
-    // Note: In a real implementation, you might want to:
-    // 1. Save the image to a temporary file
-    // 2. Convert to a format Cursor CLI can understand
-    // 3. Include image analysis/description if supported
+    if (!this.imageStore || !context) {
+      value += `[Image data: ${block.mimeType}, ${this.formatDataSize(imageData.length)} base64]`;
+      return { value, metadata };
+    }
+
+    const rejection = this.imageStore.checkImage(block);
+    if (rejection) {
+      this.logger.warn('Image not attached', { index, reason: rejection });
+      value += `[Image not attached: ${rejection}]`;
+      return { value, metadata: { ...metadata, omitted: rejection } };
+    }
+
+    const saved = await this.imageStore.saveImage(context.sessionId, block);
+    value += `Attached image file: ${saved.path}\n`;
+    value += `Type: ${saved.mimeType}, Size: ${this.formatDataSize(saved.bytes)}\n`;
+    value += 'Open this file to view the image.';
 
     return {
       value,
-      metadata: {
-        mimeType: block.mimeType,
-        uri: block.uri,
-        dataSize: imageData.length,
-        isValidBase64: true,
-        annotations: block.annotations,
-      },
+      metadata: { ...metadata, filePath: saved.path, fileSize: saved.bytes },
     };
   }
 
@@ -289,10 +363,14 @@ export class ContentProcessor {
   /**
    * Process resource link content block
    * Per ACP spec: Reference to agent-accessible resources
+   *
+   * When resource link resolution is enabled, the contents of file:// links
+   * are inlined as embedded context, within the byte budgets.
    */
   private async processResourceLinkBlock(
     block: Extract<ContentBlock, { type: 'resource_link' }>,
-    index: number
+    index: number,
+    context?: BlockContext
   ): Promise<ProcessedContent> {
     this.logger.debug('Processing resource link block', {
       index,
@@ -329,18 +407,48 @@ export class ContentProcessor {
       }
     }
 
-    return {
-      value,
-      metadata: {
-        uri: block.uri ?? undefined,
-        name: block.name,
-        mimeType: block.mimeType,
-        title: block.title,
-        description: block.description,
-        size: block.size,
-        annotations: block.annotations,
-      },
+    const metadata: Record<string, any> = {
+      uri: block.uri ?? undefined,
+      name: block.name,
+      mimeType: block.mimeType,
+      title: block.title,
+      description: block.description,
+      size: block.size,
+      annotations: block.annotations,
     };
+
+    const resolution =
+      this.resourceLinkResolver && context?.linkBudget
+        ? await this.resourceLinkResolver.resolve(
+            context.sessionId,
+            block.uri,
+            context.linkBudget
+          )
+        : null;
+
+    if (resolution?.status === 'skipped') {
+      value += `[Contents not included: ${resolution.reason}]`;
+      return { value, metadata: { ...metadata, skipped: resolution.reason } };
+    }
+
+    if (resolution?.status === 'resolved') {
+      value += `\n${resolution.text}`;
+      if (resolution.truncated) {
+        value += `\n[Truncated: showing ${this.formatDataSize(resolution.bytes)} of ${this.formatDataSize(resolution.originalBytes)}]`;
+      }
+      return {
+        value,
+        metadata: {
+          ...metadata,
+          resolvedFrom: resolution.source,
+          inlinedBytes: resolution.bytes,
+          fileBytes: resolution.originalBytes,
+          truncated: resolution.truncated,
+        },
+      };
+    }
+
+    return { value, metadata };
   }
 
   /**
@@ -0,0 +1,184 @@
+/**
+ * Image Attachments
+ *
+ * Decodes image content blocks into files cursor-agent can open. Each
+ * session gets its own directory under a private temp directory; the files
+ * are removed when the turn that attached them ends, when the session is
+ * deleted and when the adapter shuts down.
+ *
+ * Per ACP spec: https://agentclientprotocol.com/protocol/content#image-content
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import type { ContentBlock } from '@agentclientprotocol/sdk';
+import type { AdapterConfig, Logger } from '../types';
+
+type ImageBlock = Extract<ContentBlock, { type: 'image' }>;
+
+const DEFAULT_MAX_BYTES = 10 * 1024 * 1024; // 10MB
+
+// MIME type -> file extension for the formats cursor-agent can read
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/png': '.png',
+  'image/jpeg': '.jpg',
+  'image/gif': '.gif',
+  'image/webp': '.webp',
+};
+
+export interface ImageAttachmentStoreOptions {
+  config: AdapterConfig;
+  logger: Logger;
+}
+
+export interface SavedImage {
+  path: string;
+  mimeType: string;
+  bytes: number;
+}
+
+export class ImageAttachmentStore {
+  private config: AdapterConfig;
+  private logger: Logger;
+  // Created on first use; shared by concurrent first saves
+  private root: Promise<string> | null = null;
+  private sessionDirs = new Map<string, Promise<string>>();
+
+  constructor(options: ImageAttachmentStoreOptions) {
+    this.config = options.config;
+    this.logger = options.logger;
+  }
+
+  /**
+   * Checks an image against the configured MIME type and size limits
+   *
+   * @returns The reason the image cannot be attached, or null
+   */
+  checkImage(block: ImageBlock): string | null {
+    const { maxBytes, allowedMimeTypes } = this.getLimits();
+    const mimeType = block.mimeType.toLowerCase();
+
+    if (!allowedMimeTypes.includes(mimeType) || !IMAGE_EXTENSIONS[mimeType]) {
+      return `${block.mimeType} is not a supported image type`;
+    }
+
+    const bytes = getDecodedSize(block.data);
+    if (bytes > maxBytes) {
+      return `image is ${bytes} bytes, the limit is ${maxBytes}`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Decodes an image into the session's attachment directory
+   * Call checkImage first; this does not enforce the limits.
+   */
+  async saveImage(sessionId: string, block: ImageBlock): Promise<SavedImage> {
+    const mimeType = block.mimeType.toLowerCase();
+    const dir = await this.getSessionDir(sessionId);
+    const data = Buffer.from(block.data, 'base64');
+
+    const filePath = path.join(
+      dir,
+      `image-${uuidv4()}${IMAGE_EXTENSIONS[mimeType] ?? ''}`
+    );
+    await fs.writeFile(filePath, data, { mode: 0o600 });
+
+    this.logger.debug('Saved image attachment', {
+      sessionId,
+      path: filePath,
+      mimeType,
+      bytes: data.length,
+    });
+
+    return { path: filePath, mimeType, bytes: data.length };
+  }
+
+  /**
+   * Removes the images attached in a session
+   * Turns in a session run one at a time, so this is called both when a
+   * turn ends and when the session is deleted.
+   */
+  async releaseSession(sessionId: string): Promise<void> {
+    const dir = this.sessionDirs.get(sessionId);
+    if (!dir) {
+      return;
+    }
+    this.sessionDirs.delete(sessionId);
+
+    try {
+      await fs.rm(await dir, { recursive: true, force: true });
+    } catch (error) {
+      this.logger.warn('Failed to remove image attachments', {
+        sessionId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Removes every attachment and the temp directory itself
+   */
+  async cleanup(): Promise<void> {
+    const root = this.root;
+    this.root = null;
+    this.sessionDirs.clear();
+
+    if (!root) {
+      return;
+    }
+
+    try {
+      await fs.rm(await root, { recursive: true, force: true });
+    } catch (error) {
+      this.logger.warn('Failed to remove image attachment directory', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private getLimits(): { maxBytes: number; allowedMimeTypes: string[] } {
+    const images = this.config.content?.images;
+    return {
+      maxBytes: images?.maxBytes ?? DEFAULT_MAX_BYTES,
+      allowedMimeTypes: (
+        images?.allowedMimeTypes ?? Object.keys(IMAGE_EXTENSIONS)
+      ).map((mimeType) => mimeType.toLowerCase()),
+    };
+  }
+
+  private getSessionDir(sessionId: string): Promise<string> {
+    let dir = this.sessionDirs.get(sessionId);
+    if (!dir) {
+      // Session IDs come from the client, so they are never used as names
+      dir = this.getRoot().then((root) =>
+        fs.mkdtemp(path.join(root, 'session-'))
+      );
+      this.sessionDirs.set(sessionId, dir);
+    }
+    return dir;
+  }
+
+  private getRoot(): Promise<string> {
+    if (!this.root) {
+      const parent = this.config.content?.images?.tempDir ?? os.tmpdir();
+      // mkdtemp creates the directory with mode 0700
+      this.root = fs
+        .mkdir(parent, { recursive: true })
+        .then(() => fs.mkdtemp(path.join(parent, 'cursor-agent-acp-images-')));
+    }
+    return this.root;
+  }
+}
+
+/**
+ * Gets the decoded size of base64 data without decoding it
+ */
+function getDecodedSize(base64: string): number {
+  const data = base64.replace(/\s/g, '');
+  const padding = data.endsWith('==') ? 2 : data.endsWith('=') ? 1 : 0;
+  return Math.floor((data.length * 3) / 4) - padding;
+}
@@ -26,6 +26,17 @@ import {
   type CursorAuthStatus,
 } from '../types';
 
+/**
+ * Authentication method that runs `cursor-agent login`
+ * Per ACP spec: https://agentclientprotocol.com/protocol/initialization
+ */
+export const CURSOR_LOGIN_AUTH_METHOD: AuthMethod = {
+  id: 'cursor-login',
+  name: 'Log in with Cursor',
+  description:
+    'Runs `cursor-agent login` and opens the Cursor sign-in page in your browser',
+};
+
 /**
  * Configuration options for initialization behavior
  */
@@ -52,7 +63,7 @@ export interface InitializationConfig {
 /**
  * Get the package version dynamically
  */
-function getPackageVersion(): string {
+export function getPackageVersion(): string {
   try {
     const packagePath = join(__dirname, '../../package.json');
     const pkg = JSON.parse(readFileSync(packagePath, 'utf-8'));
@@ -112,6 +123,7 @@ export class InitializationHandler {
   private initConfig: InitializationConfig;
   private clientCapabilities: ClientCapabilities | null = null;
   private clientInfo: Implementation | null = null;
+  private cursorAuthenticated: boolean | undefined;
   private getExtensionRegistry?: () =>
     | {
         getRegisteredMethods: () => string[];
@@ -192,6 +204,14 @@ export class InitializationHandler {
     return this.clientCapabilities;
   }
 
+  /**
+   * Whether cursor-agent was logged in at the last initialization
+   * Undefined when connectivity was not tested or cursor-agent is unavailable.
+   */
+  getCursorAuthenticated(): boolean | undefined {
+    return this.cursorAuthenticated;
+  }
+
   /**
    * Get stored client information
    * Per ACP spec: Client name, version, and title for debugging and analytics
@@ -350,7 +370,10 @@ export class InitializationHandler {
       const agentCapabilities = this.buildAgentCapabilities(connectivityTest);
       metrics.capabilityBuildTime = Date.now() - buildStart;
 
-      // Build authentication methods (currently none required)
+      // cursor-agent is installed but not logged in: offer the login method
+      this.cursorAuthenticated = connectivityTest?.success
+        ? Boolean(connectivityTest.authenticated)
+        : undefined;
       const authMethods = this.buildAuthMethods();
 
       // Calculate total time and check for performance issues
@@ -405,6 +428,7 @@ export class InitializationHandler {
             : 'unavailable',
           cursorVersion: connectivityTest?.version,
           cursorAuthenticated: connectivityTest?.authenticated,
+          ...(this.cursorAuthenticated === false && { authRequired: true }),
 
           // Provide helpful guidance when cursor-agent is unavailable
           ...(connectivityTest &&
@@ -802,15 +826,13 @@ export class InitializationHandler {
       // -----------------------
       // Per ACP spec: Indicates which MCP server connection types are supported
       mcpCapabilities: {
-        // HTTP-based MCP server connections not yet implemented
+        // Streamable HTTP MCP server connections
         // Per ACP spec: McpServer::Http support
-        // TODO: Add HTTP MCP support
-        http: false,
+        http: true,
 
-        // Server-Sent Events MCP connections not yet implemented
+        // Legacy HTTP+SSE MCP server connections
         // Per ACP spec: McpServer::Sse support
-        // TODO: Add SSE MCP support
-        sse: false,
+        sse: true,
       },
 
       // Session Capabilities
@@ -931,22 +953,13 @@ export class InitializationHandler {
 
   /**
    * Builds authentication methods supported by this agent
-   * Per ACP spec: https://agentclientprotocol.com/protocol/authentication
+   * Per ACP spec: https://agentclientprotocol.com/protocol/initialization
+   *
+   * The login method is only offered when cursor-agent reports that it is
+   * not logged in; an empty list means no authentication is required.
    */
   private buildAuthMethods(): AuthMethod[] {
-    // Currently no authentication required
-    // Per ACP spec: authMethods is an array of supported authentication methods
-    // Empty array indicates no authentication is required
-
-    // Future: Add API key, OAuth, or other auth methods here
-    // Example for future API key auth:
-    // return [{
-    //   id: 'api-key',
-    //   name: 'API Key Authentication',
-    //   description: 'Authenticate using a Cursor API key',
-    // }];
-
-    return [];
+    return this.cursorAuthenticated === false ? [CURSOR_LOGIN_AUTH_METHOD] : [];
   }
 
   /**
@@ -0,0 +1,327 @@
+/**
+ * Permission Policy
+ *
+ * Evaluates the declarative permission policy from the adapter config
+ * (`permissions.policy`) before the client is asked for permission. Rules
+ * match on tool kind, path globs, command argv patterns and session mode,
+ * and decide to allow, deny or ask. Rules are evaluated in order and the
+ * first matching rule wins.
+ *
+ * Example:
+ *   {
+ *     "defaultAction": "ask",
+ *     "rules": [
+ *       { "name": "reads", "action": "allow", "kinds": ["read", "search"] },
+ *       { "action": "allow", "commands": ["npm test **", "git status"] },
+ *       { "action": "allow", "kinds": ["edit"], "paths": ["src/**"] },
+ *       { "action": "ask", "kinds": ["edit", "delete", "move"] }
+ *     ]
+ *   }
+ *
+ * Per ACP spec: https://agentclientprotocol.com/protocol/tool-calls#requesting-permission
+ */
+
+import * as path from 'path';
+import type {
+  PermissionOption,
+  ToolCallUpdate,
+} from '@agentclientprotocol/sdk';
+import type {
+  AdapterConfig,
+  Logger,
+  PermissionOutcome,
+  PermissionPolicyAction,
+  PermissionPolicyConfig,
+  PermissionPolicyRule,
+} from '../types';
+import { matchGlob, matchWildcard } from '../utils/glob';
+import { findOptionForDecision, SHELL_OPERATORS } from './permission-store';
+
+// Trailing argv pattern token matching any remaining arguments
+const REST_ARGS = '**';
+
+export interface PermissionPolicyContext {
+  mode?: string | undefined;
+  cwd?: string | undefined;
+}
+
+export interface PermissionPolicyDecision {
+  action: PermissionPolicyAction;
+  /** The rule that decided; undefined when the default action applied */
+  rule?: PermissionPolicyRule;
+  ruleIndex?: number;
+}
+
+export interface PermissionPolicyOptions {
+  logger: Logger;
+  policy?: PermissionPolicyConfig | undefined;
+}
+
+export class PermissionPolicy {
+  private logger: Logger;
+  private rules: PermissionPolicyRule[];
+  private defaultAction: PermissionPolicyAction | undefined;
+
+  constructor(options: PermissionPolicyOptions) {
+    this.logger = options.logger;
+    this.rules = options.policy?.rules ?? [];
+    this.defaultAction = options.policy?.defaultAction;
+  }
+
+  /**
+   * Replaces the rules, e.g. after the configuration was reloaded
+   */
+  update(policy: PermissionPolicyConfig | undefined): void {
+    this.rules = policy?.rules ?? [];
+    this.defaultAction = policy?.defaultAction;
+    this.logger.debug('Permission policy updated', {
+      ruleCount: this.rules.length,
+      defaultAction: this.defaultAction,
+    });
+  }
+
+  /**
+   * Checks whether the policy can decide anything
+   */
+  isEmpty(): boolean {
+    return this.rules.length === 0 && !this.defaultAction;
+  }
+
+  /**
+   * Evaluates the policy for a tool call
+   * Returns null when no rule matches and no default action is configured.
+   */
+  evaluate(
+    toolCall: ToolCallUpdate,
+    context: PermissionPolicyContext = {}
+  ): PermissionPolicyDecision | null {
+    const ruleIndex = this.rules.findIndex((rule) =>
+      ruleMatches(rule, toolCall, context)
+    );
+    const rule = this.rules[ruleIndex];
+
+    if (rule) {
+      this.logger.info('Permission policy rule matched', {
+        toolCallId: toolCall.toolCallId,
+        kind: toolCall.kind,
+        mode: context.mode,
+        action: rule.action,
+        rule: describePolicyRule(rule, ruleIndex),
+      });
+      return { action: rule.action, rule, ruleIndex };
+    }
+
+    if (this.defaultAction) {
+      this.logger.info('Permission policy default action applied', {
+        toolCallId: toolCall.toolCallId,
+        kind: toolCall.kind,
+        mode: context.mode,
+        action: this.defaultAction,
+      });
+      return { action: this.defaultAction };
+    }
+
+    return null;
+  }
+}
+
+/**
+ * Combines permissions.policy with the permission rules of configured modes
+ * Mode rules only match in their mode and are checked first.
+ */
+export function buildPermissionPolicy(
+  config: AdapterConfig
+): PermissionPolicyConfig | undefined {
+  const policy = config.permissions?.policy;
+  const modeRules = (config.modes ?? []).flatMap((mode) =>
+    (mode.permissionRules ?? []).map((rule) => ({ ...rule, modes: [mode.id] }))
+  );
+  if (modeRules.length === 0) {
+    return policy;
+  }
+  return { ...policy, rules: [...modeRules, ...(policy?.rules ?? [])] };
+}
+
+/**
+ * Checks whether a policy rule requires asking the client, even when the
+ * user already made an "always" decision for the operation
+ * A default action of "ask" leaves remembered decisions in effect.
+ */
+export function requiresPrompt(
+  decision: PermissionPolicyDecision | null
+): boolean {
+  return decision?.rule?.action === 'ask';
+}
+
+/**
+ * Gets the outcome a policy action selects among the offered options
+ * Returns null for "ask", and for "allow" when no allow option is offered,
+ * so the client is prompted instead.
+ */
+export function getPolicyOutcome(
+  action: PermissionPolicyAction,
+  options: PermissionOption[]
+): PermissionOutcome | null {
+  if (action === 'ask') {
+    return null;
+  }
+
+  const option = findOptionForDecision(
+    options,
+    action === 'allow' ? 'allow' : 'reject'
+  );
+  if (option) {
+    return { outcome: 'selected', optionId: option.optionId };
+  }
+
+  // Never fall back to prompting for denied operations; without a reject
+  // option to select, the request is cancelled
+  return action === 'deny' ? { outcome: 'cancelled' } : null;
+}
+
+/**
+ * Formats a policy rule for logs
+ */
+export function describePolicyRule(
+  rule: PermissionPolicyRule,
+  index: number
+): string {
+  const criteria = [
+    ...(rule.kinds ? [`kinds ${rule.kinds.join('|')}`] : []),
+    ...(rule.paths ? [`paths ${rule.paths.join('|')}`] : []),
+    ...(rule.commands ? [`commands ${rule.commands.join('|')}`] : []),
+    ...(rule.modes ? [`modes ${rule.modes.join('|')}`] : []),
+  ];
+  const label = rule.name
+    ? `rules[${index}] "${rule.name}"`
+    : `rules[${index}]`;
+  return `${label}: ${rule.action} ${criteria.join(', ') || 'everything'}`;
+}
+
+/**
+ * Splits a command line into argv, honoring single and double quotes
+ */
+export function parseArgv(commandLine: string): string[] {
+  const argv: string[] = [];
+  let current = '';
+  let quote: '"' | "'" | null = null;
+  let inArg = false;
+
+  for (const char of commandLine) {
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      } else {
+        current += char;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      inArg = true;
+    } else if (/\s/.test(char)) {
+      if (inArg) {
+        argv.push(current);
+        current = '';
+        inArg = false;
+      }
+    } else {
+      current += char;
+      inArg = true;
+    }
+  }
+
+  if (inArg) {
+    argv.push(current);
+  }
+  return argv;
+}
+
+function ruleMatches(
+  rule: PermissionPolicyRule,
+  toolCall: ToolCallUpdate,
+  context: PermissionPolicyContext
+): boolean {
+  if (rule.kinds && (!toolCall.kind || !rule.kinds.includes(toolCall.kind))) {
+    return false;
+  }
+
+  if (rule.modes && (!context.mode || !rule.modes.includes(context.mode))) {
+    return false;
+  }
+
+  if (rule.paths) {
+    const paths = (toolCall.locations ?? []).map((location) => location.path);
+    if (
+      paths.length === 0 ||
+      !paths.every((filePath) =>
+        rule.paths!.some((pattern) =>
+          pathMatches(pattern, filePath, context.cwd)
+        )
+      )
+    ) {
+      return false;
+    }
+  }
+
+  if (rule.commands) {
+    const argv = getArgv(toolCall);
+    if (
+      !argv ||
+      !rule.commands.some((pattern) => argvMatches(parseArgv(pattern), argv))
+    ) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+function pathMatches(
+  pattern: string,
+  filePath: string,
+  cwd: string | undefined
+): boolean {
+  if (path.isAbsolute(pattern) || !path.isAbsolute(filePath)) {
+    return matchGlob(pattern, filePath);
+  }
+
+  // Relative patterns only match files inside the session cwd
+  if (!cwd) {
+    return false;
+  }
+  const relativePath = path.relative(cwd, filePath);
+  if (relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+    return false;
+  }
+  return matchGlob(pattern, relativePath.split(path.sep).join('/'));
+}
+
+function argvMatches(pattern: string[], argv: string[]): boolean {
+  for (let i = 0; i < pattern.length; i++) {
+    const token = pattern[i]!;
+    if (token === REST_ARGS && i === pattern.length - 1) {
+      return true;
+    }
+    const arg = argv[i];
+    if (arg === undefined || !matchWildcard(token, arg)) {
+      return false;
+    }
+  }
+  return pattern.length === argv.length;
+}
+
+function getArgv(toolCall: ToolCallUpdate): string[] | null {
+  const input = toolCall.rawInput as Record<string, unknown> | undefined;
+  const command = input?.['command'];
+  if (typeof command !== 'string' || !command.trim()) {
+    return null;
+  }
+  if (SHELL_OPERATORS.test(command)) {
+    return null;
+  }
+
+  const args = input?.['args'];
+  return [
+    ...parseArgv(command),
+    ...(Array.isArray(args) ? args.map((arg) => String(arg)) : []),
+  ];
+}
@@ -0,0 +1,359 @@
+/**
+ * Permission Store
+ *
+ * Remembers "allow always" / "reject always" permission decisions per
+ * session so the user is not asked again for the same kind of operation.
+ * Rules are keyed by tool kind, path pattern and command prefix, and can
+ * optionally be persisted next to the session files.
+ *
+ * Per ACP spec: https://agentclientprotocol.com/protocol/tool-calls#requesting-permission
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  PermissionOption,
+  ToolCallUpdate,
+} from '@agentclientprotocol/sdk';
+import type {
+  Logger,
+  PermissionDecision,
+  PermissionOutcome,
+  PermissionRule,
+} from '../types';
+import { matchGlob } from '../utils/glob';
+
+const RULES_FILE_VERSION = 1;
+
+// Command lines using these cannot be described by a single argv, so they
+// never match command patterns (e.g. "npm test && rm -rf ~")
+export const SHELL_OPERATORS = /[;&|<>`\n]|\$\(/;
+
+interface RulesFile {
+  version: number;
+  rules: PermissionRule[];
+}
+
+export interface PermissionStoreOptions {
+  logger: Logger;
+  /** Directory for rule files; rules are kept in memory only when omitted */
+  persistDir?: string | undefined;
+}
+
+export class PermissionStore {
+  private logger: Logger;
+  private persistDir: string | undefined;
+  // Loaded lazily; the promise is shared by concurrent first lookups
+  private rules = new Map<string, Promise<PermissionRule[]>>();
+
+  constructor(options: PermissionStoreOptions) {
+    this.logger = options.logger;
+    this.persistDir = options.persistDir;
+  }
+
+  /**
+   * Finds the rule deciding a tool call, if any
+   * Reject rules take precedence over allow rules.
+   */
+  async findRule(
+    sessionId: string,
+    toolCall: ToolCallUpdate
+  ): Promise<PermissionRule | undefined> {
+    const rules = await this.getRules(sessionId);
+    const matching = rules.filter((rule) => ruleMatches(rule, toolCall));
+
+    return (
+      matching.find((rule) => rule.decision === 'reject') ??
+      matching.find((rule) => rule.decision === 'allow')
+    );
+  }
+
+  /**
+   * Gets the outcome a remembered "always" decision selects for a tool call
+   * Returns null when no rule applies or no offered option carries its
+   * decision.
+   */
+  async findRememberedOutcome(
+    sessionId: string,
+    toolCall: ToolCallUpdate,
+    options: PermissionOption[]
+  ): Promise<PermissionOutcome | null> {
+    try {
+      const rule = await this.findRule(sessionId, toolCall);
+      const option = rule && findOptionForDecision(options, rule.decision);
+      if (!rule || !option) {
+        return null;
+      }
+
+      this.logger.debug('Permission decided by remembered rule', {
+        sessionId,
+        toolCallId: toolCall.toolCallId,
+        rule: describeRule(rule),
+        ruleId: rule.id,
+      });
+      return { outcome: 'selected', optionId: option.optionId };
+    } catch (error) {
+      this.logger.warn('Failed to look up permission rules', {
+        sessionId,
+        error,
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Records an "always" decision for the operation a tool call performs
+   * Commands are remembered by their command line, file operations by each
+   * path they touch, and anything else by its tool kind.
+   */
+  async recordDecision(
+    sessionId: string,
+    toolCall: ToolCallUpdate,
+    decision: PermissionDecision
+  ): Promise<PermissionRule[]> {
+    const base = {
+      decision,
+      ...(toolCall.kind && { toolKind: toolCall.kind }),
+    };
+    const command = getCommand(toolCall);
+    const paths = getPaths(toolCall);
+
+    let scopes: Array<Partial<PermissionRule>>;
+    if (command) {
+      scopes = [{ commandPrefix: command }];
+    } else if (paths.length > 0) {
+      scopes = paths.map((pathPattern) => ({ pathPattern }));
+    } else {
+      scopes = [{}];
+    }
+
+    const rules = await this.getRules(sessionId);
+    const added = scopes.map(
+      (scope): PermissionRule => ({
+        id: uuidv4(),
+        ...base,
+        ...scope,
+        createdAt: new Date(),
+      })
+    );
+    rules.push(...added);
+
+    this.logger.info('Recorded permission rule', {
+      sessionId,
+      rules: added.map((rule) => describeRule(rule)),
+    });
+
+    await this.save(sessionId);
+    return added;
+  }
+
+  /**
+   * Lists the rules of a session
+   */
+  async listRules(sessionId: string): Promise<PermissionRule[]> {
+    return [...(await this.getRules(sessionId))];
+  }
+
+  /**
+   * Revokes a single rule
+   * Returns false when the session has no rule with this ID
+   */
+  async revokeRule(sessionId: string, ruleId: string): Promise<boolean> {
+    const rules = await this.getRules(sessionId);
+    const index = rules.findIndex((rule) => rule.id === ruleId);
+    if (index === -1) {
+      return false;
+    }
+
+    rules.splice(index, 1);
+    this.logger.info('Revoked permission rule', { sessionId, ruleId });
+    await this.save(sessionId);
+    return true;
+  }
+
+  /**
+   * Removes all rules of a session, including its rule file
+   */
+  async clearSession(sessionId: string): Promise<void> {
+    this.rules.delete(sessionId);
+
+    const filePath = this.getFilePath(sessionId);
+    if (filePath) {
+      await fs.rm(filePath, { force: true });
+    }
+  }
+
+  private getRules(sessionId: string): Promise<PermissionRule[]> {
+    let rules = this.rules.get(sessionId);
+    if (!rules) {
+      rules = this.load(sessionId);
+      this.rules.set(sessionId, rules);
+    }
+    return rules;
+  }
+
+  private async load(sessionId: string): Promise<PermissionRule[]> {
+    const filePath = this.getFilePath(sessionId);
+    if (!filePath) {
+      return [];
+    }
+
+    try {
+      const parsed = JSON.parse(
+        await fs.readFile(filePath, 'utf8')
+      ) as RulesFile;
+      if (
+        parsed.version !== RULES_FILE_VERSION ||
+        !Array.isArray(parsed.rules)
+      ) {
+        throw new Error(`Unsupported rules file version: ${parsed.version}`);
+      }
+      return parsed.rules.map((rule) => ({
+        ...rule,
+        createdAt: new Date(rule.createdAt),
+      }));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        this.logger.warn('Failed to load permission rules, starting empty', {
+          sessionId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+      return [];
+    }
+  }
+
+  private async save(sessionId: string): Promise<void> {
+    const filePath = this.getFilePath(sessionId);
+    if (!filePath) {
+      return;
+    }
+
+    const file: RulesFile = {
+      version: RULES_FILE_VERSION,
+      rules: await this.getRules(sessionId),
+    };
+    const tmpPath = `${filePath}.${process.pid}.${uuidv4()}.tmp`;
+
+    try {
+      await fs.mkdir(path.dirname(filePath), { recursive: true, mode: 0o700 });
+      await fs.writeFile(tmpPath, JSON.stringify(file, null, 2), {
+        encoding: 'utf8',
+        mode: 0o600,
+      });
+      await fs.rename(tmpPath, filePath);
+    } catch (error) {
+      await fs.rm(tmpPath, { force: true });
+      this.logger.error('Failed to persist permission rules', {
+        sessionId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private getFilePath(sessionId: string): string | null {
+    // Session IDs become file names; reject anything that could escape the dir
+    if (!this.persistDir || !/^[A-Za-z0-9_-]+$/.test(sessionId)) {
+      return null;
+    }
+    return path.join(this.persistDir, `${sessionId}.json`);
+  }
+}
+
+/**
+ * Finds the option of a permission request that applies a decision
+ * Prefers the "once" option so the client does not record its own rule.
+ */
+export function findOptionForDecision(
+  options: PermissionOption[],
+  decision: PermissionDecision
+): PermissionOption | undefined {
+  const kinds =
+    decision === 'allow'
+      ? ['allow_once', 'allow_always']
+      : ['reject_once', 'reject_always'];
+
+  for (const kind of kinds) {
+    const option = options.find((opt) => opt.kind === kind);
+    if (option) {
+      return option;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Gets the "always" decision an option records, if any
+ */
+export function getAlwaysDecision(
+  option: PermissionOption | undefined
+): PermissionDecision | null {
+  if (option?.kind === 'allow_always') {
+    return 'allow';
+  }
+  if (option?.kind === 'reject_always') {
+    return 'reject';
+  }
+  return null;
+}
+
+/**
+ * Formats a rule for logs and extension method responses
+ */
+export function describeRule(rule: PermissionRule): string {
+  const scope = [
+    rule.toolKind ?? 'any',
+    ...(rule.pathPattern ? [`path ${rule.pathPattern}`] : []),
+    ...(rule.commandPrefix ? [`command "${rule.commandPrefix}"`] : []),
+  ];
+  return `${rule.decision} ${scope.join(', ')}`;
+}
+
+function ruleMatches(rule: PermissionRule, toolCall: ToolCallUpdate): boolean {
+  if (rule.toolKind && rule.toolKind !== toolCall.kind) {
+    return false;
+  }
+
+  if (rule.pathPattern) {
+    const paths = getPaths(toolCall);
+    if (
+      paths.length === 0 ||
+      !paths.every((filePath) => matchGlob(rule.pathPattern!, filePath))
+    ) {
+      return false;
+    }
+  }
+
+  if (rule.commandPrefix) {
+    const command = getCommand(toolCall);
+    // A remembered "git status" must not allow "git status && rm -rf ~"
+    if (
+      !command ||
+      (rule.decision === 'allow' && SHELL_OPERATORS.test(command)) ||
+      (command !== rule.commandPrefix &&
+        !command.startsWith(`${rule.commandPrefix} `))
+    ) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+function getPaths(toolCall: ToolCallUpdate): string[] {
+  return (toolCall.locations ?? []).map((location) => location.path);
+}
+
+function getCommand(toolCall: ToolCallUpdate): string | undefined {
+  const input = toolCall.rawInput as Record<string, unknown> | undefined;
+  const command = input?.['command'];
+  if (typeof command !== 'string' || !command.trim()) {
+    return undefined;
+  }
+
+  const args = input?.['args'];
+  return Array.isArray(args) && args.length > 0
+    ? `${command.trim()} ${args.join(' ')}`
+    : command.trim();
+}
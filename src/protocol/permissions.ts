@@ -9,6 +9,7 @@ import type {
   RequestPermissionRequest,
   PermissionOption,
   RequestId,
+  ToolCallUpdate,
   Error as JsonRpcError,
 } from '@agentclientprotocol/sdk';
 import type { AnyRequest } from '@agentclientprotocol/sdk/dist/jsonrpc.js';
@@ -18,9 +19,26 @@ import {
   createErrorResponse,
   toRequestId,
 } from '../utils/json-rpc';
+import type { PermissionStore } from './permission-store';
+import {
+  getPolicyOutcome,
+  requiresPrompt,
+  type PermissionPolicy,
+  type PermissionPolicyContext,
+  type PermissionPolicyDecision,
+} from './permission-policy';
 
 export interface PermissionHandlerOptions {
   logger: Logger;
+  permissionStore?: PermissionStore | undefined;
+  permissionPolicy?: PermissionPolicy | undefined;
+  getPermissionContext?:
+    | ((sessionId: string) => Promise<PermissionPolicyContext>)
+    | undefined;
+  // Asks the client about operations that a policy rule marks as "ask"
+  requestPermission?:
+    | ((params: RequestPermissionRequest) => Promise<PermissionOutcome>)
+    | undefined;
 }
 
 export interface PendingPermissionRequest {
@@ -33,6 +51,14 @@ export interface PendingPermissionRequest {
 
 export class PermissionsHandler {
   private logger: Logger;
+  private permissionStore: PermissionStore | undefined;
+  private permissionPolicy: PermissionPolicy | undefined;
+  private getPermissionContext:
+    | ((sessionId: string) => Promise<PermissionPolicyContext>)
+    | undefined;
+  private requestPermission:
+    | ((params: RequestPermissionRequest) => Promise<PermissionOutcome>)
+    | undefined;
   private pendingRequests = new Map<
     string | number,
     PendingPermissionRequest
@@ -41,6 +67,10 @@ export class PermissionsHandler {
 
   constructor(options: PermissionHandlerOptions) {
     this.logger = options.logger;
+    this.permissionStore = options.permissionStore;
+    this.permissionPolicy = options.permissionPolicy;
+    this.getPermissionContext = options.getPermissionContext;
+    this.requestPermission = options.requestPermission;
   }
 
   /**
@@ -148,10 +178,32 @@ export class PermissionsHandler {
     // - Allow file reads by default
     // - Require explicit permission for edits/deletes/executes
 
-    const outcome = this.getDefaultPermissionOutcome(
-      (params['toolCall'] as any).kind || 'other',
-      params['options'] as any[]
-    );
+    // The configured policy decides first, then remembered "allow/reject
+    // always" decisions, then the defaults. An "ask" rule skips remembered
+    // decisions and asks the client; without a client to ask, the defaults
+    // for the tool kind apply.
+    const sessionId = params['sessionId'];
+    const toolCall = params['toolCall'] as ToolCallUpdate;
+    const options = params['options'] as PermissionOption[];
+    const policyDecision = await this.evaluatePolicy(sessionId, toolCall);
+    let outcome: PermissionOutcome;
+    if (requiresPrompt(policyDecision)) {
+      outcome = this.requestPermission
+        ? await this.askClient({ sessionId, toolCall, options })
+        : this.getDefaultPermissionOutcome(toolCall.kind || 'other', options);
+    } else {
+      const rememberedOutcome = this.permissionStore
+        ? await this.permissionStore.findRememberedOutcome(
+            sessionId,
+            toolCall,
+            options
+          )
+        : null;
+      outcome =
+        (policyDecision && getPolicyOutcome(policyDecision.action, options)) ??
+        rememberedOutcome ??
+        this.getDefaultPermissionOutcome(toolCall.kind || 'other', options);
+    }
 
     this.logger.debug('Permission request outcome', {
       requestId: request.id,
@@ -236,6 +288,50 @@ export class PermissionsHandler {
     });
   }
 
+  /**
+   * Evaluate the configured permission policy for this tool call
+   * Returns null when there is no policy or it decides nothing.
+   */
+  private async evaluatePolicy(
+    sessionId: string,
+    toolCall: ToolCallUpdate
+  ): Promise<PermissionPolicyDecision | null> {
+    if (!this.permissionPolicy || this.permissionPolicy.isEmpty()) {
+      return null;
+    }
+
+    let context: PermissionPolicyContext = {};
+    try {
+      context = (await this.getPermissionContext?.(sessionId)) ?? {};
+    } catch (error) {
+      this.logger.warn('Failed to get permission policy context', {
+        sessionId,
+        error,
+      });
+    }
+
+    return this.permissionPolicy.evaluate(toolCall, context);
+  }
+
+  /**
+   * Forward a permission request to the client
+   * A failed request is treated as cancelled so nothing runs unseen.
+   */
+  private async askClient(
+    params: RequestPermissionRequest
+  ): Promise<PermissionOutcome> {
+    try {
+      return await this.requestPermission!(params);
+    } catch (error) {
+      this.logger.error('Permission request failed', {
+        error,
+        sessionId: params.sessionId,
+        toolCallId: params.toolCall.toolCallId,
+      });
+      return { outcome: 'cancelled' };
+    }
+  }
+
   /**
    * Get default permission outcome based on tool kind
    * This is a simple default implementation - production systems
@@ -17,18 +17,52 @@ import type {
 import type { AnyRequest } from '@agentclientprotocol/sdk/dist/jsonrpc.js';
 import type { SlashCommandsRegistry } from '../tools/slash-commands';
 import {
+  AdapterError,
+  AdapterErrorCode,
+  CursorTimeoutError,
   ProtocolError,
-  SessionError,
   type ConversationMessage,
   type StreamChunk,
   type StreamProgress,
   type Logger,
   type AdapterConfig,
+  type CursorStreamEvent,
+  type CursorResultEvent,
+  type CursorThinkingEvent,
+  type CursorToolCallEvent,
+  type CursorUsage,
+  type SessionUsage,
+  type TurnUsage,
 } from '../types';
-import { toRequestId, createSuccessResponse } from '../utils/json-rpc';
+import {
+  toRequestId,
+  createSuccessResponse,
+  toJsonRpcError,
+  JsonRpcErrorCode,
+} from '../utils/json-rpc';
 import type { SessionManager } from '../session/manager';
 import type { CursorCliBridge } from '../cursor/cli-bridge';
-import { ContentProcessor } from './content';
+import type { ToolCallManager } from '../tools/tool-call-manager';
+import {
+  mapToolCallStart,
+  mapToolCallResult,
+} from '../cursor/tool-call-mapper';
+import { classifyCursorFailure } from '../cursor/error-classifier';
+import {
+  applyTodoUpdate,
+  isTodoToolCall,
+  parseMarkdownChecklist,
+} from '../cursor/plan-mapper';
+import { ContentProcessor, type ProcessedContent } from './content';
+import type { ImageAttachmentStore } from './image-attachments';
+import type { ResourceLinkResolver } from './resource-links';
+
+// How often a running turn refreshes the session's lastActivity
+const SESSION_ACTIVITY_INTERVAL_MS = 12000;
+
+// Turn time limits when neither the mode nor prompt config sets them
+const DEFAULT_IDLE_TIMEOUT_MS = 2 * 60 * 1000;
+const DEFAULT_TURN_TIMEOUT_MS = 30 * 60 * 1000;
 
 // Stop reason constants per ACP spec
 // These are the only valid values for PromptResponse.stopReason
@@ -40,6 +74,29 @@ const STOP_REASON = {
   CANCELLED: 'cancelled' as const,
 } satisfies Record<string, PromptResponse['stopReason']>;
 
+// stopReasonDetails.reason reported for typed adapter errors
+const ERROR_REASONS: Partial<Record<number, string>> = {
+  [AdapterErrorCode.NOT_AUTHENTICATED]: 'authentication',
+  [AdapterErrorCode.SESSION_NOT_FOUND]: 'session_not_found',
+  [AdapterErrorCode.CURSOR_NOT_INSTALLED]: 'capability_unavailable',
+  [AdapterErrorCode.RATE_LIMITED]: 'rate_limit',
+  [AdapterErrorCode.MODEL_UNAVAILABLE]: 'model_unavailable',
+  [AdapterErrorCode.TIMEOUT]: 'timeout',
+  [AdapterErrorCode.PROCESS_CRASHED]: 'process_crashed',
+  [AdapterErrorCode.PERMISSION_DENIED]: 'permission_denied',
+};
+
+// Per-turn state accumulated from cursor-agent stream-json events
+interface StreamTurnState {
+  assistantText: string;
+  result?: CursorResultEvent;
+  cwd: string;
+  // cursor-agent tool calls reported to the client but not yet completed
+  openToolCalls: Set<string>;
+  // cursor-agent todo list, keyed by todo ID, sent as the ACP plan
+  planEntries: Map<string, PlanEntry>;
+}
+
 export interface PromptHandlerOptions {
   sessionManager: SessionManager;
   cursorBridge: CursorCliBridge;
@@ -51,6 +108,9 @@ export interface PromptHandlerOptions {
     params?: any;
   }) => void;
   slashCommandsRegistry?: SlashCommandsRegistry;
+  toolCallManager?: ToolCallManager;
+  imageStore?: ImageAttachmentStore;
+  resourceLinkResolver?: ResourceLinkResolver;
 }
 
 export interface StreamOptions {
@@ -134,6 +194,8 @@ export class PromptHandler {
     params?: any;
   }) => void;
   private readonly slashCommandsRegistry: SlashCommandsRegistry | undefined;
+  private readonly toolCallManager: ToolCallManager | undefined;
+  private readonly imageStore: ImageAttachmentStore | undefined;
   // Processing configuration
   private readonly processingConfig: PromptProcessingConfig = {
     echoUserMessages: true,
@@ -150,36 +212,56 @@ export class PromptHandler {
     this.logger = options.logger;
     this.sendNotification = options.sendNotification;
     this.slashCommandsRegistry = options.slashCommandsRegistry;
+    this.toolCallManager = options.toolCallManager;
+    this.imageStore = options.imageStore;
     this.contentProcessor = new ContentProcessor({
       config: this.config,
       logger: this.logger,
+      imageStore: this.imageStore,
+      resourceLinkResolver: options.resourceLinkResolver,
     });
   }
 
   /**
-   * Returns a random element from an array
+   * Records the usage cursor-agent reported for a turn
+   * Returns undefined when cursor-agent reported neither usage nor duration,
+   * or when the totals could not be saved.
    */
-  private getRandomProcessingText(): string {
-    const texts = [
-      'Crunching the numbers (and my will to live)...',
-      'Hold on, consulting the magic 8-ball...',
-      'Doing the thing...',
-      'Asking the hamsters to run faster...',
-      'Spinning up the chaos engines...',
-      'Bribing the servers...',
-      'Waking up the code gremlins...',
-      'Sacrificing a rubber duck to the programming gods...',
-      'Convincing the database to cooperate...',
-      'Rolling the dice...',
-      'Summoning the data from the void...',
-      'Teaching the robots to behave...',
-      'Turning it off and on again...',
-      'Threatening the API with a timeout...',
-      'Hoping this works...',
-      'Doing some wizardry...',
-      'Making the computers think harder...',
-    ];
-    return texts[Math.floor(Math.random() * texts.length)]!;
+  private async recordTurnUsage(
+    sessionId: string,
+    responseMetadata: Record<string, any>
+  ): Promise<{ turn: TurnUsage; session: SessionUsage } | undefined> {
+    const usage = responseMetadata['usage'] as CursorUsage | undefined;
+    const durationMs = responseMetadata['cursorDurationMs'] as
+      | number
+      | undefined;
+    if (!usage && durationMs === undefined) {
+      return undefined;
+    }
+
+    const apiDurationMs = responseMetadata['cursorApiDurationMs'] as
+      | number
+      | undefined;
+    const turn: TurnUsage = {
+      model: this.sessionManager.getSessionModel(sessionId),
+      ...usage,
+      ...(durationMs !== undefined && { durationMs }),
+      ...(apiDurationMs !== undefined && { apiDurationMs }),
+    };
+
+    try {
+      const session = await this.sessionManager.recordTurnUsage(
+        sessionId,
+        turn
+      );
+      return { turn, session };
+    } catch (error) {
+      this.logger.warn('Failed to record turn usage', {
+        sessionId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return undefined;
+    }
   }
 
   /**
@@ -241,77 +323,33 @@ export class PromptHandler {
       };
     }
 
+    // The turn ran into its idle or absolute time limit; output produced
+    // before that is kept in the session history. ACP has no stop reason
+    // for timeouts, so the turn ends normally with the details in _meta
+    if (error instanceof CursorTimeoutError && error.limit !== 'command') {
+      return {
+        stopReason: STOP_REASON.END_TURN,
+        stopReasonDetails: {
+          reason: 'timeout',
+          limit: error.limit,
+          timeoutMs: error.timeoutMs,
+          errorCode: error.rpcCode,
+          errorData: error.data,
+        },
+      };
+    }
+
     // Explicit refusal or error occurred
     if (error || responseMetadata?.['refused'] || responseMetadata?.['error']) {
       // Determine specific refusal subtype for better client handling
       let reason: string;
       if (error) {
-        // Categorize errors by type
-        // Check for cursor-agent CLI specific errors first
-        if (
-          error.name === 'CursorError' ||
-          error.message.includes('cursor-agent') ||
-          error.message.includes('Cursor CLI')
-        ) {
-          // Detect specific cursor-agent CLI issues
-          // First check if it's a "not installed" error
-          const isNotInstalledError =
-            error.message.includes('not installed') ||
-            error.message.includes('not found') ||
-            error.message.includes('ENOENT') ||
-            error.message.includes('command not found') ||
-            error.message.includes('spawn cursor-agent ENOENT');
-
-          if (isNotInstalledError) {
-            reason = 'capability_unavailable'; // cursor-agent CLI not installed
-          } else if (
-            // Check for explicit authentication errors
-            error.message.includes('not authenticated') ||
-            error.message.includes('authentication') ||
-            error.message.includes('auth') ||
-            error.message.includes('User not authenticated') ||
-            error.message.includes('Authentication check failed') ||
-            error.message.includes('Please run: cursor-agent login') ||
-            error.message.includes('login') ||
-            error.message.includes('sign in') ||
-            error.message.includes('unauthorized') ||
-            error.message.includes('Unauthorized')
-          ) {
-            reason = 'authentication'; // cursor-agent CLI not authenticated
-          } else {
-            // For other cursor-agent CLI errors where CLI is installed but fails,
-            // if it's a CursorError or ProtocolError with "Cursor CLI error",
-            // and we can't determine the specific cause, assume it's likely authentication
-            // (since installation errors would have been caught above)
-            if (
-              error.name === 'CursorError' ||
-              (error.message.includes('Cursor CLI error') &&
-                !error.message.includes('timeout') &&
-                !error.message.includes('rate limit'))
-            ) {
-              reason = 'authentication'; // Likely authentication issue
-            } else {
-              reason = 'capability_unavailable'; // Other cursor-agent CLI errors
-            }
-          }
-        } else if (
-          error.name === 'AuthenticationError' ||
-          error.message.includes('authentication')
-        ) {
-          reason = 'authentication';
-        } else if (
-          error.name === 'RateLimitError' ||
-          error.message.includes('rate limit')
-        ) {
-          reason = 'rate_limit';
-        } else if (
-          error.name === 'TimeoutError' ||
-          error.message.includes('timeout')
-        ) {
-          reason = 'timeout';
-        } else {
-          reason = 'error'; // Generic system error
-        }
+        // Typed adapter errors carry a stable JSON-RPC code
+        reason =
+          (error instanceof AdapterError &&
+            error.rpcCode !== undefined &&
+            ERROR_REASONS[error.rpcCode]) ||
+          'error';
       } else if (responseMetadata?.['safeguardTriggered']) {
         reason = 'content_policy'; // Content safety filter
       } else if (responseMetadata?.['capabilityUnavailable']) {
@@ -330,6 +368,12 @@ export class PromptHandler {
             errorMessage: error.message,
             errorStack: error.stack?.split('\n').slice(0, 3).join('\n'), // First 3 lines
           }),
+          // Code and data clients can act on, e.g. to offer `cursor-agent login`
+          ...(error instanceof AdapterError &&
+            error.rpcCode !== undefined && {
+              errorCode: error.rpcCode,
+              errorData: error.data,
+            }),
           ...(responseMetadata?.['refusalReason'] && {
             refusalReason: responseMetadata['refusalReason'],
           }),
@@ -350,6 +394,57 @@ export class PromptHandler {
     };
   }
 
+  /**
+   * Applies the session mode to a prompt: prepends the mode's system preamble
+   * and picks the cursor-agent flags it runs with
+   */
+  private applySessionMode(
+    sessionId: string,
+    content: ProcessedContent
+  ): { content: ProcessedContent; cursorArgs?: string[] } {
+    const modeId = this.sessionManager.getSessionMode(sessionId);
+    const modeConfig = this.sessionManager.getModeConfig(modeId);
+
+    this.logger.debug('Applying session mode to prompt', {
+      sessionId,
+      mode: modeId,
+      cursorArgs: modeConfig?.cursorArgs,
+    });
+
+    return {
+      content: modeConfig?.systemPrompt
+        ? {
+            ...content,
+            value: `${modeConfig.systemPrompt}\n\n${content.value}`,
+          }
+        : content,
+      ...(modeConfig?.cursorArgs && { cursorArgs: modeConfig.cursorArgs }),
+    };
+  }
+
+  /**
+   * Time limits for a turn in the session's mode: how long cursor-agent may
+   * go without output, and how long the whole turn may run
+   */
+  private getTurnTimeouts(sessionId: string): {
+    idleTimeoutMs: number;
+    turnTimeoutMs: number;
+  } {
+    const modeConfig = this.sessionManager.getModeConfig(
+      this.sessionManager.getSessionMode(sessionId)
+    );
+    return {
+      idleTimeoutMs:
+        modeConfig?.idleTimeoutMs ??
+        this.config.prompt?.idleTimeoutMs ??
+        DEFAULT_IDLE_TIMEOUT_MS,
+      turnTimeoutMs:
+        modeConfig?.turnTimeoutMs ??
+        this.config.prompt?.turnTimeoutMs ??
+        DEFAULT_TURN_TIMEOUT_MS,
+    };
+  }
+
   /**
    * Echo user message back to client
    * Per ACP spec: https://agentclientprotocol.com/protocol/prompt-turn#agent-reports-output
@@ -413,40 +508,21 @@ export class PromptHandler {
     let explanationText: string;
 
     // Provide specific explanations based on error type
+    const errorData = error instanceof AdapterError ? error.data : undefined;
     if (reason === 'capability_unavailable') {
       // cursor-agent CLI not installed or unavailable
-      if (
-        error.message.includes('not installed') ||
-        error.message.includes('not found') ||
-        error.message.includes('ENOENT') ||
-        error.message.includes('command not found') ||
-        error.message.includes('spawn cursor-agent ENOENT')
-      ) {
-        explanationText =
-          'Unable to process your request because the cursor-agent CLI is not installed or not available in PATH.\n\nTo fix this, install cursor-agent CLI: https://cursor.sh/docs/agent';
-      } else {
-        // If cursor-agent CLI is installed but unavailable, it might be an authentication issue
-        // Check error message for authentication hints
-        if (
-          error.message.includes('Cursor CLI error') &&
-          !error.message.includes('not installed') &&
-          !error.message.includes('not found')
-        ) {
-          // cursor-agent CLI is installed but failing - likely authentication
-          explanationText =
-            'Unable to process your request because cursor-agent CLI is not authenticated.\n\nTo authenticate, run: `cursor-agent login`';
-        } else {
-          explanationText =
-            'Unable to process your request because cursor-agent CLI is unavailable.\n\nPlease check that cursor-agent CLI is properly installed and accessible.';
-        }
-      }
+      explanationText =
+        'Unable to process your request because the cursor-agent CLI is not installed or not available in PATH.\n\nTo fix this, install cursor-agent CLI: https://cursor.sh/docs/agent';
     } else if (reason === 'authentication') {
       // cursor-agent CLI not authenticated
       explanationText =
         'Unable to process your request because cursor-agent CLI is not authenticated.\n\nTo authenticate, run: `cursor-agent login`';
     } else {
-      // Generic error
+      // Other errors, with the suggested fix if there is one
       explanationText = `Unable to process your request: ${error.message}`;
+      if (errorData?.action) {
+        explanationText += `\n\n${errorData.action}.`;
+      }
     }
 
     // Build explanatory message content
@@ -462,6 +538,8 @@ export class PromptHandler {
           audience: ['user'],
           priority: 5, // High priority for errors
           errorType: reason, // Specific error type (capability_unavailable, authentication, etc.)
+          ...(error instanceof AdapterError &&
+            error.rpcCode !== undefined && { errorCode: error.rpcCode }),
           severity: 'error', // Error severity level
         },
       },
@@ -786,70 +864,42 @@ export class PromptHandler {
         // Mark session as processing to prevent cleanup during long-running operations
         this.sessionManager.markSessionProcessing(sessionId);
 
-        let heartbeatCount = 0;
-        const processingText = this.getRandomProcessingText();
-
-        // Send initial thought chunk to indicate processing has started
-        // Per ACP spec: agent_thought_chunk is for progress updates
-        this.sendNotification({
-          jsonrpc: '2.0',
-          method: 'session/update',
-          params: {
-            sessionId: promptParams.sessionId,
-            update: {
-              sessionUpdate: 'agent_thought_chunk',
-              content: {
-                type: 'text',
-                text: processingText,
-              },
-            },
-          },
-        });
-
-        // Set up periodic heartbeat to keep client aware of ongoing activity
-        // Sends agent_thought_chunk progress messages every 12 seconds
-        // Also updates session activity to prevent expiration during long-running operations
-        const heartbeatInterval = setInterval(async () => {
-          heartbeatCount++;
-          const elapsed = heartbeatCount * 12;
+        // Record the turn's updates so session/load can replay them
+        this.sessionManager.startTurnRecording(sessionId);
 
-          // Update session activity to prevent expiration during processing
+        // Keep the session active while long-running turns are processed
+        const activityInterval = setInterval(async () => {
           try {
             // Touch the session to update lastActivity without changing metadata
             await this.sessionManager.updateSession(sessionId, {});
           } catch (error) {
-            // If session no longer exists, stop heartbeat
-            this.logger.warn('Session not found during heartbeat', {
+            // If session no longer exists, stop touching it
+            this.logger.warn('Session not found during prompt processing', {
               sessionId,
               error: error instanceof Error ? error.message : String(error),
             });
-            clearInterval(heartbeatInterval);
-            return;
+            clearInterval(activityInterval);
           }
+        }, SESSION_ACTIVITY_INTERVAL_MS);
 
-          // Send progress update via agent_thought_chunk with enhanced metadata
-          this.sendNotification({
-            jsonrpc: '2.0',
-            method: 'session/update',
-            params: {
-              sessionId: promptParams.sessionId,
-              update: {
-                sessionUpdate: 'agent_thought_chunk',
-                content: {
-                  type: 'text',
-                  text: `${processingText} (${elapsed}s)`,
-                  annotations: {
-                    _meta: {
-                      heartbeat: true,
-                      elapsedSeconds: elapsed,
-                      heartbeatNumber: heartbeatCount,
-                    },
-                  },
+        // Opt-in keepalive for clients that time out quiet requests
+        // Sent as an extension notification so other clients can ignore it
+        let heartbeatCount = 0;
+        const heartbeatIntervalMs = this.config.prompt?.heartbeatIntervalMs;
+        const heartbeatInterval = heartbeatIntervalMs
+          ? setInterval(() => {
+              heartbeatCount++;
+              this.sendNotification({
+                jsonrpc: '2.0',
+                method: '_cursor/heartbeat',
+                params: {
+                  sessionId,
+                  elapsedMs: Date.now() - startTime,
+                  heartbeatNumber: heartbeatCount,
                 },
-              },
-            },
-          });
-        }, 12000); // 12 seconds
+              });
+            }, heartbeatIntervalMs)
+          : undefined;
 
         try {
           // Process and AWAIT completion to get stopReason and metadata
@@ -876,6 +926,12 @@ export class PromptHandler {
             // Don't rethrow - we'll determine the appropriate stop reason
           }
 
+          // Add the turn's token usage and duration to the session totals
+          const usage = await this.recordTurnUsage(sessionId, responseMetadata);
+          if (usage?.turn.totalTokens !== undefined) {
+            responseMetadata['tokensUsed'] = usage.turn.totalTokens;
+          }
+
           // Determine the appropriate stop reason based on execution context with detailed metadata
           const stopData = this.determineStopReason(
             processingError,
@@ -922,6 +978,14 @@ export class PromptHandler {
                 contentMetrics: responseMetadata['contentMetrics'],
               }),
 
+              // Token usage and cost of this turn and the session so far
+              ...(usage && { usage }),
+
+              // Resource links whose contents were cut to fit the budgets
+              ...(responseMetadata['truncatedResources'] && {
+                truncatedResources: responseMetadata['truncatedResources'],
+              }),
+
               // Stop reason details from enhanced determination
               ...(stopData.stopReasonDetails && {
                 stopReasonDetails: stopData.stopReasonDetails,
@@ -953,10 +1017,21 @@ export class PromptHandler {
           });
           throw error;
         } finally {
-          // Always clear the heartbeat interval
+          // Always clear the activity and heartbeat intervals
+          clearInterval(activityInterval);
           clearInterval(heartbeatInterval);
           // Always unmark session as processing
           this.sessionManager.unmarkSessionProcessing(sessionId);
+          try {
+            await this.sessionManager.finishTurnRecording(sessionId);
+          } catch (error) {
+            this.logger.warn('Failed to save turn history', {
+              sessionId,
+              error: error instanceof Error ? error.message : String(error),
+            });
+          }
+          // Images attached in this turn are only needed while it runs
+          await this.imageStore?.releaseSession(sessionId);
         }
       };
 
@@ -1013,14 +1088,8 @@ export class PromptHandler {
       >{
         jsonrpc: '2.0',
         id: id!,
-        error: {
-          code: error instanceof SessionError ? -32001 : -32603,
-          message: error instanceof Error ? error.message : 'Unknown error',
-          data:
-            error instanceof Error
-              ? { name: error.name, stack: error.stack }
-              : undefined,
-        },
+        // SessionNotFoundError and other typed errors carry their own code
+        error: toJsonRpcError(error, JsonRpcErrorCode.INTERNAL_ERROR),
       };
     }
   }
@@ -1293,13 +1362,16 @@ export class PromptHandler {
       this.echoUserMessage(sessionId, content);
 
       // Process content blocks and prepare for Cursor CLI
-      const processedContent =
-        await this.contentProcessor.processContent(content);
+      const processedContent = await this.contentProcessor.processContent(
+        content,
+        { sessionId }
+      );
 
       // Send to Cursor CLI with working directory, model, and cursor-agent chat ID
       const cursorResponse = await this.cursorBridge.sendPrompt({
         sessionId,
-        content: processedContent,
+        ...this.applySessionMode(sessionId, processedContent),
+        turnTimeoutMs: this.getTurnTimeouts(sessionId).turnTimeoutMs,
         metadata: {
           ...metadata,
           cwd: workingDir,
@@ -1309,8 +1381,13 @@ export class PromptHandler {
       });
 
       if (!cursorResponse.success) {
-        throw new ProtocolError(
-          `Cursor CLI error: ${cursorResponse.error || 'Unknown error'}`
+        throw classifyCursorFailure(
+          `Cursor CLI error: ${cursorResponse.error || 'Unknown error'}`,
+          {
+            exitCode: cursorResponse.exitCode,
+            stderr: cursorResponse.stderr,
+            model: currentModel,
+          }
         );
       }
 
@@ -1365,6 +1442,8 @@ export class PromptHandler {
         });
       }
 
+      this.sendChecklistPlan(sessionId, content, cursorResponse.stdout || '');
+
       // Collect detailed metrics if enabled
       const detailedMetrics = this.processingConfig.collectDetailedMetrics
         ? {
@@ -1379,10 +1458,21 @@ export class PromptHandler {
 
       // Return metadata - stopReason will be determined by caller
       this.logger.debug('Regular prompt processing complete', { sessionId });
+      const cursorMetadata = cursorResponse.metadata ?? {};
       return {
         metadata: {
           messageBlocks: responseContent.length,
           success: true,
+          ...(cursorMetadata['cursorDurationMs'] !== undefined && {
+            cursorDurationMs: cursorMetadata['cursorDurationMs'],
+          }),
+          ...(cursorMetadata['cursorApiDurationMs'] !== undefined && {
+            cursorApiDurationMs: cursorMetadata['cursorApiDurationMs'],
+          }),
+          ...(cursorMetadata['usage'] && { usage: cursorMetadata['usage'] }),
+          ...(processedContent.metadata['truncatedResources'] && {
+            truncatedResources: processedContent.metadata['truncatedResources'],
+          }),
           ...detailedMetrics,
         },
       };
@@ -1422,6 +1512,9 @@ export class PromptHandler {
     }
     this.activeSessionRequests.get(sessionId)!.add(abortController);
 
+    // Set once cursor-agent is started so a failed turn can close its tool calls
+    let startedTurn: StreamTurnState | undefined;
+
     try {
       // Load session to get working directory, model, and cursor-agent chat ID
       const session = await this.sessionManager.loadSession(sessionId);
@@ -1455,8 +1548,10 @@ export class PromptHandler {
       this.echoUserMessage(sessionId, content);
 
       // Process content blocks
-      const processedContent =
-        await this.contentProcessor.processContent(content);
+      const processedContent = await this.contentProcessor.processContent(
+        content,
+        { sessionId }
+      );
 
       // Start streaming response
       const responseContent: ContentBlock[] = [];
@@ -1464,11 +1559,19 @@ export class PromptHandler {
 
       // Initialize streaming state in content processor
       this.contentProcessor.startStreaming();
+      const turnState: StreamTurnState = {
+        assistantText: '',
+        cwd: workingDir,
+        openToolCalls: new Set(),
+        planEntries: new Map(),
+      };
+      startedTurn = turnState;
 
       // Send streaming request to Cursor CLI with working directory, model, and cursor-agent chat ID
-      const streamResponse = await this.cursorBridge.sendStreamingPrompt({
+      const streamRequest = this.cursorBridge.sendStreamingPrompt({
         sessionId,
-        content: processedContent,
+        ...this.applySessionMode(sessionId, processedContent),
+        ...this.getTurnTimeouts(sessionId),
         ...(metadata !== undefined && {
           metadata: {
             ...metadata,
@@ -1479,11 +1582,32 @@ export class PromptHandler {
         }),
         abortSignal: abortController.signal,
         onChunk: async (chunk: StreamChunk) => {
-          if (chunk.type === 'content') {
+          if (chunk.type === 'event' && chunk.data?.type === 'thinking') {
+            this.sendThoughtChunk(sessionId, chunk.data);
+          } else if (
+            chunk.type === 'event' &&
+            chunk.data?.type === 'tool_call'
+          ) {
+            if (isTodoToolCall(chunk.data)) {
+              this.reportStreamPlan(sessionId, chunk.data, turnState);
+            }
+            await this.reportStreamToolCall(sessionId, chunk.data, turnState);
+          } else if (chunk.type === 'content' || chunk.type === 'event') {
+            const chunkData =
+              chunk.type === 'event'
+                ? this.getStreamEventText(
+                    sessionId,
+                    chunk.data as CursorStreamEvent,
+                    turnState
+                  )
+                : chunk.data;
+            if (chunkData === null) {
+              return;
+            }
+
             // Process chunk - may return null for partial blocks
-            const contentBlock = await this.contentProcessor.processStreamChunk(
-              chunk.data
-            );
+            const contentBlock =
+              await this.contentProcessor.processStreamChunk(chunkData);
 
             if (contentBlock) {
               responseContent.push(contentBlock);
@@ -1528,6 +1652,19 @@ export class PromptHandler {
         },
       });
 
+      // A turn timeout ends the turn with the output received so far
+      let turnTimeout: CursorTimeoutError | undefined;
+      const streamResponse = await streamRequest.catch((error: unknown) => {
+        if (
+          !(error instanceof CursorTimeoutError) ||
+          error.limit === 'command'
+        ) {
+          throw error;
+        }
+        turnTimeout = error;
+        return undefined;
+      });
+
       // Finalize streaming to flush any remaining partial content
       const finalBlock = this.contentProcessor.finalizeStreaming();
       if (finalBlock) {
@@ -1563,12 +1700,48 @@ export class PromptHandler {
         });
       }
 
+      // Tool calls cursor-agent started but never finished cannot complete now
+      await this.failOpenToolCalls(
+        sessionId,
+        turnState,
+        turnTimeout
+          ? 'Tool call did not complete before the turn timed out'
+          : 'Tool call did not complete'
+      );
+
+      if (!streamResponse) {
+        await this.sessionManager.addMessage(sessionId, {
+          id: assistantMessageId,
+          role: 'assistant',
+          content: responseContent,
+          timestamp: new Date(),
+          metadata: { partial: true, timeout: turnTimeout?.data },
+        });
+        throw turnTimeout;
+      }
+
       if (!streamResponse.success) {
-        throw new ProtocolError(
-          `Streaming error: ${streamResponse.error || 'Unknown error'}`
+        throw classifyCursorFailure(
+          `Streaming error: ${streamResponse.error || 'Unknown error'}`,
+          {
+            exitCode: streamResponse.exitCode,
+            stderr: streamResponse.stderr,
+            model: currentModel,
+          }
+        );
+      }
+
+      if (turnState.result?.isError) {
+        throw classifyCursorFailure(
+          `Streaming error: ${turnState.result.result || turnState.result.subtype}`,
+          { model: currentModel }
         );
       }
 
+      if (turnState.planEntries.size === 0) {
+        this.sendChecklistPlan(sessionId, content, turnState.assistantText);
+      }
+
       // Add final assistant message to session
       const assistantMessage: ConversationMessage = {
         id: assistantMessageId,
@@ -1600,6 +1773,16 @@ export class PromptHandler {
         metadata: {
           messageBlocks: responseContent.length,
           success: true,
+          ...(turnState.result?.durationMs !== undefined && {
+            cursorDurationMs: turnState.result.durationMs,
+          }),
+          ...(turnState.result?.durationApiMs !== undefined && {
+            cursorApiDurationMs: turnState.result.durationApiMs,
+          }),
+          ...(turnState.result?.usage && { usage: turnState.result.usage }),
+          ...(processedContent.metadata['truncatedResources'] && {
+            truncatedResources: processedContent.metadata['truncatedResources'],
+          }),
           ...detailedMetrics,
         },
         aborted: false,
@@ -1610,6 +1793,22 @@ export class PromptHandler {
         sessionId,
       });
 
+      // Tool calls already sent to the client must not stay in progress
+      if (startedTurn) {
+        await this.failOpenToolCalls(
+          sessionId,
+          startedTurn,
+          abortController.signal.aborted
+            ? 'Tool call was cancelled'
+            : 'Tool call did not complete'
+        ).catch((failError) => {
+          this.logger.warn('Failed to close open tool calls', {
+            error: failError,
+            sessionId,
+          });
+        });
+      }
+
       // Check if cancelled via abort signal
       if (abortController.signal.aborted) {
         return {
@@ -1857,6 +2056,214 @@ export class PromptHandler {
     }
   }
 
+  /**
+   * Extract message text from a cursor-agent stream-json event
+   * Returns null for events that carry no text for the client
+   */
+  private getStreamEventText(
+    sessionId: string,
+    event: CursorStreamEvent,
+    turnState: StreamTurnState
+  ): string | null {
+    switch (event.type) {
+      case 'assistant': {
+        if (!event.isDelta) {
+          // cursor-agent repeats the complete message after the deltas;
+          // only forward text that was not already streamed
+          if (!event.text.startsWith(turnState.assistantText)) {
+            this.logger.debug('Assistant message diverges from deltas', {
+              sessionId,
+            });
+            return null;
+          }
+          const remainder = event.text.slice(turnState.assistantText.length);
+          turnState.assistantText = event.text;
+          return remainder || null;
+        }
+        turnState.assistantText += event.text;
+        return event.text;
+      }
+
+      case 'result':
+        turnState.result = event;
+        // Fall back to the final result when no assistant text was streamed
+        if (!turnState.assistantText && !event.isError && event.result) {
+          turnState.assistantText = event.result;
+          return event.result;
+        }
+        return null;
+
+      case 'text':
+        return event.text;
+
+      case 'system':
+        this.logger.debug('cursor-agent stream initialized', {
+          sessionId,
+          cursorSessionId: event.sessionId,
+          model: event.model,
+        });
+        return null;
+
+      default:
+        this.logger.debug('Ignoring unrecognized stream event', {
+          sessionId,
+          eventType: event.raw['type'],
+        });
+        return null;
+    }
+  }
+
+  /**
+   * Report a cursor-agent tool call event as an ACP tool call
+   * The cursor-agent call ID is used as the ACP toolCallId so started and
+   * completed events for the same call update one tool call in the client.
+   * Per ACP spec: https://agentclientprotocol.com/protocol/tool-calls
+   */
+  private async reportStreamToolCall(
+    sessionId: string,
+    event: CursorToolCallEvent,
+    turnState: StreamTurnState
+  ): Promise<void> {
+    this.logger.debug('cursor-agent tool call', {
+      sessionId,
+      callId: event.callId,
+      toolName: event.toolName,
+      subtype: event.subtype,
+    });
+
+    if (!this.toolCallManager) {
+      return;
+    }
+
+    const toolCallId = event.callId;
+
+    if (!turnState.openToolCalls.has(toolCallId)) {
+      // Completed events can arrive without a started event (e.g. fast calls)
+      const start = mapToolCallStart(event, turnState.cwd);
+      await this.toolCallManager.reportToolCall(sessionId, event.toolName, {
+        toolCallId,
+        title: start.title,
+        kind: start.kind,
+        status: 'in_progress',
+        rawInput: start.rawInput,
+        ...(start.locations.length > 0 && { locations: start.locations }),
+      });
+      turnState.openToolCalls.add(toolCallId);
+    }
+
+    if (event.subtype !== 'completed') {
+      return;
+    }
+
+    turnState.openToolCalls.delete(toolCallId);
+    const result = mapToolCallResult(event, turnState.cwd);
+
+    if (result.status === 'completed') {
+      await this.toolCallManager.completeToolCall(sessionId, toolCallId, {
+        ...(result.content.length > 0 && { content: result.content }),
+        ...(result.rawOutput !== undefined && { rawOutput: result.rawOutput }),
+      });
+    } else {
+      await this.toolCallManager.failToolCall(sessionId, toolCallId, {
+        error: result.error || 'Tool call failed',
+        ...(result.rawOutput !== undefined && { rawOutput: result.rawOutput }),
+      });
+    }
+  }
+
+  /**
+   * Forward cursor-agent reasoning to the client as a thought chunk
+   * Per ACP spec: https://agentclientprotocol.com/protocol/prompt-turn#3-agent-reports-output
+   */
+  private sendThoughtChunk(
+    sessionId: string,
+    event: CursorThinkingEvent
+  ): void {
+    if (!event.text) {
+      return;
+    }
+
+    this.sendNotification({
+      jsonrpc: '2.0',
+      method: 'session/update',
+      params: {
+        sessionId,
+        update: {
+          sessionUpdate: 'agent_thought_chunk',
+          content: { type: 'text', text: event.text },
+        },
+      },
+    });
+  }
+
+  /**
+   * Send cursor-agent's todo list as the ACP plan whenever it changes
+   * Per ACP spec: https://agentclientprotocol.com/protocol/agent-plan
+   */
+  private reportStreamPlan(
+    sessionId: string,
+    event: CursorToolCallEvent,
+    turnState: StreamTurnState
+  ): void {
+    if (!applyTodoUpdate(turnState.planEntries, event)) {
+      return;
+    }
+
+    const entries = [...turnState.planEntries.values()];
+    this.logger.debug('cursor-agent plan updated', {
+      sessionId,
+      entryCount: entries.length,
+      completed: entries.filter((entry) => entry.status === 'completed').length,
+    });
+    this._sendPlanNotification(sessionId, entries);
+  }
+
+  /**
+   * Send the markdown checklist of a planning answer as the ACP plan
+   * Used in plan mode and for /plan when cursor-agent sent no todo list
+   */
+  private sendChecklistPlan(
+    sessionId: string,
+    content: ContentBlock[],
+    answer: string
+  ): void {
+    const isPlanning =
+      this.sessionManager.getSessionMode(sessionId) === 'plan' ||
+      this.detectSlashCommand(content)?.command === 'plan';
+    if (!isPlanning) {
+      return;
+    }
+
+    const entries = parseMarkdownChecklist(answer);
+    if (entries.length > 0) {
+      this.logger.debug('Sending plan from answer checklist', {
+        sessionId,
+        entryCount: entries.length,
+      });
+      this._sendPlanNotification(sessionId, entries);
+    }
+  }
+
+  /**
+   * Mark all open cursor-agent tool calls of a turn as failed
+   */
+  private async failOpenToolCalls(
+    sessionId: string,
+    turnState: StreamTurnState,
+    error: string
+  ): Promise<void> {
+    if (!this.toolCallManager) {
+      return;
+    }
+
+    for (const toolCallId of turnState.openToolCalls) {
+      await this.toolCallManager.failToolCall(sessionId, toolCallId, {
+        error,
+      });
+    }
+    turnState.openToolCalls.clear();
+  }
+
   /**
    * Get content size for logging
    */
@@ -0,0 +1,235 @@
+/**
+ * Resource Link Resolution
+ *
+ * Reads the files behind file:// resource links so their contents can be
+ * inlined into the prompt as embedded context. Files are read through the
+ * client (fs/read_text_file, which includes unsaved editor changes) when it
+ * supports that, and otherwise from the local file system, limited to the
+ * session's working directory. Contents are cut to a per-file and a
+ * per-prompt byte budget.
+ *
+ * Per ACP spec: https://agentclientprotocol.com/protocol/content#resource-link
+ */
+
+import { promises as fs } from 'fs';
+import { fileURLToPath } from 'url';
+import type { ClientCapabilities } from '@agentclientprotocol/sdk';
+import type { FileSystemClient } from '../client/filesystem-client';
+import type { AdapterConfig, Logger } from '../types';
+import { resolveInWorkspace } from '../utils/workspace-path';
+
+const DEFAULT_MAX_FILE_BYTES = 64 * 1024; // 64KB
+const DEFAULT_MAX_PROMPT_BYTES = 256 * 1024; // 256KB
+
+export interface ResourceLinkResolverOptions {
+  config: AdapterConfig;
+  logger: Logger;
+  fileSystemClient?: FileSystemClient | undefined;
+  getClientCapabilities?: () => ClientCapabilities | null;
+  // Local reads are limited to this directory
+  getSessionCwd?: (sessionId: string) => string | undefined;
+}
+
+/**
+ * Bytes still available to the links of one prompt
+ */
+export interface ResourceLinkBudget {
+  remaining: number;
+}
+
+export type ResourceLinkResolution =
+  | {
+      status: 'resolved';
+      text: string;
+      source: 'client' | 'local';
+      /** Bytes inlined into the prompt */
+      bytes: number;
+      /** Size of the file in bytes */
+      originalBytes: number;
+      truncated: boolean;
+    }
+  | { status: 'skipped'; reason: string };
+
+export class ResourceLinkResolver {
+  private config: AdapterConfig;
+  private logger: Logger;
+  private fileSystemClient: FileSystemClient | undefined;
+  private getClientCapabilities: () => ClientCapabilities | null;
+  private getSessionCwd: (sessionId: string) => string | undefined;
+
+  constructor(options: ResourceLinkResolverOptions) {
+    this.config = options.config;
+    this.logger = options.logger;
+    this.fileSystemClient = options.fileSystemClient;
+    this.getClientCapabilities = options.getClientCapabilities ?? (() => null);
+    this.getSessionCwd = options.getSessionCwd ?? (() => undefined);
+  }
+
+  /**
+   * Whether content.resourceLinks.resolve is turned on
+   */
+  isEnabled(): boolean {
+    return this.config.content?.resourceLinks?.resolve === true;
+  }
+
+  /**
+   * Creates the byte budget shared by the links of one prompt
+   */
+  createBudget(): ResourceLinkBudget {
+    return {
+      remaining:
+        this.config.content?.resourceLinks?.maxPromptBytes ??
+        DEFAULT_MAX_PROMPT_BYTES,
+    };
+  }
+
+  /**
+   * Reads the file behind a resource link
+   *
+   * @returns null for links that do not point at a local file
+   */
+  async resolve(
+    sessionId: string,
+    uri: string,
+    budget: ResourceLinkBudget
+  ): Promise<ResourceLinkResolution | null> {
+    const filePath = getFilePath(uri);
+    if (!filePath) {
+      return null;
+    }
+
+    if (budget.remaining <= 0) {
+      return { status: 'skipped', reason: 'prompt byte budget exhausted' };
+    }
+
+    const limit = Math.min(
+      this.config.content?.resourceLinks?.maxFileBytes ??
+        DEFAULT_MAX_FILE_BYTES,
+      budget.remaining
+    );
+
+    try {
+      const resolution = this.getClientCapabilities()?.fs?.readTextFile
+        ? await this.readFromClient(sessionId, filePath, limit)
+        : await this.readLocal(sessionId, filePath, limit);
+
+      if (resolution.status === 'resolved') {
+        budget.remaining -= resolution.bytes;
+        this.logger.debug('Resolved resource link', {
+          sessionId,
+          uri,
+          source: resolution.source,
+          bytes: resolution.bytes,
+          truncated: resolution.truncated,
+        });
+      }
+      return resolution;
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      this.logger.warn('Failed to resolve resource link', {
+        sessionId,
+        uri,
+        error: reason,
+      });
+      return { status: 'skipped', reason: `could not read file: ${reason}` };
+    }
+  }
+
+  private async readFromClient(
+    sessionId: string,
+    filePath: string,
+    limit: number
+  ): Promise<ResourceLinkResolution> {
+    if (!this.fileSystemClient) {
+      return this.readLocal(sessionId, filePath, limit);
+    }
+
+    const content = Buffer.from(
+      await this.fileSystemClient.readTextFile({ sessionId, path: filePath }),
+      'utf8'
+    );
+    return toResolution(content, content.length, limit, 'client');
+  }
+
+  private async readLocal(
+    sessionId: string,
+    filePath: string,
+    limit: number
+  ): Promise<ResourceLinkResolution> {
+    const cwd = this.getSessionCwd(sessionId);
+    if (!cwd) {
+      return {
+        status: 'skipped',
+        reason: 'session working directory is unknown',
+      };
+    }
+    const realPath = await resolveInWorkspace(await fs.realpath(cwd), filePath);
+    if (realPath === null) {
+      this.logger.warn('Refusing resource link outside the workspace', {
+        sessionId,
+        path: filePath,
+      });
+      return { status: 'skipped', reason: 'outside the session workspace' };
+    }
+
+    const handle = await fs.open(realPath, 'r');
+    try {
+      const { size } = await handle.stat();
+      // Read one byte past the limit so truncation can be detected
+      const buffer = Buffer.alloc(Math.min(size, limit + 1));
+      const { bytesRead } = await handle.read(buffer, 0, buffer.length, 0);
+      const content = buffer.subarray(0, bytesRead);
+
+      if (content.includes(0)) {
+        return { status: 'skipped', reason: 'binary file' };
+      }
+      return toResolution(content, Math.max(size, bytesRead), limit, 'local');
+    } finally {
+      await handle.close();
+    }
+  }
+}
+
+function toResolution(
+  content: Buffer,
+  originalBytes: number,
+  limit: number,
+  source: 'client' | 'local'
+): ResourceLinkResolution {
+  const kept = truncateUtf8(content, limit);
+  return {
+    status: 'resolved',
+    text: kept.toString('utf8'),
+    source,
+    bytes: kept.length,
+    originalBytes,
+    truncated: kept.length < originalBytes,
+  };
+}
+
+/**
+ * Cuts a UTF-8 buffer to at most maxBytes without splitting a character
+ */
+function truncateUtf8(content: Buffer, maxBytes: number): Buffer {
+  if (content.length <= maxBytes) {
+    return content;
+  }
+
+  let end = maxBytes;
+  // Continuation bytes look like 10xxxxxx; back up to a character start
+  while (end > 0 && ((content[end] ?? 0) & 0xc0) === 0x80) {
+    end--;
+  }
+  return content.subarray(0, end);
+}
+
+function getFilePath(uri: string): string | null {
+  if (!uri.startsWith('file://')) {
+    return null;
+  }
+  try {
+    return fileURLToPath(uri);
+  } catch {
+    return null;
+  }
+}
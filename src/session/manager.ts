@@ -7,6 +7,7 @@
 
 import {
   SessionError,
+  SessionNotFoundError,
   type AdapterConfig,
   type Logger,
   type SessionInfo,
@@ -15,14 +16,22 @@ import {
   type ConversationMessage,
   type SessionStatus,
   type InternalSessionModeConfig,
+  type SessionModeDefinition,
   type SessionModel,
+  type SessionUsage,
+  type TurnUsage,
+  type UsageTotals,
 } from '../types';
 import type { CursorCliBridge } from '../cursor/cli-bridge';
 import type {
   SessionMode,
   SessionModeId,
   SessionModeState,
+  SessionNotification,
 } from '@agentclientprotocol/sdk';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import { v4 as uuidv4 } from 'uuid';
 
 export interface SessionListOptions {
@@ -37,17 +46,59 @@ export interface SessionListResult {
   hasMore: boolean;
 }
 
+export type SessionDeleteListener = (sessionId: string) => void | Promise<void>;
+
+/**
+ * On-disk session file layout
+ * Bumped whenever the serialized shape of SessionData changes incompatibly
+ */
+const SESSION_FILE_VERSION = 1;
+const SESSION_FILE_EXTENSION = '.json';
+
+/**
+ * Mode used when a session's mode is unknown, e.g. removed from the
+ * configuration; the most restrictive built-in mode
+ */
+const FALLBACK_MODE_ID: SessionModeId = 'plan';
+
+interface SessionFile {
+  version: number;
+  session: SessionData;
+}
+
+/**
+ * session/update types that make up conversation history
+ * Mode, command and other state updates are reported fresh on session/load.
+ */
+const RECORDED_UPDATE_TYPES = new Set<string>([
+  'agent_message_chunk',
+  'agent_thought_chunk',
+  'tool_call',
+  'tool_call_update',
+  'plan',
+]);
+
+interface TurnRecording {
+  /** Conversation length when the turn started */
+  conversationLength: number;
+  updates: SessionNotification['update'][];
+}
+
 export class SessionManager {
   private config: AdapterConfig;
   private logger: Logger;
   private sessions = new Map<string, SessionData>();
   private sessionCleanupInterval: ReturnType<typeof setInterval> | null = null;
   private processingSessions = new Set<string>(); // Track sessions actively processing prompts
+  private pendingWrites = new Map<string, Promise<void>>(); // Serializes disk writes per session
+  private deleteListeners: SessionDeleteListener[] = []; // Notified when a session is deleted or expires
+  private turnRecordings = new Map<string, TurnRecording>(); // Updates sent during the running turn
 
   // Session modes per ACP spec
   // Using SDK SessionMode type for ACP compliance
   // Matches Cursor IDE mode names and order: Agent, Plan, Ask
-  private readonly availableModes: SessionMode[] = [
+  // Modes from config.modes are added after these or replace them by ID
+  private readonly builtInModes: SessionMode[] = [
     {
       id: 'agent',
       name: 'Agent',
@@ -66,21 +117,46 @@ export class SessionManager {
   ];
 
   // Internal configuration for modes (not part of ACP spec)
-  private readonly modeConfigs: Map<SessionModeId, InternalSessionModeConfig> =
-    new Map([
-      ['ask', { permissionBehavior: 'strict' }],
-      [
-        'agent',
-        {
-          availableTools: ['filesystem', 'terminal'],
-          permissionBehavior: 'strict',
-        },
-      ],
-      [
-        'plan',
-        { availableTools: ['filesystem'], permissionBehavior: 'strict' },
-      ],
-    ]);
+  // Agent and ask modes run cursor-agent with --force; ask mode sends every
+  // edit and command through the permission flow, plan mode is read-only
+  private readonly builtInModeConfigs: Map<
+    SessionModeId,
+    InternalSessionModeConfig
+  > = new Map([
+    [
+      'ask',
+      {
+        systemPrompt:
+          'You are in Ask mode. Answer questions and explain code. ' +
+          'Only change files or run commands when the user asks for it; ' +
+          'each edit and command needs their permission.',
+        permissionBehavior: 'strict',
+        cursorArgs: ['--force'],
+      },
+    ],
+    [
+      'agent',
+      {
+        systemPrompt:
+          'You are in Agent mode. Make the code changes and run the ' +
+          'commands needed to complete the task.',
+        permissionBehavior: 'auto',
+        cursorArgs: ['--force'],
+      },
+    ],
+    [
+      'plan',
+      {
+        systemPrompt:
+          'You are in Plan mode. Research the codebase and reply with a ' +
+          'step-by-step implementation plan. Do not create, modify or ' +
+          'delete files and do not run commands that change anything.',
+        availableTools: ['read', 'search', 'think'],
+        permissionBehavior: 'strict',
+        cursorArgs: ['--mode', 'plan'],
+      },
+    ],
+  ]);
 
   // Available models (dynamically loaded from cursor-agent CLI)
   // Starts with default "auto" model, then populated from `cursor-agent models` command
@@ -99,7 +175,7 @@ export class SessionManager {
     this.logger.debug('SessionManager initialized', {
       maxSessions: config.maxSessions,
       sessionTimeout: config.sessionTimeout,
-      availableModes: this.availableModes.length,
+      availableModes: this.getAvailableModes().length,
       availableModels: this.availableModels.length,
     });
 
@@ -156,7 +232,7 @@ export class SessionManager {
       // Store in memory
       this.sessions.set(sessionId, sessionData);
 
-      // TODO: Persist to disk
+      // Persist to disk
       await this.persistSession(sessionData);
 
       this.logger.info(`Session created: ${sessionId}`, { metadata });
@@ -197,11 +273,14 @@ export class SessionManager {
 
         if (session) {
           this.sessions.set(sessionId, session);
+          if (this.resetUnknownMode(session)) {
+            await this.persistSession(session);
+          }
         }
       }
 
       if (!session) {
-        throw new SessionError(`Session not found: ${sessionId}`, sessionId);
+        throw new SessionNotFoundError(sessionId);
       }
 
       // Update last activity
@@ -311,6 +390,14 @@ export class SessionManager {
     }
   }
 
+  /**
+   * Registers a listener called after a session is deleted
+   * Listeners also see expiry, which releases the session from memory
+   */
+  onSessionDeleted(listener: SessionDeleteListener): void {
+    this.deleteListeners.push(listener);
+  }
+
   /**
    * Deletes a session
    */
@@ -318,11 +405,8 @@ export class SessionManager {
     this.logger.debug(`Deleting session: ${sessionId}`);
 
     try {
-      // Remove from memory
-      this.sessions.delete(sessionId);
-
-      // Remove from disk
       await this.deleteSessionFromDisk(sessionId);
+      await this.releaseSession(sessionId);
 
       this.logger.info(`Session deleted: ${sessionId}`);
     } catch (error) {
@@ -372,13 +456,65 @@ export class SessionManager {
     }
   }
 
+  /**
+   * Adds the usage of a prompt turn to the session and model totals
+   * Returns the updated session totals
+   */
+  async recordTurnUsage(
+    sessionId: string,
+    turn: TurnUsage
+  ): Promise<SessionUsage> {
+    const session = await this.loadSession(sessionId);
+
+    const usage = session.state.usage ?? {
+      ...createUsageTotals(),
+      byModel: {},
+    };
+    const modelUsage = usage.byModel[turn.model] ?? createUsageTotals();
+    addTurnUsage(usage, turn);
+    addTurnUsage(modelUsage, turn);
+    usage.byModel[turn.model] = modelUsage;
+
+    session.state.usage = usage;
+    session.state.tokenCount = usage.totalTokens;
+    session.updatedAt = new Date();
+    await this.persistSession(session);
+
+    this.logger.debug('Recorded turn usage', {
+      sessionId,
+      model: turn.model,
+      totalTokens: turn.totalTokens,
+      sessionTotalTokens: usage.totalTokens,
+    });
+
+    return usage;
+  }
+
+  /**
+   * Gets the usage accumulated over a session's turns
+   */
+  async getSessionUsage(sessionId: string): Promise<SessionUsage> {
+    const session = await this.loadSession(sessionId);
+    return session.state.usage ?? { ...createUsageTotals(), byModel: {} };
+  }
+
   /**
    * Gets available session modes
    * Per ACP spec: Returns the list of modes available for sessions
    * Returns ACP-compliant SessionMode types from SDK
    */
   getAvailableModes(): SessionMode[] {
-    return this.availableModes;
+    const configured = this.config.modes ?? [];
+    const modes = this.builtInModes.map((builtIn) => {
+      const definition = configured.find((mode) => mode.id === builtIn.id);
+      return definition ? toSessionMode(definition) : builtIn;
+    });
+    for (const definition of configured) {
+      if (!modes.some((mode) => mode.id === definition.id)) {
+        modes.push(toSessionMode(definition));
+      }
+    }
+    return modes;
   }
 
   /**
@@ -394,16 +530,41 @@ export class SessionManager {
 
     return {
       currentModeId,
-      availableModes: this.availableModes,
+      availableModes: this.getAvailableModes(),
     };
   }
 
   /**
    * Gets internal configuration for a mode
-   * Returns implementation-specific config (not part of ACP spec)
+   * Returns implementation-specific config (not part of ACP spec). Unknown
+   * modes get the built-in plan mode's config, so they never run cursor-agent
+   * with more access than a read-only mode.
+   */
+  getModeConfig(modeId: SessionModeId): InternalSessionModeConfig {
+    const definition = this.config.modes?.find((mode) => mode.id === modeId);
+    if (definition) {
+      return toModeConfig(definition);
+    }
+    return (
+      this.builtInModeConfigs.get(modeId) ??
+      this.builtInModeConfigs.get(FALLBACK_MODE_ID)!
+    );
+  }
+
+  /**
+   * Moves in-memory sessions whose mode no longer exists, e.g. after the
+   * configured modes were reloaded, to the fallback mode
+   * @returns IDs of the sessions whose mode changed
    */
-  getModeConfig(modeId: SessionModeId): InternalSessionModeConfig | undefined {
-    return this.modeConfigs.get(modeId);
+  async resetUnknownModes(): Promise<string[]> {
+    const reset: string[] = [];
+    for (const session of this.sessions.values()) {
+      if (this.resetUnknownMode(session)) {
+        await this.persistSession(session);
+        reset.push(session.id);
+      }
+    }
+    return reset;
   }
 
   /**
@@ -595,7 +756,8 @@ export class SessionManager {
    */
   getSessionMode(sessionId: string): SessionModeId {
     const session = this.sessions.get(sessionId);
-    return (session?.state.currentMode || 'ask') as SessionModeId;
+    const modeId = session?.state.currentMode || 'ask';
+    return this.isAvailableMode(modeId) ? modeId : FALLBACK_MODE_ID;
   }
 
   /**
@@ -606,6 +768,14 @@ export class SessionManager {
     return session?.state.currentModel || 'auto';
   }
 
+  /**
+   * Gets the working directory a session was created with
+   */
+  getSessionCwd(sessionId: string): string | undefined {
+    const session = this.sessions.get(sessionId);
+    return session?.metadata['cwd'] as string | undefined;
+  }
+
   /**
    * Gets the cursor-agent chat ID for a session
    * Returns undefined if no chat ID is stored
@@ -641,10 +811,11 @@ export class SessionManager {
     modeId: SessionModeId
   ): Promise<SessionModeId> {
     // Validate mode exists
-    const mode = this.availableModes.find((m) => m.id === modeId);
+    const availableModes = this.getAvailableModes();
+    const mode = availableModes.find((m) => m.id === modeId);
     if (!mode) {
       throw new SessionError(
-        `Invalid mode: ${modeId}. Available modes: ${this.availableModes.map((m) => m.id).join(', ')}`,
+        `Invalid mode: ${modeId}. Available modes: ${availableModes.map((m) => m.id).join(', ')}`,
         sessionId
       );
     }
@@ -733,9 +904,95 @@ export class SessionManager {
     return this.processingSessions.has(sessionId);
   }
 
+  /**
+   * Starts recording the session/update notifications of a prompt turn
+   * Recorded updates are saved with the turn's assistant message by
+   * finishTurnRecording so session/load can replay them.
+   */
+  startTurnRecording(sessionId: string): void {
+    const session = this.sessions.get(sessionId);
+    this.turnRecordings.set(sessionId, {
+      conversationLength: session?.conversation.length ?? 0,
+      updates: [],
+    });
+  }
+
+  /**
+   * Records an update sent to the client while a turn is running
+   * Updates outside a turn and update types that describe session state
+   * rather than conversation history are ignored. Consecutive text chunks
+   * are merged so streamed deltas are stored as one block.
+   */
+  recordSessionUpdate(
+    sessionId: string,
+    update: SessionNotification['update']
+  ): void {
+    const recording = this.turnRecordings.get(sessionId);
+    if (!recording || !RECORDED_UPDATE_TYPES.has(update.sessionUpdate)) {
+      return;
+    }
+
+    const previous = recording.updates[recording.updates.length - 1];
+    if (
+      previous &&
+      (update.sessionUpdate === 'agent_message_chunk' ||
+        update.sessionUpdate === 'agent_thought_chunk') &&
+      previous.sessionUpdate === update.sessionUpdate &&
+      previous.content.type === 'text' &&
+      update.content.type === 'text'
+    ) {
+      previous.content = {
+        ...previous.content,
+        text: previous.content.text + update.content.text,
+      };
+      return;
+    }
+
+    recording.updates.push(structuredClone(update));
+  }
+
+  /**
+   * Stops recording and saves the recorded updates with the turn's last
+   * assistant message, adding one if the turn ended without a reply
+   */
+  async finishTurnRecording(sessionId: string): Promise<void> {
+    const recording = this.turnRecordings.get(sessionId);
+    this.turnRecordings.delete(sessionId);
+    if (!recording || recording.updates.length === 0) {
+      return;
+    }
+
+    const session = await this.loadSession(sessionId);
+    const turnMessages = session.conversation.slice(
+      recording.conversationLength
+    );
+    const reply = turnMessages.reverse().find((m) => m.role === 'assistant');
+
+    if (reply) {
+      reply.updates = recording.updates;
+    } else {
+      session.conversation.push({
+        id: uuidv4(),
+        role: 'assistant',
+        content: [],
+        timestamp: new Date(),
+        updates: recording.updates,
+      });
+      session.state.messageCount = session.conversation.length;
+    }
+
+    session.updatedAt = new Date();
+    await this.persistSession(session);
+
+    this.logger.debug(`Saved turn history for session: ${sessionId}`, {
+      updates: recording.updates.length,
+    });
+  }
+
   /**
    * Cleans up expired sessions
-   * Skips sessions that are actively processing prompts
+   * Expired sessions are dropped from memory but stay on disk, so they can
+   * still be loaded later. Skips sessions that are actively processing prompts.
    */
   async cleanupExpiredSessions(): Promise<number> {
     this.logger.debug('Running session cleanup');
@@ -760,11 +1017,11 @@ export class SessionManager {
       }
     }
 
-    // Remove expired sessions
+    // Release expired sessions
     let successfullyCleanedCount = 0;
     for (const sessionId of expiredSessionIds) {
       try {
-        await this.deleteSession(sessionId);
+        await this.expireSession(sessionId);
         successfullyCleanedCount++;
       } catch (error) {
         this.logger.warn(`Failed to cleanup session: ${sessionId}`, error);
@@ -796,10 +1053,12 @@ export class SessionManager {
       );
 
       await Promise.all(persistPromises);
+      await Promise.all(Array.from(this.pendingWrites.values()));
 
       // Clear memory
       this.sessions.clear();
       this.processingSessions.clear();
+      this.turnRecordings.clear();
 
       this.logger.info('Session manager cleanup completed');
     } catch (error) {
@@ -824,6 +1083,23 @@ export class SessionManager {
     };
   }
 
+  /**
+   * Updates the session limits of a running manager
+   * Existing sessions beyond a lowered maxSessions are kept; the limit applies
+   * to new sessions. The cleanup interval follows the new sessionTimeout.
+   */
+  updateLimits(limits: { maxSessions: number; sessionTimeout: number }): void {
+    this.config.maxSessions = limits.maxSessions;
+    this.config.sessionTimeout = limits.sessionTimeout;
+
+    if (this.sessionCleanupInterval) {
+      clearInterval(this.sessionCleanupInterval);
+      this.startCleanupInterval();
+    }
+
+    this.logger.debug('Session limits updated', limits);
+  }
+
   // Private helper methods
 
   private startCleanupInterval(): void {
@@ -836,9 +1112,95 @@ export class SessionManager {
     }, intervalMs);
   }
 
+  /**
+   * Saves an expired session's latest state and releases it from memory
+   */
+  private async expireSession(sessionId: string): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (session) {
+      await this.persistSession(session);
+    }
+    await this.releaseSession(sessionId);
+
+    this.logger.debug(`Session expired: ${sessionId}`);
+  }
+
+  /**
+   * Drops a session from memory and notifies the delete listeners so other
+   * components release their per-session resources
+   */
+  private async releaseSession(sessionId: string): Promise<void> {
+    this.sessions.delete(sessionId);
+    this.turnRecordings.delete(sessionId);
+
+    for (const listener of this.deleteListeners) {
+      try {
+        await listener(sessionId);
+      } catch (error) {
+        this.logger.warn(`Session delete listener failed: ${sessionId}`, {
+          error,
+        });
+      }
+    }
+  }
+
+  private isAvailableMode(modeId: string): boolean {
+    return this.getAvailableModes().some((mode) => mode.id === modeId);
+  }
+
+  /**
+   * Switches a session whose mode is not available to the fallback mode
+   * @returns Whether the mode changed
+   */
+  private resetUnknownMode(session: SessionData): boolean {
+    const modeId = session.state.currentMode;
+    if (!modeId || this.isAvailableMode(modeId)) {
+      return false;
+    }
+
+    this.logger.warn('Session mode is no longer available', {
+      sessionId: session.id,
+      mode: modeId,
+      fallbackMode: FALLBACK_MODE_ID,
+    });
+    session.state.currentMode = FALLBACK_MODE_ID;
+    session.metadata.mode = FALLBACK_MODE_ID;
+    session.updatedAt = new Date();
+    return true;
+  }
+
   private async getAllSessions(): Promise<SessionData[]> {
-    // TODO: Implement loading sessions from disk
-    return Array.from(this.sessions.values());
+    const sessions = new Map(this.sessions);
+
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.getSessionDir());
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return Array.from(sessions.values());
+      }
+      throw error;
+    }
+
+    for (const entry of entries) {
+      if (!entry.endsWith(SESSION_FILE_EXTENSION)) {
+        continue;
+      }
+
+      const sessionId = entry.slice(0, -SESSION_FILE_EXTENSION.length);
+      if (sessions.has(sessionId)) {
+        continue;
+      }
+
+      // Sessions listed from disk are not cached, so listing does not count
+      // against maxSessions
+      const session = await this.loadSessionFromDisk(sessionId);
+      if (session) {
+        sessions.set(sessionId, session);
+      }
+    }
+
+    return Array.from(sessions.values());
   }
 
   private applyFilters(
@@ -875,21 +1237,275 @@ export class SessionManager {
     return 'active';
   }
 
+  /**
+   * Resolves the configured session directory, expanding a leading `~`
+   */
+  getSessionDir(): string {
+    const sessionDir = this.config.sessionDir;
+
+    if (sessionDir === '~') {
+      return os.homedir();
+    }
+    if (sessionDir.startsWith('~/') || sessionDir.startsWith('~\\')) {
+      return path.join(os.homedir(), sessionDir.slice(2));
+    }
+
+    return path.resolve(sessionDir);
+  }
+
+  /**
+   * Gets the file path for a session, or null if the ID cannot be used as
+   * a file name (prevents path traversal via crafted session IDs)
+   */
+  private getSessionFilePath(sessionId: string): string | null {
+    if (typeof sessionId !== 'string' || !/^[A-Za-z0-9_-]+$/.test(sessionId)) {
+      return null;
+    }
+
+    return path.join(
+      this.getSessionDir(),
+      `${sessionId}${SESSION_FILE_EXTENSION}`
+    );
+  }
+
+  /**
+   * Writes a session to disk
+   * Writes go to a temporary file that is renamed over the session file, so a
+   * crash mid-write never leaves a truncated session behind. Writes for the
+   * same session are chained so an older snapshot cannot overwrite a newer one.
+   */
   private async persistSession(session: SessionData): Promise<void> {
-    // TODO: Implement session persistence to disk
     this.logger.debug(`Persisting session: ${session.id}`);
+
+    const previous = this.pendingWrites.get(session.id) ?? Promise.resolve();
+    const write = previous
+      .catch(() => {
+        // A failed earlier write must not block later ones
+      })
+      .then(() => this.writeSessionFile(session));
+
+    this.pendingWrites.set(session.id, write);
+
+    try {
+      await write;
+    } finally {
+      if (this.pendingWrites.get(session.id) === write) {
+        this.pendingWrites.delete(session.id);
+      }
+    }
+  }
+
+  private async writeSessionFile(session: SessionData): Promise<void> {
+    const filePath = this.getSessionFilePath(session.id);
+    if (!filePath) {
+      throw new SessionError(
+        `Invalid session ID for persistence: ${session.id}`,
+        session.id
+      );
+    }
+
+    // Serialize when the write actually runs so the latest state is captured
+    const file: SessionFile = { version: SESSION_FILE_VERSION, session };
+    const data = JSON.stringify(file, null, 2);
+    const tempPath = `${filePath}.${process.pid}.${uuidv4()}.tmp`;
+
+    await fs.mkdir(path.dirname(filePath), { recursive: true, mode: 0o700 });
+
+    try {
+      await fs.writeFile(tempPath, data, { encoding: 'utf-8', mode: 0o600 });
+      await fs.rename(tempPath, filePath);
+    } catch (error) {
+      await fs.rm(tempPath, { force: true }).catch(() => {
+        // Best-effort removal of the partial temp file
+      });
+      throw error;
+    }
   }
 
+  /**
+   * Reads a session from disk
+   * Returns null when the session does not exist. Unreadable or corrupted
+   * files are moved aside (`*.corrupt-<timestamp>`) so they stop shadowing
+   * the session ID, and null is returned.
+   */
   private async loadSessionFromDisk(
     sessionId: string
   ): Promise<SessionData | null> {
-    // TODO: Implement loading session from disk
     this.logger.debug(`Loading session from disk: ${sessionId}`);
-    return null;
+
+    const filePath = this.getSessionFilePath(sessionId);
+    if (!filePath) {
+      return null;
+    }
+
+    let data: string;
+    try {
+      data = await fs.readFile(filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+
+    try {
+      return this.deserializeSession(sessionId, data);
+    } catch (error) {
+      const quarantinePath = `${filePath}.corrupt-${Date.now()}`;
+      this.logger.warn(`Corrupted session file: ${sessionId}`, {
+        filePath,
+        quarantinePath,
+        error: error instanceof Error ? error.message : String(error),
+      });
+
+      try {
+        await fs.rename(filePath, quarantinePath);
+      } catch (renameError) {
+        this.logger.warn(
+          `Failed to quarantine corrupted session file: ${sessionId}`,
+          renameError
+        );
+      }
+
+      return null;
+    }
+  }
+
+  /**
+   * Parses a session file and revives Date fields
+   * Throws if the content is not a valid session file
+   */
+  private deserializeSession(sessionId: string, data: string): SessionData {
+    const file = JSON.parse(data) as Partial<SessionFile>;
+
+    if (!file || typeof file !== 'object' || !file.session) {
+      throw new Error('Missing session payload');
+    }
+    if (file.version !== SESSION_FILE_VERSION) {
+      throw new Error(`Unsupported session file version: ${file.version}`);
+    }
+
+    const raw = file.session as any;
+    if (
+      raw.id !== sessionId ||
+      !raw.metadata ||
+      typeof raw.metadata !== 'object' ||
+      !Array.isArray(raw.conversation) ||
+      !raw.state ||
+      typeof raw.state !== 'object'
+    ) {
+      throw new Error('Malformed session data');
+    }
+
+    const session: SessionData = {
+      ...raw,
+      conversation: raw.conversation.map((message: any) => ({
+        ...message,
+        timestamp: this.reviveDate(message.timestamp, 'timestamp'),
+      })),
+      state: {
+        ...raw.state,
+        lastActivity: this.reviveDate(raw.state.lastActivity, 'lastActivity'),
+      },
+      createdAt: this.reviveDate(raw.createdAt, 'createdAt'),
+      updatedAt: this.reviveDate(raw.updatedAt, 'updatedAt'),
+    };
+
+    return session;
+  }
+
+  private reviveDate(value: unknown, field: string): Date {
+    const date =
+      typeof value === 'string' || typeof value === 'number'
+        ? new Date(value)
+        : null;
+
+    if (!date || Number.isNaN(date.getTime())) {
+      throw new Error(`Invalid date in field: ${field}`);
+    }
+
+    return date;
   }
 
   private async deleteSessionFromDisk(sessionId: string): Promise<void> {
-    // TODO: Implement deleting session from disk
     this.logger.debug(`Deleting session from disk: ${sessionId}`);
+
+    const filePath = this.getSessionFilePath(sessionId);
+    if (!filePath) {
+      return;
+    }
+
+    // Let any in-flight write land first so it cannot recreate the file
+    const pending = this.pendingWrites.get(sessionId);
+    if (pending) {
+      await pending.catch(() => {
+        // Write failures are reported by the original caller
+      });
+    }
+
+    await fs.rm(filePath, { force: true });
+  }
+}
+
+/**
+ * Gets the ACP SessionMode advertised for a configured mode
+ */
+function toSessionMode(definition: SessionModeDefinition): SessionMode {
+  return {
+    id: definition.id,
+    name: definition.name,
+    ...(definition.description !== undefined && {
+      description: definition.description,
+    }),
+  };
+}
+
+/**
+ * Gets the behavior settings of a configured mode
+ * cursor-agent only gets --force when the mode lists it in cursorArgs.
+ */
+function toModeConfig(
+  definition: SessionModeDefinition
+): InternalSessionModeConfig {
+  const {
+    systemPrompt,
+    availableTools,
+    permissionBehavior,
+    cursorArgs,
+    idleTimeoutMs,
+    turnTimeoutMs,
+  } = definition;
+  return {
+    ...(systemPrompt !== undefined && { systemPrompt }),
+    ...(availableTools !== undefined && { availableTools }),
+    ...(permissionBehavior !== undefined && { permissionBehavior }),
+    cursorArgs: cursorArgs ?? [],
+    ...(idleTimeoutMs !== undefined && { idleTimeoutMs }),
+    ...(turnTimeoutMs !== undefined && { turnTimeoutMs }),
+  };
+}
+
+function createUsageTotals(): UsageTotals {
+  return {
+    turns: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheReadTokens: 0,
+    cacheWriteTokens: 0,
+    totalTokens: 0,
+    durationMs: 0,
+  };
+}
+
+function addTurnUsage(totals: UsageTotals, turn: TurnUsage): void {
+  totals.turns++;
+  totals.inputTokens += turn.inputTokens ?? 0;
+  totals.outputTokens += turn.outputTokens ?? 0;
+  totals.cacheReadTokens += turn.cacheReadTokens ?? 0;
+  totals.cacheWriteTokens += turn.cacheWriteTokens ?? 0;
+  totals.totalTokens += turn.totalTokens ?? 0;
+  totals.durationMs += turn.durationMs ?? 0;
+  if (turn.costUsd !== undefined) {
+    totals.costUsd = (totals.costUsd ?? 0) + turn.costUsd;
   }
 }
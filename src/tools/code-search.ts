@@ -0,0 +1,197 @@
+/**
+ * In-process code search
+ *
+ * Backs the search_codebase, grep and find_files tools. Walks the files
+ * below a root directory, skipping .git, paths excluded by .gitignore files,
+ * binary files and very large files, and reports the lines that match a
+ * regular expression or literal text.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { ToolError } from '../types';
+import { matchGlob } from '../utils/glob';
+import {
+  isIgnored,
+  parseGitignore,
+  type GitignoreRule,
+} from '../utils/gitignore';
+import type { SearchResult } from './cursor-tools';
+
+// Files larger than this are not searched
+const MAX_SEARCH_FILE_BYTES = 1024 * 1024;
+
+// A NUL byte in this many leading bytes marks a file as binary
+const BINARY_CHECK_BYTES = 8000;
+
+const REGEXP_SPECIAL_CHARS = /[.*+?^${}()|[\]\\]/g;
+
+export interface CodeSearchOptions {
+  root: string;
+  query: string;
+  regex?: boolean; // Treat the query as a regular expression (default: true)
+  caseSensitive?: boolean;
+  // Glob for the files to search; matched against the file name when it has
+  // no `/`, and against the path relative to the root otherwise
+  filePattern?: string | undefined;
+  maxResults: number;
+  contextLines?: number; // Lines before and after each match (default: 0)
+}
+
+export interface CodeSearchResult {
+  results: SearchResult[];
+  truncated: boolean; // More matches exist than maxResults
+  filesSearched: number;
+}
+
+/**
+ * Searches the files below options.root
+ * Files are visited in name order, so results are stable between runs.
+ */
+export async function searchCode(
+  options: CodeSearchOptions
+): Promise<CodeSearchResult> {
+  const matcher = createMatcher(options);
+  const contextLines = options.contextLines ?? 0;
+  const results: SearchResult[] = [];
+  let filesSearched = 0;
+
+  for await (const file of walkFiles(options.root, options.filePattern)) {
+    const text = await readTextFile(path.join(options.root, file));
+    if (text === null) {
+      continue;
+    }
+    filesSearched++;
+
+    const lines = text.split(/\r?\n/);
+    for (let index = 0; index < lines.length; index++) {
+      const line = lines[index]!;
+      const match = matcher.exec(line);
+      if (!match) {
+        continue;
+      }
+      if (results.length === options.maxResults) {
+        return { results, truncated: true, filesSearched };
+      }
+
+      results.push({
+        file,
+        line: index + 1,
+        column: match.index + 1,
+        content: line.trim(),
+        ...(contextLines > 0 && {
+          context: [
+            ...lines.slice(Math.max(0, index - contextLines), index),
+            ...lines.slice(index + 1, index + 1 + contextLines),
+          ],
+        }),
+      });
+    }
+  }
+
+  return { results, truncated: false, filesSearched };
+}
+
+/**
+ * Builds the line matcher for a query
+ */
+function createMatcher(options: CodeSearchOptions): RegExp {
+  if (!options.query) {
+    throw new ToolError(
+      'Invalid search query: must not be empty',
+      'search_codebase'
+    );
+  }
+
+  const source =
+    options.regex === false
+      ? options.query.replace(REGEXP_SPECIAL_CHARS, '\\$&')
+      : options.query;
+
+  try {
+    return new RegExp(source, options.caseSensitive ? '' : 'i');
+  } catch (error) {
+    throw new ToolError(
+      `Invalid regular expression: ${error instanceof Error ? error.message : String(error)}. Pass regex: false to search for the text literally`,
+      'search_codebase'
+    );
+  }
+}
+
+/**
+ * Yields the paths of the files below root, relative to root with `/`
+ * separators, that are not excluded by .gitignore files and match
+ * filePattern (see CodeSearchOptions)
+ */
+export async function* walkFiles(
+  root: string,
+  filePattern: string | undefined
+): AsyncGenerator<string> {
+  const pattern = filePattern?.replace(/^\.\//, '');
+  const pending: Array<{ dir: string; rules: GitignoreRule[] }> = [
+    { dir: '', rules: [] },
+  ];
+
+  while (pending.length > 0) {
+    const { dir, rules: parentRules } = pending.pop()!;
+    const absoluteDir = path.join(root, dir);
+
+    let entries;
+    try {
+      entries = await fs.readdir(absoluteDir, { withFileTypes: true });
+    } catch {
+      continue; // Unreadable directories are skipped
+    }
+
+    const rules = [...parentRules];
+    if (entries.some((entry) => entry.name === '.gitignore')) {
+      const content = await fs
+        .readFile(path.join(absoluteDir, '.gitignore'), 'utf8')
+        .catch(() => '');
+      rules.push(...parseGitignore(content, dir));
+    }
+
+    const subdirectories: string[] = [];
+    for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+      const relativePath = dir ? `${dir}/${entry.name}` : entry.name;
+
+      // Symbolic links are not followed, so the walk cannot loop
+      if (entry.isDirectory()) {
+        if (entry.name !== '.git' && !isIgnored(rules, relativePath, true)) {
+          subdirectories.push(relativePath);
+        }
+      } else if (
+        entry.isFile() &&
+        !isIgnored(rules, relativePath, false) &&
+        (!pattern ||
+          matchGlob(pattern, pattern.includes('/') ? relativePath : entry.name))
+      ) {
+        yield relativePath;
+      }
+    }
+
+    // Reversed so the stack visits subdirectories in name order
+    for (const subdirectory of subdirectories.reverse()) {
+      pending.push({ dir: subdirectory, rules });
+    }
+  }
+}
+
+/**
+ * Reads a file as UTF-8 text; returns null for large or binary files
+ */
+async function readTextFile(filePath: string): Promise<string | null> {
+  try {
+    const stats = await fs.stat(filePath);
+    if (stats.size > MAX_SEARCH_FILE_BYTES) {
+      return null;
+    }
+    const buffer = await fs.readFile(filePath);
+    if (buffer.subarray(0, BINARY_CHECK_BYTES).includes(0)) {
+      return null;
+    }
+    return buffer.toString('utf8');
+  } catch {
+    return null; // Files removed or unreadable during the search are skipped
+  }
+}
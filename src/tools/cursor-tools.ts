@@ -5,8 +5,12 @@
  * search, modification, and project management tasks.
  */
 
+import { promises as fs } from 'fs';
 import * as path from 'path';
-import type { ContentBlock } from '@agentclientprotocol/sdk';
+import type {
+  ClientCapabilities,
+  ToolCallContent,
+} from '@agentclientprotocol/sdk';
 import {
   ToolError,
   type AdapterConfig,
@@ -16,6 +20,28 @@ import {
   type ToolResult,
 } from '../types';
 import { CursorCliBridge } from '../cursor/cli-bridge';
+import type { FileSystemClient } from '../client/filesystem-client';
+import { resolveInWorkspace } from '../utils/workspace-path';
+import { searchCode } from './code-search';
+import { applyLineChanges } from './line-changes';
+import { ProjectInfoCache } from './project-info';
+import type { TerminalManager } from './terminal-manager';
+import { executeWithTimeout } from './terminal-utils';
+import {
+  TEST_FRAMEWORKS,
+  detectTestFramework,
+  getTestCommand,
+  parseTestOutput,
+  type TestFramework,
+} from './test-runner';
+import type { ToolCallManager } from './tool-call-manager';
+
+// Lines of context search_codebase reports around each match
+const DEFAULT_CONTEXT_LINES = 3;
+
+// Test run output returned to the agent is cut to its last characters,
+// where runners print their summaries
+const MAX_TEST_OUTPUT_CHARS = 10000;
 
 export interface CursorToolsConfig {
   enabled: boolean;
@@ -36,18 +62,33 @@ export interface SearchResult {
 export interface CodeChange {
   file: string;
   startLine: number;
-  endLine: number;
+  endLine: number; // startLine - 1 inserts before startLine
   newContent: string;
+  // Current text of the replaced lines; the change is rejected as stale
+  // when the file no longer matches
+  oldContent?: string | undefined;
   description?: string | undefined;
 }
 
-export interface TestResult {
-  file: string;
-  suite: string;
-  test: string;
-  status: 'passed' | 'failed' | 'skipped';
-  duration?: number | undefined;
-  error?: string | undefined;
+export interface CursorToolsOptions {
+  getSessionCwd?: (sessionId: string) => string | undefined;
+  // Client file access, used for files the client can read and write so
+  // unsaved editor buffers are respected
+  getFileSystemClient?: () => FileSystemClient | undefined;
+  getClientCapabilities?: () => ClientCapabilities | null;
+  // Client terminals run_tests runs in, embedded in its tool call
+  getTerminalManager?: () => TerminalManager | undefined;
+  getToolCallManager?: () => ToolCallManager | undefined;
+}
+
+// A file edited by apply_code_changes
+interface FileEdit {
+  path: string;
+  oldText: string | null; // null for a new file
+  text: string;
+  diff: string;
+  linesAdded: number;
+  linesRemoved: number;
 }
 
 export class CursorToolsProvider implements ToolProvider {
@@ -60,14 +101,18 @@ export class CursorToolsProvider implements ToolProvider {
   private logger: Logger;
   private cursorConfig: CursorToolsConfig;
   private cliBridge: CursorCliBridge;
+  private options: CursorToolsOptions;
+  private projectInfoCache: ProjectInfoCache;
 
   constructor(
     config: AdapterConfig,
     logger: Logger,
-    cliBridge?: CursorCliBridge
+    cliBridge?: CursorCliBridge,
+    options: CursorToolsOptions = {}
   ) {
     this._config = config;
     this.logger = logger;
+    this.options = options;
     this.cursorConfig = {
       enabled: true,
       maxSearchResults: 50,
@@ -76,6 +121,7 @@ export class CursorToolsProvider implements ToolProvider {
       ...config.tools?.cursor,
     };
     this.cliBridge = cliBridge || new CursorCliBridge(config, logger);
+    this.projectInfoCache = new ProjectInfoCache(logger);
 
     this.logger.debug('CursorToolsProvider initialized', {
       enabled: this.cursorConfig.enabled,
@@ -101,6 +147,11 @@ export class CursorToolsProvider implements ToolProvider {
               type: 'string',
               description: 'Search query (supports regex patterns)',
             },
+            regex: {
+              type: 'boolean',
+              description:
+                'Whether the query is a regular expression; false searches for the literal text (default: true)',
+            },
             file_pattern: {
               type: 'string',
               description:
@@ -116,9 +167,14 @@ export class CursorToolsProvider implements ToolProvider {
               description:
                 'Include surrounding lines as context (default: true)',
             },
+            context_lines: {
+              type: 'number',
+              description: `Lines of context before and after each match (default: ${DEFAULT_CONTEXT_LINES})`,
+            },
             max_results: {
               type: 'number',
-              description: 'Maximum number of results to return',
+              description:
+                'Maximum number of results to return (capped at tools.cursor.maxSearchResults)',
             },
           },
           required: ['query'],
@@ -161,7 +217,7 @@ export class CursorToolsProvider implements ToolProvider {
               items: {
                 type: 'object',
                 description:
-                  'Code change object with file, startLine, endLine, newContent fields',
+                  'Code change object with file, startLine, endLine (inclusive, 1-based; startLine - 1 to insert before startLine), newContent and optional oldContent (current text of the lines, to detect stale changes) fields. Line numbers refer to the file before any change is applied',
               },
               description: 'Array of code changes to apply',
             },
@@ -188,18 +244,15 @@ export class CursorToolsProvider implements ToolProvider {
           properties: {
             test_pattern: {
               type: 'string',
-              description: 'Test file pattern or specific test to run',
+              description:
+                'Test file pattern or specific test to run (a -run pattern for go test)',
             },
             test_framework: {
               type: 'string',
-              enum: ['auto', 'jest', 'vitest', 'mocha', 'ava', 'tap'],
+              enum: ['auto', ...TEST_FRAMEWORKS],
               description:
                 'Test framework to use (auto-detect if not specified)',
             },
-            watch_mode: {
-              type: 'boolean',
-              description: 'Run tests in watch mode (default: false)',
-            },
             coverage: {
               type: 'boolean',
               description: 'Generate code coverage report (default: false)',
@@ -215,7 +268,7 @@ export class CursorToolsProvider implements ToolProvider {
       {
         name: 'get_project_info',
         description:
-          'Get information about the current project structure and configuration',
+          'Get the project manifests, scripts, dependencies, workspaces, git branch and status, and optionally its directory structure',
         parameters: {
           type: 'object',
           properties: {
@@ -268,8 +321,23 @@ export class CursorToolsProvider implements ToolProvider {
     ];
   }
 
+  /**
+   * Stops watching the project of a deleted or expired session
+   */
+  releaseSession(sessionId: string): void {
+    this.projectInfoCache.invalidate(sessionId);
+  }
+
+  /**
+   * Stops watching projects for changes
+   */
+  async cleanup(): Promise<void> {
+    this.projectInfoCache.clear();
+  }
+
   /**
    * Search the codebase for patterns or text
+   * Runs in-process, rooted at the session's working directory.
    */
   private async searchCodebase(
     params: Record<string, any>
@@ -278,70 +346,47 @@ export class CursorToolsProvider implements ToolProvider {
       const query = params['query'];
       const filePattern = params['file_pattern'] || '';
       const caseSensitive = params['case_sensitive'] || false;
+      const regex = params['regex'] !== false;
       const includeContext = params['include_context'] !== false;
-      const maxResults =
-        params['max_results'] || this.cursorConfig.maxSearchResults || 50;
+      const contextLines = includeContext
+        ? (params['context_lines'] ?? DEFAULT_CONTEXT_LINES)
+        : 0;
+      // tools.cursor.maxSearchResults is both the default and the ceiling
+      const resultLimit = this.cursorConfig.maxSearchResults || 50;
+      const requestedResults = params['max_results'] ?? resultLimit;
+      if (!Number.isInteger(requestedResults) || requestedResults < 1) {
+        throw new ToolError(
+          `Invalid max_results: ${requestedResults}. Expected a positive integer`,
+          'search_codebase'
+        );
+      }
+      const maxResults = Math.min(requestedResults, resultLimit);
+      const root = this.getProjectRoot(params['_sessionId']);
 
       this.logger.debug('Searching codebase', {
         query,
+        root,
         filePattern,
         caseSensitive,
+        regex,
         maxResults,
       });
 
-      // Build search command
-      const searchArgs = ['search'];
-      if (query) {
-        searchArgs.push('--query', query);
-      }
-      if (filePattern) {
-        searchArgs.push('--files', filePattern);
-      }
-      if (caseSensitive) {
-        searchArgs.push('--case-sensitive');
-      }
-      if (maxResults) {
-        searchArgs.push('--limit', maxResults.toString());
-      }
-      if (includeContext) {
-        searchArgs.push('--context', '3');
-      }
-
-      const result = await this.cliBridge.executeCommand([
-        'cursor-agent',
-        ...searchArgs,
-      ]);
-
-      if (!result.success) {
-        throw new ToolError(
-          `Search failed: ${result.error}`,
-          'search_codebase'
-        );
-      }
-
-      if (!result.stdout) {
-        this.logger.warn('Search completed but returned no output');
-        return {
-          success: true,
-          result: {
-            query,
-            results: [],
-            total: 0,
-            truncated: false,
-          },
-        };
-      }
-
-      // Parse search results
-      const searchResults = this.parseSearchResults(
-        result.stdout,
-        includeContext
-      );
+      const startTime = Date.now();
+      const search = await searchCode({
+        root,
+        query,
+        regex,
+        caseSensitive,
+        filePattern,
+        maxResults,
+        contextLines,
+      });
 
       // Extract locations from search results for tool call reporting
-      const locations: Array<{ path: string; line?: number }> = searchResults
+      const locations: Array<{ path: string; line?: number }> = search.results
         .map((r) => ({
-          path: path.resolve(r.file),
+          path: path.join(root, r.file),
           line: r.line,
         }))
         .slice(0, 10); // Limit to first 10 locations
@@ -350,12 +395,13 @@ export class CursorToolsProvider implements ToolProvider {
         success: true,
         result: {
           query,
-          results: searchResults,
-          total: searchResults.length,
-          truncated: searchResults.length >= maxResults,
+          results: search.results,
+          total: search.results.length,
+          truncated: search.truncated,
         },
         metadata: {
-          searchTime: result.metadata?.['executionTime'] || 0,
+          searchTime: Date.now() - startTime,
+          filesSearched: search.filesSearched,
           filePattern,
           caseSensitive,
           locations, // Include locations for tool call reporting
@@ -373,6 +419,18 @@ export class CursorToolsProvider implements ToolProvider {
     }
   }
 
+  /**
+   * Directory a session's tools work in: the session's cwd, then
+   * tools.cursor.projectRoot, then the adapter's working directory
+   */
+  private getProjectRoot(sessionId: unknown): string {
+    const sessionCwd =
+      typeof sessionId === 'string'
+        ? this.options.getSessionCwd?.(sessionId)
+        : undefined;
+    return sessionCwd || this.cursorConfig.projectRoot || process.cwd();
+  }
+
   /**
    * Analyze code structure and quality
    */
@@ -453,6 +511,8 @@ export class CursorToolsProvider implements ToolProvider {
 
   /**
    * Apply code changes atomically
+   * Every file is read and checked before any is written; if a write fails,
+   * the files already written are put back.
    */
   private async applyCodeChanges(
     params: Record<string, any>
@@ -468,12 +528,8 @@ export class CursorToolsProvider implements ToolProvider {
       const changes: CodeChange[] = params['changes'];
       const dryRun = params['dry_run'] || false;
       const backup = params['backup'] !== false;
-
-      this.logger.debug('Applying code changes', {
-        changeCount: changes.length,
-        dryRun,
-        backup,
-      });
+      const sessionId: unknown = params['_sessionId'];
+      const root = this.getProjectRoot(sessionId);
 
       // Validate changes
       if (!Array.isArray(changes) || changes.length === 0) {
@@ -488,130 +544,250 @@ export class CursorToolsProvider implements ToolProvider {
         );
       }
 
-      // Read old file contents to create diffs
-      // Per ACP SDK: 'diff' is not a ContentBlock type, it's a ToolCallContent type
-      // We wrap diffs in resource blocks with mimeType 'text/x-diff'
-      const fs = await import('fs/promises');
-      const diffs: Array<ContentBlock> = [];
-
-      for (const change of changes) {
-        const resolvedPath = path.resolve(change.file);
-        let oldText: string | null = null;
-
-        try {
-          // Try to read existing file
-          oldText = await fs.readFile(resolvedPath, 'utf-8');
-        } catch {
-          // File doesn't exist - this is a new file
-          oldText = null;
-        }
+      this.logger.debug('Applying code changes', {
+        changeCount: changes.length,
+        root,
+        dryRun,
+        backup,
+      });
 
-        // Format as unified diff
-        const diffText = this.formatUnifiedDiff(
-          resolvedPath,
-          oldText || '',
-          change.newContent
-        );
+      // Group the changes by file, in the order the files are first named
+      const filePaths = await this.resolveChangePaths(root, changes);
+      const changesByFile = new Map<string, CodeChange[]>();
+      for (const [index, change] of changes.entries()) {
+        const filePath = filePaths[index]!;
+        changesByFile.set(filePath, [
+          ...(changesByFile.get(filePath) ?? []),
+          change,
+        ]);
+      }
 
-        // Wrap in resource block per ACP spec
-        diffs.push({
-          type: 'resource',
-          resource: {
-            uri: `diff://${resolvedPath}`,
-            text: diffText,
-            mimeType: 'text/x-diff',
-          },
-          annotations: {
-            _meta: {
-              diffType: 'unified',
-              originalPath: resolvedPath,
-              isNewFile: oldText === null,
-            },
-          },
+      const files: FileEdit[] = [];
+      for (const [filePath, fileChanges] of changesByFile) {
+        const oldText = await this.readSourceFile(sessionId, filePath);
+        files.push({
+          path: filePath,
+          oldText,
+          ...applyLineChanges(
+            filePath,
+            oldText ?? '',
+            fileChanges,
+            oldText === null
+          ),
         });
       }
 
-      // Extract locations from changes
+      const backups = dryRun
+        ? new Map<string, string>()
+        : await this.writeFileEdits(sessionId, files, backup);
+
+      // Per ACP: file changes are reported as diff tool call content
+      const diffs: ToolCallContent[] = files
+        .filter((file) => file.diff)
+        .map((file) => ({
+          type: 'diff',
+          path: file.path,
+          oldText: file.oldText,
+          newText: file.text,
+          _meta: { unifiedDiff: file.diff },
+        }));
+
       const locations: Array<{ path: string; line?: number }> = changes.map(
-        (change) => ({
-          path: path.resolve(change.file),
+        (change, index) => ({
+          path: filePaths[index]!,
           line: change.startLine,
         })
       );
 
-      // Build apply command
-      const applyArgs = ['apply-changes'];
-      if (dryRun) {
-        applyArgs.push('--dry-run');
-      }
-      if (backup) {
-        applyArgs.push('--backup');
-      }
-
-      // Create temporary file with changes
-      const changesJson = JSON.stringify(changes, null, 2);
-      const tempFile = path.join(process.cwd(), '.cursor-changes.json');
-      await fs.writeFile(tempFile, changesJson);
+      return {
+        success: true,
+        result: {
+          applied: !dryRun,
+          changesCount: changes.length,
+          files: files.map((file) => ({
+            path: file.path,
+            isNewFile: file.oldText === null,
+            linesAdded: file.linesAdded,
+            linesRemoved: file.linesRemoved,
+            diff: file.diff,
+            ...(backups.has(file.path) && { backup: backups.get(file.path) }),
+          })),
+        },
+        metadata: {
+          dryRun,
+          backup,
+          diffs, // Include diffs for tool call reporting
+          locations, // Include locations for tool call reporting
+        },
+      };
+    } catch (error) {
+      this.logger.error('Failed to apply code changes', { error });
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
 
-      try {
-        applyArgs.push('--changes-file', tempFile);
+  /**
+   * Resolves the file of each change, rejecting files outside the project
+   * root so changes and their backups stay in the session's workspace
+   */
+  private async resolveChangePaths(
+    root: string,
+    changes: CodeChange[]
+  ): Promise<string[]> {
+    const realRoot = await fs.realpath(root);
+    const filePaths: string[] = [];
+    for (const change of changes) {
+      const filePath = await resolveInWorkspace(realRoot, change.file);
+      if (filePath === null) {
+        throw new ToolError(
+          `Access denied: ${change.file} is outside the workspace ${realRoot}`,
+          'apply_code_changes'
+        );
+      }
+      filePaths.push(filePath);
+    }
+    return filePaths;
+  }
 
-        const result = await this.cliBridge.executeCommand([
-          'cursor-agent',
-          ...applyArgs,
-        ]);
+  /**
+   * Writes edited files, returning the backup written for each file
+   */
+  private async writeFileEdits(
+    sessionId: unknown,
+    files: FileEdit[],
+    backup: boolean
+  ): Promise<Map<string, string>> {
+    const backups = new Map<string, string>();
+    const written: FileEdit[] = [];
 
-        if (!result.success) {
-          throw new ToolError(
-            `Apply changes failed: ${result.error}`,
-            'apply_code_changes'
-          );
+    try {
+      for (const file of files) {
+        if (file.text === file.oldText) {
+          continue;
         }
-
-        if (!result.stdout) {
-          throw new ToolError(
-            'Apply changes completed but returned no output',
-            'apply_code_changes'
-          );
+        if (backup && file.oldText !== null) {
+          const backupPath = `${file.path}.bak`;
+          await this.writeSourceFile(sessionId, backupPath, file.oldText);
+          backups.set(file.path, backupPath);
         }
+        await this.writeSourceFile(sessionId, file.path, file.text);
+        written.push(file);
+      }
+    } catch (error) {
+      for (const file of written) {
+        await this.restoreSourceFile(sessionId, file).catch((restoreError) =>
+          this.logger.error('Failed to restore file after a failed change', {
+            path: file.path,
+            error: restoreError,
+          })
+        );
+      }
+      throw error;
+    }
 
-        // Parse apply results
-        const applyResults = this.parseApplyResults(result.stdout);
+    return backups;
+  }
 
-        return {
-          success: true,
-          result: {
-            applied: !dryRun,
-            changesCount: changes.length,
-            ...applyResults,
-          },
-          metadata: {
-            applyTime: result.metadata?.['executionTime'] || 0,
-            dryRun,
-            backup,
-            diffs, // Include diffs for tool call reporting
-            locations, // Include locations for tool call reporting
-          },
-        };
-      } finally {
-        // Clean up temp file
-        try {
-          await fs.unlink(tempFile);
-        } catch {
-          // Ignore cleanup errors
+  /**
+   * Reads a file through the client when it supports fs reads, so unsaved
+   * editor changes are seen; returns null when the file does not exist
+   */
+  private async readSourceFile(
+    sessionId: unknown,
+    filePath: string
+  ): Promise<string | null> {
+    const fileSystemClient = this.getFileSystemClient(
+      sessionId,
+      'readTextFile'
+    );
+    if (fileSystemClient && typeof sessionId === 'string') {
+      try {
+        return await fileSystemClient.readTextFile({
+          sessionId,
+          path: filePath,
+        });
+      } catch (error) {
+        // The client reports a missing file as an error
+        if (!(await pathExists(filePath))) {
+          return null;
         }
+        throw error;
       }
+    }
+
+    try {
+      return await fs.readFile(filePath, 'utf8');
     } catch (error) {
-      this.logger.error('Failed to apply code changes', { error });
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : String(error),
-      };
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Writes a file through the client when it supports fs writes
+   */
+  private async writeSourceFile(
+    sessionId: unknown,
+    filePath: string,
+    content: string
+  ): Promise<void> {
+    const fileSystemClient = this.getFileSystemClient(
+      sessionId,
+      'writeTextFile'
+    );
+    if (fileSystemClient && typeof sessionId === 'string') {
+      await fileSystemClient.writeTextFile({
+        sessionId,
+        path: filePath,
+        content,
+      });
+      return;
     }
+
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content, 'utf8');
   }
 
   /**
-   * Run tests using the project's test runner
+   * Puts back the contents a file had before it was edited
+   */
+  private async restoreSourceFile(
+    sessionId: unknown,
+    file: FileEdit
+  ): Promise<void> {
+    if (file.oldText !== null) {
+      await this.writeSourceFile(sessionId, file.path, file.oldText);
+    } else if (!this.getFileSystemClient(sessionId, 'writeTextFile')) {
+      await fs.rm(file.path, { force: true });
+    } else {
+      // ACP has no delete; the new file is left empty
+      await this.writeSourceFile(sessionId, file.path, '');
+    }
+  }
+
+  /**
+   * The client's file system, when the session's client supports an operation
+   */
+  private getFileSystemClient(
+    sessionId: unknown,
+    capability: 'readTextFile' | 'writeTextFile'
+  ): FileSystemClient | undefined {
+    if (
+      typeof sessionId !== 'string' ||
+      !this.options.getClientCapabilities?.()?.fs?.[capability]
+    ) {
+      return undefined;
+    }
+    return this.options.getFileSystemClient?.();
+  }
+
+  /**
+   * Run tests with the project's test runner in a client terminal
    */
   private async runTests(params: Record<string, any>): Promise<ToolResult> {
     try {
@@ -619,62 +795,102 @@ export class CursorToolsProvider implements ToolProvider {
         throw new ToolError('Test execution is disabled', 'run_tests');
       }
 
-      const testPattern = params['test_pattern'] || '';
-      const testFramework = params['test_framework'] || 'auto';
-      const watchMode = params['watch_mode'] || false;
+      const sessionId: unknown = params['_sessionId'];
+      const toolCallId: unknown = params['_toolCallId'];
+      const testPattern: string | undefined =
+        params['test_pattern'] || undefined;
+      const requestedFramework = params['test_framework'] || 'auto';
       const coverage = params['coverage'] || false;
       const timeout = params['timeout'] || 300;
+      const root = this.getProjectRoot(sessionId);
 
-      this.logger.debug('Running tests', {
-        testPattern,
-        testFramework,
-        watchMode,
-        coverage,
-      });
-
-      // Build test command
-      const testArgs = ['test'];
-      if (testPattern) {
-        testArgs.push('--pattern', testPattern);
-      }
-      if (testFramework !== 'auto') {
-        testArgs.push('--framework', testFramework);
-      }
-      if (watchMode) {
-        testArgs.push('--watch');
+      // Per ACP spec: tests run in a client terminal, which needs a session
+      // and a client that supports terminals
+      const terminalManager = this.options.getTerminalManager?.();
+      if (
+        typeof sessionId !== 'string' ||
+        !terminalManager?.canCreateTerminals()
+      ) {
+        throw new ToolError(
+          'Running tests requires a client that supports terminals',
+          'run_tests'
+        );
       }
-      if (coverage) {
-        testArgs.push('--coverage');
+
+      const framework: TestFramework | null =
+        requestedFramework === 'auto'
+          ? await detectTestFramework(root)
+          : requestedFramework;
+      if (!framework) {
+        throw new ToolError(
+          `No test framework detected in ${root}; pass test_framework`,
+          'run_tests'
+        );
       }
-      if (timeout) {
-        testArgs.push('--timeout', timeout.toString());
+      if (!TEST_FRAMEWORKS.includes(framework)) {
+        throw new ToolError(
+          `Unsupported test framework: ${framework}`,
+          'run_tests'
+        );
       }
 
-      const result = await this.cliBridge.executeCommand(
-        ['cursor-agent', ...testArgs],
+      const { command, args } = getTestCommand(framework, {
+        pattern: testPattern,
+        coverage,
+      });
+
+      this.logger.debug('Running tests', {
+        framework,
+        command,
+        args,
+        root,
+        timeout,
+      });
+
+      const toolCallManager = this.options.getToolCallManager?.();
+      const startTime = Date.now();
+      const run = await executeWithTimeout(
+        terminalManager,
+        sessionId,
+        command,
+        args,
+        timeout * 1000,
         {
-          timeout: timeout * 1000,
+          cwd: root,
+          ...(toolCallManager &&
+            typeof toolCallId === 'string' && {
+              toolCall: { toolCallManager, toolCallId },
+            }),
         }
       );
 
-      // Parse test results (even if command failed, we might have partial results)
-      // Note: We allow empty stdout/stderr here since test output might be in either stream
-      const testResults = this.parseTestResults(
-        result.stdout ?? '',
-        result.stderr ?? ''
-      );
+      const report = parseTestOutput(framework, run.output);
+
+      // Failing tests are reported as tool call locations
+      const locations: Array<{ path: string; line?: number }> = report.failures
+        .filter((failure) => failure.file)
+        .map((failure) => ({
+          path: path.resolve(root, failure.file!),
+          ...(failure.line !== undefined && { line: failure.line }),
+        }));
 
       return {
-        success: result.success,
+        success: true,
         result: {
-          framework: testResults['framework'] || testFramework,
-          ...testResults,
+          framework,
+          command: [command, ...args].join(' '),
+          passed: run.exitCode === 0 && !run.timedOut,
+          exitCode: run.exitCode,
+          timedOut: run.timedOut,
+          summary: report.summary,
+          failures: report.failures,
+          output: run.output.slice(-MAX_TEST_OUTPUT_CHARS),
         },
-        error: result.success ? undefined : result.error,
         metadata: {
-          executionTime: result.metadata?.['executionTime'] || 0,
-          watchMode,
+          executionTime: Date.now() - startTime,
           coverage,
+          terminalId: run.terminalId,
+          locations,
         },
       };
     } catch (error) {
@@ -688,6 +904,8 @@ export class CursorToolsProvider implements ToolProvider {
 
   /**
    * Get project information and structure
+   * Read from the session's working directory and cached until the project
+   * changes.
    */
   private async getProjectInfo(
     params: Record<string, any>
@@ -696,52 +914,39 @@ export class CursorToolsProvider implements ToolProvider {
       const includeDependencies = params['include_dependencies'] !== false;
       const includeScripts = params['include_scripts'] !== false;
       const includeStructure = params['include_structure'] || false;
+      const sessionId = params['_sessionId'];
+      const root = this.getProjectRoot(sessionId);
 
       this.logger.debug('Getting project info', {
+        root,
         includeDependencies,
         includeScripts,
         includeStructure,
       });
 
-      // Build info command
-      const infoArgs = ['info'];
-      if (includeDependencies) {
-        infoArgs.push('--dependencies');
-      }
-      if (includeScripts) {
-        infoArgs.push('--scripts');
-      }
-      if (includeStructure) {
-        infoArgs.push('--structure');
-      }
-
-      const result = await this.cliBridge.executeCommand([
-        'cursor-agent',
-        ...infoArgs,
-      ]);
-
-      if (!result.success) {
-        throw new ToolError(
-          `Get project info failed: ${result.error}`,
-          'get_project_info'
-        );
-      }
-
-      if (!result.stdout) {
-        throw new ToolError(
-          'Get project info completed but returned no output',
-          'get_project_info'
-        );
-      }
-
-      // Parse project info
-      const projectInfo = this.parseProjectInfo(result.stdout);
+      const startTime = Date.now();
+      const { structure, manifests, ...info } = await this.projectInfoCache.get(
+        typeof sessionId === 'string' ? sessionId : '',
+        root
+      );
 
       return {
         success: true,
-        result: projectInfo,
+        result: {
+          ...info,
+          manifests: manifests.map(
+            ({ scripts, dependencies, devDependencies, ...manifest }) => ({
+              ...manifest,
+              ...(includeScripts && scripts && { scripts }),
+              ...(includeDependencies && dependencies && { dependencies }),
+              ...(includeDependencies &&
+                devDependencies && { devDependencies }),
+            })
+          ),
+          ...(includeStructure && { structure }),
+        },
         metadata: {
-          infoTime: result.metadata?.['executionTime'] || 0,
+          infoTime: Date.now() - startTime,
           includeDependencies,
           includeScripts,
           includeStructure,
@@ -841,60 +1046,6 @@ export class CursorToolsProvider implements ToolProvider {
 
   // Private helper methods
 
-  private parseSearchResults(
-    output: string,
-    includeContext: boolean
-  ): SearchResult[] {
-    try {
-      // Try to parse as JSON first
-      const jsonMatch = output.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        const parsed = JSON.parse(jsonMatch[0]);
-        return parsed.results || [];
-      }
-
-      // Fall back to text parsing
-      const results: SearchResult[] = [];
-      const lines = output.split('\n');
-      let currentResult: Partial<SearchResult> | null = null;
-
-      for (const line of lines) {
-        const fileMatch = line.match(/^(.+):(\d+):(\d+)?:(.*)$/);
-        if (fileMatch) {
-          if (currentResult) {
-            results.push(currentResult as SearchResult);
-          }
-          const file = fileMatch[1];
-          const lineStr = fileMatch[2];
-          const columnStr = fileMatch[3];
-          const contentStr = fileMatch[4];
-          if (!file || !lineStr || !contentStr) {
-            continue;
-          }
-          currentResult = {
-            file,
-            line: parseInt(lineStr, 10),
-            column: columnStr ? parseInt(columnStr, 10) : undefined,
-            content: contentStr.trim(),
-            ...(includeContext && { context: [] }),
-          };
-        } else if (currentResult && includeContext && line.trim()) {
-          currentResult.context = currentResult.context || [];
-          currentResult.context.push(line);
-        }
-      }
-
-      if (currentResult) {
-        results.push(currentResult as SearchResult);
-      }
-
-      return results;
-    } catch (error) {
-      this.logger.warn('Failed to parse search results', { error });
-      return [];
-    }
-  }
-
   private parseAnalysisResults(output: string): Record<string, any> {
     try {
       const jsonMatch = output.match(/\{[\s\S]*\}/);
@@ -915,98 +1066,6 @@ export class CursorToolsProvider implements ToolProvider {
     }
   }
 
-  private parseApplyResults(output: string): Record<string, any> {
-    try {
-      const jsonMatch = output.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        return JSON.parse(jsonMatch[0]);
-      }
-
-      return {
-        success: output.includes('successfully applied'),
-        modified: [],
-        errors: [],
-        raw: output,
-      };
-    } catch (error) {
-      this.logger.warn('Failed to parse apply results', { error });
-      return { raw: output };
-    }
-  }
-
-  private parseTestResults(
-    stdout: string,
-    stderr: string
-  ): Record<string, any> {
-    try {
-      const combined = `${stdout}\n${stderr}`;
-      const jsonMatch = combined.match(/\{[\s\S]*"tests"[\s\S]*\}/);
-      if (jsonMatch) {
-        return JSON.parse(jsonMatch[0]);
-      }
-
-      // Basic parsing for common test frameworks
-      const results: TestResult[] = [];
-      const lines = combined.split('\n');
-
-      for (const line of lines) {
-        const testMatch = line.match(
-          /(PASS|FAIL|SKIP)\s+(.+?)(?:\s+\((\d+(?:\.\d+)?)s\))?/
-        );
-        if (testMatch) {
-          const testName = testMatch[2];
-          const statusStr = testMatch[1];
-          if (!testName || !statusStr) {
-            continue;
-          }
-          results.push({
-            file: testName,
-            suite: '',
-            test: testName,
-            status: statusStr.toLowerCase() as 'passed' | 'failed' | 'skipped',
-            duration: testMatch[3] ? parseFloat(testMatch[3]) : undefined,
-          });
-        }
-      }
-
-      return {
-        framework: 'unknown',
-        tests: results,
-        summary: {
-          total: results.length,
-          passed: results.filter((r) => r.status === 'passed').length,
-          failed: results.filter((r) => r.status === 'failed').length,
-          skipped: results.filter((r) => r.status === 'skipped').length,
-        },
-        raw: combined,
-      };
-    } catch (error) {
-      this.logger.warn('Failed to parse test results', { error });
-      return { raw: `${stdout}\n${stderr}` };
-    }
-  }
-
-  private parseProjectInfo(output: string): Record<string, any> {
-    try {
-      const jsonMatch = output.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        return JSON.parse(jsonMatch[0]);
-      }
-
-      return {
-        name: 'unknown',
-        version: '0.0.0',
-        dependencies: {},
-        devDependencies: {},
-        scripts: {},
-        raw: output,
-      };
-    } catch (error) {
-      this.logger.warn('Failed to parse project info', { error });
-      return { raw: output };
-    }
-  }
-
   private parseExplanation(output: string): Record<string, any> {
     try {
       const jsonMatch = output.match(/\{[\s\S]*\}/);
@@ -1040,13 +1099,13 @@ export class CursorToolsProvider implements ToolProvider {
         errors.push(`${prefix}: Invalid file path`);
       }
 
-      if (typeof change.startLine !== 'number' || change.startLine < 1) {
+      if (!Number.isInteger(change.startLine) || change.startLine < 1) {
         errors.push(`${prefix}: Invalid start line`);
       }
 
       if (
-        typeof change.endLine !== 'number' ||
-        change.endLine < change.startLine
+        !Number.isInteger(change.endLine) ||
+        change.endLine < change.startLine - 1
       ) {
         errors.push(`${prefix}: Invalid end line`);
       }
@@ -1054,46 +1113,24 @@ export class CursorToolsProvider implements ToolProvider {
       if (typeof change.newContent !== 'string') {
         errors.push(`${prefix}: Invalid new content`);
       }
-    }
 
-    return errors;
-  }
-
-  /**
-   * Format a unified diff for displaying file changes
-   * Per ACP: diffs should be wrapped in resource blocks with mimeType 'text/x-diff'
-   */
-  private formatUnifiedDiff(
-    filePath: string,
-    oldContent: string,
-    newContent: string
-  ): string {
-    const lines: string[] = [];
-
-    // Add diff header
-    lines.push(`--- ${filePath}`);
-    lines.push(`+++ ${filePath}`);
-
-    // For simplicity, we'll show the entire file as changed
-    // A more sophisticated implementation would show only changed lines
-    const oldLines = oldContent.split('\n');
-    const newLines = newContent.split('\n');
-
-    // Add hunk header
-    lines.push(`@@ -1,${oldLines.length} +1,${newLines.length} @@`);
-
-    // Show old lines
-    if (oldContent) {
-      for (const line of oldLines) {
-        lines.push(`-${line}`);
+      if (
+        change.oldContent !== undefined &&
+        typeof change.oldContent !== 'string'
+      ) {
+        errors.push(`${prefix}: Invalid old content`);
       }
     }
 
-    // Show new lines
-    for (const line of newLines) {
-      lines.push(`+${line}`);
-    }
+    return errors;
+  }
+}
 
-    return lines.join('\n');
+async function pathExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
   }
 }
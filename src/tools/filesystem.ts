@@ -22,13 +22,26 @@
  * - `read_file` tool → requires `fs.readTextFile: true`
  * - `write_file` tool → requires `fs.writeTextFile: true`
  *
+ * ## Workspace Tools
+ *
+ * ACP has no client methods for listing, searching, deleting or moving
+ * files, so `list_directory`, `get_file_info`, `find_files`, `grep`,
+ * `delete_file`, `move_file` and `patch_file` use the local file system,
+ * rooted at the session's working directory. They are offered when the
+ * provider is given `getSessionCwd`. `patch_file` still reads and writes
+ * through the client when it supports that.
+ *
  * ## Security Model
  *
- * Security is enforced by the **client**, not this provider:
+ * Security for `read_file` and `write_file` is enforced by the **client**:
  * - Client validates paths and enforces sandboxing
  * - Client handles permissions and access controls
  * - Client manages file locks and concurrent access
  *
+ * The workspace tools reject paths outside the session's working
+ * directory, including through symbolic links. ToolRegistry asks for
+ * permission before running the edit, delete and move tools.
+ *
  * @example
  * ```typescript
  * // Register the filesystem provider
@@ -37,12 +50,19 @@
  *   config,
  *   logger,
  *   clientCapabilities,
- *   fsClient
+ *   fsClient,
+ *   { getSessionCwd: (sessionId) => sessionManager.getSessionCwd(sessionId) }
  * );
  * toolRegistry.registerProvider(provider);
  * ```
  */
 
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import type {
+  ClientCapabilities,
+  ToolCallContent,
+} from '@agentclientprotocol/sdk';
 import type {
   AdapterConfig,
   Logger,
@@ -51,7 +71,15 @@ import type {
   ToolResult,
 } from '../types';
 import type { FileSystemClient } from '../client/filesystem-client';
-import type { ClientCapabilities } from '@agentclientprotocol/sdk';
+import { searchCode, walkFiles } from './code-search';
+import { applyLineChanges } from './line-changes';
+import { hunksToChanges, parsePatch } from './patch';
+import { resolveInWorkspace } from '../utils/workspace-path';
+
+// Bounds on what the workspace tools return
+const MAX_DIRECTORY_ENTRIES = 1000;
+const DEFAULT_MAX_RESULTS = 100;
+const MAX_RESULTS_LIMIT = 1000;
 
 export interface FileSystemConfig {
   enabled: boolean;
@@ -64,6 +92,13 @@ export interface FileSystemConfig {
   enableMetrics?: boolean;
 }
 
+export interface FilesystemToolsOptions {
+  // Working directory of a session; the workspace tools are sandboxed to it
+  getSessionCwd?: (sessionId: string) => string | undefined;
+}
+
+type EntryType = 'file' | 'directory' | 'symlink' | 'other';
+
 /**
  * ACP-compliant error for file system operations
  * Uses standard JSON-RPC error codes per ACP specification
@@ -93,13 +128,15 @@ export class AcpFileSystemError extends Error {
 /**
  * ACP-compliant file system tool provider
  *
- * Only offers tools when client advertises support for file system capabilities.
- * All operations go through the ACP connection to access the client's file system.
+ * Only offers read_file and write_file when client advertises support for
+ * file system capabilities; they go through the ACP connection to access the
+ * client's file system. The workspace tools work on the session's working
+ * directory.
  */
 export class FilesystemToolProvider implements ToolProvider {
   readonly name = 'filesystem';
   readonly description =
-    'File system operations via ACP client methods (read/write text files)';
+    'File system operations via ACP client methods (read/write text files) and the session workspace';
 
   private fsConfig: FileSystemConfig;
 
@@ -107,7 +144,8 @@ export class FilesystemToolProvider implements ToolProvider {
     config: AdapterConfig,
     private logger: Logger,
     private clientCapabilities: ClientCapabilities | null,
-    private fileSystemClient: FileSystemClient
+    private fileSystemClient: FileSystemClient,
+    private options: FilesystemToolsOptions = {}
   ) {
     this.fsConfig = config.tools.filesystem;
 
@@ -132,27 +170,25 @@ export class FilesystemToolProvider implements ToolProvider {
       return [];
     }
 
+    const tools: Tool[] = [];
+    const fsCapabilities = this.clientCapabilities.fs ?? {};
     if (!this.clientCapabilities.fs) {
       this.logger.info(
-        'Client does not advertise file system capabilities - no fs tools offered',
+        'Client does not advertise file system capabilities - no client fs tools offered',
         {
           availableCapabilities: Object.keys(this.clientCapabilities),
         }
       );
-      return [];
+    } else {
+      this.logger.debug('Client file system capabilities detected', {
+        readTextFile: fsCapabilities.readTextFile ?? false,
+        writeTextFile: fsCapabilities.writeTextFile ?? false,
+      });
     }
 
-    const tools: Tool[] = [];
-    const fsCapabilities = this.clientCapabilities.fs;
-
-    this.logger.debug('Client file system capabilities detected', {
-      readTextFile: fsCapabilities.readTextFile ?? false,
-      writeTextFile: fsCapabilities.writeTextFile ?? false,
-    });
-
     // read_file tool (requires fs.readTextFile capability)
     // Per ACP spec: fs/read_text_file method
-    if (this.clientCapabilities.fs.readTextFile) {
+    if (fsCapabilities.readTextFile) {
       tools.push({
         name: 'read_file',
         description:
@@ -191,7 +227,7 @@ export class FilesystemToolProvider implements ToolProvider {
 
     // write_file tool (requires fs.writeTextFile capability)
     // Per ACP spec: fs/write_text_file method
-    if (this.clientCapabilities.fs.writeTextFile) {
+    if (fsCapabilities.writeTextFile) {
       tools.push({
         name: 'write_file',
         description:
@@ -220,11 +256,16 @@ export class FilesystemToolProvider implements ToolProvider {
       );
     }
 
+    // Workspace tools (local file system, sandboxed to the session cwd)
+    if (this.options.getSessionCwd) {
+      tools.push(...this.getWorkspaceTools());
+    }
+
     this.logger.info(
       `Offering ${tools.length} ACP-compliant file system tools`,
       {
-        canRead: this.clientCapabilities.fs.readTextFile ?? false,
-        canWrite: this.clientCapabilities.fs.writeTextFile ?? false,
+        canRead: fsCapabilities.readTextFile ?? false,
+        canWrite: fsCapabilities.writeTextFile ?? false,
       }
     );
 
@@ -633,6 +674,604 @@ export class FilesystemToolProvider implements ToolProvider {
     }
   }
 
+  /**
+   * Tools that work on the session's workspace through the local file system
+   */
+  private getWorkspaceTools(): Tool[] {
+    return [
+      {
+        name: 'list_directory',
+        description:
+          'List the files and directories in a workspace directory, with their types and sizes',
+        parameters: {
+          type: 'object',
+          properties: {
+            path: {
+              type: 'string',
+              description:
+                'Directory to list, absolute or relative to the workspace (default: the workspace)',
+            },
+          },
+        },
+        handler: this.listDirectory.bind(this),
+      },
+      {
+        name: 'get_file_info',
+        description:
+          'Get the type, size, permissions and timestamps of a workspace file or directory',
+        parameters: {
+          type: 'object',
+          properties: {
+            path: {
+              type: 'string',
+              description: 'Path, absolute or relative to the workspace',
+            },
+          },
+          required: ['path'],
+        },
+        handler: this.getFileInfo.bind(this),
+      },
+      {
+        name: 'find_files',
+        description:
+          'Find workspace files by glob pattern, skipping paths excluded by .gitignore',
+        parameters: {
+          type: 'object',
+          properties: {
+            pattern: {
+              type: 'string',
+              description:
+                'Glob such as "*.ts" (matched against file names) or "src/**/*.test.ts" (matched against paths)',
+            },
+            path: {
+              type: 'string',
+              description:
+                'Directory to search, absolute or relative to the workspace (default: the workspace)',
+            },
+            max_results: {
+              type: 'number',
+              description: `Maximum number of files to return (default: ${DEFAULT_MAX_RESULTS}, at most ${MAX_RESULTS_LIMIT})`,
+            },
+          },
+          required: ['pattern'],
+        },
+        handler: this.findFiles.bind(this),
+      },
+      {
+        name: 'grep',
+        description:
+          'Search the contents of workspace files for a regular expression, skipping paths excluded by .gitignore and binary files',
+        parameters: {
+          type: 'object',
+          properties: {
+            pattern: {
+              type: 'string',
+              description: 'Regular expression (or text when regex is false)',
+            },
+            path: {
+              type: 'string',
+              description:
+                'Directory to search, absolute or relative to the workspace (default: the workspace)',
+            },
+            file_pattern: {
+              type: 'string',
+              description: 'Glob limiting the files searched, such as "*.ts"',
+            },
+            regex: {
+              type: 'boolean',
+              description:
+                'Treat pattern as a regular expression (default: true)',
+            },
+            case_sensitive: {
+              type: 'boolean',
+              description: 'Match case (default: false)',
+            },
+            context_lines: {
+              type: 'number',
+              description: 'Lines to show before and after each match',
+            },
+            max_results: {
+              type: 'number',
+              description: `Maximum number of matches to return (default: ${DEFAULT_MAX_RESULTS}, at most ${MAX_RESULTS_LIMIT})`,
+            },
+          },
+          required: ['pattern'],
+        },
+        handler: this.grep.bind(this),
+      },
+      {
+        name: 'delete_file',
+        description:
+          'Delete a workspace file, or a directory when recursive is set',
+        parameters: {
+          type: 'object',
+          properties: {
+            path: {
+              type: 'string',
+              description: 'Path, absolute or relative to the workspace',
+            },
+            recursive: {
+              type: 'boolean',
+              description:
+                'Delete a directory and everything in it (default: false)',
+            },
+          },
+          required: ['path'],
+        },
+        handler: this.deleteFile.bind(this),
+      },
+      {
+        name: 'move_file',
+        description:
+          'Move or rename a workspace file or directory, creating missing parent directories',
+        parameters: {
+          type: 'object',
+          properties: {
+            source: {
+              type: 'string',
+              description:
+                'Path to move, absolute or relative to the workspace',
+            },
+            destination: {
+              type: 'string',
+              description: 'New path, absolute or relative to the workspace',
+            },
+            overwrite: {
+              type: 'boolean',
+              description:
+                'Replace an existing file at the destination (default: false)',
+            },
+          },
+          required: ['source', 'destination'],
+        },
+        handler: this.moveFile.bind(this),
+      },
+      {
+        name: 'patch_file',
+        description:
+          'Apply a unified diff to a workspace file (includes unsaved changes in editor when the client supports it). ' +
+          'Hunks are located by their context lines, so line numbers may be approximate.',
+        parameters: {
+          type: 'object',
+          properties: {
+            path: {
+              type: 'string',
+              description:
+                'File to patch, absolute or relative to the workspace',
+            },
+            patch: {
+              type: 'string',
+              description:
+                'Unified diff of the file, with @@ hunk headers; "--- /dev/null" creates the file',
+            },
+          },
+          required: ['path', 'patch'],
+        },
+        handler: this.patchFile.bind(this),
+      },
+    ];
+  }
+
+  /**
+   * List a workspace directory
+   */
+  private async listDirectory(
+    params: Record<string, any>
+  ): Promise<ToolResult> {
+    try {
+      const directory = await this.resolveWorkspacePath(
+        params['_sessionId'],
+        params['path'] ?? '.'
+      );
+      const dirents = await fs.readdir(directory, { withFileTypes: true });
+      dirents.sort((a, b) => a.name.localeCompare(b.name));
+
+      const entries = [];
+      for (const dirent of dirents.slice(0, MAX_DIRECTORY_ENTRIES)) {
+        const type = getEntryType(dirent);
+        const size =
+          type === 'file'
+            ? await fs
+                .stat(path.join(directory, dirent.name))
+                .then((stats) => stats.size)
+                .catch(() => undefined)
+            : undefined;
+        entries.push({
+          name: dirent.name,
+          type,
+          ...(size !== undefined && { size }),
+        });
+      }
+
+      return {
+        success: true,
+        result: {
+          path: directory,
+          entries,
+          truncated: dirents.length > MAX_DIRECTORY_ENTRIES,
+        },
+      };
+    } catch (error) {
+      return this.workspaceToolFailure('list directory', params['path'], error);
+    }
+  }
+
+  /**
+   * Describe a workspace file or directory, without following a symbolic
+   * link it names
+   */
+  private async getFileInfo(params: Record<string, any>): Promise<ToolResult> {
+    try {
+      const filePath = await this.resolveWorkspacePath(
+        params['_sessionId'],
+        params['path'],
+        false
+      );
+      const stats = await fs.lstat(filePath);
+
+      return {
+        success: true,
+        result: {
+          path: filePath,
+          type: getEntryType(stats),
+          size: stats.size,
+          permissions: (stats.mode & 0o777).toString(8).padStart(3, '0'),
+          modified: stats.mtime.toISOString(),
+          created: stats.birthtime.toISOString(),
+          ...(stats.isSymbolicLink() && {
+            target: await fs.readlink(filePath),
+          }),
+        },
+      };
+    } catch (error) {
+      return this.workspaceToolFailure('get info for', params['path'], error);
+    }
+  }
+
+  /**
+   * Find workspace files by glob
+   */
+  private async findFiles(params: Record<string, any>): Promise<ToolResult> {
+    try {
+      const pattern = params['pattern'];
+      if (typeof pattern !== 'string' || !pattern) {
+        throw new AcpFileSystemError(
+          'Pattern is required and must be a non-empty glob',
+          -32602,
+          { context: 'invalid_pattern', provided: pattern }
+        );
+      }
+      const maxResults = getMaxResults(params['max_results']);
+      const directory = await this.resolveWorkspacePath(
+        params['_sessionId'],
+        params['path'] ?? '.'
+      );
+
+      const files: string[] = [];
+      let truncated = false;
+      for await (const file of walkFiles(directory, pattern)) {
+        if (files.length === maxResults) {
+          truncated = true;
+          break;
+        }
+        files.push(path.join(directory, file));
+      }
+
+      return {
+        success: true,
+        result: { path: directory, pattern, files, truncated },
+        metadata: { locations: files.map((file) => ({ path: file })) },
+      };
+    } catch (error) {
+      return this.workspaceToolFailure('find files in', params['path'], error);
+    }
+  }
+
+  /**
+   * Search the contents of workspace files
+   */
+  private async grep(params: Record<string, any>): Promise<ToolResult> {
+    try {
+      const directory = await this.resolveWorkspacePath(
+        params['_sessionId'],
+        params['path'] ?? '.'
+      );
+      const search = await searchCode({
+        root: directory,
+        query: params['pattern'],
+        regex: params['regex'] !== false,
+        caseSensitive: params['case_sensitive'] === true,
+        filePattern: params['file_pattern'] || undefined,
+        maxResults: getMaxResults(params['max_results']),
+        contextLines: params['context_lines'] ?? 0,
+      });
+
+      const matches = search.results.map((match) => ({
+        ...match,
+        file: path.join(directory, match.file),
+      }));
+
+      return {
+        success: true,
+        result: {
+          path: directory,
+          matches,
+          truncated: search.truncated,
+          filesSearched: search.filesSearched,
+        },
+        metadata: {
+          locations: matches.map((match) => ({
+            path: match.file,
+            line: match.line,
+          })),
+        },
+      };
+    } catch (error) {
+      return this.workspaceToolFailure('search', params['path'], error);
+    }
+  }
+
+  /**
+   * Delete a workspace file or directory
+   */
+  private async deleteFile(params: Record<string, any>): Promise<ToolResult> {
+    try {
+      const sessionId = params['_sessionId'];
+      const filePath = await this.resolveWorkspacePath(
+        sessionId,
+        params['path'],
+        false
+      );
+      if (filePath === (await this.getWorkspaceRoot(sessionId))) {
+        throw new AcpFileSystemError(
+          'Access denied: the workspace directory itself cannot be deleted',
+          -32602,
+          { context: 'workspace_root' }
+        );
+      }
+
+      const stats = await fs.lstat(filePath);
+      const isDirectory = stats.isDirectory();
+      if (isDirectory && params['recursive'] !== true) {
+        // Empty directories go without recursive; rmdir fails otherwise
+        await fs.rmdir(filePath);
+      } else {
+        await fs.rm(filePath, { recursive: isDirectory });
+      }
+
+      this.logger.info('Deleted workspace path', { path: filePath });
+      return {
+        success: true,
+        result: {
+          path: filePath,
+          deleted: true,
+          type: getEntryType(stats),
+        },
+      };
+    } catch (error) {
+      return this.workspaceToolFailure('delete', params['path'], error);
+    }
+  }
+
+  /**
+   * Move or rename a workspace file or directory
+   */
+  private async moveFile(params: Record<string, any>): Promise<ToolResult> {
+    try {
+      const sessionId = params['_sessionId'];
+      const source = await this.resolveWorkspacePath(
+        sessionId,
+        params['source'],
+        false
+      );
+      const destination = await this.resolveWorkspacePath(
+        sessionId,
+        params['destination'],
+        false
+      );
+      const root = await this.getWorkspaceRoot(sessionId);
+      if (source === root || destination === root) {
+        throw new AcpFileSystemError(
+          'Access denied: the workspace directory itself cannot be moved',
+          -32602,
+          { context: 'workspace_root' }
+        );
+      }
+
+      await fs.lstat(source); // Reports a missing source before anything changes
+      const existing = await fs.lstat(destination).catch(() => null);
+      if (
+        existing &&
+        (params['overwrite'] !== true || existing.isDirectory())
+      ) {
+        throw new AcpFileSystemError(
+          existing.isDirectory()
+            ? `Destination ${destination} is an existing directory`
+            : `Destination ${destination} already exists. Pass overwrite: true to replace it`,
+          -32602,
+          { context: 'destination_exists', path: destination }
+        );
+      }
+
+      await fs.mkdir(path.dirname(destination), { recursive: true });
+      await fs.rename(source, destination);
+
+      this.logger.info('Moved workspace path', { source, destination });
+      return {
+        success: true,
+        result: {
+          source,
+          destination,
+          moved: true,
+          overwritten: existing !== null,
+        },
+      };
+    } catch (error) {
+      return this.workspaceToolFailure('move', params['source'], error);
+    }
+  }
+
+  /**
+   * Apply a unified diff to a workspace file
+   * Reads and writes through the client when it supports that, so unsaved
+   * editor changes are patched.
+   */
+  private async patchFile(params: Record<string, any>): Promise<ToolResult> {
+    try {
+      const sessionId = params['_sessionId'];
+      const filePath = await this.resolveWorkspacePath(
+        sessionId,
+        params['path']
+      );
+      const patch = params['patch'];
+      if (typeof patch !== 'string' || !patch) {
+        throw new AcpFileSystemError(
+          'Patch is required and must be a non-empty unified diff',
+          -32602,
+          { context: 'invalid_patch' }
+        );
+      }
+
+      const { hunks, isNewFile } = parsePatch(patch);
+      const exists = await fs
+        .lstat(filePath)
+        .then(() => true)
+        .catch(() => false);
+      if (isNewFile && exists) {
+        throw new AcpFileSystemError(
+          `Patch creates ${filePath}, which already exists`,
+          -32602,
+          { context: 'file_exists', path: filePath }
+        );
+      }
+      if (!isNewFile && !exists) {
+        throw new AcpFileSystemError(
+          `File ${filePath} does not exist. Use "--- /dev/null" to create it`,
+          -32602,
+          { context: 'file_not_found', path: filePath }
+        );
+      }
+
+      const oldText = isNewFile
+        ? ''
+        : this.clientCapabilities?.fs?.readTextFile
+          ? await this.fileSystemClient.readTextFile({
+              sessionId,
+              path: filePath,
+            })
+          : await fs.readFile(filePath, 'utf8');
+      const edit = applyLineChanges(
+        filePath,
+        oldText,
+        hunksToChanges(filePath, oldText, hunks),
+        isNewFile
+      );
+
+      if (this.clientCapabilities?.fs?.writeTextFile) {
+        await this.fileSystemClient.writeTextFile({
+          sessionId,
+          path: filePath,
+          content: edit.text,
+        });
+      } else {
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, edit.text, 'utf8');
+      }
+
+      // Per ACP: file changes are reported as diff tool call content
+      const diffs: ToolCallContent[] = edit.diff
+        ? [
+            {
+              type: 'diff',
+              path: filePath,
+              oldText: isNewFile ? null : oldText,
+              newText: edit.text,
+              _meta: { unifiedDiff: edit.diff },
+            },
+          ]
+        : [];
+
+      return {
+        success: true,
+        result: {
+          path: filePath,
+          isNewFile,
+          hunks: hunks.length,
+          linesAdded: edit.linesAdded,
+          linesRemoved: edit.linesRemoved,
+          diff: edit.diff,
+        },
+        metadata: { diffs },
+      };
+    } catch (error) {
+      return this.workspaceToolFailure('patch', params['path'], error);
+    }
+  }
+
+  /**
+   * Real path of the session's working directory
+   */
+  private async getWorkspaceRoot(sessionId: unknown): Promise<string> {
+    const cwd =
+      typeof sessionId === 'string'
+        ? this.options.getSessionCwd?.(sessionId)
+        : undefined;
+    if (!cwd) {
+      throw new AcpFileSystemError(
+        'Session working directory is unknown, so workspace paths cannot be checked',
+        -32602,
+        { context: 'missing_session_cwd' }
+      );
+    }
+    return fs.realpath(cwd);
+  }
+
+  /**
+   * Resolves a path against the session's workspace, rejecting paths
+   * outside it. Symbolic links in the path are followed, except one named
+   * by the path itself when followLink is false.
+   */
+  private async resolveWorkspacePath(
+    sessionId: unknown,
+    requestedPath: unknown,
+    followLink = true
+  ): Promise<string> {
+    if (typeof requestedPath !== 'string' || !requestedPath) {
+      throw new AcpFileSystemError(
+        'Valid file path is required. Path must be a non-empty string.',
+        -32602,
+        { context: 'invalid_path', provided: requestedPath }
+      );
+    }
+
+    const root = await this.getWorkspaceRoot(sessionId);
+    const realPath = await resolveInWorkspace(root, requestedPath, followLink);
+    if (realPath === null) {
+      throw new AcpFileSystemError(
+        `Access denied: ${requestedPath} is outside the workspace ${root}`,
+        -32602,
+        { context: 'outside_workspace', path: requestedPath }
+      );
+    }
+
+    return realPath;
+  }
+
+  private workspaceToolFailure(
+    operation: string,
+    requestedPath: unknown,
+    error: unknown
+  ): ToolResult {
+    this.logger.error(`Failed to ${operation} workspace path`, {
+      error,
+      path: requestedPath,
+    });
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+
   // Helper methods
 
   private delay(ms: number): Promise<void> {
@@ -700,3 +1339,31 @@ export class FilesystemToolProvider implements ToolProvider {
     // this.metricsCollector?.record(name, duration, metadata);
   }
 }
+
+function getEntryType(entry: {
+  isFile(): boolean;
+  isDirectory(): boolean;
+  isSymbolicLink(): boolean;
+}): EntryType {
+  if (entry.isSymbolicLink()) {
+    return 'symlink';
+  }
+  if (entry.isDirectory()) {
+    return 'directory';
+  }
+  return entry.isFile() ? 'file' : 'other';
+}
+
+function getMaxResults(value: unknown): number {
+  if (value === undefined) {
+    return DEFAULT_MAX_RESULTS;
+  }
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1) {
+    throw new AcpFileSystemError(
+      `Invalid max_results: ${String(value)}. Expected a positive integer`,
+      -32602,
+      { context: 'invalid_max_results', provided: value }
+    );
+  }
+  return Math.min(value, MAX_RESULTS_LIMIT);
+}
@@ -0,0 +1,232 @@
+/**
+ * Line-range code changes
+ *
+ * Backs the apply_code_changes tool. Applies line-range replacements to the
+ * text of a file, rejecting changes that overlap or no longer fit the file,
+ * and renders the result as a minimal unified diff.
+ */
+
+import { ToolError } from '../types';
+import type { CodeChange } from './cursor-tools';
+
+// Unchanged lines shown around each hunk, as `diff -u` does
+const DIFF_CONTEXT_LINES = 3;
+
+export interface LineChangeResult {
+  text: string;
+  diff: string; // Unified diff; empty when the text is unchanged
+  linesAdded: number;
+  linesRemoved: number;
+}
+
+interface LineEdit {
+  start: number; // Index of the first replaced line in the old text
+  removed: string[];
+  added: string[];
+}
+
+/**
+ * Applies the changes to one file
+ * Line numbers refer to the file before any of the changes are applied, so
+ * changes can be given in any order.
+ *
+ * @param filePath - Path shown in the diff headers
+ * @param oldText - Current contents of the file ('' for a new file)
+ * @param changes - Changes to the file
+ * @param isNewFile - Whether the file does not exist yet
+ */
+export function applyLineChanges(
+  filePath: string,
+  oldText: string,
+  changes: CodeChange[],
+  isNewFile = false
+): LineChangeResult {
+  const oldLines = splitLines(oldText);
+  const sorted = [...changes].sort(
+    (a, b) => a.startLine - b.startLine || a.endLine - b.endLine
+  );
+  const edits: LineEdit[] = [];
+
+  for (let i = 0; i < sorted.length; i++) {
+    const change = sorted[i]!;
+    const previous = sorted[i - 1];
+
+    if (
+      previous &&
+      (change.startLine <= previous.endLine ||
+        change.startLine === previous.startLine)
+    ) {
+      throw new ToolError(
+        `Changes to ${filePath} overlap: lines ${formatRange(previous)} and ${formatRange(change)}`,
+        'apply_code_changes'
+      );
+    }
+
+    if (change.endLine > oldLines.length) {
+      throw new ToolError(
+        `Stale change to ${filePath}: lines ${formatRange(change)} are past the end of the file (${oldLines.length} lines)`,
+        'apply_code_changes'
+      );
+    }
+
+    const removed = oldLines.slice(change.startLine - 1, change.endLine);
+    if (
+      change.oldContent !== undefined &&
+      splitLines(change.oldContent).join('\n') !== removed.join('\n')
+    ) {
+      throw new ToolError(
+        `Stale change to ${filePath}: lines ${formatRange(change)} no longer match oldContent`,
+        'apply_code_changes'
+      );
+    }
+
+    edits.push({
+      start: change.startLine - 1,
+      removed,
+      added: splitLines(change.newContent),
+    });
+  }
+
+  const newLines = [...oldLines];
+  for (const edit of [...edits].reverse()) {
+    newLines.splice(edit.start, edit.removed.length, ...edit.added);
+  }
+
+  // Keep the file's line endings; new files end with a newline
+  const eol = oldText.includes('\r\n') ? '\r\n' : '\n';
+  const finalEol = oldText === '' || /\n$/.test(oldText) ? eol : '';
+  const text = newLines.length > 0 ? newLines.join(eol) + finalEol : '';
+
+  const changed = edits
+    .map(trimEdit)
+    .filter((edit) => edit.removed.length > 0 || edit.added.length > 0);
+
+  return {
+    text,
+    diff: formatUnifiedDiff(filePath, oldLines, changed, isNewFile),
+    linesAdded: changed.reduce((sum, edit) => sum + edit.added.length, 0),
+    linesRemoved: changed.reduce((sum, edit) => sum + edit.removed.length, 0),
+  };
+}
+
+/**
+ * Splits text into lines, without a trailing empty line for a final newline
+ */
+function splitLines(text: string): string[] {
+  if (text === '') {
+    return [];
+  }
+  return text.replace(/\r?\n$/, '').split(/\r?\n/);
+}
+
+function formatRange(change: CodeChange): string {
+  return change.endLine < change.startLine
+    ? `before ${change.startLine}`
+    : `${change.startLine}-${change.endLine}`;
+}
+
+/**
+ * Drops the lines an edit leaves unchanged at its start and end
+ */
+function trimEdit(edit: LineEdit): LineEdit {
+  const { removed, added } = edit;
+
+  let head = 0;
+  while (
+    head < removed.length &&
+    head < added.length &&
+    removed[head] === added[head]
+  ) {
+    head++;
+  }
+
+  let tail = 0;
+  while (
+    tail < removed.length - head &&
+    tail < added.length - head &&
+    removed[removed.length - 1 - tail] === added[added.length - 1 - tail]
+  ) {
+    tail++;
+  }
+
+  return {
+    start: edit.start + head,
+    removed: removed.slice(head, removed.length - tail),
+    added: added.slice(head, added.length - tail),
+  };
+}
+
+/**
+ * Formats sorted, non-overlapping edits as a unified diff
+ * Edits whose context lines would touch share a hunk.
+ */
+function formatUnifiedDiff(
+  filePath: string,
+  oldLines: string[],
+  edits: LineEdit[],
+  isNewFile: boolean
+): string {
+  if (edits.length === 0) {
+    return '';
+  }
+
+  const lines = [
+    `--- ${isNewFile ? '/dev/null' : filePath}`,
+    `+++ ${filePath}`,
+  ];
+  const editEnd = (edit: LineEdit) => edit.start + edit.removed.length;
+  let offset = 0; // Lines added minus lines removed by earlier hunks
+
+  for (let first = 0; first < edits.length; ) {
+    let last = first;
+    while (
+      last + 1 < edits.length &&
+      edits[last + 1]!.start - editEnd(edits[last]!) <= 2 * DIFF_CONTEXT_LINES
+    ) {
+      last++;
+    }
+
+    const hunkEdits = edits.slice(first, last + 1);
+    const oldStart = Math.max(0, hunkEdits[0]!.start - DIFF_CONTEXT_LINES);
+    const oldEnd = Math.min(
+      oldLines.length,
+      editEnd(hunkEdits[hunkEdits.length - 1]!) + DIFF_CONTEXT_LINES
+    );
+
+    const body: string[] = [];
+    let delta = 0;
+    let cursor = oldStart;
+    for (const edit of hunkEdits) {
+      for (; cursor < edit.start; cursor++) {
+        body.push(` ${oldLines[cursor]}`);
+      }
+      body.push(
+        ...edit.removed.map((line) => `-${line}`),
+        ...edit.added.map((line) => `+${line}`)
+      );
+      cursor = editEnd(edit);
+      delta += edit.added.length - edit.removed.length;
+    }
+    for (; cursor < oldEnd; cursor++) {
+      body.push(` ${oldLines[cursor]}`);
+    }
+
+    const oldCount = oldEnd - oldStart;
+    lines.push(
+      `@@ -${formatHunkRange(oldStart, oldCount)} +${formatHunkRange(oldStart + offset, oldCount + delta)} @@`,
+      ...body
+    );
+
+    offset += delta;
+    first = last + 1;
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Hunk ranges are 1-based; an empty range names the line before it
+ */
+function formatHunkRange(start: number, count: number): string {
+  return count === 0 ? `${start},0` : `${start + 1},${count}`;
+}
@@ -0,0 +1,172 @@
+/**
+ * Unified diff patches
+ *
+ * Backs the patch_file tool. Reads the hunks of a unified diff for one file
+ * and turns them into line-range changes for applyLineChanges. Each hunk is
+ * located by its context and removed lines, nearest to the line it names,
+ * so patches made against a slightly different version of the file still
+ * apply.
+ */
+
+import { ToolError } from '../types';
+import type { CodeChange } from './cursor-tools';
+
+export interface PatchHunk {
+  oldStart: number; // Line the hunk starts at in the old file (1-based)
+  oldLines: string[]; // Context and removed lines
+  newLines: string[]; // Context and added lines
+}
+
+export interface ParsedPatch {
+  hunks: PatchHunk[];
+  isNewFile: boolean; // The patch creates the file (`--- /dev/null`)
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/**
+ * Parses a unified diff of a single file
+ */
+export function parsePatch(patch: string): ParsedPatch {
+  const lines = patch.split('\n').map((line) => line.replace(/\r$/, ''));
+  const hunks: PatchHunk[] = [];
+  let isNewFile = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]!;
+
+    if (line.startsWith('--- ')) {
+      if (hunks.length > 0) {
+        throw new ToolError(
+          'Invalid patch: it changes more than one file',
+          'patch_file'
+        );
+      }
+      isNewFile = line.slice(4).trim() === '/dev/null';
+      continue;
+    }
+
+    const header = HUNK_HEADER.exec(line);
+    if (!header) {
+      continue; // Headers such as `diff --git` and `+++` carry nothing needed
+    }
+
+    let oldCount = Number(header[2] ?? 1);
+    let newCount = Number(header[4] ?? 1);
+    const hunk: PatchHunk = {
+      oldStart: Number(header[1]),
+      oldLines: [],
+      newLines: [],
+    };
+
+    while (oldCount > 0 || newCount > 0) {
+      i++;
+      if (i >= lines.length) {
+        throw new ToolError(
+          `Invalid patch: hunk ${hunks.length + 1} ends early`,
+          'patch_file'
+        );
+      }
+
+      const bodyLine = lines[i]!;
+      // Editors often strip the space that marks an empty context line
+      const marker = bodyLine === '' ? ' ' : bodyLine[0];
+      const text = bodyLine.slice(1);
+      if (marker === ' ') {
+        hunk.oldLines.push(text);
+        hunk.newLines.push(text);
+        oldCount--;
+        newCount--;
+      } else if (marker === '-') {
+        hunk.oldLines.push(text);
+        oldCount--;
+      } else if (marker === '+') {
+        hunk.newLines.push(text);
+        newCount--;
+      } else if (marker !== '\\') {
+        throw new ToolError(
+          `Invalid patch: unexpected line in hunk ${hunks.length + 1}: ${bodyLine}`,
+          'patch_file'
+        );
+      }
+    }
+
+    hunks.push(hunk);
+  }
+
+  if (hunks.length === 0) {
+    throw new ToolError('Invalid patch: no hunks found', 'patch_file');
+  }
+
+  return { hunks, isNewFile };
+}
+
+/**
+ * Locates each hunk in the file's text and returns the line-range change
+ * it makes
+ *
+ * @param filePath - Path named in errors
+ * @param text - Current contents of the file
+ * @param hunks - Hunks in file order
+ */
+export function hunksToChanges(
+  filePath: string,
+  text: string,
+  hunks: PatchHunk[]
+): CodeChange[] {
+  const fileLines =
+    text === '' ? [] : text.replace(/\r?\n$/, '').split(/\r?\n/);
+  const changes: CodeChange[] = [];
+  let searchFrom = 0; // Hunks do not overlap, so each starts after the last
+
+  hunks.forEach((hunk, index) => {
+    // A hunk without old lines inserts after the line it names
+    const expected =
+      hunk.oldLines.length === 0 ? hunk.oldStart : hunk.oldStart - 1;
+    const start = findLines(fileLines, hunk.oldLines, expected, searchFrom);
+    if (start === -1) {
+      throw new ToolError(
+        `Hunk ${index + 1} of the patch does not apply to ${filePath}: its context and removed lines were not found`,
+        'patch_file'
+      );
+    }
+
+    changes.push({
+      file: filePath,
+      startLine: start + 1,
+      endLine: start + hunk.oldLines.length,
+      newContent: hunk.newLines.map((line) => `${line}\n`).join(''),
+    });
+    searchFrom = start + hunk.oldLines.length;
+  });
+
+  return changes;
+}
+
+/**
+ * Finds where lines occur in fileLines at or after from, nearest to
+ * expected; returns -1 when they do not occur
+ */
+function findLines(
+  fileLines: string[],
+  lines: string[],
+  expected: number,
+  from: number
+): number {
+  const last = fileLines.length - lines.length;
+  const matches = (start: number) =>
+    start >= from &&
+    start <= last &&
+    lines.every((line, offset) => fileLines[start + offset] === line);
+
+  const target = Math.min(Math.max(expected, from), Math.max(last, from));
+  for (let distance = 0; distance <= fileLines.length; distance++) {
+    if (matches(target - distance)) {
+      return target - distance;
+    }
+    if (distance > 0 && matches(target + distance)) {
+      return target + distance;
+    }
+  }
+  return -1;
+}
@@ -0,0 +1,766 @@
+/**
+ * Local project introspection
+ *
+ * Backs the get_project_info tool. Reads a project's manifests
+ * (package.json, pyproject.toml, Cargo.toml, go.mod), its workspace layout,
+ * its git branch and status, and a size-bounded directory tree, all from the
+ * project's directory. ProjectInfoCache keeps the result until files in the
+ * project change.
+ */
+
+import { execFile } from 'child_process';
+import { promises as fs, watch, type Dirent, type FSWatcher } from 'fs';
+import * as path from 'path';
+import { load } from 'js-yaml';
+import { parse as parseToml, type TomlTable } from 'smol-toml';
+import type { Logger } from '../types';
+import { matchGlob } from '../utils/glob';
+import {
+  isIgnored,
+  parseGitignore,
+  type GitignoreRule,
+} from '../utils/gitignore';
+
+// Bounds on the directory tree
+const MAX_TREE_DEPTH = 3;
+const MAX_TREE_ENTRIES = 300;
+
+// Bounds on workspace members, found by matching directories up to this depth
+const MAX_WORKSPACE_DEPTH = 4;
+const MAX_WORKSPACE_PACKAGES = 200;
+
+const MAX_GIT_CHANGES = 200;
+const GIT_TIMEOUT_MS = 5000;
+
+// Directories never listed or searched for workspace members
+const SKIPPED_DIRECTORIES = new Set(['.git', 'node_modules']);
+
+export type ManifestType = 'npm' | 'python' | 'cargo' | 'go';
+
+export interface ProjectManifest {
+  type: ManifestType;
+  path: string; // Relative to the project root
+  name?: string;
+  version?: string;
+  scripts?: Record<string, string>;
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  error?: string; // Set when the manifest could not be parsed
+}
+
+export interface WorkspaceInfo {
+  type: 'npm' | 'pnpm' | 'cargo' | 'go';
+  manifest: string; // File declaring the workspace
+  patterns: string[];
+  packages: Array<{ path: string; name?: string }>;
+  truncated: boolean;
+}
+
+export interface GitInfo {
+  branch: string | null; // null when HEAD is detached
+  upstream?: string;
+  ahead: number;
+  behind: number;
+  clean: boolean;
+  // Changed paths with their two-letter `git status --porcelain` code
+  changes: Array<{ path: string; status: string; from?: string }>;
+  truncated: boolean;
+}
+
+export interface DirectoryTree {
+  entries: string[]; // Paths relative to the root; directories end with `/`
+  truncated: boolean;
+}
+
+export interface ProjectInfo {
+  root: string;
+  name: string | null;
+  version: string | null;
+  manifests: ProjectManifest[];
+  workspaces: WorkspaceInfo[];
+  git: GitInfo | null; // null outside a git repository
+  structure: DirectoryTree;
+}
+
+const MANIFEST_FILES: Record<ManifestType, string> = {
+  npm: 'package.json',
+  python: 'pyproject.toml',
+  cargo: 'Cargo.toml',
+  go: 'go.mod',
+};
+
+/**
+ * Reads the project in root
+ */
+export async function readProjectInfo(root: string): Promise<ProjectInfo> {
+  const manifests: ProjectManifest[] = [];
+  for (const type of Object.keys(MANIFEST_FILES) as ManifestType[]) {
+    const manifest = await readManifest(root, '', type);
+    if (manifest) {
+      manifests.push(manifest);
+    }
+  }
+
+  const [workspaces, git, structure] = await Promise.all([
+    readWorkspaces(root),
+    readGitStatus(root),
+    readDirectoryTree(root),
+  ]);
+  const primary = manifests.find((manifest) => manifest.name);
+
+  return {
+    root,
+    name: primary?.name ?? null,
+    version: primary?.version ?? null,
+    manifests,
+    workspaces,
+    git,
+    structure,
+  };
+}
+
+/**
+ * Reads one manifest; returns null when the directory has none of that type
+ */
+async function readManifest(
+  root: string,
+  dir: string,
+  type: ManifestType
+): Promise<ProjectManifest | null> {
+  const manifestPath = dir
+    ? `${dir}/${MANIFEST_FILES[type]}`
+    : MANIFEST_FILES[type];
+  const content = await readText(path.join(root, manifestPath));
+  if (content === null) {
+    return null;
+  }
+
+  try {
+    return { type, path: manifestPath, ...MANIFEST_PARSERS[type](content) };
+  } catch (error) {
+    return {
+      type,
+      path: manifestPath,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+type ManifestFields = Omit<ProjectManifest, 'type' | 'path' | 'error'>;
+
+const MANIFEST_PARSERS: Record<
+  ManifestType,
+  (content: string) => ManifestFields
+> = {
+  npm: parsePackageJson,
+  python: parsePyproject,
+  cargo: parseCargoToml,
+  go: parseGoMod,
+};
+
+function parsePackageJson(content: string): ManifestFields {
+  const json = JSON.parse(content);
+  if (!isRecord(json)) {
+    throw new Error('package.json is not an object');
+  }
+
+  return compact({
+    name: asString(json['name']),
+    version: asString(json['version']),
+    scripts: stringRecord(json['scripts']),
+    dependencies: stringRecord(json['dependencies']),
+    devDependencies: stringRecord(json['devDependencies']),
+  });
+}
+
+/**
+ * Reads PEP 621 `[project]` metadata, falling back to `[tool.poetry]`
+ */
+function parsePyproject(content: string): ManifestFields {
+  const toml = parseToml(content);
+  const project = table(toml['project']);
+  const poetry = table(table(toml['tool'])['poetry']);
+
+  const dependencies: Record<string, string> = {};
+  for (const requirement of stringArray(project['dependencies'])) {
+    const [name, spec] = parseRequirement(requirement);
+    dependencies[name] = spec;
+  }
+  Object.assign(dependencies, tomlDependencies(poetry['dependencies']));
+  delete dependencies['python'];
+
+  const devDependencies = tomlDependencies(poetry['dev-dependencies']);
+  for (const group of Object.values(table(poetry['group']))) {
+    Object.assign(
+      devDependencies,
+      tomlDependencies(table(group)['dependencies'])
+    );
+  }
+
+  return compact({
+    name: asString(project['name']) ?? asString(poetry['name']),
+    version: asString(project['version']) ?? asString(poetry['version']),
+    scripts: {
+      ...stringRecord(poetry['scripts']),
+      ...stringRecord(project['scripts']),
+    },
+    dependencies,
+    devDependencies,
+  });
+}
+
+function parseCargoToml(content: string): ManifestFields {
+  const toml = parseToml(content);
+  const cargoPackage = table(toml['package']);
+
+  return compact({
+    name: asString(cargoPackage['name']),
+    version: asString(cargoPackage['version']),
+    dependencies: tomlDependencies(toml['dependencies']),
+    devDependencies: tomlDependencies(toml['dev-dependencies']),
+  });
+}
+
+/**
+ * Reads the module path, Go version and direct requirements
+ */
+function parseGoMod(content: string): ManifestFields {
+  let name: string | undefined;
+  let version: string | undefined;
+  const dependencies: Record<string, string> = {};
+  let inRequireBlock = false;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const indirect = /\/\/\s*indirect\b/.test(rawLine);
+    const line = rawLine.replace(/\/\/.*$/, '').trim();
+
+    if (inRequireBlock) {
+      if (line === ')') {
+        inRequireBlock = false;
+      } else {
+        const [module, moduleVersion] = line.split(/\s+/);
+        if (module && moduleVersion && !indirect) {
+          dependencies[module] = moduleVersion;
+        }
+      }
+      continue;
+    }
+
+    const [directive, ...args] = line.split(/\s+/);
+    if (directive === 'module') {
+      name = args[0]?.replace(/^"|"$/g, '');
+    } else if (directive === 'go') {
+      version = args[0];
+    } else if (directive === 'require') {
+      if (args[0] === '(') {
+        inRequireBlock = true;
+      } else if (args[0] && args[1] && !indirect) {
+        dependencies[args[0]] = args[1];
+      }
+    }
+  }
+
+  // go.mod has no module version; report the Go version it requires
+  return compact({
+    name,
+    ...(version !== undefined && { version: `go ${version}` }),
+    dependencies,
+  });
+}
+
+/**
+ * Finds npm/yarn, pnpm, Cargo and Go workspaces declared in root
+ */
+async function readWorkspaces(root: string): Promise<WorkspaceInfo[]> {
+  const workspaces: WorkspaceInfo[] = [];
+
+  const packageJson = await readJson(path.join(root, 'package.json'));
+  const npmWorkspaces = packageJson?.['workspaces'];
+  const npmPatterns = stringArray(
+    isRecord(npmWorkspaces) ? npmWorkspaces['packages'] : npmWorkspaces
+  );
+  if (npmPatterns.length > 0) {
+    workspaces.push(
+      await expandWorkspace(root, 'npm', 'package.json', npmPatterns)
+    );
+  }
+
+  const pnpmWorkspace = await readText(path.join(root, 'pnpm-workspace.yaml'));
+  if (pnpmWorkspace !== null) {
+    workspaces.push(
+      await expandWorkspace(
+        root,
+        'pnpm',
+        'pnpm-workspace.yaml',
+        parsePnpmPackages(pnpmWorkspace)
+      )
+    );
+  }
+
+  const cargoToml = await readText(path.join(root, 'Cargo.toml'));
+  if (cargoToml !== null) {
+    let cargoWorkspace: TomlTable | undefined;
+    try {
+      cargoWorkspace = table(parseToml(cargoToml)['workspace']);
+    } catch {
+      // Reported as the manifest's error
+    }
+    const members = stringArray(cargoWorkspace?.['members']);
+    if (members.length > 0) {
+      const excluded = stringArray(cargoWorkspace?.['exclude']);
+      workspaces.push(
+        await expandWorkspace(root, 'cargo', 'Cargo.toml', [
+          ...members,
+          ...excluded.map((pattern) => `!${pattern}`),
+        ])
+      );
+    }
+  }
+
+  const goWork = await readText(path.join(root, 'go.work'));
+  if (goWork !== null) {
+    workspaces.push(
+      await expandWorkspace(root, 'go', 'go.work', parseGoWorkUses(goWork))
+    );
+  }
+
+  return workspaces;
+}
+
+/**
+ * Reads the `packages` list of pnpm-workspace.yaml
+ */
+function parsePnpmPackages(content: string): string[] {
+  try {
+    return stringArray(table(load(content))['packages']);
+  } catch {
+    return [];
+  }
+}
+
+function parseGoWorkUses(content: string): string[] {
+  const uses: string[] = [];
+  let inUseBlock = false;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.replace(/\/\/.*$/, '').trim();
+    if (inUseBlock) {
+      if (line === ')') {
+        inUseBlock = false;
+      } else if (line) {
+        uses.push(line);
+      }
+    } else if (line === 'use (') {
+      inUseBlock = true;
+    } else if (line.startsWith('use ')) {
+      uses.push(line.slice(4).trim());
+    }
+  }
+
+  return uses.map((use) => use.replace(/^"|"$/g, ''));
+}
+
+/**
+ * Lists the workspace members matching patterns
+ * Members are directories with a manifest of the workspace's type; patterns
+ * starting with `!` exclude directories.
+ */
+async function expandWorkspace(
+  root: string,
+  type: WorkspaceInfo['type'],
+  manifest: string,
+  patterns: string[]
+): Promise<WorkspaceInfo> {
+  const normalize = (pattern: string) =>
+    path.posix.normalize(pattern.replace(/^!/, '')).replace(/\/$/, '');
+  const included = patterns.filter((p) => !p.startsWith('!')).map(normalize);
+  const excluded = patterns.filter((p) => p.startsWith('!')).map(normalize);
+  const manifestType: ManifestType = type === 'pnpm' ? 'npm' : type;
+
+  const packages: WorkspaceInfo['packages'] = [];
+  let truncated = false;
+
+  for (const dir of await listDirectories(root, MAX_WORKSPACE_DEPTH)) {
+    if (
+      !included.some((pattern) => matchGlob(pattern, dir)) ||
+      excluded.some((pattern) => matchGlob(pattern, dir))
+    ) {
+      continue;
+    }
+
+    const member = await readManifest(root, dir, manifestType);
+    if (!member) {
+      continue;
+    }
+    if (packages.length === MAX_WORKSPACE_PACKAGES) {
+      truncated = true;
+      break;
+    }
+    packages.push({ path: dir, ...(member.name && { name: member.name }) });
+  }
+
+  return { type, manifest, patterns, packages, truncated };
+}
+
+/**
+ * Lists the directories below root up to depth, in name order
+ */
+async function listDirectories(root: string, depth: number): Promise<string[]> {
+  const directories: string[] = [];
+  let level = [''];
+
+  for (let current = 0; current < depth && level.length > 0; current++) {
+    const next: string[] = [];
+    for (const dir of level) {
+      const entries = await readDirectory(path.join(root, dir));
+      for (const entry of entries) {
+        if (entry.isDirectory() && !SKIPPED_DIRECTORIES.has(entry.name)) {
+          next.push(dir ? `${dir}/${entry.name}` : entry.name);
+        }
+      }
+    }
+    directories.push(...next);
+    level = next;
+  }
+
+  return directories.sort();
+}
+
+/**
+ * Reads the branch and working tree status with `git status`
+ * Returns null when root is not in a git repository or git is unavailable.
+ */
+async function readGitStatus(root: string): Promise<GitInfo | null> {
+  const output = await runGit(root, [
+    // Keeps git status from refreshing the index, which would count as a
+    // change to the project
+    '--no-optional-locks',
+    'status',
+    '--porcelain=v1',
+    '--branch',
+    '-z',
+  ]);
+  if (output === null) {
+    return null;
+  }
+
+  const fields = output.split('\0');
+  const header = fields[0]?.startsWith('## ') ? fields.shift()!.slice(3) : '';
+  const info: GitInfo = {
+    branch: null,
+    ahead: 0,
+    behind: 0,
+    clean: true,
+    changes: [],
+    truncated: false,
+  };
+
+  const branchMatch =
+    /^(?:No commits yet on |Initial commit on )?(.+?)(?:\.\.\.(\S+))?(?: \[(.*)\])?$/.exec(
+      header
+    );
+  if (branchMatch && !header.startsWith('HEAD (no branch)')) {
+    info.branch = branchMatch[1]!;
+    if (branchMatch[2]) {
+      info.upstream = branchMatch[2];
+    }
+    info.ahead = Number(/ahead (\d+)/.exec(branchMatch[3] ?? '')?.[1] ?? 0);
+    info.behind = Number(/behind (\d+)/.exec(branchMatch[3] ?? '')?.[1] ?? 0);
+  }
+
+  for (let i = 0; i < fields.length; i++) {
+    const field = fields[i]!;
+    if (field.length < 4) {
+      continue;
+    }
+    info.clean = false;
+
+    const status = field.slice(0, 2);
+    // Renames and copies are followed by the path they came from
+    const from = /[RC]/.test(status) ? fields[++i] : undefined;
+    if (info.changes.length === MAX_GIT_CHANGES) {
+      info.truncated = true;
+      continue;
+    }
+    info.changes.push({ path: field.slice(3), status, ...(from && { from }) });
+  }
+
+  return info;
+}
+
+function runGit(cwd: string, args: string[]): Promise<string | null> {
+  return new Promise((resolve) => {
+    execFile(
+      'git',
+      args,
+      { cwd, timeout: GIT_TIMEOUT_MS, maxBuffer: 10 * 1024 * 1024 },
+      (error, stdout) => resolve(error ? null : stdout)
+    );
+  });
+}
+
+/**
+ * Lists the files and directories below root, shallowest first, skipping
+ * .git and paths excluded by .gitignore files
+ */
+async function readDirectoryTree(root: string): Promise<DirectoryTree> {
+  const entries: string[] = [];
+  let level: Array<{ dir: string; rules: GitignoreRule[] }> = [
+    { dir: '', rules: [] },
+  ];
+
+  for (let depth = 0; depth < MAX_TREE_DEPTH && level.length > 0; depth++) {
+    const next: typeof level = [];
+
+    for (const { dir, rules: parentRules } of level) {
+      const absoluteDir = path.join(root, dir);
+      const dirEntries = await readDirectory(absoluteDir);
+
+      const rules = [...parentRules];
+      if (dirEntries.some((entry) => entry.name === '.gitignore')) {
+        const content = await readText(path.join(absoluteDir, '.gitignore'));
+        rules.push(...parseGitignore(content ?? '', dir));
+      }
+
+      for (const entry of dirEntries.sort((a, b) =>
+        a.name.localeCompare(b.name)
+      )) {
+        const relativePath = dir ? `${dir}/${entry.name}` : entry.name;
+        const isDirectory = entry.isDirectory();
+        if (
+          SKIPPED_DIRECTORIES.has(entry.name) ||
+          isIgnored(rules, relativePath, isDirectory)
+        ) {
+          continue;
+        }
+        if (entries.length === MAX_TREE_ENTRIES) {
+          return { entries: entries.sort(), truncated: true };
+        }
+
+        entries.push(isDirectory ? `${relativePath}/` : relativePath);
+        if (isDirectory) {
+          next.push({ dir: relativePath, rules });
+        }
+      }
+    }
+
+    level = next;
+  }
+
+  return { entries: entries.sort(), truncated: false };
+}
+
+interface CacheEntry {
+  root: string;
+  info: Promise<ProjectInfo>;
+  watchers: FSWatcher[];
+}
+
+/**
+ * Caches project info per key (a session id) until the project changes
+ * Changes are noticed in the root, the listed directories, workspace
+ * members and .git, so edits below the tree's depth do not refresh the git
+ * status.
+ */
+export class ProjectInfoCache {
+  private logger: Logger;
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(logger: Logger) {
+    this.logger = logger;
+  }
+
+  get(key: string, root: string): Promise<ProjectInfo> {
+    const cached = this.entries.get(key);
+    if (cached?.root === root) {
+      return cached.info;
+    }
+    this.invalidate(key);
+
+    const entry: CacheEntry = {
+      root,
+      info: readProjectInfo(root),
+      watchers: [],
+    };
+    this.entries.set(key, entry);
+
+    entry.info.then(
+      (info) => {
+        if (this.entries.get(key) === entry) {
+          this.watch(key, entry, info);
+        }
+      },
+      () => {
+        if (this.entries.get(key) === entry) {
+          this.entries.delete(key);
+        }
+      }
+    );
+
+    return entry.info;
+  }
+
+  invalidate(key: string): void {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return;
+    }
+    for (const watcher of entry.watchers) {
+      watcher.close();
+    }
+    this.entries.delete(key);
+  }
+
+  clear(): void {
+    for (const key of [...this.entries.keys()]) {
+      this.invalidate(key);
+    }
+  }
+
+  private watch(key: string, entry: CacheEntry, info: ProjectInfo): void {
+    const drop = () => {
+      if (this.entries.get(key) === entry) {
+        this.invalidate(key);
+      }
+    };
+    const directories = new Set([
+      '',
+      '.git',
+      ...info.structure.entries
+        .filter((entry) => entry.endsWith('/'))
+        .map((entry) => entry.slice(0, -1)),
+      ...info.workspaces.flatMap((workspace) =>
+        workspace.packages.map((member) => member.path)
+      ),
+    ]);
+
+    for (const dir of directories) {
+      try {
+        // persistent: false so the watchers never keep the process alive
+        const watcher = watch(
+          path.join(entry.root, dir),
+          { persistent: false },
+          () => {
+            this.logger.debug('Project changed, dropping cached info', {
+              key,
+              dir,
+            });
+            drop();
+          }
+        );
+        watcher.on('error', drop);
+        entry.watchers.push(watcher);
+      } catch {
+        // Directories removed since they were listed are not watched
+      }
+    }
+  }
+}
+
+async function readDirectory(dir: string): Promise<Dirent[]> {
+  try {
+    return await fs.readdir(dir, { withFileTypes: true });
+  } catch {
+    return []; // Unreadable directories are skipped
+  }
+}
+
+async function readText(filePath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(filePath, 'utf8');
+  } catch {
+    return null;
+  }
+}
+
+async function readJson(
+  filePath: string
+): Promise<Record<string, unknown> | null> {
+  const content = await readText(filePath);
+  try {
+    const json = content === null ? null : JSON.parse(content);
+    return isRecord(json) ? json : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Splits a PEP 508 requirement into its name and version specifier
+ */
+function parseRequirement(requirement: string): [string, string] {
+  const match = /^\s*([A-Za-z0-9][A-Za-z0-9._-]*)(\[[^\]]*\])?\s*(.*)$/.exec(
+    requirement
+  );
+  if (!match) {
+    return [requirement.trim(), '*'];
+  }
+  return [match[1]!, match[3]!.trim() || '*'];
+}
+
+/**
+ * Reads a Cargo or Poetry dependency table; detailed entries report their
+ * version, or where the dependency comes from
+ */
+function tomlDependencies(value: unknown): Record<string, string> {
+  const dependencies: Record<string, string> = {};
+
+  for (const [name, spec] of Object.entries(table(value))) {
+    if (typeof spec === 'string') {
+      dependencies[name] = spec;
+    } else if (isRecord(spec)) {
+      const source = ['version', 'path', 'git'].find(
+        (key) => typeof spec[key] === 'string'
+      );
+      dependencies[name] = source
+        ? `${source === 'version' ? '' : `${source}:`}${spec[source] as string}`
+        : spec['workspace'] === true
+          ? 'workspace'
+          : '*';
+    }
+  }
+
+  return dependencies;
+}
+
+function table(value: unknown): TomlTable {
+  return isRecord(value) ? (value as TomlTable) : {};
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+function stringArray(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === 'string')
+    : [];
+}
+
+function stringRecord(value: unknown): Record<string, string> | undefined {
+  if (!isRecord(value)) {
+    return undefined;
+  }
+  return Object.fromEntries(
+    Object.entries(value).filter(
+      (entry): entry is [string, string] => typeof entry[1] === 'string'
+    )
+  );
+}
+
+/**
+ * Drops undefined fields and empty records
+ */
+function compact(fields: Record<string, unknown>): ManifestFields {
+  return Object.fromEntries(
+    Object.entries(fields).filter(
+      ([, value]) =>
+        value !== undefined &&
+        !(isRecord(value) && Object.keys(value).length === 0)
+    )
+  ) as ManifestFields;
+}
@@ -5,25 +5,57 @@
  * called through the ACP protocol, including filesystem and cursor-specific tools.
  */
 
-import type { ToolKind, ToolCallLocation } from '@agentclientprotocol/sdk';
+import type {
+  ClientCapabilities,
+  ToolKind,
+  ToolCallLocation,
+  PermissionOption,
+} from '@agentclientprotocol/sdk';
 import {
   ToolError,
   type AdapterConfig,
+  type InternalSessionModeConfig,
   type Logger,
+  type PermissionOutcome,
   type Tool,
   type ToolProvider,
   type ToolCall,
   type ToolResult,
 } from '../types';
+import type { FileSystemClient } from '../client/filesystem-client';
 import { CursorToolsProvider } from './cursor-tools';
+import type { TerminalManager } from './terminal-manager';
 import type { ToolCallManager } from './tool-call-manager';
 
+// Tool kinds that change files or run commands and need ACP permission
+const PERMISSION_TOOL_KINDS = new Set<ToolKind>([
+  'edit',
+  'delete',
+  'move',
+  'execute',
+]);
+
+const PERMISSION_OPTIONS: PermissionOption[] = [
+  { optionId: 'allow-once', name: 'Allow', kind: 'allow_once' },
+  { optionId: 'allow-always', name: 'Always allow', kind: 'allow_always' },
+  { optionId: 'reject-once', name: 'Reject', kind: 'reject_once' },
+  { optionId: 'reject-always', name: 'Always reject', kind: 'reject_always' },
+];
+
 export class ToolRegistry {
   private config: AdapterConfig;
   private logger: Logger;
   private providers = new Map<string, ToolProvider>();
   private tools = new Map<string, Tool>();
+  private sessionProviders = new Map<string, ToolProvider>();
   private toolCallManager?: ToolCallManager;
+  private getSessionModeConfig?: (
+    sessionId: string
+  ) => InternalSessionModeConfig | undefined;
+  private getSessionCwd?: (sessionId: string) => string | undefined;
+  private fileSystemClient?: FileSystemClient;
+  private getClientCapabilities?: () => ClientCapabilities | null;
+  private terminalManager?: TerminalManager;
 
   constructor(config: AdapterConfig, logger: Logger) {
     this.config = config;
@@ -43,6 +75,44 @@ export class ToolRegistry {
     this.logger.debug('ToolCallManager registered with ToolRegistry');
   }
 
+  /**
+   * Set the lookup for a session's mode configuration
+   * The mode decides which tool kinds a session is offered and whether
+   * edits and commands need permission
+   */
+  setSessionModeConfigGetter(
+    getter: (sessionId: string) => InternalSessionModeConfig | undefined
+  ): void {
+    this.getSessionModeConfig = getter;
+  }
+
+  /**
+   * Set the lookup for a session's working directory, which roots the
+   * cursor tools' searches
+   */
+  setSessionCwdGetter(getter: (sessionId: string) => string | undefined): void {
+    this.getSessionCwd = getter;
+  }
+
+  /**
+   * Set the client file system the cursor tools edit files through when
+   * the client supports it
+   */
+  setFileSystemClient(
+    fileSystemClient: FileSystemClient,
+    getClientCapabilities: () => ClientCapabilities | null
+  ): void {
+    this.fileSystemClient = fileSystemClient;
+    this.getClientCapabilities = getClientCapabilities;
+  }
+
+  /**
+   * Set the manager for the client terminals the cursor tools run commands in
+   */
+  setTerminalManager(terminalManager: TerminalManager): void {
+    this.terminalManager = terminalManager;
+  }
+
   /**
    * Registers a tool provider
    */
@@ -81,6 +151,37 @@ export class ToolRegistry {
     this.providers.delete(providerName);
   }
 
+  /**
+   * Registers a tool provider scoped to a single session
+   * Session tools (e.g. from the session's MCP servers) are only visible to
+   * calls made with that sessionId. Replaces any previous session provider.
+   */
+  registerSessionProvider(sessionId: string, provider: ToolProvider): void {
+    this.logger.debug(`Registering session tool provider: ${provider.name}`, {
+      sessionId,
+    });
+    this.sessionProviders.set(sessionId, provider);
+  }
+
+  /**
+   * Unregisters the tool provider of a session
+   */
+  unregisterSessionProvider(sessionId: string): void {
+    if (this.sessionProviders.delete(sessionId)) {
+      this.logger.debug('Unregistered session tool provider', { sessionId });
+    }
+  }
+
+  /**
+   * Gets all tools available to a session, including session-scoped tools
+   */
+  getSessionTools(sessionId: string): Tool[] {
+    const sessionTools = this.sessionProviders.get(sessionId)?.getTools() ?? [];
+    return [...this.getTools(), ...sessionTools].filter((tool) =>
+      this.isToolAllowedInMode(tool.name, sessionId)
+    );
+  }
+
   /**
    * Gets all available tools
    */
@@ -138,7 +239,7 @@ export class ToolRegistry {
     const shouldReportToolCalls = sessionId && this.toolCallManager;
 
     try {
-      const tool = this.tools.get(toolCall.name);
+      const tool = this.findTool(toolCall.name, sessionId);
       if (!tool) {
         const duration = Date.now() - startTime;
         return {
@@ -152,6 +253,23 @@ export class ToolRegistry {
         };
       }
 
+      if (sessionId && !this.isToolAllowedInMode(toolCall.name, sessionId)) {
+        const duration = Date.now() - startTime;
+        this.logger.warn('Tool not available in session mode', {
+          toolName: toolCall.name,
+          sessionId,
+        });
+        return {
+          success: false,
+          error: `Tool not available in the current session mode: ${toolCall.name}`,
+          metadata: {
+            toolName: toolCall.name,
+            duration,
+            executedAt: new Date(),
+          },
+        };
+      }
+
       // Validate parameters
       const validationError = this.validateToolParameters(
         tool,
@@ -198,6 +316,34 @@ export class ToolRegistry {
           reportOptions
         );
 
+        // Edits and commands wait for the user's permission
+        if (PERMISSION_TOOL_KINDS.has(toolKind)) {
+          const outcome = await this.toolCallManager!.requestToolPermission(
+            sessionId!,
+            toolCallId,
+            PERMISSION_OPTIONS,
+            this.getSessionModeConfig?.(sessionId!)?.permissionBehavior
+          );
+          if (!isAllowed(outcome)) {
+            const duration = Date.now() - startTime;
+            const error = `Permission denied for ${toolCall.name}`;
+            await this.toolCallManager!.failToolCall(sessionId!, toolCallId, {
+              error,
+            });
+            return {
+              success: false,
+              error,
+              metadata: {
+                toolName: toolCall.name,
+                duration,
+                executedAt: new Date(),
+                toolCallId,
+                permissionDenied: true,
+              },
+            };
+          }
+        }
+
         // Step 2: Update to in_progress when execution starts
         await this.toolCallManager!.updateToolCall(sessionId!, toolCallId, {
           status: 'in_progress',
@@ -207,10 +353,12 @@ export class ToolRegistry {
       // Step 3: Execute the tool
       // Per ACP spec: Inject sessionId into parameters for ACP operations
       // The _sessionId parameter is used by ACP-compliant tools (filesystem, etc.)
+      // and _toolCallId by tools that embed content such as terminals
       const paramsWithSession = sessionId
         ? {
             ...toolCall.parameters,
             _sessionId: sessionId,
+            ...(toolCallId && { _toolCallId: toolCallId }),
           }
         : toolCall.parameters;
 
@@ -233,9 +381,14 @@ export class ToolRegistry {
             );
           }
 
+          // Tools that find files (search_codebase) report where they looked
+          const locations = result.metadata?.['locations'];
+
           await this.toolCallManager!.completeToolCall(sessionId!, toolCallId, {
             rawOutput: result.result,
             ...(content && { content }),
+            ...(Array.isArray(locations) &&
+              locations.length > 0 && { locations }),
           });
         } else {
           await this.toolCallManager!.failToolCall(sessionId!, toolCallId, {
@@ -328,8 +481,10 @@ export class ToolRegistry {
     // Extract file path from different parameter names
     if (parameters['path']) {
       locations.push({ path: parameters['path'] });
-    } else if (parameters['sourcePath']) {
-      locations.push({ path: parameters['sourcePath'] });
+    } else if (parameters['sourcePath'] || parameters['source']) {
+      locations.push({
+        path: parameters['sourcePath'] || parameters['source'],
+      });
     }
 
     // For move/copy operations, also include destination
@@ -625,6 +780,31 @@ export class ToolRegistry {
 
   // Private helper methods
 
+  /**
+   * Checks a tool's name and kind against the availableTools of the
+   * session's mode
+   */
+  private isToolAllowedInMode(toolName: string, sessionId: string): boolean {
+    const availableTools =
+      this.getSessionModeConfig?.(sessionId)?.availableTools;
+    return (
+      !availableTools ||
+      availableTools.includes(toolName) ||
+      availableTools.includes(this.getToolKind(toolName))
+    );
+  }
+
+  private findTool(name: string, sessionId?: string): Tool | undefined {
+    const tool = this.tools.get(name);
+    if (tool || !sessionId) {
+      return tool;
+    }
+    return this.sessionProviders
+      .get(sessionId)
+      ?.getTools()
+      .find((sessionTool) => sessionTool.name === name);
+  }
+
   private initializeProviders(): void {
     this.logger.debug('Initializing built-in tool providers');
 
@@ -642,7 +822,18 @@ export class ToolRegistry {
 
     // Initialize cursor-specific tools
     if (this.config.tools.cursor?.enabled !== false) {
-      const cursorProvider = new CursorToolsProvider(this.config, this.logger);
+      const cursorProvider = new CursorToolsProvider(
+        this.config,
+        this.logger,
+        undefined,
+        {
+          getSessionCwd: (sessionId) => this.getSessionCwd?.(sessionId),
+          getFileSystemClient: () => this.fileSystemClient,
+          getClientCapabilities: () => this.getClientCapabilities?.() ?? null,
+          getTerminalManager: () => this.terminalManager,
+          getToolCallManager: () => this.toolCallManager,
+        }
+      );
       this.registerProvider(cursorProvider);
     }
   }
@@ -682,6 +873,24 @@ export class ToolRegistry {
     return null;
   }
 
+  /**
+   * Releases what tool providers keep for a deleted or expired session
+   */
+  async releaseSession(sessionId: string): Promise<void> {
+    for (const [name, provider] of this.providers) {
+      if (typeof (provider as any).releaseSession === 'function') {
+        try {
+          await (provider as any).releaseSession(sessionId);
+        } catch (error) {
+          this.logger.warn(`Failed to release session in provider ${name}`, {
+            sessionId,
+            error,
+          });
+        }
+      }
+    }
+  }
+
   /**
    * Cleanup all tool providers
    */
@@ -703,3 +912,13 @@ export class ToolRegistry {
     this.logger.debug('Tool registry cleanup completed');
   }
 }
+
+function isAllowed(outcome: PermissionOutcome): boolean {
+  if (outcome.outcome !== 'selected') {
+    return false;
+  }
+  const option = PERMISSION_OPTIONS.find(
+    (candidate) => candidate.optionId === outcome.optionId
+  );
+  return option?.kind === 'allow_once' || option?.kind === 'allow_always';
+}
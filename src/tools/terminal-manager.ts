@@ -29,7 +29,7 @@ import type {
   AgentSideConnection,
 } from '@agentclientprotocol/sdk';
 
-import type { Logger } from '../types';
+import type { AdapterConfig, Logger } from '../types';
 import { ProtocolError, ToolError } from '../types';
 
 /**
@@ -78,6 +78,43 @@ export interface TerminalManagerConfig {
   defaultEnv?: EnvVariable[];
 }
 
+/**
+ * Agent-side terminal policy that can change while the manager is running
+ */
+export type TerminalPolicy = Pick<
+  TerminalManagerConfig,
+  | 'maxConcurrentTerminals'
+  | 'defaultOutputByteLimit'
+  | 'maxOutputByteLimit'
+  | 'forbiddenCommands'
+  | 'allowedCommands'
+  | 'defaultCwd'
+>;
+
+/**
+ * Builds the terminal policy from the adapter's tools.terminal config
+ */
+export function getTerminalPolicy(
+  config: AdapterConfig['tools']['terminal']
+): TerminalPolicy {
+  return {
+    maxConcurrentTerminals: config.maxProcesses,
+    ...(config.defaultOutputByteLimit !== undefined && {
+      defaultOutputByteLimit: config.defaultOutputByteLimit,
+    }),
+    ...(config.maxOutputByteLimit !== undefined && {
+      maxOutputByteLimit: config.maxOutputByteLimit,
+    }),
+    ...(config.forbiddenCommands && {
+      forbiddenCommands: config.forbiddenCommands,
+    }),
+    ...(config.allowedCommands && {
+      allowedCommands: config.allowedCommands,
+    }),
+    ...(config.defaultCwd !== undefined && { defaultCwd: config.defaultCwd }),
+  };
+}
+
 /**
  * Metadata for tracking active terminals
  */
@@ -171,6 +208,25 @@ export class TerminalManager {
     });
   }
 
+  /**
+   * Replaces the agent-side terminal policy, e.g. after a config reload
+   * Applies to terminals created afterwards; active terminals are unaffected.
+   */
+  updatePolicy(policy: TerminalPolicy): void {
+    const { clientSupportsTerminals, defaultEnv } = this.config;
+    this.config = {
+      clientSupportsTerminals,
+      ...(defaultEnv && { defaultEnv }),
+      ...policy,
+    };
+
+    this.logger.debug('Terminal policy updated', {
+      maxConcurrentTerminals: policy.maxConcurrentTerminals,
+      forbiddenCommands: policy.forbiddenCommands?.length ?? 0,
+      allowedCommands: policy.allowedCommands?.length ?? 0,
+    });
+  }
+
   /**
    * Check if client supports terminal operations
    *
@@ -147,6 +147,11 @@ export interface TimeoutCommandResult {
    * Whether command timed out
    */
   timedOut: boolean;
+
+  /**
+   * ID of the terminal the command ran in
+   */
+  terminalId: string;
 }
 
 /**
@@ -166,7 +171,8 @@ export interface TimeoutCommandResult {
  * @param command - The command to execute
  * @param args - Command arguments
  * @param timeoutMs - Maximum execution time in milliseconds
- * @param options - Optional parameters (cwd, env, outputByteLimit)
+ * @param options - Optional parameters (cwd, env, outputByteLimit), and a
+ *   tool call to embed the terminal in for live output
  * @returns TimeoutCommandResult with output, exit status, and timeout flag
  *
  * @example
@@ -193,6 +199,7 @@ export async function executeWithTimeout(
     cwd?: string;
     env?: EnvVariable[];
     outputByteLimit?: number;
+    toolCall?: { toolCallManager: ToolCallManager; toolCallId: string };
   }
 ): Promise<TimeoutCommandResult> {
   // Create terminal and ensure cleanup
@@ -205,12 +212,22 @@ export async function executeWithTimeout(
       outputByteLimit: options.outputByteLimit,
     }),
   });
+  let timeoutTimer: NodeJS.Timeout | undefined;
 
   try {
+    // Per ACP spec: embedding the terminal lets the client show live output
+    // See: https://agentclientprotocol.com/protocol/terminals#embedding-in-tool-calls
+    if (options?.toolCall) {
+      const { toolCallManager, toolCallId } = options.toolCall;
+      await toolCallManager.updateToolCall(sessionId, toolCallId, {
+        content: toolCallManager.createTerminalContent(terminal.id),
+      });
+    }
+
     // Create timeout promise
-    const timeoutPromise = new Promise<'timeout'>((resolve) =>
-      setTimeout(() => resolve('timeout'), timeoutMs)
-    );
+    const timeoutPromise = new Promise<'timeout'>((resolve) => {
+      timeoutTimer = setTimeout(() => resolve('timeout'), timeoutMs);
+    });
 
     // Race between command completion and timeout
     // Per ACP spec: terminal/wait_for_exit
@@ -259,8 +276,11 @@ export async function executeWithTimeout(
       signal: exitStatus?.signal ?? null,
       truncated: outputResponse.truncated,
       timedOut,
+      terminalId: terminal.id,
     };
   } finally {
+    clearTimeout(timeoutTimer);
+
     // Release terminal (both client-side and manager tracking)
     // ManagedTerminalHandle.release() handles both cleanup operations
     await terminal.release();
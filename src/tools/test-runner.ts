@@ -0,0 +1,541 @@
+/**
+ * Test runner support
+ *
+ * Backs the run_tests tool: detects the test framework a project uses,
+ * builds the command that runs it, and parses the command's output into
+ * pass/fail/skip counts and the locations of failing tests.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { ToolError } from '../types';
+
+export const TEST_FRAMEWORKS = [
+  'jest',
+  'vitest',
+  'mocha',
+  'pytest',
+  'go',
+  'cargo',
+] as const;
+
+export type TestFramework = (typeof TEST_FRAMEWORKS)[number];
+
+export interface TestCommand {
+  command: string;
+  args: string[];
+}
+
+export interface TestSummary {
+  total: number;
+  passed: number;
+  failed: number;
+  skipped: number;
+}
+
+export interface TestFailure {
+  name: string;
+  file?: string | undefined; // As printed by the runner, usually relative
+  line?: number | undefined;
+  message?: string | undefined;
+}
+
+export interface TestReport {
+  summary: TestSummary;
+  failures: TestFailure[];
+}
+
+// JavaScript runners, in the order they are looked for in package.json
+const NODE_FRAMEWORKS = ['vitest', 'jest', 'mocha'] as const;
+
+// Files that mark a Python project
+const PYTHON_PROJECT_FILES = [
+  'pytest.ini',
+  'conftest.py',
+  'pyproject.toml',
+  'setup.cfg',
+  'tox.ini',
+  'setup.py',
+];
+
+// eslint-disable-next-line no-control-regex
+const ANSI_ESCAPE_CODES = /\x1B\[[0-9;?]*[A-Za-z]|\x1B\].*?\x07/g;
+
+// `(file:line:column)` in a JavaScript stack trace
+const STACK_LOCATION = /\(?((?:[A-Za-z]:)?[^\s():]+):(\d+):\d+\)?\s*$/;
+
+/**
+ * Detects the test framework of the project in root
+ * A package.json test script or dependency wins over other project files.
+ */
+export async function detectTestFramework(
+  root: string
+): Promise<TestFramework | null> {
+  const packageJson = await readPackageJson(root);
+  if (packageJson) {
+    const testScript =
+      typeof packageJson.scripts?.['test'] === 'string'
+        ? packageJson.scripts['test']
+        : '';
+    const dependencies = {
+      ...packageJson.dependencies,
+      ...packageJson.devDependencies,
+    };
+
+    const framework =
+      NODE_FRAMEWORKS.find((name) =>
+        new RegExp(`\\b${name}\\b`).test(testScript)
+      ) ?? NODE_FRAMEWORKS.find((name) => name in dependencies);
+    if (framework) {
+      return framework;
+    }
+  }
+
+  if (await fileExists(path.join(root, 'Cargo.toml'))) {
+    return 'cargo';
+  }
+  if (await fileExists(path.join(root, 'go.mod'))) {
+    return 'go';
+  }
+  for (const file of PYTHON_PROJECT_FILES) {
+    if (await fileExists(path.join(root, file))) {
+      return 'pytest';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Builds the command that runs a framework's tests once
+ *
+ * @param pattern - Test file pattern or test name filter, passed the way the
+ *   framework accepts it
+ */
+export function getTestCommand(
+  framework: TestFramework,
+  options: { pattern?: string | undefined; coverage?: boolean } = {}
+): TestCommand {
+  const { pattern, coverage = false } = options;
+  const withPattern = pattern ? [pattern] : [];
+
+  if (coverage && (framework === 'mocha' || framework === 'cargo')) {
+    throw new ToolError(
+      `Coverage is not supported for ${framework}`,
+      'run_tests'
+    );
+  }
+
+  switch (framework) {
+    case 'jest':
+      return {
+        command: 'npx',
+        args: ['jest', ...(coverage ? ['--coverage'] : []), ...withPattern],
+      };
+    case 'vitest':
+      return {
+        command: 'npx',
+        args: [
+          'vitest',
+          'run',
+          ...(coverage ? ['--coverage'] : []),
+          ...withPattern,
+        ],
+      };
+    case 'mocha':
+      return { command: 'npx', args: ['mocha', ...withPattern] };
+    case 'pytest':
+      return {
+        command: 'pytest',
+        args: [...(coverage ? ['--cov'] : []), ...withPattern],
+      };
+    case 'go':
+      return {
+        command: 'go',
+        args: [
+          'test',
+          '-v',
+          ...(coverage ? ['-cover'] : []),
+          ...(pattern ? ['-run', pattern] : []),
+          './...',
+        ],
+      };
+    case 'cargo':
+      return { command: 'cargo', args: ['test', ...withPattern] };
+  }
+}
+
+/**
+ * Parses a test run's output
+ * Counts the runner does not print are 0.
+ */
+export function parseTestOutput(
+  framework: TestFramework,
+  output: string
+): TestReport {
+  const lines = output.replace(ANSI_ESCAPE_CODES, '').split(/\r?\n/);
+
+  switch (framework) {
+    case 'jest':
+      return parseJestOutput(lines);
+    case 'vitest':
+      return parseVitestOutput(lines);
+    case 'mocha':
+      return parseMochaOutput(lines);
+    case 'pytest':
+      return parsePytestOutput(lines);
+    case 'go':
+      return parseGoOutput(lines);
+    case 'cargo':
+      return parseCargoOutput(lines);
+  }
+}
+
+/**
+ * Jest: `Tests: 1 failed, 2 skipped, 14 passed, 17 total` and a
+ * `● Suite › test` block with a stack trace per failure
+ */
+function parseJestOutput(lines: string[]): TestReport {
+  const summaryLine = lines.find((line) => /^Tests:\s/.test(line)) ?? '';
+  const counts = readCounts(summaryLine);
+  const failures: TestFailure[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    // Failures are listed again in the summary of all failing tests
+    const header = lines[i]!.match(/^\s*● (.+)$/);
+    if (
+      !header ||
+      header[1] === 'Console' ||
+      failures.some((f) => f.name === header[1])
+    ) {
+      continue;
+    }
+
+    const block = takeUntil(lines, i + 1, (line) => /^\s*● /.test(line));
+    failures.push({
+      name: header[1]!,
+      ...findStackLocation(block),
+      message: block.find((line) => line.trim())?.trim(),
+    });
+  }
+
+  return {
+    summary: toSummary(
+      counts['passed'],
+      counts['failed'],
+      counts['skipped'],
+      counts['total']
+    ),
+    failures,
+  };
+}
+
+/**
+ * Vitest: `Tests  1 failed | 14 passed (15)` and a
+ * `FAIL  file > suite > test` block with a `❯ file:line:column` per failure
+ */
+function parseVitestOutput(lines: string[]): TestReport {
+  const summaryLine = lines.find((line) => /^\s*Tests\s{2,}/.test(line)) ?? '';
+  const counts = readCounts(summaryLine);
+  const total = summaryLine.match(/\((\d+)\)/);
+  const failures: TestFailure[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const header = lines[i]!.match(/^\s*FAIL\s+(\S+) > (.+)$/);
+    if (!header) {
+      continue;
+    }
+
+    const block = takeUntil(lines, i + 1, (line) => /^\s*FAIL\s/.test(line));
+    const location = block
+      .map((line) => line.match(/❯ (\S+):(\d+):\d+/))
+      .find((match) => match);
+    failures.push({
+      name: header[2]!,
+      file: location?.[1] ?? header[1],
+      ...(location && { line: Number(location[2]) }),
+      message: block.find((line) => line.trim())?.trim(),
+    });
+  }
+
+  return {
+    summary: toSummary(
+      counts['passed'],
+      counts['failed'],
+      counts['skipped'],
+      total ? Number(total[1]) : undefined
+    ),
+    failures,
+  };
+}
+
+/**
+ * Mocha: `14 passing`, `1 failing`, `2 pending`, then a numbered block per
+ * failure: `1) Suite` / `test name:` / error / stack trace
+ */
+function parseMochaOutput(lines: string[]): TestReport {
+  const count = (label: string) =>
+    Number(
+      lines
+        .map((line) => line.match(new RegExp(`^\\s*(\\d+) ${label}\\b`)))
+        .find((match) => match)?.[1] ?? 0
+    );
+  const failures: TestFailure[] = [];
+
+  const failingIndex = lines.findIndex((line) => /^\s*\d+ failing/.test(line));
+  for (let i = failingIndex + 1; failingIndex >= 0 && i < lines.length; i++) {
+    const header = lines[i]!.match(/^\s*\d+\) (.+)$/);
+    if (!header) {
+      continue;
+    }
+
+    // The title runs until the line ending with `:`
+    const title = [header[1]!.trim()];
+    let j = i;
+    while (!title[title.length - 1]!.endsWith(':') && j + 1 < lines.length) {
+      title.push(lines[++j]!.trim());
+    }
+
+    const block = takeUntil(lines, j + 1, (line) => /^\s*\d+\) /.test(line));
+    failures.push({
+      name: title.join(' ').replace(/:$/, ''),
+      ...findStackLocation(block),
+      message: block.find((line) => line.trim())?.trim(),
+    });
+    i = j;
+  }
+
+  return {
+    summary: toSummary(count('passing'), count('failing'), count('pending')),
+    failures,
+  };
+}
+
+/**
+ * pytest: `=== 1 failed, 14 passed, 2 skipped in 0.12s ===`, a
+ * `___ test name ___` section with `file:line: Error` per failure and
+ * `FAILED file::test - message` in the short summary
+ */
+function parsePytestOutput(lines: string[]): TestReport {
+  const summaryLine =
+    [...lines].reverse().find((line) => /^=+ .* in [\d.]+s/.test(line)) ?? '';
+  const counts = readCounts(summaryLine);
+
+  // Last `file:line:` reported in each failure section
+  const sectionLocations = new Map<string, { file: string; line: number }>();
+  let section: string | undefined;
+  for (const line of lines) {
+    const header = line.match(/^_{3,} (.+?) _{3,}$/);
+    if (header) {
+      section = header[1];
+      continue;
+    }
+    const location = line.match(/^(\S+\.py):(\d+): /);
+    if (section && location) {
+      sectionLocations.set(section, {
+        file: location[1]!,
+        line: Number(location[2]),
+      });
+    }
+  }
+
+  const failures: TestFailure[] = [];
+  for (const line of lines) {
+    const failed = line.match(/^(?:FAILED|ERROR) (\S+?)(?: - (.*))?$/);
+    if (!failed) {
+      continue;
+    }
+
+    const [file, ...names] = failed[1]!.split('::');
+    const location = sectionLocations.get(names.join('.'));
+    failures.push({
+      name: failed[1]!,
+      file: location?.file ?? file,
+      ...(location && { line: location.line }),
+      ...(failed[2] && { message: failed[2] }),
+    });
+  }
+
+  return {
+    summary: toSummary(
+      counts['passed'],
+      (counts['failed'] ?? 0) +
+        (counts['error'] ?? 0) +
+        (counts['errors'] ?? 0),
+      counts['skipped']
+    ),
+    failures,
+  };
+}
+
+/**
+ * go test -v: `--- PASS|FAIL|SKIP: TestName`, preceded by the
+ * `file_test.go:line: message` lines the test logged
+ */
+function parseGoOutput(lines: string[]): TestReport {
+  const counts = { PASS: 0, FAIL: 0, SKIP: 0 };
+  const failures: TestFailure[] = [];
+  let location: RegExpMatchArray | null = null;
+
+  for (const line of lines) {
+    if (/^=== RUN /.test(line)) {
+      location = null;
+      continue;
+    }
+
+    const logged = line.match(/^\s+(\S+_test\.go):(\d+): (.*)$/);
+    if (logged) {
+      location ??= logged;
+      continue;
+    }
+
+    const result = line.match(/^\s*--- (PASS|FAIL|SKIP): (\S+)/);
+    if (!result) {
+      continue;
+    }
+    counts[result[1] as keyof typeof counts]++;
+    if (result[1] === 'FAIL') {
+      failures.push({
+        name: result[2]!,
+        ...(location && {
+          file: location[1],
+          line: Number(location[2]),
+          message: location[3],
+        }),
+      });
+    }
+  }
+
+  return {
+    summary: toSummary(counts.PASS, counts.FAIL, counts.SKIP),
+    failures,
+  };
+}
+
+/**
+ * cargo test: `test result: FAILED. 14 passed; 1 failed; 2 ignored` per
+ * test binary, `test name ... FAILED` per failure and a
+ * `---- name stdout ----` section with the panic location
+ */
+function parseCargoOutput(lines: string[]): TestReport {
+  const summary = { passed: 0, failed: 0, skipped: 0 };
+  const names: string[] = [];
+  const panics = new Map<string, TestFailure>();
+  let section: string | undefined;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]!;
+
+    const result = line.match(
+      /^test result: \w+\. (\d+) passed; (\d+) failed; (\d+) ignored/
+    );
+    if (result) {
+      summary.passed += Number(result[1]);
+      summary.failed += Number(result[2]);
+      summary.skipped += Number(result[3]);
+      continue;
+    }
+
+    const failed = line.match(/^test (\S+) \.\.\. FAILED$/);
+    if (failed) {
+      names.push(failed[1]!);
+      continue;
+    }
+
+    const header = line.match(/^---- (\S+) stdout ----$/);
+    if (header) {
+      section = header[1];
+      continue;
+    }
+
+    // `panicked at src/lib.rs:12:5:` (message on the next line) or, before
+    // Rust 1.73, `panicked at 'message', src/lib.rs:12:5`
+    const panic = line.match(/panicked at (?:'(.*)', )?([^\s:]+):(\d+):\d+/);
+    if (section && panic) {
+      panics.set(section, {
+        name: section,
+        file: panic[2],
+        line: Number(panic[3]),
+        message: panic[1] ?? lines[i + 1]?.trim(),
+      });
+    }
+  }
+
+  return {
+    summary: toSummary(summary.passed, summary.failed, summary.skipped),
+    failures: names.map((name) => panics.get(name) ?? { name }),
+  };
+}
+
+/**
+ * Reads `<count> <label>` pairs, e.g. `1 failed, 14 passed`
+ */
+function readCounts(line: string): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const match of line.matchAll(/(\d+) ([a-z]+)/g)) {
+    counts[match[2]!] = Number(match[1]);
+  }
+  return counts;
+}
+
+function toSummary(
+  passed = 0,
+  failed = 0,
+  skipped = 0,
+  total = passed + failed + skipped
+): TestSummary {
+  return { total, passed, failed, skipped };
+}
+
+/**
+ * The lines from start up to the next line matching isEnd
+ */
+function takeUntil(
+  lines: string[],
+  start: number,
+  isEnd: (line: string) => boolean
+): string[] {
+  const end = lines.findIndex((line, index) => index >= start && isEnd(line));
+  return lines.slice(start, end === -1 ? undefined : end);
+}
+
+/**
+ * First stack frame outside node_modules
+ */
+function findStackLocation(
+  block: string[]
+): Pick<TestFailure, 'file' | 'line'> {
+  for (const line of block) {
+    if (!/^\s*at /.test(line) || line.includes('node_modules')) {
+      continue;
+    }
+    const location = line.match(STACK_LOCATION);
+    if (location) {
+      return { file: location[1], line: Number(location[2]) };
+    }
+  }
+  return {};
+}
+
+async function readPackageJson(root: string): Promise<{
+  scripts?: Record<string, unknown>;
+  dependencies?: Record<string, unknown>;
+  devDependencies?: Record<string, unknown>;
+} | null> {
+  try {
+    return JSON.parse(
+      await fs.readFile(path.join(root, 'package.json'), 'utf8')
+    );
+  } catch {
+    return null;
+  }
+}
+
+async function fileExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
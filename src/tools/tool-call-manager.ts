@@ -16,6 +16,7 @@ import type {
   ToolCallUpdate,
   ToolCallId,
   ToolCallContent,
+  ToolCallLocation,
   ToolCallStatus,
   PermissionOption,
   SessionId,
@@ -26,9 +27,21 @@ import type {
 
 import {
   type Logger,
+  type PermissionBehavior,
   type PermissionOutcome,
   type RequestPermissionParams,
 } from '../types';
+import {
+  getAlwaysDecision,
+  type PermissionStore,
+} from '../protocol/permission-store';
+import {
+  getPolicyOutcome,
+  requiresPrompt,
+  type PermissionPolicy,
+  type PermissionPolicyContext,
+  type PermissionPolicyDecision,
+} from '../protocol/permission-policy';
 
 /**
  * Internal tracking info for active tool calls
@@ -63,6 +76,12 @@ export interface ToolCallManagerOptions {
   requestPermission?:
     | ((params: RequestPermissionParams) => Promise<PermissionOutcome>)
     | undefined;
+  permissionStore?: PermissionStore | undefined;
+  permissionPolicy?: PermissionPolicy | undefined;
+  // Supplies the session mode and cwd that policy rules match against
+  getPermissionContext?:
+    | ((sessionId: string) => Promise<PermissionPolicyContext>)
+    | undefined;
 }
 
 export class ToolCallManager {
@@ -75,6 +94,11 @@ export class ToolCallManager {
   private requestPermission:
     | ((params: RequestPermissionParams) => Promise<PermissionOutcome>)
     | undefined;
+  private permissionStore: PermissionStore | undefined;
+  private permissionPolicy: PermissionPolicy | undefined;
+  private getPermissionContext:
+    | ((sessionId: string) => Promise<PermissionPolicyContext>)
+    | undefined;
   private activeToolCalls = new Map<string, ToolCallInfo>();
   private toolCallCounter = 0;
   private notificationSequence = 0;
@@ -83,6 +107,9 @@ export class ToolCallManager {
     this.logger = options.logger;
     this.sendNotification = options.sendNotification;
     this.requestPermission = options.requestPermission;
+    this.permissionStore = options.permissionStore;
+    this.permissionPolicy = options.permissionPolicy;
+    this.getPermissionContext = options.getPermissionContext;
   }
 
   /**
@@ -271,11 +298,16 @@ export class ToolCallManager {
   /**
    * Request permission from the user before executing a tool
    * Per ACP spec: Call session/request_permission method
+   *
+   * The session mode's permission behavior applies after the policy:
+   * 'strict' always asks, 'auto' reuses remembered decisions and
+   * 'permissive' allows without asking.
    */
   async requestToolPermission(
     sessionId: string,
     toolCallId: string,
-    options: PermissionOption[]
+    options: PermissionOption[],
+    behavior: PermissionBehavior = 'auto'
   ): Promise<PermissionOutcome> {
     if (!this.requestPermission) {
       this.logger.warn(
@@ -296,6 +328,38 @@ export class ToolCallManager {
       return { outcome: 'selected', optionId: 'reject-once' };
     }
 
+    const toolCall = toolCallInfo.lastNotification.update as ToolCallUpdate;
+
+    // The configured policy decides first
+    const policyDecision = await this.evaluatePolicy(sessionId, toolCall);
+    const policyOutcome =
+      policyDecision && getPolicyOutcome(policyDecision.action, options);
+    if (policyOutcome) {
+      return policyOutcome;
+    }
+
+    const mustAsk = requiresPrompt(policyDecision);
+    if (behavior === 'permissive' && !mustAsk) {
+      const allowed = getPolicyOutcome('allow', options);
+      if (allowed) {
+        return allowed;
+      }
+    }
+
+    // Skip the prompt when the user already chose "allow/reject always",
+    // unless a policy rule or the session mode requires asking
+    const remembered =
+      mustAsk || behavior === 'strict' || !this.permissionStore
+        ? null
+        : await this.permissionStore.findRememberedOutcome(
+            sessionId,
+            toolCall,
+            options
+          );
+    if (remembered) {
+      return remembered;
+    }
+
     this.logger.debug('Requesting permission for tool call', {
       toolCallId,
       sessionId,
@@ -307,7 +371,7 @@ export class ToolCallManager {
       // Pass the tool call update from the last notification
       const outcome = await this.requestPermission({
         sessionId,
-        toolCall: toolCallInfo.lastNotification.update as any, // Cast for compatibility
+        toolCall: toolCall as any, // Cast for compatibility
         options,
       });
 
@@ -326,6 +390,19 @@ export class ToolCallManager {
         outcome,
       });
 
+      if (outcome.outcome === 'selected' && this.permissionStore) {
+        const decision = getAlwaysDecision(
+          options.find((option) => option.optionId === outcome.optionId)
+        );
+        if (decision) {
+          await this.permissionStore.recordDecision(
+            sessionId,
+            toolCall,
+            decision
+          );
+        }
+      }
+
       return outcome;
     } catch (error) {
       this.logger.error('Permission request failed', {
@@ -338,15 +415,49 @@ export class ToolCallManager {
     }
   }
 
+  /**
+   * Evaluates the configured permission policy for a tool call
+   * Returns null when there is no policy or it decides nothing
+   */
+  private async evaluatePolicy(
+    sessionId: string,
+    toolCall: ToolCallUpdate
+  ): Promise<PermissionPolicyDecision | null> {
+    if (!this.permissionPolicy || this.permissionPolicy.isEmpty()) {
+      return null;
+    }
+
+    let context: PermissionPolicyContext = {};
+    try {
+      context = (await this.getPermissionContext?.(sessionId)) ?? {};
+    } catch (error) {
+      this.logger.warn('Failed to get permission policy context', {
+        sessionId,
+        error,
+      });
+    }
+
+    return this.permissionPolicy.evaluate(toolCall, context);
+  }
+
   /**
    * Convert ContentBlock diffs (from cursor-tools) to ToolCallContent
-   * Enables rich diff display in clients
+   * Enables rich diff display in clients; entries that already are
+   * ToolCallContent are passed through
    */
-  convertDiffContent(diffBlocks: ContentBlock[]): ToolCallContent[] {
+  convertDiffContent(
+    diffBlocks: Array<ContentBlock | ToolCallContent>
+  ): ToolCallContent[] {
     const toolCallContent: ToolCallContent[] = [];
 
     for (const block of diffBlocks) {
       if (
+        block.type === 'diff' ||
+        block.type === 'content' ||
+        block.type === 'terminal'
+      ) {
+        toolCallContent.push(block);
+      } else if (
         block.type === 'resource' &&
         block.resource.mimeType === 'text/x-diff'
       ) {
@@ -476,6 +587,7 @@ export class ToolCallManager {
       title?: string;
       content?: ToolCallContent[];
       rawOutput?: Record<string, any>;
+      locations?: ToolCallLocation[];
     }
   ): Promise<void> {
     await this.updateToolCall(sessionId, toolCallId, {
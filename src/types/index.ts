@@ -15,6 +15,8 @@ import type {
   SessionMode,
   SessionModeId,
   SessionModeState,
+  SessionNotification,
+  ToolKind,
 } from '@agentclientprotocol/sdk';
 
 // ============================================================================
@@ -59,6 +61,34 @@ export interface SessionState {
   status: SessionStatus;
   currentMode?: string; // Current mode ID
   currentModel?: string; // Current model ID
+  usage?: SessionUsage; // Usage accumulated over the session's turns
+}
+
+/**
+ * Usage summed over a number of prompt turns
+ * costUsd is only present once cursor-agent has reported a cost
+ */
+export interface UsageTotals {
+  turns: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  totalTokens: number;
+  durationMs: number;
+  costUsd?: number;
+}
+
+export interface SessionUsage extends UsageTotals {
+  /** Totals per model ID */
+  byModel: Record<string, UsageTotals>;
+}
+
+/** Usage of a single prompt turn */
+export interface TurnUsage extends Partial<CursorUsage> {
+  model: string;
+  durationMs?: number;
+  apiDurationMs?: number;
 }
 
 // ============================================================================
@@ -82,9 +112,33 @@ export type { SessionMode, SessionModeId, SessionModeState };
 // Internal extension of SessionMode for implementation-specific behavior
 // The base SessionMode type comes from @agentclientprotocol/sdk
 export interface InternalSessionModeConfig {
+  // Preamble sent ahead of every prompt in the mode
   systemPrompt?: string;
+  // Tool names or ACP tool kinds (read, edit, execute, ...) offered in the
+  // mode; all tools when unset
   availableTools?: string[];
-  permissionBehavior?: 'strict' | 'permissive' | 'auto';
+  // When edits, deletes, moves and commands need ACP permission:
+  // strict always asks, auto reuses remembered decisions, permissive never asks
+  permissionBehavior?: PermissionBehavior;
+  // cursor-agent flags for the mode, e.g. --force or --mode plan
+  cursorArgs?: string[];
+  // Turn time limits for the mode; prompt.idleTimeoutMs and
+  // prompt.turnTimeoutMs when unset
+  idleTimeoutMs?: number;
+  turnTimeoutMs?: number;
+}
+
+export type PermissionBehavior = 'strict' | 'permissive' | 'auto';
+
+// Session mode defined in the adapter config (`modes`)
+// A definition with the ID of a built-in mode replaces that mode
+export interface SessionModeDefinition extends InternalSessionModeConfig {
+  id: string;
+  name: string;
+  description?: string;
+  // Permission policy rules that only apply in this mode; they are checked
+  // before the rules of permissions.policy
+  permissionRules?: PermissionPolicyRule[];
 }
 
 // ============================================================================
@@ -122,6 +176,12 @@ export interface ConversationMessage {
   content: ContentBlock[];
   timestamp: Date;
   metadata?: Record<string, any>;
+  /**
+   * session/update payloads sent while the turn ran, in order: message and
+   * thought chunks, tool calls and their updates, and plans. session/load
+   * replays these in place of content when present.
+   */
+  updates?: SessionNotification['update'][];
 }
 
 export interface SessionListParams {
@@ -173,11 +233,103 @@ export interface ToolCall {
 }
 
 export interface StreamChunk {
-  type: 'content' | 'progress' | 'error' | 'done';
+  type: 'content' | 'event' | 'progress' | 'error' | 'done';
   data?: any;
   error?: string;
 }
 
+// cursor-agent `--output-format stream-json` events
+// Each line of stream-json output is decoded into one of these events.
+// `raw` always holds the original JSON object for fields not modeled here.
+
+export interface CursorSystemInitEvent {
+  type: 'system';
+  subtype: 'init';
+  sessionId?: string;
+  model?: string;
+  cwd?: string;
+  raw: Record<string, any>;
+}
+
+/** Reasoning the model streams before and between answers */
+export interface CursorThinkingEvent {
+  type: 'thinking';
+  /** `delta` for reasoning text, `completed` once a thinking block ends */
+  subtype: string;
+  text?: string;
+  sessionId?: string;
+  raw: Record<string, any>;
+}
+
+export interface CursorAssistantEvent {
+  type: 'assistant';
+  text: string;
+  /**
+   * True for partial-output deltas (`timestamp_ms` present); false for the
+   * complete message cursor-agent repeats once the delta stream has finished
+   */
+  isDelta: boolean;
+  sessionId?: string;
+  raw: Record<string, any>;
+}
+
+export interface CursorToolCallEvent {
+  type: 'tool_call';
+  subtype: 'started' | 'completed';
+  callId: string;
+  /** Tool name with the `ToolCall` suffix removed, e.g. `read`, `edit`, `shell` */
+  toolName: string;
+  args: Record<string, any>;
+  /** Present on completed events */
+  result?: Record<string, any>;
+  sessionId?: string;
+  raw: Record<string, any>;
+}
+
+export interface CursorResultEvent {
+  type: 'result';
+  subtype: string;
+  isError: boolean;
+  result?: string;
+  durationMs?: number;
+  /** Time spent waiting on the model API */
+  durationApiMs?: number;
+  usage?: CursorUsage;
+  sessionId?: string;
+  raw: Record<string, any>;
+}
+
+/** Token counts and cost cursor-agent reports for a turn */
+export interface CursorUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  totalTokens: number;
+  costUsd?: number;
+}
+
+/** Well-formed JSON event whose type is not modeled */
+export interface CursorUnknownEvent {
+  type: 'unknown';
+  raw: Record<string, any>;
+}
+
+/** Non-JSON output line, e.g. from older cursor-agent versions */
+export interface CursorTextEvent {
+  type: 'text';
+  text: string;
+}
+
+export type CursorStreamEvent =
+  | CursorSystemInitEvent
+  | CursorAssistantEvent
+  | CursorThinkingEvent
+  | CursorToolCallEvent
+  | CursorResultEvent
+  | CursorUnknownEvent
+  | CursorTextEvent;
+
 export interface StreamProgress {
   current: number;
   total?: number;
@@ -193,6 +345,35 @@ export type PermissionOutcome =
 
 export type RequestPermissionParams = RequestPermissionRequest;
 
+// Remembered "allow always" / "reject always" decision for a session
+// A rule matches a tool call when every field it sets matches
+export type PermissionDecision = 'allow' | 'reject';
+
+export interface PermissionRule {
+  id: string;
+  decision: PermissionDecision;
+  toolKind?: ToolKind;
+  pathPattern?: string; // Glob matched against every tool call location
+  commandPrefix?: string; // Matched against the start of the command line
+  createdAt: Date;
+}
+
+export type PermissionPolicyAction = 'allow' | 'deny' | 'ask';
+
+export interface PermissionPolicyRule {
+  name?: string;
+  action: PermissionPolicyAction;
+  kinds?: ToolKind[];
+  paths?: string[]; // Globs; relative ones are resolved against the session cwd
+  commands?: string[]; // Argv patterns such as "npm test" or "git log **"
+  modes?: string[]; // Session mode IDs
+}
+
+export interface PermissionPolicyConfig {
+  defaultAction?: PermissionPolicyAction; // Used when no rule matches
+  rules?: PermissionPolicyRule[]; // Evaluated in order; the first match wins
+}
+
 export interface Tool {
   name: string;
   description: string;
@@ -237,6 +418,7 @@ export interface CursorCommand {
 export interface CursorCommandOptions {
   cwd?: string;
   timeout?: number;
+  retries?: number; // Defaults to cursor.retries
   env?: Record<string, string>;
   input?: string;
   session?: string;
@@ -272,6 +454,8 @@ export interface Logger {
   warn(message: string, meta?: any): void;
   info(message: string, meta?: any): void;
   debug(message: string, meta?: any): void;
+  // Changes the level at runtime; only supported by some loggers
+  setLevel?(level: AdapterConfig['logLevel']): void;
 }
 
 export interface AdapterConfig {
@@ -303,6 +487,31 @@ export interface AdapterConfig {
   cursor: {
     timeout: number;
     retries: number;
+    binaryPath?: string; // Executable to run instead of cursor-agent from PATH
+    extraArgs?: string[]; // Passed to cursor-agent before every command
+    env?: Record<string, string>; // Added to cursor-agent's environment, e.g. CURSOR_API_KEY
+  };
+  modes?: SessionModeDefinition[]; // Added to the built-in agent, plan and ask modes
+  prompt?: {
+    heartbeatIntervalMs?: number; // Send _cursor/heartbeat while a turn runs; off when unset
+    idleTimeoutMs?: number; // Stop a streamed turn after this long without cursor-agent output
+    turnTimeoutMs?: number; // Stop any turn after this long
+  };
+  permissions?: {
+    persistRules?: boolean; // Keep "always" decisions across restarts
+    policy?: PermissionPolicyConfig;
+  };
+  content?: {
+    images?: {
+      maxBytes?: number; // Decoded size limit per image
+      allowedMimeTypes?: string[];
+      tempDir?: string; // Parent of the temp directory images are written to
+    };
+    resourceLinks?: {
+      resolve?: boolean; // Inline the contents of file:// links
+      maxFileBytes?: number;
+      maxPromptBytes?: number; // Shared by all links in one prompt
+    };
   };
 }
 
@@ -333,13 +542,69 @@ export interface ConnectivityTestResult {
   error?: string;
 }
 
+// ============================================================================
+// MCP Servers
+// Per ACP spec: https://agentclientprotocol.com/protocol/session-setup#mcp-servers
+// ============================================================================
+
+export type McpServerType = 'stdio' | 'http' | 'sse';
+
+export interface McpServerStatus {
+  name: string;
+  type: McpServerType;
+  status: 'connected' | 'failed';
+  toolCount: number;
+  error?: string;
+}
+
 // ============================================================================
 // Error Classes
 // ============================================================================
 
+/**
+ * JSON-RPC error codes for failures editors can act on
+ * -32000 is ACP's auth_required; the others are adapter-defined codes in the
+ * JSON-RPC server error range (-32000 to -32099). Codes are stable.
+ */
+export const AdapterErrorCode = {
+  /** cursor-agent is not logged in (ACP auth_required) */
+  NOT_AUTHENTICATED: -32000,
+  /** The session does not exist */
+  SESSION_NOT_FOUND: -32001,
+  /** The cursor-agent executable cannot be found */
+  CURSOR_NOT_INSTALLED: -32010,
+  /** cursor-agent reported a rate limit or exhausted quota */
+  RATE_LIMITED: -32011,
+  /** The requested model is not available to this account */
+  MODEL_UNAVAILABLE: -32012,
+  /** cursor-agent did not finish in time */
+  TIMEOUT: -32013,
+  /** cursor-agent exited abnormally */
+  PROCESS_CRASHED: -32014,
+  /** The user rejected a permission request */
+  PERMISSION_DENIED: -32015,
+} as const;
+
+export type AdapterErrorCodeValue =
+  (typeof AdapterErrorCode)[keyof typeof AdapterErrorCode];
+
+/**
+ * `data` payload of adapter errors sent to clients
+ * `type` names the failure; `action` tells the user how to resolve it.
+ */
+export interface AdapterErrorData {
+  type: string;
+  action?: string;
+  [key: string]: unknown;
+}
+
 export class AdapterError extends Error {
   readonly code: string;
   override readonly cause?: Error;
+  /** JSON-RPC error code, set by errors clients can act on */
+  readonly rpcCode?: AdapterErrorCodeValue;
+  /** JSON-RPC error data, set together with `rpcCode` */
+  readonly data?: AdapterErrorData;
 
   constructor(message: string, code: string, cause?: Error) {
     super(message);
@@ -359,36 +624,221 @@ export class ProtocolError extends AdapterError {
 }
 
 export class CursorError extends AdapterError {
-  constructor(message: string, cause?: Error) {
-    super(message, 'CURSOR_ERROR', cause);
+  constructor(message: string, cause?: Error, code = 'CURSOR_ERROR') {
+    super(message, code, cause);
     this.name = 'CursorError';
   }
 }
 
+export class CursorNotInstalledError extends CursorError {
+  override readonly rpcCode = AdapterErrorCode.CURSOR_NOT_INSTALLED;
+  override readonly data: AdapterErrorData = {
+    type: 'cursor_not_installed',
+    action:
+      'Install cursor-agent: curl https://cursor.com/install -fsSL | bash',
+  };
+
+  constructor(
+    message = 'cursor-agent CLI is not installed or not in PATH',
+    cause?: Error
+  ) {
+    super(message, cause, 'CURSOR_NOT_INSTALLED');
+    this.name = 'CursorNotInstalledError';
+  }
+}
+
+export class CursorAuthenticationError extends CursorError {
+  override readonly rpcCode = AdapterErrorCode.NOT_AUTHENTICATED;
+  override readonly data: AdapterErrorData = {
+    type: 'cursor_not_authenticated',
+    action: 'Run `cursor-agent login`',
+  };
+
+  constructor(
+    message = 'cursor-agent CLI is not authenticated',
+    cause?: Error
+  ) {
+    super(message, cause, 'CURSOR_NOT_AUTHENTICATED');
+    this.name = 'CursorAuthenticationError';
+  }
+}
+
+export class CursorRateLimitError extends CursorError {
+  override readonly rpcCode = AdapterErrorCode.RATE_LIMITED;
+  override readonly data: AdapterErrorData;
+
+  constructor(message: string, retryAfterMs?: number, cause?: Error) {
+    super(message, cause, 'CURSOR_RATE_LIMITED');
+    this.name = 'CursorRateLimitError';
+    this.data = {
+      type: 'rate_limited',
+      action: 'Wait a moment and try again',
+      ...(retryAfterMs !== undefined && { retryAfterMs }),
+    };
+  }
+}
+
+export class ModelUnavailableError extends CursorError {
+  readonly model?: string | undefined;
+  override readonly rpcCode = AdapterErrorCode.MODEL_UNAVAILABLE;
+  override readonly data: AdapterErrorData;
+
+  constructor(message: string, model?: string | undefined, cause?: Error) {
+    super(message, cause, 'MODEL_UNAVAILABLE');
+    this.name = 'ModelUnavailableError';
+    this.model = model;
+    this.data = {
+      type: 'model_unavailable',
+      action: 'Choose another model',
+      ...(model && { model }),
+    };
+  }
+}
+
+// Which limit a cursor-agent process ran into: cursor.timeout for a single
+// command, or the idle or absolute limit of a prompt turn
+export type CursorTimeoutLimit = 'command' | 'idle' | 'turn';
+
+const TIMEOUT_ACTIONS: Record<CursorTimeoutLimit, string> = {
+  command: 'Try again, or raise cursor.timeout',
+  idle: 'Try again, or raise prompt.idleTimeoutMs',
+  turn: 'Continue in a new prompt, or raise prompt.turnTimeoutMs',
+};
+
+export class CursorTimeoutError extends CursorError {
+  readonly timeoutMs: number;
+  readonly limit: CursorTimeoutLimit;
+  override readonly rpcCode = AdapterErrorCode.TIMEOUT;
+  override readonly data: AdapterErrorData;
+
+  constructor(
+    message: string,
+    timeoutMs: number,
+    cause?: Error,
+    limit: CursorTimeoutLimit = 'command'
+  ) {
+    super(message, cause, 'CURSOR_TIMEOUT');
+    this.name = 'CursorTimeoutError';
+    this.timeoutMs = timeoutMs;
+    this.limit = limit;
+    this.data = {
+      type: 'timeout',
+      action: TIMEOUT_ACTIONS[limit],
+      timeoutMs,
+      limit,
+    };
+  }
+}
+
+export class CursorProcessCrashError extends CursorError {
+  readonly exitCode?: number | undefined;
+  readonly signal?: string | undefined;
+  override readonly rpcCode = AdapterErrorCode.PROCESS_CRASHED;
+  override readonly data: AdapterErrorData;
+
+  constructor(
+    message: string,
+    details: {
+      exitCode?: number | undefined;
+      signal?: string | undefined;
+      stderr?: string | undefined;
+    } = {},
+    cause?: Error
+  ) {
+    super(message, cause, 'CURSOR_PROCESS_CRASHED');
+    this.name = 'CursorProcessCrashError';
+    this.exitCode = details.exitCode;
+    this.signal = details.signal;
+    this.data = {
+      type: 'process_crashed',
+      ...(details.exitCode !== undefined && { exitCode: details.exitCode }),
+      ...(details.signal && { signal: details.signal }),
+      // The end of stderr usually holds the reason
+      ...(details.stderr && { stderr: details.stderr.slice(-2000) }),
+    };
+  }
+}
+
 export class SessionError extends AdapterError {
   readonly sessionId?: SessionId | undefined;
 
   constructor(
     message: string,
     sessionId?: SessionId | undefined,
-    cause?: Error | undefined
+    cause?: Error | undefined,
+    code = 'SESSION_ERROR'
   ) {
-    super(message, 'SESSION_ERROR', cause);
+    super(message, code, cause);
     this.name = 'SessionError';
     this.sessionId = sessionId;
   }
 }
 
+export class SessionNotFoundError extends SessionError {
+  override readonly rpcCode = AdapterErrorCode.SESSION_NOT_FOUND;
+  override readonly data: AdapterErrorData;
+
+  constructor(sessionId: SessionId, cause?: Error | undefined) {
+    super(
+      `Session not found: ${sessionId}`,
+      sessionId,
+      cause,
+      'SESSION_NOT_FOUND'
+    );
+    this.name = 'SessionNotFoundError';
+    this.data = {
+      type: 'session_not_found',
+      action: 'Start a new session',
+      sessionId,
+    };
+  }
+}
+
 export class ToolError extends AdapterError {
   readonly toolName?: string | undefined;
 
   constructor(
     message: string,
     toolName?: string | undefined,
-    cause?: Error | undefined
+    cause?: Error | undefined,
+    code = 'TOOL_ERROR'
   ) {
-    super(message, 'TOOL_ERROR', cause);
+    super(message, code, cause);
     this.name = 'ToolError';
     this.toolName = toolName;
   }
 }
+
+export class PermissionDeniedError extends ToolError {
+  override readonly rpcCode = AdapterErrorCode.PERMISSION_DENIED;
+  override readonly data: AdapterErrorData;
+
+  constructor(toolName: string, toolCallId?: string | undefined) {
+    super(
+      `Permission denied for ${toolName}`,
+      toolName,
+      undefined,
+      'PERMISSION_DENIED'
+    );
+    this.name = 'PermissionDeniedError';
+    this.data = {
+      type: 'permission_denied',
+      toolName,
+      ...(toolCallId && { toolCallId }),
+    };
+  }
+}
+
+export class McpError extends AdapterError {
+  readonly serverName?: string | undefined;
+
+  constructor(
+    message: string,
+    serverName?: string | undefined,
+    cause?: Error | undefined
+  ) {
+    super(message, 'MCP_ERROR', cause);
+    this.name = 'McpError';
+    this.serverName = serverName;
+  }
+}
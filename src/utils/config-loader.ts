@@ -0,0 +1,368 @@
+/**
+ * Configuration loader utility module
+ *
+ * Resolves the adapter configuration from all of its sources. Later sources
+ * override earlier ones:
+ * 1. Built-in defaults
+ * 2. Configuration file (`--config` or CURSOR_ACP_CONFIG, JSON or YAML)
+ * 3. CURSOR_ACP_* environment variables
+ * 4. Command line flags
+ *
+ * The source of every value is recorded so `--validate --explain` can show
+ * where each setting came from.
+ */
+
+import { readFileSync } from 'fs';
+import * as path from 'path';
+import { load } from 'js-yaml';
+import {
+  AdapterError,
+  type AdapterConfig,
+  type ConfigValidationRule,
+  type ValidationResult,
+} from '../types';
+import { CONFIG_VALIDATION_RULES, validateConfig } from './config';
+
+export const ENV_PREFIX = 'CURSOR_ACP_';
+
+// Environment variable naming the configuration file
+export const CONFIG_FILE_ENV_VAR = `${ENV_PREFIX}CONFIG`;
+
+const YAML_EXTENSIONS = ['.yaml', '.yml'];
+
+export type ConfigSourceKind = 'default' | 'file' | 'env' | 'cli';
+
+export interface ConfigSource {
+  kind: ConfigSourceKind;
+  /** File path, environment variable or flag that set the value */
+  name?: string;
+}
+
+export interface ConfigOverride {
+  /** Dot-separated config path, e.g. "cursor.timeout" */
+  path: string;
+  value: unknown;
+  source: ConfigSource;
+}
+
+export interface ConfigResolutionOptions {
+  defaults: AdapterConfig;
+  configFile?: string | undefined;
+  env?: NodeJS.ProcessEnv | undefined;
+  cliOverrides?: ConfigOverride[] | undefined;
+}
+
+export interface ResolvedConfig {
+  config: AdapterConfig;
+  /** Source of each value, keyed by config path */
+  sources: Map<string, ConfigSource>;
+  configFile?: string;
+  validation: ValidationResult;
+}
+
+/**
+ * Resolves the configuration from defaults, file, environment and flags,
+ * then validates the merged result
+ */
+export function resolveConfig(
+  options: ConfigResolutionOptions
+): ResolvedConfig {
+  const env = options.env ?? {};
+  const sources = new Map<string, ConfigSource>();
+
+  let config = cloneValue(options.defaults) as Record<string, any>;
+  recordSources(sources, config, '', { kind: 'default' });
+
+  const configFile = options.configFile ?? env[CONFIG_FILE_ENV_VAR];
+  if (configFile) {
+    const fileConfig = loadConfigFile(configFile);
+    config = mergeConfig(config, fileConfig);
+    recordSources(sources, fileConfig, '', { kind: 'file', name: configFile });
+  }
+
+  for (const override of [
+    ...readEnvOverrides(env),
+    ...(options.cliOverrides ?? []),
+  ]) {
+    setValue(config, override.path, override.value);
+    recordSources(sources, override.value, override.path, override.source);
+  }
+
+  const resolved = config as AdapterConfig;
+  return {
+    config: resolved,
+    sources,
+    ...(configFile && { configFile }),
+    validation: validateConfig(resolved),
+  };
+}
+
+/**
+ * Loads a configuration file
+ * Files ending in .yaml or .yml are parsed as YAML, anything else as JSON.
+ */
+export function loadConfigFile(filePath: string): Record<string, any> {
+  let content: string;
+  try {
+    content = readFileSync(filePath, 'utf8');
+  } catch (error) {
+    throw new AdapterError(
+      `Failed to read configuration file ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+      'CONFIG_ERROR',
+      error instanceof Error ? error : undefined
+    );
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = YAML_EXTENSIONS.includes(path.extname(filePath).toLowerCase())
+      ? load(content)
+      : JSON.parse(content);
+  } catch (error) {
+    throw new AdapterError(
+      `Failed to parse configuration file ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+      'CONFIG_ERROR',
+      error instanceof Error ? error : undefined
+    );
+  }
+
+  // An empty YAML file is a valid empty configuration
+  if (parsed === undefined || parsed === null) {
+    return {};
+  }
+  if (!isPlainObject(parsed)) {
+    throw new AdapterError(
+      `Invalid configuration file ${filePath}: expected an object at the top level`,
+      'CONFIG_ERROR'
+    );
+  }
+  return parsed;
+}
+
+/**
+ * Reads config overrides from CURSOR_ACP_* environment variables
+ * Every validated setting has a variable named after its path, e.g.
+ * tools.terminal.maxProcesses is CURSOR_ACP_TOOLS_TERMINAL_MAX_PROCESSES.
+ */
+export function readEnvOverrides(env: NodeJS.ProcessEnv): ConfigOverride[] {
+  const overrides: ConfigOverride[] = [];
+
+  for (const rule of CONFIG_VALIDATION_RULES) {
+    const name = getEnvVarName(rule.path);
+    const raw = env[name];
+    if (raw === undefined || raw === '') {
+      continue;
+    }
+
+    overrides.push({
+      path: rule.path,
+      value: parseEnvValue(raw, rule, name),
+      source: { kind: 'env', name },
+    });
+  }
+
+  return overrides;
+}
+
+/**
+ * Gets the environment variable name for a config path
+ */
+export function getEnvVarName(configPath: string): string {
+  return (
+    ENV_PREFIX +
+    configPath
+      .split('.')
+      .map((segment) => segment.replace(/([a-z0-9])([A-Z])/g, '$1_$2'))
+      .join('_')
+      .toUpperCase()
+  );
+}
+
+/**
+ * Lists every resolved value with the source it came from
+ */
+export function explainConfig(resolved: ResolvedConfig): string[] {
+  const lines: string[] = [];
+
+  const visit = (value: unknown, configPath: string): void => {
+    if (isPlainObject(value) && Object.keys(value).length > 0) {
+      for (const [key, child] of Object.entries(value)) {
+        visit(child, configPath ? `${configPath}.${key}` : key);
+      }
+      return;
+    }
+
+    const source = findSource(resolved.sources, configPath);
+    lines.push(
+      `${configPath} = ${JSON.stringify(value)} (${formatSource(source)})`
+    );
+  };
+
+  visit(resolved.config, '');
+  return lines;
+}
+
+function parseEnvValue(
+  raw: string,
+  rule: ConfigValidationRule,
+  name: string
+): unknown {
+  const invalid = (expected: string) =>
+    new AdapterError(
+      `Invalid value for ${name}: expected ${expected}, got "${raw}"`,
+      'CONFIG_ERROR'
+    );
+
+  switch (rule.type) {
+    case 'number': {
+      const value = Number(raw.trim());
+      if (raw.trim() === '' || Number.isNaN(value)) {
+        throw invalid('a number');
+      }
+      return value;
+    }
+    case 'boolean': {
+      const value = raw.trim().toLowerCase();
+      if (['true', '1', 'yes', 'on'].includes(value)) {
+        return true;
+      }
+      if (['false', '0', 'no', 'off'].includes(value)) {
+        return false;
+      }
+      throw invalid('a boolean');
+    }
+    case 'array':
+      // JSON arrays, or a comma-separated list for the common case
+      if (raw.trim().startsWith('[')) {
+        const value = parseJson(raw);
+        if (!Array.isArray(value)) {
+          throw invalid('a JSON array');
+        }
+        return value;
+      }
+      return raw
+        .split(',')
+        .map((item) => item.trim())
+        .filter((item) => item !== '');
+    case 'object': {
+      const value = parseJson(raw);
+      if (!isPlainObject(value)) {
+        throw invalid('a JSON object');
+      }
+      return value;
+    }
+    default:
+      return raw;
+  }
+
+  function parseJson(text: string): unknown {
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw invalid('valid JSON');
+    }
+  }
+}
+
+/**
+ * Deep merges a config object into another; arrays are replaced, not merged
+ */
+function mergeConfig(
+  target: Record<string, any>,
+  source: Record<string, any>
+): Record<string, any> {
+  const result: Record<string, any> = { ...target };
+  for (const [key, value] of Object.entries(source)) {
+    result[key] =
+      isPlainObject(value) && isPlainObject(result[key])
+        ? mergeConfig(result[key], value)
+        : cloneValue(value);
+  }
+  return result;
+}
+
+function setValue(
+  config: Record<string, any>,
+  configPath: string,
+  value: unknown
+): void {
+  const keys = configPath.split('.');
+  const last = keys.pop()!;
+  let current = config;
+  for (const key of keys) {
+    if (!isPlainObject(current[key])) {
+      current[key] = {};
+    }
+    current = current[key];
+  }
+  current[last] = cloneValue(value);
+}
+
+/**
+ * Records the source of every leaf value under a path
+ * Sources previously recorded below the path are replaced.
+ */
+function recordSources(
+  sources: Map<string, ConfigSource>,
+  value: unknown,
+  configPath: string,
+  source: ConfigSource
+): void {
+  if (isPlainObject(value) && Object.keys(value).length > 0) {
+    for (const [key, child] of Object.entries(value)) {
+      recordSources(
+        sources,
+        child,
+        configPath ? `${configPath}.${key}` : key,
+        source
+      );
+    }
+    return;
+  }
+
+  for (const key of sources.keys()) {
+    if (key.startsWith(`${configPath}.`)) {
+      sources.delete(key);
+    }
+  }
+  sources.set(configPath, source);
+}
+
+function findSource(
+  sources: Map<string, ConfigSource>,
+  configPath: string
+): ConfigSource {
+  // Values set as a whole object are recorded on the object's path
+  for (
+    let current = configPath;
+    current;
+    current = current.slice(0, Math.max(current.lastIndexOf('.'), 0))
+  ) {
+    const source = sources.get(current);
+    if (source) {
+      return source;
+    }
+  }
+  return { kind: 'default' };
+}
+
+function formatSource(source: ConfigSource): string {
+  switch (source.kind) {
+    case 'file':
+      return `file ${source.name}`;
+    case 'env':
+      return `env ${source.name}`;
+    case 'cli':
+      return `flag ${source.name}`;
+    default:
+      return 'default';
+  }
+}
+
+function cloneValue<T>(value: T): T {
+  return value === undefined ? value : structuredClone(value);
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,278 @@
+/**
+ * Configuration hot-reload utility module
+ *
+ * Watches the configuration file and works out which changes a running
+ * adapter can apply without restarting the ACP connection. Settings that
+ * components only read at startup are rejected with a reason.
+ */
+
+import { watch, type FSWatcher } from 'fs';
+import * as path from 'path';
+import type { AdapterConfig, Logger } from '../types';
+
+const DEFAULT_DEBOUNCE_MS = 200;
+
+/**
+ * Config paths (and everything below them) that can change while running
+ */
+const LIVE_RELOAD_PATHS = [
+  'logLevel',
+  'maxSessions',
+  'sessionTimeout',
+  'tools.filesystem',
+  'tools.terminal',
+  'tools.cursor',
+  'cursor.timeout',
+  'cursor.retries',
+  'cursor.binaryPath',
+  'cursor.extraArgs',
+  'cursor.env',
+  'permissions.policy',
+  'modes',
+  'prompt',
+  'content.images.maxBytes',
+  'content.images.allowedMimeTypes',
+  'content.resourceLinks',
+];
+
+/**
+ * Reasons for settings that need a restart
+ */
+const RESTART_REASONS: Record<string, string> = {
+  sessionDir:
+    'sessions are already stored in the current directory; restart to move them',
+  'permissions.persistRules':
+    'permission rule storage is chosen at startup; restart to change it',
+};
+
+export interface ConfigChangeRejection {
+  path: string;
+  reason: string;
+}
+
+export interface ConfigReloadPlan {
+  /** Changed config paths that can be applied live */
+  live: string[];
+  rejected: ConfigChangeRejection[];
+}
+
+export interface ConfigReloadResult {
+  applied: string[];
+  rejected: ConfigChangeRejection[];
+}
+
+/**
+ * Lists the config paths whose values differ between two configs
+ */
+export function diffConfig(
+  current: AdapterConfig,
+  next: AdapterConfig
+): string[] {
+  const currentValues = collectLeaves(current);
+  const nextValues = collectLeaves(next);
+  const paths = new Set([...currentValues.keys(), ...nextValues.keys()]);
+
+  return [...paths].filter(
+    (configPath) =>
+      JSON.stringify(currentValues.get(configPath)) !==
+      JSON.stringify(nextValues.get(configPath))
+  );
+}
+
+/**
+ * Splits the changes between two configs into live and rejected ones
+ */
+export function planConfigReload(
+  current: AdapterConfig,
+  next: AdapterConfig
+): ConfigReloadPlan {
+  const plan: ConfigReloadPlan = { live: [], rejected: [] };
+
+  for (const configPath of diffConfig(current, next)) {
+    if (isUnder(configPath, LIVE_RELOAD_PATHS)) {
+      plan.live.push(configPath);
+      continue;
+    }
+
+    const reasonPath = Object.keys(RESTART_REASONS).find((prefix) =>
+      isUnder(configPath, [prefix])
+    );
+    plan.rejected.push({
+      path: configPath,
+      reason: reasonPath
+        ? RESTART_REASONS[reasonPath]!
+        : 'this setting is only read at startup; restart to apply it',
+    });
+  }
+
+  return plan;
+}
+
+/**
+ * Checks whether a config path equals or lies below one of the prefixes
+ */
+export function isUnder(configPath: string, prefixes: string[]): boolean {
+  return prefixes.some(
+    (prefix) => configPath === prefix || configPath.startsWith(`${prefix}.`)
+  );
+}
+
+/**
+ * Copies the values of the given paths from one config into another
+ */
+export function applyConfigPaths(
+  target: AdapterConfig,
+  source: AdapterConfig,
+  configPaths: string[]
+): void {
+  for (const configPath of configPaths) {
+    const keys = configPath.split('.');
+    const last = keys.pop()!;
+
+    let from: any = source;
+    let to: any = target;
+    for (const key of keys) {
+      from = from?.[key];
+      if (typeof to[key] !== 'object' || to[key] === null) {
+        to[key] = {};
+      }
+      to = to[key];
+    }
+
+    if (from?.[last] === undefined) {
+      delete to[last];
+    } else {
+      to[last] = structuredClone(from[last]);
+    }
+  }
+}
+
+export interface ConfigWatcherOptions {
+  filePath: string;
+  logger: Logger;
+  onChange: () => void | Promise<void>;
+  /** Milliseconds to wait for further writes before reloading */
+  debounceMs?: number;
+}
+
+/**
+ * Watches a configuration file and calls onChange after it was written
+ * The directory is watched so that editors replacing the file on save are
+ * handled too. Reloads never overlap; a change during a reload queues one
+ * more reload.
+ */
+export class ConfigWatcher {
+  private filePath: string;
+  private logger: Logger;
+  private onChange: () => void | Promise<void>;
+  private debounceMs: number;
+  private watcher: FSWatcher | null = null;
+  private debounceTimer: NodeJS.Timeout | null = null;
+  private reloading: Promise<void> | null = null;
+  private pending = false;
+
+  constructor(options: ConfigWatcherOptions) {
+    this.filePath = path.resolve(options.filePath);
+    this.logger = options.logger;
+    this.onChange = options.onChange;
+    this.debounceMs = options.debounceMs ?? DEFAULT_DEBOUNCE_MS;
+  }
+
+  start(): void {
+    if (this.watcher) {
+      return;
+    }
+
+    const fileName = path.basename(this.filePath);
+    // persistent: false so the watcher never keeps the process alive
+    this.watcher = watch(
+      path.dirname(this.filePath),
+      { persistent: false },
+      (_event, changed) => {
+        if (!changed || changed.toString() === fileName) {
+          this.schedule();
+        }
+      }
+    );
+    this.watcher.on('error', (error) => {
+      this.logger.warn('Configuration file watcher failed', {
+        filePath: this.filePath,
+        error: error.message,
+      });
+    });
+
+    this.logger.info(`Watching configuration file ${this.filePath}`);
+  }
+
+  stop(): void {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = null;
+    }
+    this.watcher?.close();
+    this.watcher = null;
+  }
+
+  /**
+   * Resolves once any running reload has finished
+   */
+  async idle(): Promise<void> {
+    while (this.reloading) {
+      await this.reloading;
+    }
+  }
+
+  private schedule(): void {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+    }
+    this.debounceTimer = setTimeout(() => {
+      this.debounceTimer = null;
+      this.trigger();
+    }, this.debounceMs);
+  }
+
+  private trigger(): void {
+    if (this.reloading) {
+      this.pending = true;
+      return;
+    }
+
+    this.reloading = (async () => {
+      try {
+        await this.onChange();
+      } catch (error) {
+        this.logger.error('Configuration reload failed', {
+          filePath: this.filePath,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      } finally {
+        this.reloading = null;
+        if (this.pending) {
+          this.pending = false;
+          this.trigger();
+        }
+      }
+    })();
+  }
+}
+
+function collectLeaves(
+  value: unknown,
+  prefix = '',
+  leaves = new Map<string, unknown>()
+): Map<string, unknown> {
+  if (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    Object.keys(value).length > 0
+  ) {
+    for (const [key, child] of Object.entries(value)) {
+      collectLeaves(child, prefix ? `${prefix}.${key}` : key, leaves);
+    }
+  } else if (prefix) {
+    leaves.set(prefix, value);
+  }
+  return leaves;
+}
@@ -10,10 +10,33 @@ import type {
   ConfigValidationRule,
 } from '../types';
 
+const POLICY_ACTIONS = ['allow', 'deny', 'ask'];
+
+const PERMISSION_BEHAVIORS = ['strict', 'auto', 'permissive'];
+
+// Bounds of the idle and absolute turn time limits
+const PROMPT_TIMEOUT_MIN_MS = 5000; // 5 seconds
+const PROMPT_TIMEOUT_MAX_MS = 86400000; // 24 hours
+
+// Per ACP spec: https://agentclientprotocol.com/protocol/tool-calls#creating
+const TOOL_KINDS = [
+  'read',
+  'edit',
+  'delete',
+  'move',
+  'search',
+  'execute',
+  'think',
+  'fetch',
+  'switch_mode',
+  'other',
+];
+
 /**
  * Validation rules for the adapter configuration
+ * Also lists the settings that can be set through environment variables.
  */
-const CONFIG_VALIDATION_RULES: ConfigValidationRule[] = [
+export const CONFIG_VALIDATION_RULES: ConfigValidationRule[] = [
   {
     path: 'logLevel',
     type: 'string',
@@ -57,6 +80,58 @@ const CONFIG_VALIDATION_RULES: ConfigValidationRule[] = [
     min: 1,
     max: 20,
   },
+  {
+    path: 'tools.terminal.defaultOutputByteLimit',
+    type: 'number',
+    min: 1024, // 1 KB
+    max: 104857600, // 100 MB
+  },
+  {
+    path: 'tools.terminal.maxOutputByteLimit',
+    type: 'number',
+    min: 1024, // 1 KB
+    max: 104857600, // 100 MB
+  },
+  {
+    path: 'tools.terminal.forbiddenCommands',
+    type: 'array',
+    validator: isStringArray,
+  },
+  {
+    path: 'tools.terminal.allowedCommands',
+    type: 'array',
+    validator: isStringArray,
+  },
+  {
+    path: 'tools.terminal.defaultCwd',
+    type: 'string',
+  },
+  {
+    path: 'tools.cursor',
+    type: 'object',
+  },
+  {
+    path: 'tools.cursor.enabled',
+    type: 'boolean',
+  },
+  {
+    path: 'tools.cursor.projectRoot',
+    type: 'string',
+  },
+  {
+    path: 'tools.cursor.maxSearchResults',
+    type: 'number',
+    min: 1,
+    max: 1000,
+  },
+  {
+    path: 'tools.cursor.enableCodeModification',
+    type: 'boolean',
+  },
+  {
+    path: 'tools.cursor.enableTestExecution',
+    type: 'boolean',
+  },
   {
     path: 'cursor.timeout',
     type: 'number',
@@ -71,6 +146,93 @@ const CONFIG_VALIDATION_RULES: ConfigValidationRule[] = [
     min: 0,
     max: 10,
   },
+  {
+    path: 'cursor.binaryPath',
+    type: 'string',
+    pattern: /\S/,
+  },
+  {
+    path: 'cursor.extraArgs',
+    type: 'array',
+    validator: isStringArray,
+  },
+  {
+    path: 'cursor.env',
+    type: 'object',
+    validator: (value: any) =>
+      !Array.isArray(value) &&
+      Object.values(value).every((item) => typeof item === 'string'),
+  },
+  {
+    path: 'modes',
+    type: 'array',
+  },
+  {
+    path: 'prompt.heartbeatIntervalMs',
+    type: 'number',
+    min: 1000, // 1 second
+    max: 300000, // 5 minutes
+  },
+  {
+    path: 'prompt.idleTimeoutMs',
+    type: 'number',
+    min: PROMPT_TIMEOUT_MIN_MS,
+    max: 3600000, // 1 hour
+  },
+  {
+    path: 'prompt.turnTimeoutMs',
+    type: 'number',
+    min: PROMPT_TIMEOUT_MIN_MS,
+    max: PROMPT_TIMEOUT_MAX_MS,
+  },
+  {
+    path: 'permissions.persistRules',
+    type: 'boolean',
+  },
+  {
+    path: 'permissions.policy',
+    type: 'object',
+  },
+  {
+    path: 'permissions.policy.defaultAction',
+    type: 'string',
+    validator: (value: any) => POLICY_ACTIONS.includes(value),
+  },
+  {
+    path: 'permissions.policy.rules',
+    type: 'array',
+  },
+  {
+    path: 'content.images.maxBytes',
+    type: 'number',
+    min: 1,
+    max: 52428800, // 50MB
+  },
+  {
+    path: 'content.images.allowedMimeTypes',
+    type: 'array',
+    validator: isStringArray,
+  },
+  {
+    path: 'content.images.tempDir',
+    type: 'string',
+  },
+  {
+    path: 'content.resourceLinks.resolve',
+    type: 'boolean',
+  },
+  {
+    path: 'content.resourceLinks.maxFileBytes',
+    type: 'number',
+    min: 1,
+    max: 10485760, // 10MB
+  },
+  {
+    path: 'content.resourceLinks.maxPromptBytes',
+    type: 'number',
+    min: 1,
+    max: 52428800, // 50MB
+  },
 ];
 
 /**
@@ -133,6 +295,9 @@ function validateValue(
 
   // Check numeric constraints
   if (rule.type === 'number') {
+    if (Number.isNaN(value)) {
+      return `Invalid value for ${path}: not a number`;
+    }
     if (rule.min !== undefined && value < rule.min) {
       return `Value for ${path} is too small: ${value} (minimum: ${rule.min})`;
     }
@@ -174,5 +339,161 @@ function performCustomValidations(config: AdapterConfig): string[] {
     );
   }
 
+  // Validate terminal output limits are consistent
+  const terminal = config.tools.terminal;
+  if (
+    terminal.defaultOutputByteLimit !== undefined &&
+    terminal.maxOutputByteLimit !== undefined &&
+    terminal.defaultOutputByteLimit > terminal.maxOutputByteLimit
+  ) {
+    errors.push(
+      'tools.terminal.defaultOutputByteLimit should not exceed tools.terminal.maxOutputByteLimit'
+    );
+  }
+
+  const rules = config.permissions?.policy?.rules;
+  if (Array.isArray(rules)) {
+    rules.forEach((rule, index) => {
+      errors.push(
+        ...validatePolicyRule(rule, `permissions.policy.rules[${index}]`)
+      );
+    });
+  }
+
+  if (Array.isArray(config.modes)) {
+    const seen = new Set<string>();
+    config.modes.forEach((mode, index) => {
+      errors.push(...validateModeDefinition(mode, `modes[${index}]`));
+      if (typeof mode?.id === 'string') {
+        if (seen.has(mode.id)) {
+          errors.push(`Duplicate mode ID in modes: ${mode.id}`);
+        }
+        seen.add(mode.id);
+      }
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * Validates a single session mode definition
+ */
+function validateModeDefinition(mode: any, path: string): string[] {
+  if (!mode || typeof mode !== 'object' || Array.isArray(mode)) {
+    return [`Invalid session mode at ${path}: expected object`];
+  }
+
+  const errors: string[] = [];
+
+  for (const key of ['id', 'name']) {
+    if (typeof mode[key] !== 'string' || mode[key].trim() === '') {
+      errors.push(`Invalid type for ${path}.${key}: expected non-empty string`);
+    }
+  }
+
+  for (const key of ['description', 'systemPrompt']) {
+    if (mode[key] !== undefined && typeof mode[key] !== 'string') {
+      errors.push(`Invalid type for ${path}.${key}: expected string`);
+    }
+  }
+
+  for (const key of ['availableTools', 'cursorArgs']) {
+    if (
+      mode[key] !== undefined &&
+      (!Array.isArray(mode[key]) || !isStringArray(mode[key]))
+    ) {
+      errors.push(`Invalid type for ${path}.${key}: expected array of strings`);
+    }
+  }
+
+  for (const key of ['idleTimeoutMs', 'turnTimeoutMs']) {
+    const value = mode[key];
+    if (
+      value !== undefined &&
+      (typeof value !== 'number' ||
+        !(value >= PROMPT_TIMEOUT_MIN_MS && value <= PROMPT_TIMEOUT_MAX_MS))
+    ) {
+      errors.push(
+        `Invalid value for ${path}.${key}: ${String(value)} (expected ${PROMPT_TIMEOUT_MIN_MS}-${PROMPT_TIMEOUT_MAX_MS})`
+      );
+    }
+  }
+
+  if (
+    mode.permissionBehavior !== undefined &&
+    !PERMISSION_BEHAVIORS.includes(mode.permissionBehavior)
+  ) {
+    errors.push(
+      `Invalid value for ${path}.permissionBehavior: ${String(mode.permissionBehavior)} (expected ${PERMISSION_BEHAVIORS.join(', ')})`
+    );
+  }
+
+  if (mode.permissionRules !== undefined) {
+    if (!Array.isArray(mode.permissionRules)) {
+      errors.push(`Invalid type for ${path}.permissionRules: expected array`);
+    } else {
+      mode.permissionRules.forEach((rule: any, index: number) => {
+        errors.push(
+          ...validatePolicyRule(rule, `${path}.permissionRules[${index}]`)
+        );
+      });
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Checks whether a value is an array of strings
+ */
+function isStringArray(value: any): boolean {
+  return value.every((item: unknown) => typeof item === 'string');
+}
+
+/**
+ * Validates a single permission policy rule
+ */
+function validatePolicyRule(rule: any, path: string): string[] {
+  if (!rule || typeof rule !== 'object' || Array.isArray(rule)) {
+    return [`Invalid permission policy rule at ${path}: expected object`];
+  }
+
+  const errors: string[] = [];
+
+  if (!POLICY_ACTIONS.includes(rule.action)) {
+    errors.push(
+      `Invalid value for ${path}.action: ${String(rule.action)} (expected ${POLICY_ACTIONS.join(', ')})`
+    );
+  }
+
+  if (rule.name !== undefined && typeof rule.name !== 'string') {
+    errors.push(`Invalid type for ${path}.name: expected string`);
+  }
+
+  for (const key of ['kinds', 'paths', 'commands', 'modes']) {
+    const value = rule[key];
+    if (value === undefined) {
+      continue;
+    }
+    if (
+      !Array.isArray(value) ||
+      !value.every((item) => typeof item === 'string' && item.trim() !== '')
+    ) {
+      errors.push(
+        `Invalid type for ${path}.${key}: expected array of non-empty strings`
+      );
+      continue;
+    }
+    if (key === 'kinds') {
+      const unknown = value.filter((kind) => !TOOL_KINDS.includes(kind));
+      if (unknown.length > 0) {
+        errors.push(
+          `Invalid value for ${path}.kinds: unknown tool kind ${unknown.join(', ')}`
+        );
+      }
+    }
+  }
+
   return errors;
 }
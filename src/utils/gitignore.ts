@@ -0,0 +1,90 @@
+/**
+ * .gitignore matching utility module
+ *
+ * Supports the patterns projects commonly use:
+ * - Blank lines and `#` comments are skipped
+ * - `!` re-includes a path excluded by an earlier pattern
+ * - A trailing `/` only matches directories
+ * - Patterns containing `/` are relative to the .gitignore's directory;
+ *   others match a name at any depth below it
+ * Wildcards are those of globToRegExp. The last matching pattern wins.
+ */
+
+import { globToRegExp } from './glob';
+
+export interface GitignoreRule {
+  pattern: RegExp;
+  negated: boolean;
+  directoryOnly: boolean;
+}
+
+/**
+ * Parses the contents of a .gitignore file
+ *
+ * @param content - File contents
+ * @param base - Directory of the file, relative to the search root ('' for the root)
+ */
+export function parseGitignore(content: string, base = ''): GitignoreRule[] {
+  const prefix = base ? `${base}/` : '';
+  const rules: GitignoreRule[] = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    let line = rawLine.trimEnd();
+    if (!line || line.startsWith('#')) {
+      continue;
+    }
+
+    const negated = line.startsWith('!');
+    if (negated) {
+      line = line.slice(1);
+    } else if (line.startsWith('\\')) {
+      // `\#` and `\!` match names that start with those characters
+      line = line.slice(1);
+    }
+
+    const directoryOnly = line.endsWith('/');
+    if (directoryOnly) {
+      line = line.slice(0, -1);
+    }
+    if (!line) {
+      continue;
+    }
+
+    const anchored = line.includes('/');
+    if (line.startsWith('/')) {
+      line = line.slice(1);
+    }
+
+    rules.push({
+      pattern: globToRegExp(anchored ? prefix + line : `${prefix}**/${line}`),
+      negated,
+      directoryOnly,
+    });
+  }
+
+  return rules;
+}
+
+/**
+ * Checks whether a path is ignored by a list of rules
+ *
+ * @param rules - Rules of all .gitignore files above the path, outermost first
+ * @param relativePath - Path relative to the search root, with `/` separators
+ * @param isDirectory - Whether the path is a directory
+ */
+export function isIgnored(
+  rules: GitignoreRule[],
+  relativePath: string,
+  isDirectory: boolean
+): boolean {
+  let ignored = false;
+  for (const rule of rules) {
+    if (
+      (!rule.directoryOnly || isDirectory) &&
+      rule.pattern.test(relativePath)
+    ) {
+      ignored = !rule.negated;
+    }
+  }
+  return ignored;
+}
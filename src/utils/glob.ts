@@ -0,0 +1,65 @@
+/**
+ * Glob matching utility module
+ *
+ * Minimal path glob support for permission rules:
+ * - `**` matches any sequence of characters, including `/`
+ * - `*` matches any sequence of characters except `/`
+ * - `?` matches a single character except `/`
+ * Patterns without wildcards match the exact path.
+ *
+ * Also provides plain wildcard matching for values that are not paths,
+ * such as command arguments.
+ */
+
+const REGEXP_SPECIAL_CHARS = /[.+^${}()|[\]\\]/g;
+
+/**
+ * Converts a glob pattern to an anchored regular expression
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]!;
+
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        // `**/` also matches zero directories
+        if (pattern[i + 2] === '/') {
+          source += '(?:.*/)?';
+          i += 2;
+        } else {
+          source += '.*';
+          i += 1;
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(REGEXP_SPECIAL_CHARS, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Checks whether a path matches a glob pattern
+ */
+export function matchGlob(pattern: string, filePath: string): boolean {
+  return globToRegExp(pattern).test(filePath);
+}
+
+/**
+ * Checks whether a value matches a wildcard pattern
+ * Unlike globs, `*` also matches `/`, so `--out=*` matches `--out=dist/x`.
+ */
+export function matchWildcard(pattern: string, value: string): boolean {
+  const source = pattern
+    .replace(REGEXP_SPECIAL_CHARS, '\\$&')
+    .replace(/\*/g, '.*')
+    .replace(/\?/g, '.');
+  return new RegExp(`^${source}$`).test(value);
+}
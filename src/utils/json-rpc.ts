@@ -9,6 +9,7 @@ import type {
   Error as JsonRpcError,
   RequestId,
 } from '@agentclientprotocol/sdk';
+import { AdapterError } from '../types';
 
 /**
  * Result of parameter validation
@@ -121,6 +122,37 @@ export function createErrorResponse(
   };
 }
 
+/**
+ * Converts an error to a JSON-RPC error object
+ *
+ * Adapter errors clients can act on (see `AdapterErrorCode`) keep their code
+ * and `data` payload; any other error gets `fallbackCode` with its name and
+ * stack as data.
+ *
+ * @param error - The caught error
+ * @param fallbackCode - Code for errors without their own (default -32603)
+ */
+export function toJsonRpcError(
+  error: unknown,
+  fallbackCode: number = JsonRpcErrorCode.INTERNAL_ERROR
+): JsonRpcError {
+  if (error instanceof AdapterError && error.rpcCode !== undefined) {
+    return {
+      code: error.rpcCode,
+      message: error.message,
+      ...(error.data && { data: error.data }),
+    };
+  }
+
+  return {
+    code: fallbackCode,
+    message: error instanceof Error ? error.message : 'Unknown error',
+    ...(error instanceof Error && {
+      data: { name: error.name, stack: error.stack },
+    }),
+  };
+}
+
 /**
  * Converts a request ID from AnyRequest format (string | number | null) to RequestId (null | bigint | string)
  * Per JSON-RPC 2.0 spec, request IDs can be string, number, or null
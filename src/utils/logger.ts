@@ -98,5 +98,11 @@ export function createLogger(options: LoggerOptions = {}): Logger {
     debug: (message: string, ...args: any[]): void => {
       winstonLogger.debug(message, ...args);
     },
+    setLevel: (newLevel): void => {
+      winstonLogger.level = newLevel;
+      for (const transport of transports) {
+        transport.level = newLevel;
+      }
+    },
   };
 }
@@ -0,0 +1,65 @@
+/**
+ * Workspace path utility module
+ *
+ * Resolves paths that tools are asked to touch against a session's working
+ * directory, following symbolic links, so tools can refuse paths that end
+ * up outside it.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+/**
+ * Resolves a path against a workspace root
+ * Symbolic links in the path are followed, except one named by the path
+ * itself when followLink is false.
+ *
+ * @param root - Real path of the workspace directory
+ * @param requestedPath - Absolute path, or path relative to root
+ * @returns The real path, or null when it is outside the workspace
+ */
+export async function resolveInWorkspace(
+  root: string,
+  requestedPath: string,
+  followLink = true
+): Promise<string | null> {
+  const resolved = path.resolve(root, requestedPath);
+  const realPath =
+    followLink || resolved === root
+      ? await realpathOfExisting(resolved)
+      : path.join(
+          await realpathOfExisting(path.dirname(resolved)),
+          path.basename(resolved)
+        );
+
+  const relative = path.relative(root, realPath);
+  return relative === '..' ||
+    relative.startsWith(`..${path.sep}`) ||
+    path.isAbsolute(relative)
+    ? null
+    : realPath;
+}
+
+/**
+ * Real path of a path whose last parts may not exist yet
+ */
+async function realpathOfExisting(target: string): Promise<string> {
+  const missing: string[] = [];
+  let current = target;
+
+  for (;;) {
+    try {
+      return path.join(await fs.realpath(current), ...missing);
+    } catch (error) {
+      const parent = path.dirname(current);
+      if (
+        parent === current ||
+        !['ENOENT', 'ENOTDIR'].includes((error as NodeJS.ErrnoException).code!)
+      ) {
+        throw error;
+      }
+      missing.unshift(path.basename(current));
+      current = parent;
+    }
+  }
+}
@@ -0,0 +1,87 @@
+#!/usr/bin/env node
+/**
+ * Minimal stdio MCP server used by the MCP tests
+ *
+ * Speaks newline-delimited JSON-RPC and offers two tools:
+ * - echo: returns its `text` argument (prefixed with MCP_ECHO_PREFIX if set)
+ * - fail: always returns an error result
+ *
+ * With MCP_EXIT_ON_CALL set, the server exits right after answering the first
+ * tool call, like a server that crashed mid-session.
+ */
+
+const readline = require('readline');
+
+const tools = [
+  {
+    name: 'echo',
+    description: 'Echoes the given text',
+    inputSchema: {
+      type: 'object',
+      properties: { text: { type: 'string', description: 'Text to echo' } },
+      required: ['text'],
+    },
+  },
+  {
+    name: 'fail',
+    description: 'Always fails',
+    inputSchema: { type: 'object', properties: {} },
+  },
+];
+
+function send(message) {
+  process.stdout.write(`${JSON.stringify({ jsonrpc: '2.0', ...message })}\n`);
+}
+
+function handle(request) {
+  switch (request.method) {
+    case 'initialize':
+      return {
+        protocolVersion: request.params.protocolVersion,
+        capabilities: { tools: {} },
+        serverInfo: { name: 'fixture-mcp-server', version: '1.0.0' },
+      };
+    case 'tools/list':
+      // Return one tool per page to exercise pagination
+      {
+        const index = Number(request.params.cursor || 0);
+        return {
+          tools: [tools[index]],
+          ...(index + 1 < tools.length && { nextCursor: String(index + 1) }),
+        };
+      }
+    case 'tools/call':
+      if (request.params.name === 'echo') {
+        const prefix = process.env.MCP_ECHO_PREFIX || '';
+        return {
+          content: [
+            { type: 'text', text: `${prefix}${request.params.arguments.text}` },
+          ],
+        };
+      }
+      return {
+        content: [{ type: 'text', text: 'fixture failure' }],
+        isError: true,
+      };
+    default:
+      throw new Error(`Method not found: ${request.method}`);
+  }
+}
+
+readline
+  .createInterface({ input: process.stdin })
+  .on('line', (line) => {
+    const request = JSON.parse(line);
+    if (request.id === undefined) {
+      return; // Notification
+    }
+    try {
+      send({ id: request.id, result: handle(request) });
+    } catch (error) {
+      send({ id: request.id, error: { code: -32601, message: error.message } });
+    }
+    if (request.method === 'tools/call' && process.env.MCP_EXIT_ON_CALL) {
+      process.exit(1);
+    }
+  })
+  .on('close', () => process.exit(0));
@@ -24,6 +24,8 @@ import { MockCursorCliBridge } from './mocks/cursor-bridge-mock';
 import { FilesystemToolProvider } from '../../src/tools/filesystem';
 import { AcpFileSystemClient } from '../../src/client/filesystem-client';
 import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import { CursorCliBridge } from '../../src/cursor/cli-bridge';
 
 // Mock the CursorCliBridge module
@@ -47,7 +49,7 @@ const mockClientAllowedPaths = ['/tmp', './'];
 // Test configuration
 const testConfig: AdapterConfig = {
   logLevel: 'debug',
-  sessionDir: '/tmp/cursor-test-sessions',
+  sessionDir: '', // Set to a temporary directory for each test
   maxSessions: 10,
   sessionTimeout: 60000, // Minimum 1 minute required by validation
   tools: {
@@ -77,6 +79,9 @@ describe('CursorAgentAdapter Integration', () => {
       return new MockCursorCliBridge(config, logger);
     });
 
+    testConfig.sessionDir = await fs.mkdtemp(
+      path.join(os.tmpdir(), 'cursor-sessions-')
+    );
     adapter = new CursorAgentAdapter(testConfig, { logger: mockLogger });
     await adapter.initialize();
 
@@ -157,6 +162,7 @@ describe('CursorAgentAdapter Integration', () => {
     }
     // Give time for all async cleanup to complete
     await new Promise((resolve) => setTimeout(resolve, 100));
+    await fs.rm(testConfig.sessionDir, { recursive: true, force: true });
   });
 
   describe('Initialization', () => {
@@ -863,6 +869,12 @@ describe('CursorAgentAdapter Integration', () => {
       });
 
       it('should execute filesystem tool', async () => {
+        // Writes need the client's permission
+        const requestPermission = jest.fn().mockResolvedValue({
+          outcome: { outcome: 'selected', optionId: 'allow-once' },
+        });
+        (adapter as any).agentConnection = { requestPermission };
+
         const request: AcpRequest = {
           jsonrpc: '2.0',
           method: 'tools/call',
@@ -882,6 +894,7 @@ describe('CursorAgentAdapter Integration', () => {
         expect(response.result).toBeDefined();
         expect(response.result.success).toBe(true);
         expect(response.result.result.path).toBe('/tmp/test-file.txt');
+        expect(requestPermission).toHaveBeenCalledTimes(1);
       });
 
       it('should reject terminal tool calls (terminals are client-side)', async () => {
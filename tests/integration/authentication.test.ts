@@ -0,0 +1,151 @@
+/**
+ * Integration tests for the ACP authenticate flow
+ *
+ * Runs the adapter against a fake cursor-agent executable on PATH that
+ * reports "Not logged in" until its `login` command has been run.
+ */
+
+import { jest } from '@jest/globals';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CursorAgentAdapter } from '../../src/adapter/cursor-agent-adapter';
+import type { AdapterConfig, Logger } from '../../src/types';
+
+const LOGIN_URL = 'https://cursor.com/loginDeepControl?challenge=test';
+
+const FAKE_CURSOR_AGENT = `#!/bin/sh
+STATE="$(dirname "$0")/logged-in"
+case "$1" in
+  --version) echo "1.2.3" ;;
+  status)
+    if [ -f "$STATE" ]; then echo "Logged in as dev@example.com"; else echo "Not logged in"; fi ;;
+  login)
+    echo "Open the following URL to log in: ${LOGIN_URL}"
+    touch "$STATE" ;;
+  create-chat) echo "chat-1" ;;
+  models) echo "auto - Auto" ;;
+  *) echo '{"type":"result","subtype":"success","is_error":false,"result":"Hello from cursor-agent"}' ;;
+esac
+`;
+
+describe('Authentication Integration Tests', () => {
+  let binDir: string;
+  let originalPath: string | undefined;
+  let adapter: CursorAgentAdapter;
+  let notifications: any[];
+  let originalStdoutWrite: typeof process.stdout.write;
+
+  const request = (method: string, params: Record<string, unknown>) =>
+    adapter.processRequest({ jsonrpc: '2.0', id: method, method, params });
+
+  const newSession = async (): Promise<string> => {
+    const response = await request('session/new', {
+      cwd: binDir,
+      mcpServers: [],
+    });
+    return response.result.sessionId;
+  };
+
+  const prompt = (sessionId: string) =>
+    request('session/prompt', {
+      sessionId,
+      prompt: [{ type: 'text', text: 'Hello' }],
+    });
+
+  beforeEach(async () => {
+    binDir = await fs.mkdtemp(path.join(os.tmpdir(), 'fake-cursor-agent-'));
+    const binary = path.join(binDir, 'cursor-agent');
+    await fs.writeFile(binary, FAKE_CURSOR_AGENT, { mode: 0o755 });
+    originalPath = process.env['PATH'];
+    process.env['PATH'] = `${binDir}${path.delimiter}${originalPath ?? ''}`;
+
+    notifications = [];
+    originalStdoutWrite = process.stdout.write;
+    process.stdout.write = jest.fn((data: string | Buffer) => {
+      notifications.push(JSON.parse(data.toString()));
+      return true;
+    }) as any;
+
+    const logger: Logger = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+    };
+    const config: AdapterConfig = {
+      logLevel: 'error',
+      sessionDir: path.join(binDir, 'sessions'),
+      maxSessions: 10,
+      sessionTimeout: 3600000,
+      tools: {
+        filesystem: { enabled: false },
+        terminal: { enabled: false, maxProcesses: 1 },
+      },
+      cursor: { timeout: 10000, retries: 0 },
+    };
+
+    adapter = new CursorAgentAdapter(config, { logger });
+    await adapter.initialize();
+  });
+
+  afterEach(async () => {
+    await adapter.shutdown();
+    process.stdout.write = originalStdoutWrite;
+    process.env['PATH'] = originalPath;
+    await fs.rm(binDir, { recursive: true, force: true });
+  });
+
+  it('should report the login method at initialize when not logged in', async () => {
+    const response = await request('initialize', { protocolVersion: 1 });
+
+    expect(response.result.authMethods).toEqual([
+      expect.objectContaining({ id: 'cursor-login' }),
+    ]);
+    expect(response.result._meta.authRequired).toBe(true);
+  });
+
+  it('should block prompts until authenticate has logged in', async () => {
+    await request('initialize', { protocolVersion: 1 });
+    const sessionId = await newSession();
+
+    const blocked = await prompt(sessionId);
+    expect(blocked.error).toMatchObject({
+      code: -32000,
+      data: { type: 'cursor_not_authenticated' },
+    });
+
+    const auth = await request('authenticate', { methodId: 'cursor-login' });
+    expect(auth.error).toBeUndefined();
+    expect(auth.result._meta).toEqual({ email: 'dev@example.com' });
+    expect(notifications).toContainEqual({
+      jsonrpc: '2.0',
+      method: '_cursor/login_url',
+      params: { methodId: 'cursor-login', url: LOGIN_URL },
+    });
+
+    const unblocked = await prompt(sessionId);
+    expect(unblocked.error).toBeUndefined();
+    expect(unblocked.result.stopReason).toBe('end_turn');
+  }, 20000);
+
+  it('should unblock prompts after a login from the terminal', async () => {
+    await request('initialize', { protocolVersion: 1 });
+    const sessionId = await newSession();
+    await fs.writeFile(path.join(binDir, 'logged-in'), '');
+
+    const response = await prompt(sessionId);
+
+    expect(response.error).toBeUndefined();
+    expect(response.result.stopReason).toBe('end_turn');
+  }, 20000);
+
+  it('should reject unknown authentication methods', async () => {
+    const response = await request('authenticate', { methodId: 'api-key' });
+
+    expect(response.error).toMatchObject({
+      code: -32602,
+      data: { supported: ['cursor-login'] },
+    });
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Integration tests for the cursor-agent launch configuration
+ *
+ * Runs the CLI bridge against fake cursor-agent executables configured
+ * through cursor.binaryPath, cursor.extraArgs and cursor.env.
+ */
+
+import { jest } from '@jest/globals';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CursorCliBridge } from '../../src/cursor/cli-bridge';
+import { SessionManager } from '../../src/session/manager';
+import {
+  CursorError,
+  CursorNotInstalledError,
+  type AdapterConfig,
+  type Logger,
+} from '../../src/types';
+
+// Logs every invocation as "<args> | <CURSOR_API_KEY>"
+const FAKE_CURSOR_AGENT = `#!/bin/sh
+echo "$* | $CURSOR_API_KEY" >> "$(dirname "$0")/calls.log"
+while [ "$1" = "--endpoint" ]; do shift 2; done
+case "$1" in
+  --version) echo "1.2.3" ;;
+  status) echo "Logged in as dev@example.com" ;;
+  create-chat) echo "chat-1" ;;
+  models) echo "auto - Auto" ;;
+esac
+`;
+
+const NOT_CURSOR_AGENT = `#!/bin/sh
+echo "usage: something-else [options]"
+`;
+
+describe('cursor-agent launch configuration', () => {
+  let binDir: string;
+  let logger: Logger;
+
+  const createConfig = (
+    cursor: Partial<AdapterConfig['cursor']>
+  ): AdapterConfig => ({
+    logLevel: 'error',
+    sessionDir: path.join(binDir, 'sessions'),
+    maxSessions: 10,
+    sessionTimeout: 3600000,
+    tools: {
+      filesystem: { enabled: false },
+      terminal: { enabled: false, maxProcesses: 1 },
+    },
+    cursor: { timeout: 10000, retries: 0, ...cursor },
+  });
+
+  const createBridge = (cursor: Partial<AdapterConfig['cursor']>) =>
+    new CursorCliBridge(createConfig(cursor), logger);
+
+  const readCalls = async (): Promise<string[]> =>
+    (await fs.readFile(path.join(binDir, 'calls.log'), 'utf8'))
+      .trim()
+      .split('\n');
+
+  beforeEach(async () => {
+    binDir = await fs.mkdtemp(path.join(os.tmpdir(), 'cursor-binary-'));
+    await fs.writeFile(path.join(binDir, 'agent'), FAKE_CURSOR_AGENT, {
+      mode: 0o755,
+    });
+    logger = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+    };
+  });
+
+  afterEach(async () => {
+    await fs.rm(binDir, { recursive: true, force: true });
+  });
+
+  it('should run the configured binary with extra arguments and environment', async () => {
+    const config = createConfig({
+      binaryPath: path.join(binDir, 'agent'),
+      extraArgs: ['--endpoint', 'https://proxy.example.com'],
+      env: { CURSOR_API_KEY: 'test-key' },
+    });
+    const bridge = new CursorCliBridge(config, logger);
+    const sessionManager = new SessionManager(config, logger);
+
+    expect(await bridge.getVersion()).toBe('1.2.3');
+    expect(await bridge.checkAuthentication()).toMatchObject({
+      authenticated: true,
+    });
+    expect(await bridge.createChat()).toBe('chat-1');
+    await sessionManager.loadModelsFromCursorAgent(bridge);
+
+    expect(await readCalls()).toEqual([
+      '--endpoint https://proxy.example.com --version | test-key',
+      '--endpoint https://proxy.example.com status | test-key',
+      '--endpoint https://proxy.example.com create-chat | test-key',
+      '--endpoint https://proxy.example.com models | test-key',
+    ]);
+
+    await sessionManager.cleanup();
+  });
+
+  it('should report a missing binary with its configured path', async () => {
+    const binaryPath = path.join(binDir, 'missing');
+    const bridge = createBridge({ binaryPath });
+
+    const error = await bridge.getVersion().catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(CursorNotInstalledError);
+    expect((error as Error).message).toBe(
+      `cursor-agent binary not found at ${binaryPath} (cursor.binaryPath)`
+    );
+  });
+
+  it('should report a binary that is not executable', async () => {
+    const binaryPath = path.join(binDir, 'not-executable');
+    await fs.writeFile(binaryPath, FAKE_CURSOR_AGENT, { mode: 0o644 });
+    const bridge = createBridge({ binaryPath });
+
+    await expect(bridge.getVersion()).rejects.toThrow(
+      `cursor-agent binary at ${binaryPath} is not executable`
+    );
+  });
+
+  it('should report a binary that is not cursor-agent', async () => {
+    const binaryPath = path.join(binDir, 'other');
+    await fs.writeFile(binaryPath, NOT_CURSOR_AGENT, { mode: 0o755 });
+    const bridge = createBridge({ binaryPath });
+
+    const error = await bridge.getVersion().catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(CursorError);
+    expect(error).toMatchObject({
+      code: 'CURSOR_INCOMPATIBLE',
+      message: expect.stringContaining(
+        `${binaryPath} does not look like cursor-agent`
+      ),
+    });
+  });
+});
@@ -8,7 +8,6 @@
 // Set test environment variables
 process.env.NODE_ENV = 'test';
 process.env.CURSOR_AGENT_ACP_LOG_LEVEL = 'error';
-process.env.CURSOR_AGENT_ACP_SESSION_DIR = '/tmp/cursor-test-sessions';
 
 // Increase max listeners to prevent warnings during test execution
 process.setMaxListeners(50);
@@ -7,6 +7,9 @@
  */
 
 import { jest } from '@jest/globals';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import { CursorAgentAdapter } from '../../src/adapter/cursor-agent-adapter';
 import type { AdapterConfig, Logger } from '../../src/types';
 import type {
@@ -36,7 +39,7 @@ const mockLogger: Logger = {
 // Test configuration
 const testConfig: AdapterConfig = {
   logLevel: 'debug',
-  sessionDir: '/tmp/cursor-test-sessions',
+  sessionDir: '', // Set to a temporary directory for each test
   maxSessions: 10,
   sessionTimeout: 60000,
   tools: {
@@ -60,6 +63,9 @@ describe('Extensibility Integration', () => {
 
   beforeEach(async () => {
     jest.clearAllMocks();
+    testConfig.sessionDir = await fs.mkdtemp(
+      path.join(os.tmpdir(), 'cursor-sessions-')
+    );
     adapter = new CursorAgentAdapter(testConfig, { logger: mockLogger });
 
     // Spy on sendNotification to verify notifications are sent
@@ -81,6 +87,7 @@ describe('Extensibility Integration', () => {
       mockSendNotification.mockRestore();
     }
     await new Promise((resolve) => setTimeout(resolve, 100));
+    await fs.rm(testConfig.sessionDir, { recursive: true, force: true });
   });
 
   describe('Extension Method Registration and Invocation', () => {
@@ -475,11 +482,14 @@ describe('Extensibility Integration', () => {
       const mockMethod2 = jest.fn().mockResolvedValue({});
       const mockNotification = jest.fn().mockResolvedValue(undefined);
 
+      // The adapter registers its own _cursor/* methods
+      const builtInCount = registry.getMethodCount();
+
       registry.registerMethod('_test/method1', mockMethod1);
       registry.registerMethod('_test/method2', mockMethod2);
       registry.registerNotification('_test/notification', mockNotification);
 
-      expect(registry.getMethodCount()).toBe(2);
+      expect(registry.getMethodCount()).toBe(builtInCount + 2);
       expect(registry.getNotificationCount()).toBe(1);
 
       registry.clear();
@@ -503,16 +513,17 @@ describe('Extensibility Integration', () => {
       const mockHandler1 = jest.fn().mockResolvedValue({});
       const mockHandler2 = jest.fn().mockResolvedValue({});
 
-      expect(registry.getMethodCount()).toBe(0);
+      // The adapter registers its own _cursor/* methods
+      const builtInCount = registry.getMethodCount();
 
       registry.registerMethod('_test/method1', mockHandler1);
-      expect(registry.getMethodCount()).toBe(1);
+      expect(registry.getMethodCount()).toBe(builtInCount + 1);
 
       registry.registerMethod('_test/method2', mockHandler2);
-      expect(registry.getMethodCount()).toBe(2);
+      expect(registry.getMethodCount()).toBe(builtInCount + 2);
 
       registry.unregisterMethod('_test/method1');
-      expect(registry.getMethodCount()).toBe(1);
+      expect(registry.getMethodCount()).toBe(builtInCount + 1);
 
       // Verify mock logger was called for each registration
       expect(mockLogger.debug).toHaveBeenCalledWith(
@@ -6,6 +6,9 @@
  */
 
 import { jest } from '@jest/globals';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import { CursorAgentAdapter } from '../../src/adapter/cursor-agent-adapter';
 import type {
   AcpRequest,
@@ -58,7 +61,7 @@ describe('Prompt Turn Integration Tests', () => {
 
     mockConfig = {
       logLevel: 'debug',
-      sessionDir: '~/.cursor-sessions-test',
+      sessionDir: await fs.mkdtemp(path.join(os.tmpdir(), 'cursor-sessions-')),
       maxSessions: 100,
       sessionTimeout: 3600000,
       tools: {
@@ -93,6 +96,7 @@ describe('Prompt Turn Integration Tests', () => {
     notifications = [];
     // Give time for all async cleanup to complete
     await new Promise((resolve) => setTimeout(resolve, 100));
+    await fs.rm(mockConfig.sessionDir, { recursive: true, force: true });
   });
 
   describe('1. Session Cancellation Tests', () => {
@@ -455,8 +459,8 @@ describe('Prompt Turn Integration Tests', () => {
       notifications = [];
     });
 
-    it('should send agent_thought_chunk notification at start of processing', async () => {
-      const promptPromise = adapter.processRequest({
+    it('should not send placeholder thoughts while processing', async () => {
+      await adapter.processRequest({
         jsonrpc: '2.0',
         method: 'session/prompt',
         id: 'notify-test-1',
@@ -466,22 +470,16 @@ describe('Prompt Turn Integration Tests', () => {
         },
       });
 
-      // Wait a bit for processing to start
-      await new Promise((resolve) => setTimeout(resolve, 100));
-
-      // Should have received agent_thought_chunk notification
+      // Thought chunks only carry reasoning reported by cursor-agent
       const thoughtNotification = notifications.find(
         (n) =>
           n.method === 'session/update' &&
           n.params?.update?.sessionUpdate === 'agent_thought_chunk'
       );
-
-      expect(thoughtNotification).toBeDefined();
-      expect(thoughtNotification?.params?.update?.content).toBeDefined();
-      expect(thoughtNotification?.params?.update?.content?.type).toBe('text');
-      expect(thoughtNotification?.params?.update?.content?.text).toBeDefined();
-
-      await promptPromise;
+      expect(thoughtNotification).toBeUndefined();
+      expect(notifications.some((n) => n.method === '_cursor/heartbeat')).toBe(
+        false
+      );
     }, 10000);
 
     it('should complete successfully with proper stopReason', async () => {
@@ -552,21 +550,11 @@ describe('Prompt Turn Integration Tests', () => {
         (n) => n.params?.update?.sessionUpdate
       );
 
-      // Should start with agent_thought_chunk (progress notification)
-      expect(updateTypes[0]).toBe('agent_thought_chunk');
-
-      // Should have agent_message_chunk (response content)
-      expect(updateTypes).toContain('agent_message_chunk');
-
-      // Verify we have both thought and message chunks
-      const thoughtChunks = updateTypes.filter(
-        (t) => t === 'agent_thought_chunk'
-      );
-      const messageChunks = updateTypes.filter(
-        (t) => t === 'agent_message_chunk'
-      );
-      expect(thoughtChunks.length).toBeGreaterThan(0);
-      expect(messageChunks.length).toBeGreaterThan(0);
+      // The echoed user message comes before the response content
+      const userIndex = updateTypes.indexOf('user_message_chunk');
+      const messageIndex = updateTypes.indexOf('agent_message_chunk');
+      expect(userIndex).toBeGreaterThanOrEqual(0);
+      expect(messageIndex).toBeGreaterThan(userIndex);
     }, 10000);
 
     it('should include sessionId in all notifications', async () => {
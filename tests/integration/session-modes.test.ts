@@ -12,6 +12,8 @@
  */
 
 import { jest } from '@jest/globals';
+import * as os from 'os';
+import * as path from 'path';
 import { CursorAgentAdapter } from '../../src/adapter/cursor-agent-adapter';
 import type { AdapterConfig, Logger } from '../../src/types';
 import type {
@@ -27,6 +29,7 @@ import { FilesystemToolProvider } from '../../src/tools/filesystem';
 import { AcpFileSystemClient } from '../../src/client/filesystem-client';
 import { promises as fs } from 'fs';
 import { MockCursorCliBridge } from './mocks/cursor-bridge-mock';
+import type { PromptOptions } from '../../src/cursor/cli-bridge';
 
 // Mock the CursorCliBridge module
 jest.mock('../../src/cursor/cli-bridge', () => ({
@@ -49,7 +52,7 @@ const mockClientAllowedPaths = ['/tmp', './'];
 // Test configuration
 const testConfig: AdapterConfig = {
   logLevel: 'debug',
-  sessionDir: '/tmp/cursor-test-sessions',
+  sessionDir: '', // Set to a temporary directory for each test
   maxSessions: 10,
   sessionTimeout: 60000,
   tools: {
@@ -72,6 +75,9 @@ describe('Session Modes Integration', () => {
 
   beforeEach(async () => {
     jest.clearAllMocks();
+    testConfig.sessionDir = await fs.mkdtemp(
+      path.join(os.tmpdir(), 'cursor-sessions-')
+    );
     adapter = new CursorAgentAdapter(testConfig, { logger: mockLogger });
     await adapter.initialize();
 
@@ -145,6 +151,7 @@ describe('Session Modes Integration', () => {
         // Ignore shutdown errors in tests
       }
     }
+    await fs.rm(testConfig.sessionDir, { recursive: true, force: true });
   });
 
   describe('session/new with modes', () => {
@@ -492,6 +499,167 @@ describe('Session Modes Integration', () => {
     });
   });
 
+  describe('mode behavior', () => {
+    let sessionId: string;
+
+    const setMode = (modeId: SessionModeId) =>
+      (adapter as any).processRequest({
+        jsonrpc: '2.0' as const,
+        id: 'set-mode',
+        method: 'session/set_mode',
+        params: { sessionId, modeId },
+      });
+
+    const sendPrompt = (text: string) =>
+      (adapter as any).processRequest({
+        jsonrpc: '2.0' as const,
+        id: 'prompt',
+        method: 'session/prompt',
+        params: {
+          sessionId,
+          prompt: [{ type: 'text', text }],
+          stream: false,
+        },
+      });
+
+    let sendPromptMock: jest.Mock<any>;
+
+    const getPromptOptions = () =>
+      sendPromptMock.mock.calls.map(([options]) => options as PromptOptions);
+
+    beforeEach(async () => {
+      sendPromptMock = jest.fn<any>().mockResolvedValue({
+        success: true,
+        stdout: 'Here is the plan.',
+        stderr: '',
+        exitCode: 0,
+      });
+      (adapter as any).cursorBridge.sendPrompt = sendPromptMock;
+
+      const createResponse = await (adapter as any).processRequest({
+        jsonrpc: '2.0' as const,
+        id: 1,
+        method: 'session/new',
+        params: { cwd: '/tmp', mcpServers: [] },
+      });
+      sessionId = createResponse.result.sessionId;
+    });
+
+    it('should run cursor-agent without --force in plan mode', async () => {
+      await setMode('plan');
+
+      await sendPrompt('Add error handling to the parser');
+
+      const [options] = getPromptOptions();
+      expect(options?.cursorArgs).toEqual(['--mode', 'plan']);
+      expect(options?.content.value).toMatch(/^You are in Plan mode\./);
+      expect(options?.content.value).toContain(
+        'Add error handling to the parser'
+      );
+    });
+
+    it('should let cursor-agent apply changes in the default mode', async () => {
+      await sendPrompt('Add error handling to the parser');
+
+      const [options] = getPromptOptions();
+      expect(options?.cursorArgs).toEqual(['--force']);
+      expect(options?.content.value).toMatch(/^You are in Ask mode\./);
+    });
+
+    it('should let cursor-agent apply changes in agent mode', async () => {
+      await setMode('agent');
+
+      await sendPrompt('Add error handling to the parser');
+
+      const [options] = getPromptOptions();
+      expect(options?.cursorArgs).toEqual(['--force']);
+    });
+
+    it('should not offer write tools in plan mode', async () => {
+      await setMode('plan');
+
+      const response = await (adapter as any).processRequest({
+        jsonrpc: '2.0' as const,
+        id: 'tools',
+        method: 'tools/list',
+        params: { sessionId },
+      });
+
+      const toolNames = response.result.tools.map(
+        (tool: { name: string }) => tool.name
+      );
+      expect(toolNames).toContain('read_file');
+      expect(toolNames).not.toContain('write_file');
+      expect(toolNames).not.toContain('apply_code_changes');
+    });
+
+    it('should switch to modes defined in the configuration', async () => {
+      (adapter as any).config.modes = [
+        {
+          id: 'test-fixer',
+          name: 'Test fixer',
+          description: 'Fix failing tests',
+          availableTools: ['read_file', 'write_file'],
+          permissionBehavior: 'auto',
+        },
+      ];
+
+      const response = await setMode('test-fixer' as SessionModeId);
+      const toolsResponse = await (adapter as any).processRequest({
+        jsonrpc: '2.0' as const,
+        id: 'tools',
+        method: 'tools/list',
+        params: { sessionId },
+      });
+      const loadResponse = await (adapter as any).processRequest({
+        jsonrpc: '2.0' as const,
+        id: 'load',
+        method: 'session/load',
+        params: { sessionId, cwd: '/tmp', mcpServers: [] },
+      });
+
+      expect(response.error).toBeUndefined();
+      expect(
+        toolsResponse.result.tools.map((tool: { name: string }) => tool.name)
+      ).toEqual(['read_file', 'write_file']);
+      const modes = loadResponse.result.modes as SessionModeState;
+      expect(modes.currentModeId).toBe('test-fixer');
+      expect(modes.availableModes).toContainEqual({
+        id: 'test-fixer',
+        name: 'Test fixer',
+        description: 'Fix failing tests',
+      });
+    });
+
+    it('should never write files in plan mode', async () => {
+      const filePath = `/tmp/cursor-plan-mode-${Date.now()}.txt`;
+      await setMode('plan');
+
+      await sendPrompt(`Write "hello" to ${filePath}`);
+      const response = await (adapter as any).processRequest({
+        jsonrpc: '2.0' as const,
+        id: 'write',
+        method: 'tools/call',
+        params: {
+          name: 'write_file',
+          parameters: {
+            _sessionId: sessionId,
+            path: filePath,
+            content: 'hello',
+          },
+        },
+      });
+
+      expect(response.error?.message).toContain(
+        'Tool not available in the current session mode'
+      );
+      await expect(fs.access(filePath)).rejects.toThrow();
+      for (const options of getPromptOptions()) {
+        expect(options.cursorArgs).not.toContain('--force');
+      }
+    });
+  });
+
   describe('ACP spec compliance', () => {
     it('should have currentModeId in availableModes', async () => {
       // Arrange
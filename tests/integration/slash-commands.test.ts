@@ -12,6 +12,9 @@
  */
 
 import { jest } from '@jest/globals';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import { CursorAgentAdapter } from '../../src/adapter/cursor-agent-adapter';
 import { SlashCommandsRegistry } from '../../src/tools/slash-commands';
 import type { AdapterConfig, Logger } from '../../src/types';
@@ -39,7 +42,7 @@ const mockLogger: Logger = {
 // Test configuration
 const testConfig: AdapterConfig = {
   logLevel: 'debug',
-  sessionDir: '/tmp/cursor-test-sessions',
+  sessionDir: '', // Set to a temporary directory for each test
   maxSessions: 10,
   sessionTimeout: 60000,
   tools: {
@@ -65,6 +68,10 @@ describe('Slash Commands Integration', () => {
     jest.clearAllMocks();
     capturedNotifications = [];
 
+    testConfig.sessionDir = await fs.mkdtemp(
+      path.join(os.tmpdir(), 'cursor-sessions-')
+    );
+
     adapter = new CursorAgentAdapter(testConfig, { logger: mockLogger });
 
     // Capture notifications sent by adapter
@@ -105,6 +112,7 @@ describe('Slash Commands Integration', () => {
     if (adapter) {
       await adapter.shutdown();
     }
+    await fs.rm(testConfig.sessionDir, { recursive: true, force: true });
   });
 
   describe('Advertising Commands on Session Creation', () => {
@@ -13,6 +13,9 @@
  */
 
 import { jest } from '@jest/globals';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import { CursorAgentAdapter } from '../../src/adapter/cursor-agent-adapter';
 import { createLogger } from '../../src/utils/logger';
 import type { AdapterConfig, Logger } from '../../src/types';
@@ -43,7 +46,7 @@ describe('Stdio Transport Integration Tests', () => {
 
   const DEFAULT_CONFIG: AdapterConfig = {
     logLevel: 'error',
-    sessionDir: '/tmp/test-sessions',
+    sessionDir: '', // Set to a temporary directory for each test
     maxSessions: 100,
     sessionTimeout: 3600000,
     tools: {
@@ -56,7 +59,7 @@ describe('Stdio Transport Integration Tests', () => {
     },
   };
 
-  beforeEach(() => {
+  beforeEach(async () => {
     logger = createLogger({ level: 'error' });
     stdoutData = [];
 
@@ -73,6 +76,10 @@ describe('Stdio Transport Integration Tests', () => {
       },
     });
 
+    DEFAULT_CONFIG.sessionDir = await fs.mkdtemp(
+      path.join(os.tmpdir(), 'cursor-sessions-')
+    );
+
     adapter = new CursorAgentAdapter(DEFAULT_CONFIG, { logger });
   });
 
@@ -84,6 +91,7 @@ describe('Stdio Transport Integration Tests', () => {
         // Ignore shutdown errors in tests
       }
     }
+    await fs.rm(DEFAULT_CONFIG.sessionDir, { recursive: true, force: true });
   });
 
   describe('Newline-Delimited Message Format', () => {
@@ -68,6 +68,10 @@ jest.mock('fs', () => {
           mockFiles.set(filePath, content);
           return undefined;
         }),
+      // Session persistence writes are no-ops
+      mkdir: jest.fn().mockImplementation(async () => undefined),
+      rename: jest.fn().mockImplementation(async () => undefined),
+      rm: jest.fn().mockImplementation(async () => undefined),
     },
   };
 });
@@ -558,6 +562,30 @@ describe('Tool Calls Integration', () => {
 
       expect(response.result?.outcome.optionId).toBe('reject-once');
     });
+
+    it('should cancel tool permission requests without a client connection', async () => {
+      const toolCallManager = (adapter as any).toolCallManager;
+      const toolCallId = await toolCallManager.reportToolCall(
+        'test_session',
+        'run_command',
+        { title: 'Running rm -rf build', kind: 'execute' }
+      );
+
+      const outcome = await toolCallManager.requestToolPermission(
+        'test_session',
+        toolCallId,
+        [
+          { optionId: 'allow-once', name: 'Allow', kind: 'allow_once' },
+          { optionId: 'reject-once', name: 'Reject', kind: 'reject_once' },
+        ]
+      );
+
+      expect(outcome).toEqual({ outcome: 'cancelled' });
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        'No client connection for permission request',
+        expect.objectContaining({ toolCallId })
+      );
+    });
   });
 
   describe('Backward Compatibility', () => {
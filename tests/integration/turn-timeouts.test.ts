@@ -0,0 +1,121 @@
+/**
+ * Integration tests for the time limits of streamed prompt turns
+ *
+ * Runs sendStreamingPrompt against fake cursor-agent executables that stop
+ * writing output or keep a turn running.
+ */
+
+import { jest } from '@jest/globals';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CursorCliBridge } from '../../src/cursor/cli-bridge';
+import {
+  CursorTimeoutError,
+  type AdapterConfig,
+  type Logger,
+  type StreamChunk,
+} from '../../src/types';
+
+const ASSISTANT_EVENT =
+  '{"type":"assistant","message":{"role":"assistant","content":[{"type":"text","text":"Partial answer"}]}}';
+
+// Writes one message, then goes quiet
+const QUIET_CURSOR_AGENT = `#!/bin/sh
+echo '${ASSISTANT_EVENT}'
+exec sleep 5
+`;
+
+// Keeps writing output without finishing the turn
+const BUSY_CURSOR_AGENT = `#!/bin/sh
+while true; do
+  echo '${ASSISTANT_EVENT}'
+  sleep 0.1
+done
+`;
+
+describe('Turn time limits', () => {
+  let binDir: string;
+  let logger: Logger;
+
+  const runPrompt = async (
+    script: string,
+    limits: { idleTimeoutMs: number; turnTimeoutMs?: number }
+  ): Promise<{ error: unknown; chunks: StreamChunk[] }> => {
+    const binaryPath = path.join(binDir, 'cursor-agent');
+    await fs.writeFile(binaryPath, script, { mode: 0o755 });
+    const config: AdapterConfig = {
+      logLevel: 'error',
+      sessionDir: path.join(binDir, 'sessions'),
+      maxSessions: 10,
+      sessionTimeout: 3600000,
+      tools: {
+        filesystem: { enabled: false },
+        terminal: { enabled: false, maxProcesses: 1 },
+      },
+      cursor: { timeout: 30000, retries: 0, binaryPath },
+    };
+    const bridge = new CursorCliBridge(config, logger);
+    const chunks: StreamChunk[] = [];
+
+    const error = await bridge
+      .sendStreamingPrompt({
+        sessionId: 'session-1',
+        content: { value: 'Hello', metadata: {} },
+        metadata: { cwd: binDir },
+        ...limits,
+        onChunk: async (chunk) => {
+          chunks.push(chunk);
+        },
+      })
+      .catch((e: unknown) => e);
+
+    return { error, chunks };
+  };
+
+  beforeEach(async () => {
+    binDir = await fs.mkdtemp(path.join(os.tmpdir(), 'turn-timeouts-'));
+    logger = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+    };
+  });
+
+  afterEach(async () => {
+    await fs.rm(binDir, { recursive: true, force: true });
+  });
+
+  it('should stop a turn that produces no output within the idle limit', async () => {
+    const { error, chunks } = await runPrompt(QUIET_CURSOR_AGENT, {
+      idleTimeoutMs: 300,
+    });
+
+    expect(error).toBeInstanceOf(CursorTimeoutError);
+    expect(error).toMatchObject({ limit: 'idle', timeoutMs: 300 });
+    // Output received before the timeout reaches the caller
+    expect(chunks).toContainEqual({
+      type: 'event',
+      data: expect.objectContaining({
+        type: 'assistant',
+        text: 'Partial answer',
+      }),
+    });
+  });
+
+  it('should stop a busy turn at the absolute limit', async () => {
+    const { error, chunks } = await runPrompt(BUSY_CURSOR_AGENT, {
+      idleTimeoutMs: 300,
+      turnTimeoutMs: 800,
+    });
+
+    expect(error).toBeInstanceOf(CursorTimeoutError);
+    expect(error).toMatchObject({
+      limit: 'turn',
+      timeoutMs: 800,
+      data: { type: 'timeout', limit: 'turn' },
+    });
+    expect(chunks.length).toBeGreaterThan(1);
+  });
+});
@@ -49,7 +49,6 @@ Object.defineProperty(process, 'exit', {
 // Mock environment variables for consistent testing
 process.env.NODE_ENV = 'test';
 process.env.CURSOR_AGENT_ACP_LOG_LEVEL = 'error';
-process.env.CURSOR_AGENT_ACP_SESSION_DIR = '/tmp/test-sessions';
 
 // Global test helpers
 declare global {
@@ -214,9 +213,7 @@ export const testHelpers = {
     const path = await import('path');
     const os = await import('os');
 
-    const tempDir = path.join(os.tmpdir(), `cursor-acp-test-${Date.now()}`);
-    await fs.mkdir(tempDir, { recursive: true });
-    return tempDir;
+    return fs.mkdtemp(path.join(os.tmpdir(), 'cursor-acp-test-'));
   },
 
   // Clean up temporary directory
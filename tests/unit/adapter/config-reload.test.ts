@@ -0,0 +1,195 @@
+/**
+ * Unit tests for configuration hot-reload in CursorAgentAdapter
+ *
+ * Tests that safe changes reach the running components and that other
+ * changes are rejected with a logged reason.
+ */
+
+import { CursorAgentAdapter } from '../../../src/adapter/cursor-agent-adapter';
+import { TerminalManager } from '../../../src/tools/terminal-manager';
+import type { AdapterConfig, Logger } from '../../../src/types';
+import type { AgentSideConnection } from '@agentclientprotocol/sdk';
+import { testHelpers } from '../../setup';
+
+// Mock the CursorCliBridge module to prevent actual CLI calls
+jest.mock('../../../src/cursor/cli-bridge', () => ({
+  CursorCliBridge: jest.fn().mockImplementation(() => ({
+    getVersion: jest.fn().mockResolvedValue('1.0.0-mock'),
+    checkAuthentication: jest
+      .fn()
+      .mockResolvedValue({ authenticated: true, user: 'test-user' }),
+    close: jest.fn().mockResolvedValue(undefined),
+  })),
+}));
+
+describe('CursorAgentAdapter - Configuration Reload', () => {
+  let adapter: CursorAgentAdapter;
+  let mockConfig: AdapterConfig;
+  let mockLogger: jest.Mocked<Required<Logger>>;
+  let sessionDir: string;
+
+  const withChanges = (
+    update: (config: AdapterConfig) => void
+  ): AdapterConfig => {
+    const next = structuredClone(mockConfig);
+    update(next);
+    return next;
+  };
+
+  beforeEach(async () => {
+    sessionDir = await testHelpers.createTempDir();
+    mockConfig = {
+      logLevel: 'info',
+      sessionDir,
+      maxSessions: 10,
+      sessionTimeout: 60000,
+      tools: {
+        filesystem: { enabled: false },
+        terminal: {
+          enabled: true,
+          maxProcesses: 3,
+        },
+      },
+      cursor: {
+        timeout: 30000,
+        retries: 1,
+      },
+    };
+    mockLogger = {
+      error: jest.fn(),
+      warn: jest.fn(),
+      info: jest.fn(),
+      debug: jest.fn(),
+      setLevel: jest.fn(),
+    };
+    adapter = new CursorAgentAdapter(mockConfig, { logger: mockLogger });
+    await adapter.initialize();
+  });
+
+  afterEach(async () => {
+    if (adapter) {
+      await adapter.shutdown().catch(() => {
+        // Ignore shutdown errors
+      });
+    }
+    await testHelpers.cleanupTempDir(sessionDir);
+  });
+
+  it('should apply log level and session limit changes', async () => {
+    const result = await adapter.reloadConfig(
+      withChanges((next) => {
+        next.logLevel = 'debug';
+        next.maxSessions = 2;
+      })
+    );
+
+    expect(result).toEqual({
+      applied: ['logLevel', 'maxSessions'],
+      rejected: [],
+    });
+    expect(mockLogger.setLevel).toHaveBeenCalledWith('debug');
+    expect(mockConfig.maxSessions).toBe(2);
+    expect(mockLogger.info).toHaveBeenCalledWith('Configuration reloaded', {
+      applied: ['logLevel', 'maxSessions'],
+    });
+  });
+
+  it('should apply terminal policy changes to the terminal manager', async () => {
+    const terminalManager = new TerminalManager(
+      {
+        clientSupportsTerminals: true,
+        maxConcurrentTerminals: 3,
+      },
+      {} as AgentSideConnection,
+      mockLogger
+    );
+    adapter.setTerminalManager(terminalManager);
+
+    await adapter.reloadConfig(
+      withChanges((next) => {
+        next.tools.terminal.forbiddenCommands = ['rm'];
+      })
+    );
+
+    await expect(
+      terminalManager.createTerminal('session-1', { command: 'rm -rf /' })
+    ).rejects.toThrow('Command contains forbidden pattern');
+  });
+
+  it('should reload tools when cursor tools are disabled', async () => {
+    const registry = adapter.getToolRegistry()!;
+    expect(registry.hasTool('search_codebase')).toBe(true);
+
+    await adapter.reloadConfig(
+      withChanges((next) => {
+        next.tools.cursor = { enabled: false };
+      })
+    );
+
+    expect(registry.hasTool('search_codebase')).toBe(false);
+  });
+
+  it('should move sessions out of removed modes', async () => {
+    mockConfig.modes = [{ id: 'review', name: 'Review', cursorArgs: [] }];
+    const sessionManager = (adapter as any).sessionManager;
+    const session = await sessionManager.createSession({ cwd: '/tmp' });
+    await sessionManager.setSessionMode(session.id, 'review');
+    const sendNotification = jest
+      .spyOn(adapter, 'sendNotification')
+      .mockImplementation(() => undefined);
+
+    await adapter.reloadConfig(
+      withChanges((next) => {
+        next.modes = [];
+      })
+    );
+
+    expect(sessionManager.getSessionMode(session.id)).toBe('plan');
+    expect(sendNotification).toHaveBeenCalledWith({
+      jsonrpc: '2.0',
+      method: 'session/update',
+      params: {
+        sessionId: session.id,
+        update: {
+          sessionUpdate: 'current_mode_update',
+          currentModeId: 'plan',
+        },
+      },
+    });
+  });
+
+  it('should reject changes that need a restart', async () => {
+    const result = await adapter.reloadConfig(
+      withChanges((next) => {
+        next.sessionDir = '/tmp/elsewhere';
+        next.cursor.timeout = 60000;
+      })
+    );
+
+    expect(result.applied).toEqual(['cursor.timeout']);
+    expect(result.rejected).toEqual([
+      { path: 'sessionDir', reason: expect.any(String) },
+    ]);
+    expect(mockConfig.sessionDir).toBe(sessionDir);
+    expect(mockConfig.cursor.timeout).toBe(60000);
+    expect(mockLogger.warn).toHaveBeenCalledWith(
+      expect.stringContaining('Configuration change to sessionDir not applied')
+    );
+  });
+
+  it('should reject an invalid configuration as a whole', async () => {
+    const result = await adapter.reloadConfig(
+      withChanges((next) => {
+        next.logLevel = 'debug';
+        next.maxSessions = -1;
+      })
+    );
+
+    expect(result.applied).toEqual([]);
+    expect(result.rejected).toEqual([
+      { path: '*', reason: expect.stringContaining('maxSessions') },
+    ]);
+    expect(mockConfig.logLevel).toBe('info');
+    expect(mockLogger.setLevel).not.toHaveBeenCalled();
+  });
+});
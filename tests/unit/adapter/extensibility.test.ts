@@ -8,6 +8,7 @@
 import { CursorAgentAdapter } from '../../../src/adapter/cursor-agent-adapter';
 import type { AdapterConfig } from '../../../src/types';
 import type { Request } from '@agentclientprotocol/sdk';
+import { testHelpers } from '../../setup';
 
 // Mock the CursorCliBridge module to prevent actual CLI calls
 jest.mock('../../../src/cursor/cli-bridge', () => ({
@@ -23,11 +24,13 @@ jest.mock('../../../src/cursor/cli-bridge', () => ({
 describe('CursorAgentAdapter - Extensibility', () => {
   let adapter: CursorAgentAdapter;
   let mockConfig: AdapterConfig;
+  let sessionDir: string;
 
-  beforeEach(() => {
+  beforeEach(async () => {
+    sessionDir = await testHelpers.createTempDir();
     mockConfig = {
       logLevel: 'debug',
-      sessionDir: '/tmp/cursor-test-sessions',
+      sessionDir,
       maxSessions: 10,
       sessionTimeout: 60000,
       tools: {
@@ -51,6 +54,7 @@ describe('CursorAgentAdapter - Extensibility', () => {
         // Ignore shutdown errors
       });
     }
+    await testHelpers.cleanupTempDir(sessionDir);
   });
 
   describe('Extension Registry', () => {
@@ -226,6 +230,89 @@ describe('CursorAgentAdapter - Extensibility', () => {
     });
   });
 
+  describe('Permission Rule Extension Methods', () => {
+    beforeEach(async () => {
+      await adapter.initialize();
+    });
+
+    const call = (method: string, params: Record<string, unknown>) =>
+      adapter.processRequest({
+        jsonrpc: '2.0',
+        id: 1,
+        method,
+        params,
+      } as Request);
+
+    it('should list and revoke remembered permission rules', async () => {
+      const store = (adapter as any).permissionStore;
+      const [rule] = await store.recordDecision(
+        'session-1',
+        { toolCallId: 'call-1', kind: 'execute', rawInput: { command: 'ls' } },
+        'allow'
+      );
+
+      const listed = await call('_cursor/permission_rules', {
+        sessionId: 'session-1',
+      });
+      expect((listed.result as any).rules).toEqual([
+        expect.objectContaining({
+          id: rule.id,
+          decision: 'allow',
+          commandPrefix: 'ls',
+          description: 'allow execute, command "ls"',
+        }),
+      ]);
+
+      const revoked = await call('_cursor/revoke_permission_rule', {
+        sessionId: 'session-1',
+        ruleId: rule.id,
+      });
+      expect((revoked.result as any).revoked).toBe(true);
+      expect(await store.listRules('session-1')).toEqual([]);
+    });
+
+    it('should return JSON-RPC error without a sessionId', async () => {
+      const response = await call('_cursor/permission_rules', {});
+
+      expect(response.error).toBeDefined();
+      expect(response.error?.code).toBe(-32603);
+    });
+  });
+
+  describe('Usage Extension Method', () => {
+    beforeEach(async () => {
+      await adapter.initialize();
+    });
+
+    it('should report the usage accumulated by a session', async () => {
+      const sessionManager = (adapter as any).sessionManager;
+      const session = await sessionManager.createSession({});
+      await sessionManager.recordTurnUsage(session.id, {
+        model: 'auto',
+        inputTokens: 30,
+        outputTokens: 12,
+        totalTokens: 42,
+        durationMs: 800,
+      });
+
+      const response = await adapter.processRequest({
+        jsonrpc: '2.0',
+        id: 1,
+        method: '_cursor/usage',
+        params: { sessionId: session.id },
+      } as Request);
+
+      expect(response.result).toEqual({
+        sessionId: session.id,
+        usage: expect.objectContaining({
+          turns: 1,
+          totalTokens: 42,
+          byModel: { auto: expect.objectContaining({ totalTokens: 42 }) },
+        }),
+      });
+    });
+  });
+
   describe('Agent Implementation Extension Methods', () => {
     beforeEach(async () => {
       await adapter.initialize();
@@ -363,6 +450,27 @@ describe('CursorAgentAdapter - Extensibility', () => {
       );
     });
 
+    it('should advertise built-in cursor extension methods', async () => {
+      const request: Request = {
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'initialize',
+        params: {
+          protocolVersion: 1,
+        },
+      };
+
+      const response = await adapter.processRequest(request);
+      const capabilities = (response.result as any)?.agentCapabilities;
+
+      expect(capabilities?._meta?.cursor?.methods).toEqual(
+        expect.arrayContaining([
+          '_cursor/permission_rules',
+          '_cursor/revoke_permission_rule',
+        ])
+      );
+    });
+
     it('should not include extension capabilities if none registered', async () => {
       const request: Request = {
         jsonrpc: '2.0',
@@ -391,6 +499,8 @@ describe('CursorAgentAdapter - Extensibility', () => {
             'description',
             'implementation',
             'repositoryUrl',
+            // Built-in _cursor/* extension methods
+            'cursor',
           ].includes(key)
       );
       expect(extensionKeys.length).toBe(0);
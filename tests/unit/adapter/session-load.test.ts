@@ -5,6 +5,7 @@
 
 import { CursorAgentAdapter } from '../../../src/adapter/cursor-agent-adapter';
 import type { AdapterConfig, AcpRequest, Logger } from '../../../src/types';
+import { testHelpers } from '../../setup';
 
 // Mock the CursorCliBridge module
 jest.mock('../../../src/cursor/cli-bridge', () => ({
@@ -28,9 +29,8 @@ const mockLogger: Logger = {
 };
 
 // Test configuration
-const testConfig: AdapterConfig = {
+const testConfig: Omit<AdapterConfig, 'sessionDir'> = {
   logLevel: 'debug',
-  sessionDir: '/tmp/cursor-test-sessions',
   maxSessions: 10,
   sessionTimeout: 60000,
   tools: {
@@ -51,10 +51,12 @@ const testConfig: AdapterConfig = {
 describe('CursorAgentAdapter - session/load', () => {
   let adapter: CursorAgentAdapter;
   let sentNotifications: any[];
+  let sessionDir: string;
 
   beforeEach(async () => {
     jest.clearAllMocks();
     sentNotifications = [];
+    sessionDir = await testHelpers.createTempDir();
 
     // Spy on process.stdout.write to capture notifications
     jest.spyOn(process.stdout, 'write').mockImplementation((chunk: any) => {
@@ -70,7 +72,10 @@ describe('CursorAgentAdapter - session/load', () => {
       return true;
     });
 
-    adapter = new CursorAgentAdapter(testConfig, { logger: mockLogger });
+    adapter = new CursorAgentAdapter(
+      { ...testConfig, sessionDir },
+      { logger: mockLogger }
+    );
     await adapter.initialize();
 
     // Create a session first for loading
@@ -99,6 +104,7 @@ describe('CursorAgentAdapter - session/load', () => {
       }
     }
     await new Promise((resolve) => setTimeout(resolve, 100));
+    await testHelpers.cleanupTempDir(sessionDir);
   });
 
   describe('cwd validation', () => {
@@ -424,4 +430,153 @@ describe('CursorAgentAdapter - session/load', () => {
       );
     });
   });
+
+  describe('expired sessions', () => {
+    it('should load a session after it expires from memory', async () => {
+      const createResponse = await adapter.processRequest({
+        jsonrpc: '2.0',
+        method: 'session/new',
+        id: 'test-create-expired',
+        params: { cwd: '/tmp/test', mcpServers: [] },
+      });
+      const sessionId = createResponse.result.sessionId;
+      const sessionManager = (adapter as any).sessionManager;
+      await sessionManager.addMessage(sessionId, {
+        id: 'user-1',
+        role: 'user',
+        content: [{ type: 'text', text: 'Yesterday' }],
+        timestamp: new Date(),
+      });
+
+      const session = await sessionManager.loadSession(sessionId);
+      session.state.lastActivity = new Date(
+        Date.now() - testConfig.sessionTimeout - 1000
+      );
+      await sessionManager.cleanupExpiredSessions();
+      expect(sessionManager.hasSession(sessionId)).toBe(false);
+      sentNotifications = [];
+
+      const response = await adapter.processRequest({
+        jsonrpc: '2.0',
+        method: 'session/load',
+        id: 'test-load-expired',
+        params: { sessionId, cwd: '/tmp/test', mcpServers: [] },
+      });
+
+      expect(response.error).toBeUndefined();
+      expect(response.result).toBeDefined();
+      expect(
+        sentNotifications
+          .map((n) => n.params.update)
+          .find((u) => u.sessionUpdate === 'user_message_chunk')
+      ).toMatchObject({ content: { type: 'text', text: 'Yesterday' } });
+    });
+  });
+
+  describe('history replay', () => {
+    it('should replay tool calls, thoughts and plans in order', async () => {
+      const createResponse = await adapter.processRequest({
+        jsonrpc: '2.0',
+        method: 'session/new',
+        id: 'test-create-history',
+        params: { cwd: '/tmp/test', mcpServers: [] },
+      });
+      const sessionId = createResponse.result.sessionId;
+      const sessionManager = (adapter as any).sessionManager;
+      const send = (update: Record<string, unknown>) =>
+        adapter.sendNotification({
+          jsonrpc: '2.0',
+          method: 'session/update',
+          params: { sessionId, update },
+        });
+
+      // Simulate a turn as PromptHandler runs it
+      sessionManager.startTurnRecording(sessionId);
+      await sessionManager.addMessage(sessionId, {
+        id: 'user-1',
+        role: 'user',
+        content: [{ type: 'text', text: 'Fix the bug' }],
+        timestamp: new Date(),
+      });
+      send({
+        sessionUpdate: 'user_message_chunk',
+        content: { type: 'text', text: 'Fix the bug' },
+      });
+      send({
+        sessionUpdate: 'agent_thought_chunk',
+        content: { type: 'text', text: 'Looking at ' },
+      });
+      send({
+        sessionUpdate: 'agent_thought_chunk',
+        content: { type: 'text', text: 'the code' },
+      });
+      send({
+        sessionUpdate: 'plan',
+        entries: [
+          { content: 'Edit main.ts', priority: 'high', status: 'pending' },
+        ],
+      });
+      send({
+        sessionUpdate: 'tool_call',
+        toolCallId: 'tool-1',
+        title: 'Edit main.ts',
+        kind: 'edit',
+        status: 'pending',
+      });
+      send({
+        sessionUpdate: 'tool_call_update',
+        toolCallId: 'tool-1',
+        status: 'completed',
+        content: [
+          {
+            type: 'diff',
+            path: '/tmp/test/main.ts',
+            oldText: 'a',
+            newText: 'b',
+          },
+        ],
+      });
+      send({
+        sessionUpdate: 'agent_message_chunk',
+        content: { type: 'text', text: 'Fixed.' },
+      });
+      await sessionManager.addMessage(sessionId, {
+        id: 'assistant-1',
+        role: 'assistant',
+        content: [{ type: 'text', text: 'Fixed.' }],
+        timestamp: new Date(),
+      });
+      await sessionManager.finishTurnRecording(sessionId);
+      sentNotifications = [];
+
+      await adapter.processRequest({
+        jsonrpc: '2.0',
+        method: 'session/load',
+        id: 'test-load-history',
+        params: { sessionId, cwd: '/tmp/test', mcpServers: [] },
+      });
+
+      const replayed = sentNotifications
+        .map((n) => n.params.update)
+        .filter((u) => u.sessionUpdate !== 'available_commands_update');
+      expect(replayed.map((u) => u.sessionUpdate)).toEqual([
+        'user_message_chunk',
+        'agent_thought_chunk',
+        'plan',
+        'tool_call',
+        'tool_call_update',
+        'agent_message_chunk',
+      ]);
+      expect(replayed[1].content.text).toBe('Looking at the code');
+      expect(replayed[3]).toMatchObject({
+        toolCallId: 'tool-1',
+        status: 'pending',
+      });
+      expect(replayed[4]).toMatchObject({
+        toolCallId: 'tool-1',
+        status: 'completed',
+        content: [expect.objectContaining({ type: 'diff', newText: 'b' })],
+      });
+    });
+  });
 });
@@ -6,6 +6,8 @@
  */
 
 import { jest } from '@jest/globals';
+import * as os from 'os';
+import * as path from 'path';
 import { CursorAgentAdapter } from '../../../src/adapter/cursor-agent-adapter';
 import type {
   AdapterConfig,
@@ -13,6 +15,7 @@ import type {
   AcpResponse,
   Logger,
 } from '../../../src/types';
+import { testHelpers } from '../../setup';
 
 // Mock the CursorCliBridge module
 jest.mock('../../../src/cursor/cli-bridge', () => ({
@@ -36,9 +39,8 @@ const mockLogger: Logger = {
 };
 
 // Test configuration
-const testConfig: AdapterConfig = {
+const testConfig: Omit<AdapterConfig, 'sessionDir'> = {
   logLevel: 'debug',
-  sessionDir: '/tmp/cursor-test-sessions',
   maxSessions: 10,
   sessionTimeout: 60000,
   tools: {
@@ -60,10 +62,12 @@ const testConfig: AdapterConfig = {
 describe('session/new - Parameter Validation', () => {
   let adapter: CursorAgentAdapter;
   let sentNotifications: any[];
+  let sessionDir: string;
 
   beforeEach(async () => {
     jest.clearAllMocks();
     sentNotifications = [];
+    sessionDir = await testHelpers.createTempDir();
 
     // Spy on process.stdout.write to capture notifications
     jest.spyOn(process.stdout, 'write').mockImplementation((chunk: any) => {
@@ -79,7 +83,10 @@ describe('session/new - Parameter Validation', () => {
       return true;
     });
 
-    adapter = new CursorAgentAdapter(testConfig, { logger: mockLogger });
+    adapter = new CursorAgentAdapter(
+      { ...testConfig, sessionDir },
+      { logger: mockLogger }
+    );
     await adapter.initialize();
 
     // Set up available models for testing
@@ -105,6 +112,7 @@ describe('session/new - Parameter Validation', () => {
       }
     }
     await new Promise((resolve) => setTimeout(resolve, 100));
+    await testHelpers.cleanupTempDir(sessionDir);
   });
 
   describe('cwd parameter validation', () => {
@@ -510,6 +518,87 @@ describe('session/new - Parameter Validation', () => {
     });
   });
 
+  describe('MCP server connections', () => {
+    const fixtureServer = {
+      name: 'fixture',
+      command: process.execPath,
+      args: [path.join(__dirname, '../../fixtures/mcp-stdio-server.js')],
+      env: [],
+    };
+
+    it('should connect to stdio MCP servers and report their status', async () => {
+      const response = await adapter.processRequest({
+        jsonrpc: '2.0',
+        method: 'session/new',
+        id: 'test-mcp-connect',
+        params: { cwd: os.tmpdir(), mcpServers: [fixtureServer] },
+      });
+
+      expect(response.result._meta.mcpStatus).toBe('connected');
+      expect(response.result._meta.mcpServers).toEqual([
+        { name: 'fixture', type: 'stdio', status: 'connected', toolCount: 2 },
+      ]);
+      expect(
+        adapter
+          .getToolRegistry()
+          ?.getSessionTools(response.result.sessionId)
+          .map((tool) => tool.name)
+      ).toEqual(
+        expect.arrayContaining(['mcp__fixture__echo', 'mcp__fixture__fail'])
+      );
+    });
+
+    it('should report unreachable MCP servers as failed', async () => {
+      const response = await adapter.processRequest({
+        jsonrpc: '2.0',
+        method: 'session/new',
+        id: 'test-mcp-failed',
+        params: {
+          cwd: os.tmpdir(),
+          mcpServers: [
+            fixtureServer,
+            {
+              name: 'broken',
+              command: '/nonexistent/server',
+              args: [],
+              env: [],
+            },
+          ],
+        },
+      });
+
+      expect(response.result._meta.mcpStatus).toBe('partial');
+      expect(response.result._meta.mcpServers[1]).toMatchObject({
+        name: 'broken',
+        status: 'failed',
+      });
+    });
+
+    it('should remove MCP tools when the session is deleted', async () => {
+      const response = await adapter.processRequest({
+        jsonrpc: '2.0',
+        method: 'session/new',
+        id: 'test-mcp-delete',
+        params: { cwd: os.tmpdir(), mcpServers: [fixtureServer] },
+      });
+      const sessionId = response.result.sessionId;
+
+      await adapter.processRequest({
+        jsonrpc: '2.0',
+        method: 'session/delete',
+        id: 'test-mcp-delete-2',
+        params: { sessionId },
+      });
+
+      expect(
+        adapter
+          .getToolRegistry()
+          ?.getSessionTools(sessionId)
+          .map((tool) => tool.name)
+      ).not.toContain('mcp__fixture__echo');
+    });
+  });
+
   describe('metadata handling with cwd and mcpServers', () => {
     it('should store cwd in metadata', async () => {
       const request: AcpRequest = {
@@ -932,9 +1021,10 @@ describe('session/new - Parameter Validation', () => {
 
     it('should not send notification when no commands are registered', async () => {
       // Create adapter and clear commands
-      const adapterWithNoCommands = new CursorAgentAdapter(testConfig, {
-        logger: mockLogger,
-      });
+      const adapterWithNoCommands = new CursorAgentAdapter(
+        { ...testConfig, sessionDir },
+        { logger: mockLogger }
+      );
       await adapterWithNoCommands.initialize();
 
       // Access private registry and clear it
@@ -18,6 +18,7 @@ jest.mock('child_process', () => ({
 const mockCheckAuthentication = jest.fn();
 const mockClose = jest.fn();
 jest.mock('../../../src/cursor/cli-bridge', () => ({
+  ...(jest.requireActual('../../../src/cursor/cli-bridge') as object),
   CursorCliBridge: jest.fn().mockImplementation(() => ({
     checkAuthentication: mockCheckAuthentication,
     close: mockClose,
@@ -326,6 +327,32 @@ describe('CLI Auth Commands', () => {
       expect(exitSpy).toHaveBeenCalledWith(0);
     });
 
+    test('should run the configured cursor-agent binary', async () => {
+      process.env['CURSOR_ACP_CURSOR_BINARY_PATH'] = '/opt/cursor/agent';
+      process.env['CURSOR_ACP_CURSOR_EXTRA_ARGS'] = '--endpoint,local';
+      process.env['CURSOR_ACP_CURSOR_ENV'] = '{"CURSOR_API_KEY":"key"}';
+
+      try {
+        const logoutPromise = handlers.authLogout!();
+        setImmediate(() => {
+          mockChildProcess.emit('close', 0);
+        });
+        await logoutPromise;
+      } finally {
+        delete process.env['CURSOR_ACP_CURSOR_BINARY_PATH'];
+        delete process.env['CURSOR_ACP_CURSOR_EXTRA_ARGS'];
+        delete process.env['CURSOR_ACP_CURSOR_ENV'];
+      }
+
+      expect(mockSpawn).toHaveBeenCalledWith(
+        '/opt/cursor/agent',
+        ['--endpoint', 'local', 'logout'],
+        expect.objectContaining({
+          env: expect.objectContaining({ CURSOR_API_KEY: 'key' }),
+        })
+      );
+    });
+
     test('should handle logout failure with non-zero exit code', async () => {
       expect(handlers.authLogout).toBeDefined();
 
@@ -0,0 +1,68 @@
+/**
+ * Unit tests for cursor-agent failure classification
+ *
+ * Tests mapping of cursor-agent error output to typed adapter errors
+ * and their JSON-RPC codes.
+ */
+
+import { classifyCursorFailure } from '../../../src/cursor/error-classifier';
+import {
+  AdapterErrorCode,
+  CursorAuthenticationError,
+  CursorNotInstalledError,
+  CursorProcessCrashError,
+  CursorRateLimitError,
+  CursorTimeoutError,
+  ModelUnavailableError,
+} from '../../../src/types';
+
+describe('classifyCursorFailure', () => {
+  it.each([
+    ['spawn cursor-agent ENOENT', CursorNotInstalledError],
+    ['cursor-agent: command not found', CursorNotInstalledError],
+    [
+      'Not logged in. Please run: cursor-agent login',
+      CursorAuthenticationError,
+    ],
+    ['Request failed: 401 Unauthorized', CursorAuthenticationError],
+    ['Rate limit exceeded', CursorRateLimitError],
+    ['HTTP 429 Too Many Requests', CursorRateLimitError],
+    ['Model gpt-9 is not available', ModelUnavailableError],
+    ['Invalid model: gpt-9', ModelUnavailableError],
+    ['Request timed out', CursorTimeoutError],
+    ['Segmentation fault', CursorProcessCrashError],
+  ])('should classify "%s"', (message, ErrorClass) => {
+    expect(classifyCursorFailure(message)).toBeInstanceOf(ErrorClass);
+  });
+
+  it('should read the cause from stderr', () => {
+    const error = classifyCursorFailure('Cursor agent failed', {
+      stderr: 'Error: rate limited, retry after 30s',
+    });
+
+    expect(error).toBeInstanceOf(CursorRateLimitError);
+    expect(error.rpcCode).toBe(AdapterErrorCode.RATE_LIMITED);
+    expect(error.data).toMatchObject({ retryAfterMs: 30000 });
+  });
+
+  it('should keep the model and exit details', () => {
+    expect(
+      classifyCursorFailure('Unknown model', { model: 'gpt-9' }).data
+    ).toEqual({
+      type: 'model_unavailable',
+      action: 'Choose another model',
+      model: 'gpt-9',
+    });
+
+    const crash = classifyCursorFailure('Cursor agent failed', {
+      exitCode: 134,
+      stderr: 'panic: out of memory',
+    });
+    expect(crash.rpcCode).toBe(AdapterErrorCode.PROCESS_CRASHED);
+    expect(crash.data).toEqual({
+      type: 'process_crashed',
+      exitCode: 134,
+      stderr: 'panic: out of memory',
+    });
+  });
+});
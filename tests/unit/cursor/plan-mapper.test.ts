@@ -0,0 +1,149 @@
+/**
+ * Unit tests for cursor-agent plan mapping
+ *
+ * Tests translation of cursor-agent todo tool calls and markdown
+ * checklists into ACP plan entries.
+ */
+
+import type { PlanEntry } from '@agentclientprotocol/sdk';
+import {
+  applyTodoUpdate,
+  isTodoToolCall,
+  parseMarkdownChecklist,
+} from '../../../src/cursor/plan-mapper';
+import type { CursorToolCallEvent } from '../../../src/types';
+
+describe('plan-mapper', () => {
+  const todoEvent = (
+    args: Record<string, any>,
+    toolName = 'updateTodos'
+  ): CursorToolCallEvent => ({
+    type: 'tool_call',
+    subtype: 'started',
+    callId: 'call-1',
+    toolName,
+    args,
+    raw: {},
+  });
+
+  describe('isTodoToolCall', () => {
+    it('should recognize todo tools', () => {
+      expect(isTodoToolCall(todoEvent({}))).toBe(true);
+      expect(isTodoToolCall(todoEvent({}, 'todoWrite'))).toBe(true);
+      expect(isTodoToolCall(todoEvent({}, 'read'))).toBe(false);
+    });
+  });
+
+  describe('applyTodoUpdate', () => {
+    let entries: Map<string, PlanEntry>;
+
+    beforeEach(() => {
+      entries = new Map();
+    });
+
+    it('should map todo statuses and priorities', () => {
+      const changed = applyTodoUpdate(
+        entries,
+        todoEvent({
+          todos: [
+            { id: '1', content: 'Read code', status: 'TODO_STATUS_COMPLETED' },
+            {
+              id: '2',
+              content: 'Fix bug',
+              status: 'TODO_STATUS_IN_PROGRESS',
+              priority: 'high',
+            },
+            { id: '3', content: 'Add tests', status: 'pending' },
+            { id: '4', content: 'Old idea', status: 'TODO_STATUS_CANCELLED' },
+          ],
+        })
+      );
+
+      expect(changed).toBe(true);
+      expect([...entries.values()]).toEqual([
+        { content: 'Read code', priority: 'medium', status: 'completed' },
+        { content: 'Fix bug', priority: 'high', status: 'in_progress' },
+        { content: 'Add tests', priority: 'medium', status: 'pending' },
+        {
+          content: 'Old idea',
+          priority: 'medium',
+          status: 'completed',
+          _meta: { cancelled: true },
+        },
+      ]);
+    });
+
+    it('should merge partial updates by todo ID', () => {
+      applyTodoUpdate(
+        entries,
+        todoEvent({
+          todos: [
+            { id: '1', content: 'Read code', status: 'in_progress' },
+            { id: '2', content: 'Fix bug', status: 'pending' },
+          ],
+        })
+      );
+
+      applyTodoUpdate(
+        entries,
+        todoEvent({ merge: true, todos: [{ id: '1', status: 'completed' }] })
+      );
+
+      expect([...entries.values()].map((entry) => entry.status)).toEqual([
+        'completed',
+        'pending',
+      ]);
+      expect(entries.get('1')!.content).toBe('Read code');
+    });
+
+    it('should replace the list without merge', () => {
+      applyTodoUpdate(
+        entries,
+        todoEvent({ todos: [{ id: '1', content: 'Old' }] })
+      );
+
+      applyTodoUpdate(
+        entries,
+        todoEvent({ todos: [{ id: '2', content: 'New' }] })
+      );
+
+      expect([...entries.keys()]).toEqual(['2']);
+    });
+
+    it('should report unchanged lists', () => {
+      const event = todoEvent({ todos: [{ id: '1', content: 'Same' }] });
+
+      expect(applyTodoUpdate(entries, event)).toBe(true);
+      expect(applyTodoUpdate(entries, event)).toBe(false);
+      expect(applyTodoUpdate(entries, todoEvent({}))).toBe(false);
+    });
+  });
+
+  describe('parseMarkdownChecklist', () => {
+    it('should read checklist items with their status', () => {
+      const entries = parseMarkdownChecklist(
+        [
+          '## Plan',
+          '- [x] Read the code',
+          '* [~] Fix the parser',
+          '1. [ ] Add tests',
+          '- a plain bullet',
+        ].join('\n')
+      );
+
+      expect(entries).toEqual([
+        { content: 'Read the code', priority: 'medium', status: 'completed' },
+        {
+          content: 'Fix the parser',
+          priority: 'medium',
+          status: 'in_progress',
+        },
+        { content: 'Add tests', priority: 'medium', status: 'pending' },
+      ]);
+    });
+
+    it('should return no entries for answers without a checklist', () => {
+      expect(parseMarkdownChecklist('Just an answer.')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,289 @@
+/**
+ * Unit tests for CursorStreamParser
+ *
+ * Tests line buffering of cursor-agent stream-json output and decoding
+ * of each line into typed stream events.
+ */
+
+import {
+  CursorStreamParser,
+  parseCursorUsage,
+} from '../../../src/cursor/stream-parser';
+import type { Logger } from '../../../src/types';
+
+describe('CursorStreamParser', () => {
+  let parser: CursorStreamParser;
+  let mockLogger: Logger;
+
+  const line = (event: Record<string, unknown>): string =>
+    `${JSON.stringify(event)}\n`;
+
+  beforeEach(() => {
+    mockLogger = {
+      error: jest.fn(),
+      warn: jest.fn(),
+      info: jest.fn(),
+      debug: jest.fn(),
+    };
+    parser = new CursorStreamParser(mockLogger);
+  });
+
+  describe('line buffering', () => {
+    it('should keep partial lines until the newline arrives', () => {
+      const data = line({ type: 'result', subtype: 'success', result: 'ok' });
+      const splitAt = Math.floor(data.length / 2);
+
+      expect(parser.push(data.slice(0, splitAt))).toEqual([]);
+      const events = parser.push(data.slice(splitAt));
+
+      expect(events).toHaveLength(1);
+      expect(events[0]).toMatchObject({ type: 'result', result: 'ok' });
+    });
+
+    it('should decode several events arriving in one read', () => {
+      const data =
+        line({ type: 'system', subtype: 'init', session_id: 'chat-1' }) +
+        line({
+          type: 'assistant',
+          message: {
+            role: 'assistant',
+            content: [{ type: 'text', text: 'Hi' }],
+          },
+          timestamp_ms: 1,
+        });
+
+      const events = parser.push(data);
+
+      expect(events.map((event) => event.type)).toEqual([
+        'system',
+        'assistant',
+      ]);
+    });
+
+    it('should handle an event split across many reads', () => {
+      const data = line({
+        type: 'assistant',
+        message: { content: [{ type: 'text', text: 'split text' }] },
+      });
+
+      const events = [...data].flatMap((char) => parser.push(char));
+
+      expect(events).toEqual([
+        expect.objectContaining({ type: 'assistant', text: 'split text' }),
+      ]);
+    });
+
+    it('should ignore blank lines and CRLF line endings', () => {
+      const events = parser.push(
+        `\n\r\n${JSON.stringify({ type: 'result', subtype: 'success' })}\r\n`
+      );
+
+      expect(events).toHaveLength(1);
+      expect(events[0]!.type).toBe('result');
+    });
+
+    it('should parse a trailing line on flush', () => {
+      parser.push(JSON.stringify({ type: 'result', subtype: 'success' }));
+
+      const events = parser.flush();
+
+      expect(events).toHaveLength(1);
+      expect(events[0]!.type).toBe('result');
+      expect(parser.flush()).toEqual([]);
+    });
+
+    it('should return non-JSON lines as text events', () => {
+      const events = parser.push('plain output\n');
+
+      expect(events).toEqual([{ type: 'text', text: 'plain output\n' }]);
+    });
+  });
+
+  describe('event decoding', () => {
+    it('should decode system init events', () => {
+      const [event] = parser.push(
+        line({
+          type: 'system',
+          subtype: 'init',
+          session_id: 'chat-1',
+          model: 'gpt-5',
+          cwd: '/project',
+        })
+      );
+
+      expect(event).toMatchObject({
+        type: 'system',
+        subtype: 'init',
+        sessionId: 'chat-1',
+        model: 'gpt-5',
+        cwd: '/project',
+      });
+    });
+
+    it('should mark assistant events with timestamps as deltas', () => {
+      const [delta, full] = parser.push(
+        line({
+          type: 'assistant',
+          message: { content: [{ type: 'text', text: 'Hel' }] },
+          timestamp_ms: 1700000000000,
+        }) +
+          line({
+            type: 'assistant',
+            message: { content: [{ type: 'text', text: 'Hello' }] },
+          })
+      );
+
+      expect(delta).toMatchObject({ type: 'assistant', isDelta: true });
+      expect(full).toMatchObject({
+        type: 'assistant',
+        text: 'Hello',
+        isDelta: false,
+      });
+    });
+
+    it('should normalize named tool calls', () => {
+      const [started, completed] = parser.push(
+        line({
+          type: 'tool_call',
+          subtype: 'started',
+          call_id: 'call-1',
+          tool_call: { readToolCall: { args: { path: 'src/a.ts' } } },
+        }) +
+          line({
+            type: 'tool_call',
+            subtype: 'completed',
+            call_id: 'call-1',
+            tool_call: {
+              readToolCall: {
+                args: { path: 'src/a.ts' },
+                result: { success: { content: 'x', totalLines: 1 } },
+              },
+            },
+          })
+      );
+
+      expect(started).toMatchObject({
+        type: 'tool_call',
+        subtype: 'started',
+        callId: 'call-1',
+        toolName: 'read',
+        args: { path: 'src/a.ts' },
+      });
+      expect(started).not.toHaveProperty('result');
+      expect(completed).toMatchObject({
+        subtype: 'completed',
+        result: { success: { content: 'x', totalLines: 1 } },
+      });
+    });
+
+    it('should parse arguments of generic function tool calls', () => {
+      const [event] = parser.push(
+        line({
+          type: 'tool_call',
+          subtype: 'started',
+          call_id: 'call-2',
+          tool_call: {
+            function: { name: 'web_search', arguments: '{"query":"acp"}' },
+          },
+        })
+      );
+
+      expect(event).toMatchObject({
+        toolName: 'web_search',
+        args: { query: 'acp' },
+      });
+    });
+
+    it('should decode result events', () => {
+      const [event] = parser.push(
+        line({
+          type: 'result',
+          subtype: 'success',
+          is_error: false,
+          result: 'Done',
+          duration_ms: 1234,
+          session_id: 'chat-1',
+        })
+      );
+
+      expect(event).toMatchObject({
+        type: 'result',
+        subtype: 'success',
+        isError: false,
+        result: 'Done',
+        durationMs: 1234,
+        sessionId: 'chat-1',
+      });
+    });
+
+    it('should decode usage and cost from result events', () => {
+      const [event] = parser.push(
+        line({
+          type: 'result',
+          subtype: 'success',
+          duration_ms: 1234,
+          duration_api_ms: 1000,
+          usage: {
+            inputTokens: 100,
+            outputTokens: 20,
+            cacheReadTokens: 300,
+          },
+          total_cost_usd: 0.0125,
+        })
+      );
+
+      expect(event).toMatchObject({
+        durationApiMs: 1000,
+        usage: {
+          inputTokens: 100,
+          outputTokens: 20,
+          cacheReadTokens: 300,
+          cacheWriteTokens: 0,
+          totalTokens: 420,
+          costUsd: 0.0125,
+        },
+      });
+    });
+
+    it('should accept snake_case usage counts', () => {
+      expect(
+        parseCursorUsage({
+          usage: { input_tokens: 5, output_tokens: 7, total_tokens: 12 },
+        })
+      ).toEqual({
+        inputTokens: 5,
+        outputTokens: 7,
+        cacheReadTokens: 0,
+        cacheWriteTokens: 0,
+        totalTokens: 12,
+      });
+      expect(parseCursorUsage({ type: 'result' })).toBeUndefined();
+    });
+
+    it('should decode thinking events', () => {
+      const [delta, completed] = parser.push(
+        line({ type: 'thinking', subtype: 'delta', text: 'hmm' }) +
+          line({ type: 'thinking', subtype: 'completed' })
+      );
+
+      expect(delta).toMatchObject({
+        type: 'thinking',
+        subtype: 'delta',
+        text: 'hmm',
+      });
+      expect(completed).toMatchObject({
+        type: 'thinking',
+        subtype: 'completed',
+      });
+      expect(completed).not.toHaveProperty('text');
+    });
+
+    it('should keep unrecognized events as unknown', () => {
+      const raw = { type: 'interaction_query', subtype: 'request' };
+
+      const [event] = parser.push(line(raw));
+
+      expect(event).toEqual({ type: 'unknown', raw });
+    });
+  });
+});
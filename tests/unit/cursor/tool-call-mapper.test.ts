@@ -0,0 +1,175 @@
+/**
+ * Unit tests for cursor-agent tool call mapping
+ *
+ * Tests translation of cursor-agent tool_call stream events into
+ * ACP tool call fields (kind, title, locations, content).
+ */
+
+import {
+  getCursorToolKind,
+  mapToolCallStart,
+  mapToolCallResult,
+} from '../../../src/cursor/tool-call-mapper';
+import type { CursorToolCallEvent } from '../../../src/types';
+
+describe('tool-call-mapper', () => {
+  const cwd = '/project';
+
+  const toolEvent = (
+    toolName: string,
+    args: Record<string, any>,
+    result?: Record<string, any>
+  ): CursorToolCallEvent => ({
+    type: 'tool_call',
+    subtype: result ? 'completed' : 'started',
+    callId: 'call-1',
+    toolName,
+    args,
+    ...(result && { result }),
+    raw: {},
+  });
+
+  describe('getCursorToolKind', () => {
+    it.each([
+      ['read', 'read'],
+      ['write', 'edit'],
+      ['edit', 'edit'],
+      ['delete', 'delete'],
+      ['shell', 'execute'],
+      ['grep', 'search'],
+      ['glob', 'search'],
+      ['updateTodos', 'think'],
+      ['somethingNew', 'other'],
+    ])('should map %s to %s', (toolName, kind) => {
+      expect(getCursorToolKind(toolName)).toBe(kind);
+    });
+  });
+
+  describe('mapToolCallStart', () => {
+    it('should resolve file locations against the working directory', () => {
+      const mapped = mapToolCallStart(
+        toolEvent('read', { path: 'src/index.ts', offset: 10 }),
+        cwd
+      );
+
+      expect(mapped).toEqual({
+        title: 'Read src/index.ts',
+        kind: 'read',
+        locations: [{ path: '/project/src/index.ts', line: 10 }],
+        rawInput: { path: 'src/index.ts', offset: 10 },
+      });
+    });
+
+    it('should keep absolute paths', () => {
+      const mapped = mapToolCallStart(
+        toolEvent('edit', { path: '/other/file.ts' }),
+        cwd
+      );
+
+      expect(mapped.locations).toEqual([{ path: '/other/file.ts' }]);
+    });
+
+    it('should title shell commands without locations', () => {
+      const mapped = mapToolCallStart(
+        toolEvent('shell', { command: 'npm test', workingDirectory: cwd }),
+        cwd
+      );
+
+      expect(mapped.title).toBe('Run: npm test');
+      expect(mapped.kind).toBe('execute');
+      expect(mapped.locations).toEqual([]);
+    });
+  });
+
+  describe('mapToolCallResult', () => {
+    it('should produce a diff for file writes', () => {
+      const mapped = mapToolCallResult(
+        toolEvent(
+          'write',
+          { path: 'new.ts', fileText: 'export {};\n' },
+          { success: { path: '/project/new.ts', linesCreated: 1 } }
+        ),
+        cwd
+      );
+
+      expect(mapped.status).toBe('completed');
+      expect(mapped.content).toEqual([
+        {
+          type: 'diff',
+          path: '/project/new.ts',
+          oldText: null,
+          newText: 'export {};\n',
+        },
+      ]);
+    });
+
+    it('should prefer full file contents for edit diffs', () => {
+      const mapped = mapToolCallResult(
+        toolEvent(
+          'edit',
+          { path: 'a.ts', strReplace: { oldText: 'x', newText: 'y' } },
+          {
+            success: {
+              beforeFullFileContent: 'const x = 1;\n',
+              afterFullFileContent: 'const y = 1;\n',
+            },
+          }
+        ),
+        cwd
+      );
+
+      expect(mapped.content).toEqual([
+        {
+          type: 'diff',
+          path: '/project/a.ts',
+          oldText: 'const x = 1;\n',
+          newText: 'const y = 1;\n',
+        },
+      ]);
+    });
+
+    it('should include shell output as text content', () => {
+      const mapped = mapToolCallResult(
+        toolEvent(
+          'shell',
+          { command: 'echo hi' },
+          { success: { exitCode: 0, stdout: 'hi', stderr: '' } }
+        ),
+        cwd
+      );
+
+      expect(mapped.content).toEqual([
+        { type: 'content', content: { type: 'text', text: '```\nhi\n```' } },
+      ]);
+      expect(mapped.rawOutput).toEqual({
+        success: { exitCode: 0, stdout: 'hi', stderr: '' },
+      });
+    });
+
+    it('should report failed results with their message', () => {
+      const mapped = mapToolCallResult(
+        toolEvent(
+          'read',
+          { path: 'missing.ts' },
+          { error: { message: 'File not found' } }
+        ),
+        cwd
+      );
+
+      expect(mapped.status).toBe('failed');
+      expect(mapped.error).toBe('File not found');
+    });
+
+    it('should treat rejected calls as failed', () => {
+      const mapped = mapToolCallResult(
+        toolEvent('shell', { command: 'rm -rf /' }, { rejected: {} }),
+        cwd
+      );
+
+      expect(mapped).toMatchObject({
+        status: 'failed',
+        error: 'Tool call rejected',
+      });
+    });
+  });
+});
@@ -0,0 +1,356 @@
+/**
+ * Unit tests for McpManager and McpClient
+ *
+ * Connects to a local stdio MCP server fixture and to in-process HTTP
+ * servers speaking the Streamable HTTP and legacy SSE transports.
+ */
+
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import * as path from 'path';
+import type { McpServer } from '@agentclientprotocol/sdk';
+import { McpManager, getMcpToolName } from '../../../src/mcp/manager';
+import { ToolRegistry } from '../../../src/tools/registry';
+import type { AdapterConfig, Logger } from '../../../src/types';
+
+const FIXTURE_PATH = path.join(__dirname, '../../fixtures/mcp-stdio-server.js');
+
+const stdioServer = (
+  name = 'fixture',
+  env: Array<{ name: string; value: string }> = []
+): McpServer => ({
+  name,
+  command: process.execPath,
+  args: [FIXTURE_PATH],
+  env,
+});
+
+/**
+ * Answers MCP requests for the HTTP transport tests
+ */
+function answer(request: Record<string, any>): Record<string, any> {
+  switch (request['method']) {
+    case 'initialize':
+      return { protocolVersion: '2025-06-18', capabilities: { tools: {} } };
+    case 'tools/list':
+      return {
+        tools: [{ name: 'remote', inputSchema: { type: 'object' } }],
+      };
+    default:
+      return { content: [{ type: 'text', text: 'remote result' }] };
+  }
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => resolve(body));
+  });
+}
+
+async function listen(server: http.Server): Promise<string> {
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+describe('McpManager', () => {
+  let manager: McpManager;
+  let mockLogger: Logger;
+
+  beforeEach(() => {
+    mockLogger = {
+      error: jest.fn(),
+      warn: jest.fn(),
+      info: jest.fn(),
+      debug: jest.fn(),
+    };
+    manager = new McpManager(mockLogger, { requestTimeout: 5000 });
+  });
+
+  afterEach(async () => {
+    await manager.cleanup();
+  });
+
+  describe('stdio servers', () => {
+    it('should connect and list tools across pages', async () => {
+      const statuses = await manager.connectSession('session-1', [
+        stdioServer(),
+      ]);
+
+      expect(statuses).toEqual([
+        { name: 'fixture', type: 'stdio', status: 'connected', toolCount: 2 },
+      ]);
+      expect(manager.getSessionTools('session-1').map((t) => t.name)).toEqual([
+        'mcp__fixture__echo',
+        'mcp__fixture__fail',
+      ]);
+    });
+
+    it('should call tools with the server environment', async () => {
+      await manager.connectSession('session-1', [
+        stdioServer('fixture', [{ name: 'MCP_ECHO_PREFIX', value: '> ' }]),
+      ]);
+      const echo = manager
+        .getSessionTools('session-1')
+        .find((tool) => tool.name === 'mcp__fixture__echo')!;
+
+      expect(echo.parameters.required).toEqual(['text']);
+
+      const result = await echo.handler({ text: 'hi', _sessionId: 'x' });
+
+      expect(result.success).toBe(true);
+      expect(result.result.content).toEqual([{ type: 'text', text: '> hi' }]);
+    });
+
+    it('should report tool error results as failures', async () => {
+      await manager.connectSession('session-1', [stdioServer()]);
+      const fail = manager
+        .getSessionTools('session-1')
+        .find((tool) => tool.name === 'mcp__fixture__fail')!;
+
+      const result = await fail.handler({});
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('fixture failure');
+    });
+
+    it('should report servers that fail to start without affecting others', async () => {
+      const statuses = await manager.connectSession('session-1', [
+        {
+          name: 'missing',
+          command: '/nonexistent/mcp-server',
+          args: [],
+          env: [],
+        },
+        stdioServer(),
+      ]);
+
+      expect(statuses[0]).toMatchObject({
+        name: 'missing',
+        status: 'failed',
+        toolCount: 0,
+        error: expect.stringContaining('Failed to start MCP server missing'),
+      });
+      expect(statuses[1]).toMatchObject({ status: 'connected' });
+      expect(manager.getSessionTools('session-1')).toHaveLength(2);
+    });
+
+    it('should fail requests to a server that has exited instead of crashing', async () => {
+      await manager.connectSession('session-1', [
+        stdioServer('fixture', [{ name: 'MCP_EXIT_ON_CALL', value: '1' }]),
+      ]);
+      const echo = manager
+        .getSessionTools('session-1')
+        .find((tool) => tool.name === 'mcp__fixture__echo')!;
+      await echo.handler({ text: 'last' });
+
+      // Block until the server has exited, before its exit event is handled,
+      // so the next write hits a closed pipe (EPIPE)
+      Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, 500);
+      await expect(echo.handler({ text: 'late' })).rejects.toThrow(
+        'MCP server fixture stopped reading input'
+      );
+      await expect(echo.handler({ text: 'later' })).rejects.toThrow(
+        'MCP server fixture'
+      );
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        'MCP server connection closed: fixture',
+        { error: expect.stringContaining('stopped reading input') }
+      );
+    });
+
+    it('should close connections when the session is disconnected', async () => {
+      await manager.connectSession('session-1', [stdioServer()]);
+      const echo = manager.getSessionTools('session-1')[0]!;
+
+      await manager.disconnectSession('session-1');
+
+      expect(manager.hasConnections('session-1')).toBe(false);
+      expect(manager.getSessionTools('session-1')).toEqual([]);
+      await expect(echo.handler({ text: 'late' })).rejects.toThrow(
+        'not connected'
+      );
+    });
+  });
+
+  describe('HTTP servers', () => {
+    let server: http.Server;
+
+    afterEach(async () => {
+      server.closeAllConnections();
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('should connect over Streamable HTTP', async () => {
+      const sessionIds: Array<string | undefined> = [];
+      server = http.createServer(async (req, res) => {
+        if (req.method === 'DELETE') {
+          res.writeHead(200).end();
+          return;
+        }
+        const request = JSON.parse(await readBody(req));
+        sessionIds.push(req.headers['mcp-session-id'] as string | undefined);
+        if (request.id === undefined) {
+          res.writeHead(202).end();
+          return;
+        }
+        res
+          .writeHead(200, {
+            'content-type': 'application/json',
+            'mcp-session-id': 'http-session',
+          })
+          .end(
+            JSON.stringify({
+              jsonrpc: '2.0',
+              id: request.id,
+              result: answer(request),
+            })
+          );
+      });
+      const url = await listen(server);
+
+      const statuses = await manager.connectSession('session-1', [
+        { type: 'http', name: 'remote', url, headers: [] },
+      ]);
+      const result = await manager.getSessionTools('session-1')[0]!.handler({});
+
+      expect(statuses[0]).toMatchObject({ type: 'http', status: 'connected' });
+      expect(result.result.content[0].text).toBe('remote result');
+      // Every request after initialize carries the MCP session ID
+      expect(sessionIds.slice(1)).toEqual(
+        sessionIds.slice(1).map(() => 'http-session')
+      );
+    });
+
+    it('should read Streamable HTTP responses sent as an event stream', async () => {
+      const authorizations: Array<string | undefined> = [];
+      let endedSession: string | undefined;
+      server = http.createServer(async (req, res) => {
+        authorizations.push(req.headers.authorization);
+        if (req.method === 'DELETE') {
+          endedSession = req.headers['mcp-session-id'] as string;
+          res.writeHead(200).end();
+          return;
+        }
+        const request = JSON.parse(await readBody(req));
+        if (request.id === undefined) {
+          res.writeHead(202).end();
+          return;
+        }
+        const message = {
+          jsonrpc: '2.0',
+          id: request.id,
+          result: answer(request),
+        };
+        res
+          .writeHead(200, {
+            'content-type': 'text/event-stream',
+            'mcp-session-id': 'stream-session',
+          })
+          .end(`event: message\ndata: ${JSON.stringify(message)}\n\n`);
+      });
+      const url = await listen(server);
+
+      await manager.connectSession('session-1', [
+        {
+          type: 'http',
+          name: 'remote',
+          url,
+          headers: [{ name: 'Authorization', value: 'Bearer token' }],
+        },
+      ]);
+      const result = await manager.getSessionTools('session-1')[0]!.handler({});
+      await manager.disconnectSession('session-1');
+
+      expect(result.result.content[0].text).toBe('remote result');
+      expect(authorizations.every((value) => value === 'Bearer token')).toBe(
+        true
+      );
+      expect(endedSession).toBe('stream-session');
+    });
+
+    it('should connect over legacy SSE', async () => {
+      let stream: http.ServerResponse | undefined;
+      server = http.createServer(async (req, res) => {
+        if (req.method === 'GET') {
+          stream = res;
+          res.writeHead(200, { 'content-type': 'text/event-stream' });
+          res.write('event: endpoint\ndata: /messages\n\n');
+          return;
+        }
+        const request = JSON.parse(await readBody(req));
+        res.writeHead(202).end();
+        if (request.id !== undefined) {
+          const message = {
+            jsonrpc: '2.0',
+            id: request.id,
+            result: answer(request),
+          };
+          stream!.write(`event: message\ndata: ${JSON.stringify(message)}\n\n`);
+        }
+      });
+      const url = await listen(server);
+
+      const statuses = await manager.connectSession('session-1', [
+        { type: 'sse', name: 'legacy', url: `${url}/sse`, headers: [] },
+      ]);
+
+      expect(statuses[0]).toMatchObject({
+        type: 'sse',
+        status: 'connected',
+        toolCount: 1,
+      });
+
+      const result = await manager.getSessionTools('session-1')[0]!.handler({});
+
+      expect(result.success).toBe(true);
+      expect(result.result.content[0].text).toBe('remote result');
+    });
+  });
+
+  describe('ToolRegistry session providers', () => {
+    const config: AdapterConfig = {
+      logLevel: 'error',
+      sessionDir: '/tmp/cursor-test-sessions',
+      maxSessions: 10,
+      sessionTimeout: 60000,
+      tools: {
+        filesystem: { enabled: false },
+        terminal: { enabled: false, maxProcesses: 1 },
+        cursor: { enabled: false },
+      },
+      cursor: { timeout: 30000, retries: 1 },
+    };
+
+    it('should only expose MCP tools to their session', async () => {
+      const registry = new ToolRegistry(config, mockLogger);
+      await manager.connectSession('session-1', [stdioServer()]);
+      registry.registerSessionProvider(
+        'session-1',
+        manager.createToolProvider('session-1')
+      );
+      const name = getMcpToolName('fixture', 'echo');
+
+      const result = await registry.executeToolWithSession(
+        { id: 'call-1', name, parameters: { text: 'scoped' } },
+        'session-1'
+      );
+      const otherSession = await registry.executeToolWithSession(
+        { id: 'call-2', name, parameters: { text: 'scoped' } },
+        'session-2'
+      );
+
+      expect(result.success).toBe(true);
+      expect(otherSession.error).toBe(`Tool not found: ${name}`);
+      expect(
+        registry.getSessionTools('session-1').map((t) => t.name)
+      ).toContain(name);
+      expect(registry.getTools().map((t) => t.name)).not.toContain(name);
+
+      registry.unregisterSessionProvider('session-1');
+
+      expect(registry.getSessionTools('session-1')).toEqual([]);
+    });
+  });
+});
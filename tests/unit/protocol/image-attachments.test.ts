@@ -0,0 +1,163 @@
+/**
+ * Unit tests for ImageAttachmentStore
+ *
+ * Tests decoding image content blocks into per-session files, the MIME type
+ * and size limits, and removing the files again.
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { ContentBlock } from '@agentclientprotocol/sdk';
+import { ImageAttachmentStore } from '../../../src/protocol/image-attachments';
+import { ContentProcessor } from '../../../src/protocol/content';
+import type { AdapterConfig, Logger } from '../../../src/types';
+import { DEFAULT_CONFIG } from '../../../src';
+
+type ImageBlock = Extract<ContentBlock, { type: 'image' }>;
+
+describe('ImageAttachmentStore', () => {
+  let tempDir: string;
+  let config: AdapterConfig;
+  let mockLogger: Logger;
+  let store: ImageAttachmentStore;
+
+  // 1x1 transparent PNG
+  const pngBytes = Buffer.from(
+    'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=',
+    'base64'
+  );
+  const pngBlock: ImageBlock = {
+    type: 'image',
+    mimeType: 'image/png',
+    data: pngBytes.toString('base64'),
+  };
+
+  const exists = (filePath: string) =>
+    fs.access(filePath).then(
+      () => true,
+      () => false
+    );
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'image-store-'));
+    config = {
+      ...structuredClone(DEFAULT_CONFIG),
+      content: { images: { tempDir } },
+    };
+    mockLogger = {
+      error: jest.fn(),
+      warn: jest.fn(),
+      info: jest.fn(),
+      debug: jest.fn(),
+    };
+    store = new ImageAttachmentStore({ config, logger: mockLogger });
+  });
+
+  afterEach(async () => {
+    await store.cleanup();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should save the decoded image with a matching extension', async () => {
+    const saved = await store.saveImage('session-1', pngBlock);
+
+    expect(saved).toEqual({
+      path: expect.stringMatching(/\.png$/),
+      mimeType: 'image/png',
+      bytes: pngBytes.length,
+    });
+    expect(saved.path.startsWith(tempDir)).toBe(true);
+    expect(await fs.readFile(saved.path)).toEqual(pngBytes);
+  });
+
+  it('should keep session IDs out of file names', async () => {
+    const saved = await store.saveImage('../../etc', pngBlock);
+
+    expect(path.relative(tempDir, saved.path)).not.toMatch(/^\.\./);
+    expect(saved.path).not.toContain('etc');
+  });
+
+  it('should enforce the MIME type and size limits', () => {
+    expect(store.checkImage(pngBlock)).toBeNull();
+    expect(store.checkImage({ ...pngBlock, mimeType: 'image/svg+xml' })).toBe(
+      'image/svg+xml is not a supported image type'
+    );
+
+    config.content = { images: { tempDir, maxBytes: 10 } };
+    expect(store.checkImage(pngBlock)).toBe(
+      `image is ${pngBytes.length} bytes, the limit is 10`
+    );
+
+    config.content = { images: { allowedMimeTypes: ['image/jpeg'] } };
+    expect(store.checkImage(pngBlock)).toContain('not a supported');
+  });
+
+  it('should remove the images of a released session', async () => {
+    const first = await store.saveImage('session-1', pngBlock);
+    const other = await store.saveImage('session-2', pngBlock);
+
+    await store.releaseSession('session-1');
+
+    expect(await exists(first.path)).toBe(false);
+    expect(await exists(other.path)).toBe(true);
+
+    // A later turn gets a fresh directory
+    const next = await store.saveImage('session-1', pngBlock);
+    expect(await exists(next.path)).toBe(true);
+  });
+
+  it('should remove the temp directory on cleanup', async () => {
+    await store.saveImage('session-1', pngBlock);
+
+    await store.cleanup();
+
+    expect(await fs.readdir(tempDir)).toEqual([]);
+  });
+
+  describe('with ContentProcessor', () => {
+    let processor: ContentProcessor;
+
+    beforeEach(() => {
+      processor = new ContentProcessor({
+        config,
+        logger: mockLogger,
+        imageStore: store,
+      });
+    });
+
+    it('should point the prompt at the saved file', async () => {
+      const result = await processor.processContent(
+        [{ type: 'text', text: 'What is in this screenshot?' }, pngBlock],
+        { sessionId: 'session-1' }
+      );
+
+      const filePath = result.metadata['blocks'][1].filePath as string;
+      expect(result.value).toContain(`Attached image file: ${filePath}`);
+      expect(result.value).not.toContain('[Image data:');
+      expect(await fs.readFile(filePath)).toEqual(pngBytes);
+    });
+
+    it('should note images that exceed the limits', async () => {
+      const result = await processor.processContent(
+        [{ ...pngBlock, mimeType: 'image/tiff' }],
+        { sessionId: 'session-1' }
+      );
+
+      expect(result.value).toContain(
+        '[Image not attached: image/tiff is not a supported image type]'
+      );
+      expect(result.metadata['blocks'][0].omitted).toBeDefined();
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        'Image not attached',
+        expect.objectContaining({ index: 0 })
+      );
+    });
+
+    it('should fall back to a placeholder without a session', async () => {
+      const result = await processor.processContent([pngBlock]);
+
+      expect(result.value).toContain('[Image data: image/png,');
+    });
+  });
+});
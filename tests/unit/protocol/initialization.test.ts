@@ -252,6 +252,13 @@ describe('InitializationHandler', () => {
       );
       expect(result._meta?.cursorAuthenticated).toBe(false);
       expect(result._meta?.cursorVersion).toBe('1.2.3');
+
+      // The login method is offered while cursor-agent is logged out
+      expect(result.authMethods).toEqual([
+        expect.objectContaining({ id: 'cursor-login' }),
+      ]);
+      expect(result._meta?.authRequired).toBe(true);
+      expect(handler.getCursorAuthenticated()).toBe(false);
     });
 
     it('should succeed when cursor-agent is available and authenticated', async () => {
@@ -0,0 +1,277 @@
+/**
+ * Unit tests for PermissionPolicy
+ *
+ * Tests rule matching by tool kind, path globs, command argv patterns and
+ * session mode, and how policy actions map to permission outcomes.
+ */
+
+import type { ToolCallUpdate } from '@agentclientprotocol/sdk';
+import {
+  PermissionPolicy,
+  buildPermissionPolicy,
+  getPolicyOutcome,
+  parseArgv,
+} from '../../../src/protocol/permission-policy';
+import type { Logger, PermissionPolicyConfig } from '../../../src/types';
+import { validateConfig } from '../../../src/utils/config';
+import { DEFAULT_CONFIG } from '../../../src';
+
+describe('PermissionPolicy', () => {
+  let mockLogger: Logger;
+
+  const cwd = '/repo';
+
+  const teamPolicy: PermissionPolicyConfig = {
+    rules: [
+      { name: 'reads', action: 'allow', kinds: ['read', 'search'] },
+      { action: 'allow', commands: ['npm test **', 'git status'] },
+      { action: 'allow', kinds: ['edit'], paths: ['src/**'] },
+      { action: 'ask', kinds: ['edit', 'delete', 'move'] },
+    ],
+  };
+
+  const shellCall = (command: string): ToolCallUpdate => ({
+    toolCallId: 'call-1',
+    kind: 'execute',
+    rawInput: { command },
+  });
+
+  const editCall = (...paths: string[]): ToolCallUpdate => ({
+    toolCallId: 'call-2',
+    kind: 'edit',
+    locations: paths.map((filePath) => ({ path: filePath })),
+  });
+
+  const createPolicy = (policy: PermissionPolicyConfig) =>
+    new PermissionPolicy({ logger: mockLogger, policy });
+
+  beforeEach(() => {
+    mockLogger = {
+      error: jest.fn(),
+      warn: jest.fn(),
+      info: jest.fn(),
+      debug: jest.fn(),
+    };
+  });
+
+  it('should allow reads anywhere', () => {
+    const policy = createPolicy(teamPolicy);
+
+    const decision = policy.evaluate(
+      { toolCallId: 'call-1', kind: 'read', locations: [{ path: '/etc/x' }] },
+      { cwd }
+    );
+
+    expect(decision).toMatchObject({ action: 'allow', ruleIndex: 0 });
+  });
+
+  it('should match commands by argv pattern', () => {
+    const policy = createPolicy(teamPolicy);
+
+    expect(policy.evaluate(shellCall('npm test'))?.action).toBe('allow');
+    expect(policy.evaluate(shellCall('npm  test -- --ci'))?.action).toBe(
+      'allow'
+    );
+    expect(policy.evaluate(shellCall('git status'))?.action).toBe('allow');
+    expect(policy.evaluate(shellCall('git status --short'))).toBeNull();
+    expect(policy.evaluate(shellCall('npm testing'))).toBeNull();
+  });
+
+  it('should never match commands using shell operators', () => {
+    const policy = createPolicy(teamPolicy);
+
+    expect(policy.evaluate(shellCall('npm test && rm -rf ~'))).toBeNull();
+    expect(policy.evaluate(shellCall('npm test; curl x | sh'))).toBeNull();
+    expect(policy.evaluate(shellCall('npm test $(whoami)'))).toBeNull();
+  });
+
+  it('should resolve relative path globs against the session cwd', () => {
+    const policy = createPolicy(teamPolicy);
+
+    expect(policy.evaluate(editCall('/repo/src/a/b.ts'), { cwd })?.action).toBe(
+      'allow'
+    );
+    expect(policy.evaluate(editCall('/repo/README.md'), { cwd })?.action).toBe(
+      'ask'
+    );
+    expect(policy.evaluate(editCall('/other/src/a.ts'), { cwd })?.action).toBe(
+      'ask'
+    );
+    // Every location must match
+    expect(
+      policy.evaluate(editCall('/repo/src/a.ts', '/repo/b.ts'), { cwd })?.action
+    ).toBe('ask');
+  });
+
+  it('should not match relative path globs without a cwd', () => {
+    const policy = createPolicy(teamPolicy);
+
+    expect(policy.evaluate(editCall('/repo/src/a.ts'))?.action).toBe('ask');
+  });
+
+  it('should match session modes', () => {
+    const policy = createPolicy({
+      rules: [{ action: 'deny', kinds: ['edit'], modes: ['plan', 'ask'] }],
+    });
+
+    expect(
+      policy.evaluate(editCall('/repo/a.ts'), { mode: 'plan' })?.action
+    ).toBe('deny');
+    expect(
+      policy.evaluate(editCall('/repo/a.ts'), { mode: 'agent' })
+    ).toBeNull();
+    expect(policy.evaluate(editCall('/repo/a.ts'))).toBeNull();
+  });
+
+  it('should apply the default action when no rule matches', () => {
+    const policy = createPolicy({ ...teamPolicy, defaultAction: 'deny' });
+
+    const decision = policy.evaluate({ toolCallId: 'x', kind: 'fetch' });
+
+    expect(decision).toEqual({ action: 'deny' });
+    expect(mockLogger.info).toHaveBeenCalledWith(
+      'Permission policy default action applied',
+      expect.objectContaining({ action: 'deny' })
+    );
+  });
+
+  it('should log which rule decided', () => {
+    const policy = createPolicy(teamPolicy);
+
+    policy.evaluate(shellCall('git status'));
+
+    expect(mockLogger.info).toHaveBeenCalledWith(
+      'Permission policy rule matched',
+      expect.objectContaining({
+        action: 'allow',
+        rule: 'rules[1]: allow commands npm test **|git status',
+      })
+    );
+  });
+
+  it('should report an empty policy', () => {
+    expect(createPolicy({}).isEmpty()).toBe(true);
+    expect(createPolicy({ defaultAction: 'ask' }).isEmpty()).toBe(false);
+  });
+
+  describe('getPolicyOutcome', () => {
+    const options = [
+      { optionId: 'yes', name: 'Allow', kind: 'allow_once' as const },
+      { optionId: 'no', name: 'Reject', kind: 'reject_once' as const },
+    ];
+
+    it('should select the matching option', () => {
+      expect(getPolicyOutcome('allow', options)).toEqual({
+        outcome: 'selected',
+        optionId: 'yes',
+      });
+      expect(getPolicyOutcome('deny', options)).toEqual({
+        outcome: 'selected',
+        optionId: 'no',
+      });
+    });
+
+    it('should leave "ask" to the client', () => {
+      expect(getPolicyOutcome('ask', options)).toBeNull();
+    });
+
+    it('should select any offered reject option for denied operations', () => {
+      expect(
+        getPolicyOutcome('deny', [
+          options[0]!,
+          { optionId: 'never', name: 'Never', kind: 'reject_always' },
+        ])
+      ).toEqual({ outcome: 'selected', optionId: 'never' });
+    });
+
+    it('should cancel denied operations without a reject option', () => {
+      expect(getPolicyOutcome('deny', [options[0]!])).toEqual({
+        outcome: 'cancelled',
+      });
+      expect(getPolicyOutcome('allow', [options[1]!])).toBeNull();
+    });
+  });
+
+  describe('buildPermissionPolicy', () => {
+    it('should check mode rules first, only in their mode', () => {
+      const policy = createPolicy(
+        buildPermissionPolicy({
+          ...DEFAULT_CONFIG,
+          permissions: { policy: teamPolicy },
+          modes: [
+            {
+              id: 'test-fixer',
+              name: 'Test fixer',
+              permissionRules: [
+                { action: 'allow', kinds: ['edit'], paths: ['**/*.test.ts'] },
+                { action: 'deny', kinds: ['edit', 'execute'] },
+              ],
+            },
+          ],
+        })!
+      );
+      const fixer = { cwd, mode: 'test-fixer' };
+
+      expect(policy.evaluate(editCall('/repo/src/a.test.ts'), fixer)).toEqual(
+        expect.objectContaining({ action: 'allow', ruleIndex: 0 })
+      );
+      expect(policy.evaluate(editCall('/repo/src/a.ts'), fixer)?.action).toBe(
+        'deny'
+      );
+      expect(
+        policy.evaluate(editCall('/repo/src/a.ts'), { cwd, mode: 'agent' })
+          ?.action
+      ).toBe('allow');
+    });
+
+    it('should keep permissions.policy when no mode has rules', () => {
+      const config = { ...DEFAULT_CONFIG, permissions: { policy: teamPolicy } };
+
+      expect(buildPermissionPolicy(config)).toBe(teamPolicy);
+    });
+  });
+
+  describe('parseArgv', () => {
+    it('should split on whitespace and honor quotes', () => {
+      expect(parseArgv(`git commit -m "fix: a b" ''`)).toEqual([
+        'git',
+        'commit',
+        '-m',
+        'fix: a b',
+        '',
+      ]);
+    });
+  });
+
+  describe('config validation', () => {
+    it('should accept a valid policy', () => {
+      const result = validateConfig({
+        ...DEFAULT_CONFIG,
+        permissions: { policy: { ...teamPolicy, defaultAction: 'ask' } },
+      });
+
+      expect(result.errors).toEqual([]);
+    });
+
+    it('should report invalid rules', () => {
+      const result = validateConfig({
+        ...DEFAULT_CONFIG,
+        permissions: {
+          policy: {
+            rules: [
+              { action: 'maybe' as any },
+              { action: 'allow', kinds: ['write' as any] },
+              { action: 'allow', paths: 'src/**' as any },
+            ],
+          },
+        },
+      });
+
+      expect(result.errors).toEqual([
+        expect.stringContaining('permissions.policy.rules[0].action'),
+        expect.stringContaining('permissions.policy.rules[1].kinds'),
+        expect.stringContaining('permissions.policy.rules[2].paths'),
+      ]);
+    });
+  });
+});
@@ -4,7 +4,12 @@
  * Tests permission request handling and default permission logic.
  */
 
-import { PermissionsHandler } from '../../../src/protocol/permissions';
+import {
+  PermissionsHandler,
+  type PermissionHandlerOptions,
+} from '../../../src/protocol/permissions';
+import { PermissionPolicy } from '../../../src/protocol/permission-policy';
+import { PermissionStore } from '../../../src/protocol/permission-store';
 import type { Logger, AcpRequest } from '../../../src/types';
 
 describe('PermissionsHandler', () => {
@@ -328,6 +333,122 @@ describe('PermissionsHandler', () => {
     });
   });
 
+  describe('permission policy', () => {
+    const toolCall = {
+      toolCallId: 'tool_123',
+      title: 'Run tests',
+      kind: 'execute' as const,
+      rawInput: { command: 'npm test' },
+    };
+    const request: AcpRequest = {
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'session/request_permission',
+      params: {
+        sessionId: 'session1',
+        toolCall,
+        options: [
+          { optionId: 'allow-once', name: 'Allow', kind: 'allow_once' },
+          { optionId: 'reject-once', name: 'Reject', kind: 'reject_once' },
+        ],
+      },
+    };
+
+    const createHandler = async (
+      rules: ConstructorParameters<typeof PermissionPolicy>[0]['policy'],
+      options: Partial<PermissionHandlerOptions> = {}
+    ) => {
+      const permissionStore = new PermissionStore({ logger: mockLogger });
+      await permissionStore.recordDecision('session1', toolCall, 'allow');
+      return new PermissionsHandler({
+        logger: mockLogger,
+        permissionStore,
+        permissionPolicy: new PermissionPolicy({
+          logger: mockLogger,
+          policy: rules,
+        }),
+        ...options,
+      });
+    };
+
+    it('should apply remembered decisions when no rule matches', async () => {
+      const policyHandler = await createHandler({ defaultAction: 'ask' });
+
+      const response = await policyHandler.handlePermissionRequest(request);
+
+      expect(response.result.outcome).toEqual({
+        outcome: 'selected',
+        optionId: 'allow-once',
+      });
+    });
+
+    it('should not apply remembered decisions when a rule asks', async () => {
+      const policyHandler = await createHandler({
+        rules: [{ action: 'ask', kinds: ['execute'] }],
+      });
+
+      const response = await policyHandler.handlePermissionRequest(request);
+
+      // Without a client to ask, the default for the tool kind applies
+      expect(response.result.outcome).toEqual({
+        outcome: 'selected',
+        optionId: 'reject-once',
+      });
+    });
+
+    it('should ask the client when a rule asks', async () => {
+      const requestPermission = jest.fn().mockResolvedValue({
+        outcome: 'selected',
+        optionId: 'allow-once',
+      });
+      const policyHandler = await createHandler(
+        { rules: [{ action: 'ask', kinds: ['execute'] }] },
+        { requestPermission }
+      );
+
+      const response = await policyHandler.handlePermissionRequest(request);
+
+      expect(requestPermission).toHaveBeenCalledWith(request.params);
+      expect(response.result.outcome).toEqual({
+        outcome: 'selected',
+        optionId: 'allow-once',
+      });
+    });
+
+    it('should cancel when asking the client fails', async () => {
+      const policyHandler = await createHandler(
+        { rules: [{ action: 'ask', kinds: ['execute'] }] },
+        { requestPermission: jest.fn().mockRejectedValue(new Error('gone')) }
+      );
+
+      const response = await policyHandler.handlePermissionRequest(request);
+
+      expect(response.result.outcome).toEqual({ outcome: 'cancelled' });
+    });
+
+    it('should evaluate rules without context when it cannot be loaded', async () => {
+      const policyHandler = await createHandler(
+        { rules: [{ action: 'deny', kinds: ['execute'] }] },
+        {
+          getPermissionContext: jest
+            .fn()
+            .mockRejectedValue(new Error('Session not found')),
+        }
+      );
+
+      const response = await policyHandler.handlePermissionRequest(request);
+
+      expect(response.result.outcome).toEqual({
+        outcome: 'selected',
+        optionId: 'reject-once',
+      });
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        'Failed to get permission policy context',
+        expect.objectContaining({ sessionId: 'session1' })
+      );
+    });
+  });
+
   describe('createPermissionRequest', () => {
     it('should create a pending permission request', async () => {
       const promise = handler.createPermissionRequest({
@@ -6,6 +6,7 @@ import { jest } from '@jest/globals';
 import { PromptHandler } from '../../../src/protocol/prompt';
 import { ContentProcessor } from '../../../src/protocol/content';
 import { SlashCommandsRegistry } from '../../../src/tools/slash-commands';
+import { ToolCallManager } from '../../../src/tools/tool-call-manager';
 import type {
   AcpRequest,
   SessionPromptParams,
@@ -16,7 +17,14 @@ import type {
   Logger,
   AdapterConfig,
 } from '../../../src/types';
-import { ProtocolError, SessionError } from '../../../src/types';
+import {
+  AdapterErrorCode,
+  CursorRateLimitError,
+  CursorTimeoutError,
+  ProtocolError,
+  SessionError,
+  SessionNotFoundError,
+} from '../../../src/types';
 import type { PlanEntry, SessionNotification } from '@agentclientprotocol/sdk';
 
 // Mock dependencies
@@ -31,6 +39,11 @@ const mockSessionManager = {
   markSessionProcessing: jest.fn(),
   unmarkSessionProcessing: jest.fn(),
   getSessionModel: jest.fn().mockReturnValue('auto'),
+  getSessionMode: jest.fn().mockReturnValue('agent'),
+  getModeConfig: jest.fn().mockReturnValue(undefined),
+  recordTurnUsage: jest.fn(),
+  startTurnRecording: jest.fn(),
+  finishTurnRecording: jest.fn(),
   getCursorChatId: jest.fn().mockReturnValue(undefined),
   setSessionModel: jest.fn(),
   getAvailableModels: jest
@@ -88,6 +101,8 @@ describe('PromptHandler', () => {
 
     // Reset all mock return values
     mockSessionManager.getSessionModel.mockReturnValue('auto');
+    mockSessionManager.getSessionMode.mockReturnValue('agent');
+    mockSessionManager.getModeConfig.mockReturnValue(undefined);
     mockSessionManager.getCursorChatId.mockReturnValue(undefined);
     mockSessionManager.getAvailableModels.mockReturnValue([
       { id: 'auto', name: 'Auto', provider: 'cursor' },
@@ -201,6 +216,136 @@ describe('PromptHandler', () => {
         expect(mockCursorBridge.sendPrompt).toHaveBeenCalledTimes(1);
       });
 
+      it('should send the mode preamble and cursor-agent flags', async () => {
+        mockSessionManager.getSessionMode.mockReturnValue('plan');
+        mockSessionManager.getModeConfig.mockReturnValue({
+          systemPrompt: 'You are in Plan mode.',
+          cursorArgs: ['--mode', 'plan'],
+        });
+
+        await promptHandler.processPrompt(validRequest);
+        await new Promise((resolve) => setTimeout(resolve, 50));
+
+        expect(mockSessionManager.getModeConfig).toHaveBeenCalledWith('plan');
+        const options = mockCursorBridge.sendPrompt.mock.calls[0][0];
+        expect(options.cursorArgs).toEqual(['--mode', 'plan']);
+        expect(options.content.value).toMatch(/^You are in Plan mode\.\n\n/);
+      });
+
+      it('should send the checklist of a plan mode answer as the plan', async () => {
+        mockSessionManager.getSessionMode.mockReturnValue('plan');
+        mockCursorBridge.sendPrompt.mockResolvedValue({
+          success: true,
+          stdout: 'Plan:\n- [ ] Parse input\n- [ ] Write output',
+          stderr: '',
+          exitCode: 0,
+        });
+
+        await promptHandler.processPrompt(validRequest);
+
+        const plans = mockSendNotification.mock.calls
+          .map(([notification]) => notification.params?.update)
+          .filter((update) => update?.sessionUpdate === 'plan');
+        expect(plans).toEqual([
+          {
+            sessionUpdate: 'plan',
+            entries: [
+              { content: 'Parse input', priority: 'medium', status: 'pending' },
+              {
+                content: 'Write output',
+                priority: 'medium',
+                status: 'pending',
+              },
+            ],
+          },
+        ]);
+      });
+
+      it('should not read plans from answers outside plan mode', async () => {
+        mockCursorBridge.sendPrompt.mockResolvedValue({
+          success: true,
+          stdout: '- [ ] Parse input',
+          stderr: '',
+          exitCode: 0,
+        });
+
+        await promptHandler.processPrompt(validRequest);
+
+        expect(
+          mockSendNotification.mock.calls.some(
+            ([notification]) =>
+              notification.params?.update?.sessionUpdate === 'plan'
+          )
+        ).toBe(false);
+      });
+
+      it('should record usage and return it in the response _meta', async () => {
+        const usage = {
+          inputTokens: 100,
+          outputTokens: 20,
+          cacheReadTokens: 0,
+          cacheWriteTokens: 0,
+          totalTokens: 120,
+        };
+        const sessionUsage = { turns: 3, totalTokens: 360, byModel: {} };
+        mockCursorBridge.sendPrompt.mockResolvedValue({
+          success: true,
+          stdout: 'Done',
+          stderr: '',
+          exitCode: 0,
+          metadata: { cursorDurationMs: 1500, usage },
+        });
+        mockSessionManager.recordTurnUsage.mockResolvedValue(sessionUsage);
+
+        const response = await promptHandler.processPrompt(validRequest);
+
+        const turn = { model: 'auto', ...usage, durationMs: 1500 };
+        expect(mockSessionManager.recordTurnUsage).toHaveBeenCalledWith(
+          'test-session-1',
+          turn
+        );
+        expect(response.result._meta.usage).toEqual({
+          turn,
+          session: sessionUsage,
+        });
+      });
+
+      it('should not record usage cursor-agent did not report', async () => {
+        const response = await promptHandler.processPrompt(validRequest);
+
+        expect(mockSessionManager.recordTurnUsage).not.toHaveBeenCalled();
+        expect(response.result._meta.usage).toBeUndefined();
+      });
+
+      it('should list truncated resources in the response _meta', async () => {
+        const truncatedResources = [
+          {
+            index: 0,
+            uri: 'file:///tmp/test-project/big.log',
+            bytes: 65536,
+            originalBytes: 200000,
+          },
+        ];
+        jest
+          .spyOn((promptHandler as any).contentProcessor, 'processContent')
+          .mockResolvedValueOnce({
+            value: 'Hello',
+            metadata: { blocks: [], totalSize: 5, truncatedResources },
+          });
+
+        const response = await promptHandler.processPrompt(validRequest);
+
+        expect(response.result._meta.truncatedResources).toEqual(
+          truncatedResources
+        );
+      });
+
+      it('should leave truncatedResources out when nothing was cut', async () => {
+        const response = await promptHandler.processPrompt(validRequest);
+
+        expect(response.result._meta.truncatedResources).toBeUndefined();
+      });
+
       it('should add user message to session', async () => {
         await promptHandler.processPrompt(validRequest);
 
@@ -279,8 +424,57 @@ describe('PromptHandler', () => {
             source: 'test',
             cwd: expect.any(String),
           }),
+          turnTimeoutMs: 30 * 60 * 1000,
         });
       });
+
+      it('should send images as files that are removed after the turn', async () => {
+        const imageStore = {
+          checkImage: jest.fn().mockReturnValue(null),
+          saveImage: jest.fn<any>().mockResolvedValue({
+            path: '/tmp/images/session-x/image-1.png',
+            mimeType: 'image/png',
+            bytes: 68,
+          }),
+          releaseSession: jest.fn<any>().mockResolvedValue(undefined),
+        };
+        promptHandler = new PromptHandler({
+          sessionManager: mockSessionManager as any,
+          cursorBridge: mockCursorBridge as any,
+          config: mockConfig,
+          logger: mockLogger,
+          sendNotification: mockSendNotification,
+          imageStore: imageStore as any,
+        });
+
+        await promptHandler.processPrompt({
+          ...validRequest,
+          params: {
+            ...validRequest.params,
+            prompt: [
+              { type: 'text', text: 'What is in this screenshot?' },
+              { type: 'image', mimeType: 'image/png', data: 'iVBORw0KGgo=' },
+            ],
+          },
+        });
+
+        expect(mockCursorBridge.sendPrompt).toHaveBeenCalledWith(
+          expect.objectContaining({
+            content: expect.objectContaining({
+              value: expect.stringContaining(
+                'Attached image file: /tmp/images/session-x/image-1.png'
+              ),
+            }),
+          })
+        );
+        expect(imageStore.saveImage).toHaveBeenCalledWith(
+          'test-session-1',
+          expect.objectContaining({ type: 'image' })
+        );
+        expect(imageStore.releaseSession).toHaveBeenCalledWith(
+          'test-session-1'
+        );
+      });
     });
 
     describe('streaming prompts', () => {
@@ -382,6 +576,463 @@ describe('PromptHandler', () => {
         // After completion, stream count should be back to 0
         expect(promptHandler.getActiveStreamCount()).toBe(0);
       });
+
+      it('should stream cursor-agent reasoning as thought chunks', async () => {
+        mockCursorBridge.sendStreamingPrompt.mockImplementation(
+          async (options) => {
+            const events = [
+              {
+                type: 'thinking',
+                subtype: 'delta',
+                text: 'Check the ',
+                raw: {},
+              },
+              { type: 'thinking', subtype: 'delta', text: 'tests', raw: {} },
+              { type: 'thinking', subtype: 'completed', raw: {} },
+              { type: 'assistant', text: 'Done', isDelta: true, raw: {} },
+            ];
+            for (const event of events) {
+              await options.onChunk({ type: 'event', data: event });
+            }
+            return { success: true, stdout: '', stderr: '', exitCode: 0 };
+          }
+        );
+
+        await promptHandler.processPrompt(streamingRequest);
+
+        const updates = mockSendNotification.mock.calls
+          .map(([notification]) => notification.params?.update)
+          .filter((update) => update?.sessionUpdate?.startsWith('agent_'));
+        expect(updates).toEqual([
+          {
+            sessionUpdate: 'agent_thought_chunk',
+            content: { type: 'text', text: 'Check the ' },
+          },
+          {
+            sessionUpdate: 'agent_thought_chunk',
+            content: { type: 'text', text: 'tests' },
+          },
+          expect.objectContaining({
+            sessionUpdate: 'agent_message_chunk',
+            content: expect.objectContaining({ text: 'Done' }),
+          }),
+        ]);
+      });
+
+      it('should send heartbeats only when configured', async () => {
+        promptHandler = new PromptHandler({
+          sessionManager: mockSessionManager as any,
+          cursorBridge: mockCursorBridge as any,
+          config: { ...mockConfig, prompt: { heartbeatIntervalMs: 1000 } },
+          logger: mockLogger,
+          sendNotification: mockSendNotification,
+        });
+        mockCursorBridge.sendStreamingPrompt.mockImplementation(async () => {
+          await new Promise((resolve) => setTimeout(resolve, 1100));
+          return { success: true, stdout: '', stderr: '', exitCode: 0 };
+        });
+
+        const response = await promptHandler.processPrompt(streamingRequest);
+
+        const heartbeats = mockSendNotification.mock.calls
+          .map(([notification]) => notification)
+          .filter(
+            (notification) => notification.method === '_cursor/heartbeat'
+          );
+        expect(heartbeats).toEqual([
+          {
+            jsonrpc: '2.0',
+            method: '_cursor/heartbeat',
+            params: {
+              sessionId: 'test-session-1',
+              elapsedMs: expect.any(Number),
+              heartbeatNumber: 1,
+            },
+          },
+        ]);
+        expect(response.result._meta.heartbeatsCount).toBe(1);
+      });
+
+      it('should forward cursor-agent todo updates as plan updates', async () => {
+        const todoCall = (todos: Array<Record<string, string>>) => ({
+          type: 'tool_call',
+          subtype: 'started',
+          callId: `todo-${todos.length}`,
+          toolName: 'updateTodos',
+          args: { todos, merge: true },
+          raw: {},
+        });
+        mockCursorBridge.sendStreamingPrompt.mockImplementation(
+          async (options) => {
+            const events = [
+              todoCall([
+                { id: '1', content: 'Read code', status: 'in_progress' },
+                { id: '2', content: 'Fix bug', status: 'pending' },
+              ]),
+              todoCall([{ id: '1', status: 'completed' }]),
+              {
+                type: 'assistant',
+                text: '- [ ] Not a plan',
+                isDelta: false,
+                raw: {},
+              },
+            ];
+            for (const event of events) {
+              await options.onChunk({ type: 'event', data: event });
+            }
+            return { success: true, stdout: '', stderr: '', exitCode: 0 };
+          }
+        );
+        mockSessionManager.getSessionMode.mockReturnValue('plan');
+
+        await promptHandler.processPrompt(streamingRequest);
+
+        const plans = mockSendNotification.mock.calls
+          .map(([notification]) => notification.params?.update)
+          .filter((update) => update?.sessionUpdate === 'plan');
+        expect(plans.map((plan) => plan.entries)).toEqual([
+          [
+            { content: 'Read code', priority: 'medium', status: 'in_progress' },
+            { content: 'Fix bug', priority: 'medium', status: 'pending' },
+          ],
+          [
+            { content: 'Read code', priority: 'medium', status: 'completed' },
+            { content: 'Fix bug', priority: 'medium', status: 'pending' },
+          ],
+        ]);
+      });
+
+      it('should forward stream-json assistant deltas without duplicating the final message', async () => {
+        const assistant = (text: string, timestamp?: number) => ({
+          type: 'assistant',
+          text,
+          isDelta: timestamp !== undefined,
+          raw: {},
+        });
+        mockCursorBridge.sendStreamingPrompt.mockImplementation(
+          async (options) => {
+            const events = [
+              { type: 'system', subtype: 'init', raw: {} },
+              assistant('Hello ', 1),
+              assistant('world\n', 2),
+              assistant('Hello world\n'),
+              {
+                type: 'result',
+                subtype: 'success',
+                isError: false,
+                result: 'Hello world\n',
+                durationMs: 42,
+                raw: {},
+              },
+            ];
+            for (const event of events) {
+              await options.onChunk({ type: 'event', data: event });
+            }
+            return { success: true, stdout: '', stderr: '', exitCode: 0 };
+          }
+        );
+
+        await promptHandler.processPrompt(streamingRequest);
+        await new Promise((resolve) => setTimeout(resolve, 50));
+
+        const streamedText = mockSendNotification.mock.calls
+          .map(([notification]) => notification.params?.update)
+          .filter((update) => update?.sessionUpdate === 'agent_message_chunk')
+          .map((update) => update.content.text)
+          .join('');
+        expect(streamedText).toBe('Hello world\n');
+      });
+
+      it('should record usage from the stream-json result event', async () => {
+        mockCursorBridge.sendStreamingPrompt.mockImplementation(
+          async (options) => {
+            await options.onChunk({
+              type: 'event',
+              data: {
+                type: 'result',
+                subtype: 'success',
+                isError: false,
+                durationMs: 900,
+                durationApiMs: 700,
+                usage: {
+                  inputTokens: 10,
+                  outputTokens: 5,
+                  cacheReadTokens: 0,
+                  cacheWriteTokens: 0,
+                  totalTokens: 15,
+                  costUsd: 0.002,
+                },
+                raw: {},
+              },
+            });
+            return { success: true, stdout: '', stderr: '', exitCode: 0 };
+          }
+        );
+        mockSessionManager.recordTurnUsage.mockResolvedValue({
+          turns: 1,
+          totalTokens: 15,
+          byModel: {},
+        });
+
+        const response = await promptHandler.processPrompt(streamingRequest);
+
+        expect(response.result._meta.usage.turn).toEqual({
+          model: 'auto',
+          inputTokens: 10,
+          outputTokens: 5,
+          cacheReadTokens: 0,
+          cacheWriteTokens: 0,
+          totalTokens: 15,
+          costUsd: 0.002,
+          durationMs: 900,
+          apiDurationMs: 700,
+        });
+        expect(response.result._meta.usage.session.totalTokens).toBe(15);
+      });
+
+      it('should report cursor-agent tool calls as ACP tool calls', async () => {
+        const toolCallManager = new ToolCallManager({
+          logger: mockLogger,
+          sendNotification: mockSendNotification,
+        });
+        promptHandler = new PromptHandler({
+          sessionManager: mockSessionManager as any,
+          cursorBridge: mockCursorBridge as any,
+          config: mockConfig,
+          logger: mockLogger,
+          sendNotification: mockSendNotification,
+          toolCallManager,
+        });
+        mockSessionManager.loadSession.mockResolvedValue({
+          id: 'test-session-1',
+          metadata: { name: 'Test Session', cwd: '/project' },
+          conversation: [],
+          state: { lastActivity: new Date(), messageCount: 0 },
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        });
+        const editEvent = (subtype: 'started' | 'completed') => ({
+          type: 'tool_call',
+          subtype,
+          callId: 'call-1',
+          toolName: 'edit',
+          args: {
+            path: 'src/a.ts',
+            strReplace: { oldText: 'a', newText: 'b' },
+          },
+          ...(subtype === 'completed' && { result: { success: {} } }),
+          raw: {},
+        });
+        mockCursorBridge.sendStreamingPrompt.mockImplementation(
+          async (options) => {
+            await options.onChunk({
+              type: 'event',
+              data: editEvent('started'),
+            });
+            await options.onChunk({
+              type: 'event',
+              data: editEvent('completed'),
+            });
+            return { success: true, stdout: '', stderr: '', exitCode: 0 };
+          }
+        );
+
+        await promptHandler.processPrompt(streamingRequest);
+        await new Promise((resolve) => setTimeout(resolve, 50));
+
+        const updates = mockSendNotification.mock.calls
+          .map(([notification]) => notification.params?.update)
+          .filter((update) => update?.toolCallId === 'call-1');
+        expect(updates).toHaveLength(2);
+        expect(updates[0]).toMatchObject({
+          sessionUpdate: 'tool_call',
+          kind: 'edit',
+          status: 'in_progress',
+          title: 'Edit src/a.ts',
+          locations: [{ path: '/project/src/a.ts' }],
+        });
+        expect(updates[1]).toMatchObject({
+          sessionUpdate: 'tool_call_update',
+          status: 'completed',
+          content: [
+            {
+              type: 'diff',
+              path: '/project/src/a.ts',
+              oldText: 'a',
+              newText: 'b',
+            },
+          ],
+        });
+        await toolCallManager.cleanup();
+      });
+
+      it('should fail cursor-agent tool calls that never complete', async () => {
+        const toolCallManager = new ToolCallManager({
+          logger: mockLogger,
+          sendNotification: mockSendNotification,
+        });
+        promptHandler = new PromptHandler({
+          sessionManager: mockSessionManager as any,
+          cursorBridge: mockCursorBridge as any,
+          config: mockConfig,
+          logger: mockLogger,
+          sendNotification: mockSendNotification,
+          toolCallManager,
+        });
+        mockCursorBridge.sendStreamingPrompt.mockImplementation(
+          async (options) => {
+            await options.onChunk({
+              type: 'event',
+              data: {
+                type: 'tool_call',
+                subtype: 'started',
+                callId: 'call-2',
+                toolName: 'shell',
+                args: { command: 'npm test' },
+                raw: {},
+              },
+            });
+            return { success: true, stdout: '', stderr: '', exitCode: 0 };
+          }
+        );
+
+        await promptHandler.processPrompt(streamingRequest);
+        await new Promise((resolve) => setTimeout(resolve, 50));
+
+        const updates = mockSendNotification.mock.calls
+          .map(([notification]) => notification.params?.update)
+          .filter((update) => update?.toolCallId === 'call-2');
+        expect(updates.map((update) => update.status)).toEqual([
+          'in_progress',
+          'failed',
+        ]);
+        expect(updates[0]).toMatchObject({
+          kind: 'execute',
+          title: 'Run: npm test',
+        });
+        await toolCallManager.cleanup();
+      });
+
+      it('should fail open cursor-agent tool calls when the turn is cancelled', async () => {
+        const toolCallManager = new ToolCallManager({
+          logger: mockLogger,
+          sendNotification: mockSendNotification,
+        });
+        promptHandler = new PromptHandler({
+          sessionManager: mockSessionManager as any,
+          cursorBridge: mockCursorBridge as any,
+          config: mockConfig,
+          logger: mockLogger,
+          sendNotification: mockSendNotification,
+          toolCallManager,
+        });
+        mockCursorBridge.sendStreamingPrompt.mockImplementation(
+          async (options) => {
+            await options.onChunk({
+              type: 'event',
+              data: {
+                type: 'tool_call',
+                subtype: 'started',
+                callId: 'call-3',
+                toolName: 'shell',
+                args: { command: 'npm test' },
+                raw: {},
+              },
+            });
+            await promptHandler.cancelSession('test-session-1');
+            throw new Error('Operation aborted');
+          }
+        );
+
+        const response = await promptHandler.processPrompt(streamingRequest);
+
+        expect(response.result.stopReason).toBe('cancelled');
+        const updates = mockSendNotification.mock.calls
+          .map(([notification]) => notification.params?.update)
+          .filter((update) => update?.toolCallId === 'call-3');
+        expect(updates.map((update) => update.status)).toEqual([
+          'in_progress',
+          'failed',
+        ]);
+        expect(updates[1].content[0].content.text).toBe(
+          'Error: Tool call was cancelled'
+        );
+        await toolCallManager.cleanup();
+      });
+
+      it('should fail the turn when the result event reports an error', async () => {
+        mockCursorBridge.sendStreamingPrompt.mockImplementation(
+          async (options) => {
+            await options.onChunk({
+              type: 'event',
+              data: {
+                type: 'result',
+                subtype: 'error',
+                isError: true,
+                result: 'Model unavailable',
+                raw: {},
+              },
+            });
+            return { success: true, stdout: '', stderr: '', exitCode: 0 };
+          }
+        );
+
+        await promptHandler.processPrompt(streamingRequest);
+        await new Promise((resolve) => setTimeout(resolve, 50));
+
+        // Only the user message is recorded when the turn fails
+        expect(mockSessionManager.addMessage).toHaveBeenCalledTimes(1);
+      });
+
+      it('should pass the time limits of the session mode', async () => {
+        mockSessionManager.getModeConfig.mockReturnValue({
+          cursorArgs: ['--mode', 'plan'],
+          turnTimeoutMs: 600000,
+        });
+
+        await promptHandler.processPrompt(streamingRequest);
+
+        expect(mockCursorBridge.sendStreamingPrompt).toHaveBeenCalledWith(
+          expect.objectContaining({
+            idleTimeoutMs: 2 * 60 * 1000,
+            turnTimeoutMs: 600000,
+          })
+        );
+      });
+
+      it('should end a timed-out turn with end_turn and keep its output', async () => {
+        mockCursorBridge.sendStreamingPrompt.mockImplementation(
+          async (options) => {
+            await options.onChunk({ type: 'content', data: 'Partial answer' });
+            throw new CursorTimeoutError(
+              'cursor-agent produced no output for 120000ms',
+              120000,
+              undefined,
+              'idle'
+            );
+          }
+        );
+
+        const response = await promptHandler.processPrompt(streamingRequest);
+
+        expect(response.result.stopReason).toBe('end_turn');
+        expect(response.result._meta.stopReasonDetails).toMatchObject({
+          reason: 'timeout',
+          limit: 'idle',
+          timeoutMs: 120000,
+          errorCode: AdapterErrorCode.TIMEOUT,
+        });
+        expect(mockSessionManager.addMessage).toHaveBeenLastCalledWith(
+          'test-session-1',
+          expect.objectContaining({
+            role: 'assistant',
+            content: [
+              expect.objectContaining({ type: 'text', text: 'Partial answer' }),
+            ],
+            metadata: expect.objectContaining({ partial: true }),
+          })
+        );
+      });
     });
 
     describe('validation', () => {
@@ -546,7 +1197,7 @@ describe('PromptHandler', () => {
     describe('error handling', () => {
       it('should handle session not found error', async () => {
         mockSessionManager.loadSession.mockRejectedValue(
-          new SessionError('Session not found', 'test-session-1')
+          new SessionNotFoundError('test-session-1')
         );
 
         const response = await promptHandler.processPrompt(validRequest);
@@ -556,6 +1207,17 @@ describe('PromptHandler', () => {
         expect(response.error?.message).toContain('Session not found');
       });
 
+      it('should report other session errors as internal errors', async () => {
+        mockSessionManager.loadSession.mockRejectedValue(
+          new SessionError('Failed to load session: EACCES', 'test-session-1')
+        );
+
+        const response = await promptHandler.processPrompt(validRequest);
+
+        expect(response.error?.code).toBe(-32603);
+        expect(response.error?.message).toContain('EACCES');
+      });
+
       it('should handle cursor bridge errors', async () => {
         const mockSendNotification = jest.fn();
         const handlerWithMock = new PromptHandler({
@@ -752,6 +1414,51 @@ describe('PromptHandler', () => {
           'authentication'
         );
       });
+
+      it('should report the code and data of typed cursor-agent errors', async () => {
+        const mockSendNotification = jest.fn();
+        const handlerWithMock = new PromptHandler({
+          sessionManager: mockSessionManager as any,
+          cursorBridge: mockCursorBridge as any,
+          config: mockConfig,
+          logger: mockLogger,
+          sendNotification: mockSendNotification,
+        });
+
+        mockSessionManager.loadSession.mockResolvedValue({
+          id: 'test-session-1',
+          metadata: {
+            cwd: '/tmp/test-project',
+          },
+        });
+        mockSessionManager.getSessionModel.mockReturnValue('default');
+        mockSessionManager.getCursorChatId.mockReturnValue(undefined);
+        mockCursorBridge.sendPrompt.mockRejectedValue(
+          new CursorRateLimitError('Rate limit exceeded', 30000)
+        );
+
+        const response = await handlerWithMock.processPrompt(validRequest);
+
+        expect(response.result?._meta?.stopReasonDetails).toMatchObject({
+          reason: 'rate_limit',
+          errorCode: AdapterErrorCode.RATE_LIMITED,
+          errorData: { type: 'rate_limited', retryAfterMs: 30000 },
+        });
+
+        const errorNotification = mockSendNotification.mock.calls.find(
+          (call) =>
+            call[0].params?.update?.content?.annotations?._meta?.isError ===
+            true
+        );
+        const content = errorNotification[0].params.update.content;
+        expect(content.text).toBe(
+          'Unable to process your request: Rate limit exceeded\n\nWait a moment and try again.'
+        );
+        expect(content.annotations._meta).toMatchObject({
+          errorType: 'rate_limit',
+          errorCode: AdapterErrorCode.RATE_LIMITED,
+        });
+      });
     });
   });
 
@@ -0,0 +1,247 @@
+/**
+ * Unit tests for ResourceLinkResolver
+ *
+ * Tests reading the files behind file:// resource links through the client
+ * or the local file system, the workspace limit on local reads, and the
+ * per-file and per-prompt byte budgets.
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import type { ClientCapabilities } from '@agentclientprotocol/sdk';
+import { ResourceLinkResolver } from '../../../src/protocol/resource-links';
+import { ContentProcessor } from '../../../src/protocol/content';
+import type { FileSystemClient } from '../../../src/client/filesystem-client';
+import type { AdapterConfig, Logger } from '../../../src/types';
+import { DEFAULT_CONFIG } from '../../../src';
+
+describe('ResourceLinkResolver', () => {
+  let tempDir: string;
+  let config: AdapterConfig;
+  let mockLogger: Logger;
+  let capabilities: ClientCapabilities | null;
+  let fileSystemClient: jest.Mocked<FileSystemClient>;
+  let resolver: ResourceLinkResolver;
+
+  const writeFile = async (name: string, content: string | Buffer) => {
+    const filePath = path.join(tempDir, name);
+    await fs.writeFile(filePath, content);
+    return pathToFileURL(filePath).href;
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'resource-links-'));
+    config = {
+      ...structuredClone(DEFAULT_CONFIG),
+      content: {
+        resourceLinks: { resolve: true, maxFileBytes: 16, maxPromptBytes: 24 },
+      },
+    };
+    mockLogger = {
+      error: jest.fn(),
+      warn: jest.fn(),
+      info: jest.fn(),
+      debug: jest.fn(),
+    };
+    capabilities = null;
+    fileSystemClient = {
+      readTextFile: jest.fn(),
+      writeTextFile: jest.fn(),
+    };
+    resolver = new ResourceLinkResolver({
+      config,
+      logger: mockLogger,
+      fileSystemClient,
+      getClientCapabilities: () => capabilities,
+      getSessionCwd: (sessionId) =>
+        sessionId === 'session-1' ? tempDir : undefined,
+    });
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should read local files when the client cannot read files', async () => {
+    const uri = await writeFile('a.ts', 'export const a = 1;\n');
+
+    const resolution = await resolver.resolve(
+      'session-1',
+      uri,
+      resolver.createBudget()
+    );
+
+    expect(resolution).toEqual({
+      status: 'resolved',
+      text: 'export const a =',
+      source: 'local',
+      bytes: 16,
+      originalBytes: 20,
+      truncated: true,
+    });
+    expect(fileSystemClient.readTextFile).not.toHaveBeenCalled();
+  });
+
+  it('should read through the client when it supports fs reads', async () => {
+    capabilities = { fs: { readTextFile: true } };
+    fileSystemClient.readTextFile.mockResolvedValue('unsaved edits');
+    const uri = pathToFileURL(path.join(tempDir, 'open.ts')).href;
+
+    const resolution = await resolver.resolve(
+      'session-1',
+      uri,
+      resolver.createBudget()
+    );
+
+    expect(fileSystemClient.readTextFile).toHaveBeenCalledWith({
+      sessionId: 'session-1',
+      path: path.join(tempDir, 'open.ts'),
+    });
+    expect(resolution).toMatchObject({
+      status: 'resolved',
+      text: 'unsaved edits',
+      source: 'client',
+      truncated: false,
+    });
+  });
+
+  it('should share the prompt budget between links', async () => {
+    const first = await writeFile('first.txt', 'a'.repeat(16));
+    const second = await writeFile('second.txt', 'b'.repeat(16));
+    const third = await writeFile('third.txt', 'c');
+    const budget = resolver.createBudget();
+
+    await resolver.resolve('session-1', first, budget);
+    const secondResult = await resolver.resolve('session-1', second, budget);
+    const thirdResult = await resolver.resolve('session-1', third, budget);
+
+    expect(secondResult).toMatchObject({
+      text: 'b'.repeat(8),
+      truncated: true,
+    });
+    expect(thirdResult).toEqual({
+      status: 'skipped',
+      reason: 'prompt byte budget exhausted',
+    });
+  });
+
+  it('should not split multi-byte characters', async () => {
+    const uri = await writeFile('utf8.txt', `${'a'.repeat(15)}é`);
+
+    const resolution = await resolver.resolve(
+      'session-1',
+      uri,
+      resolver.createBudget()
+    );
+
+    expect(resolution).toMatchObject({ text: 'a'.repeat(15), bytes: 15 });
+  });
+
+  it('should skip binary and unreadable files', async () => {
+    const binary = await writeFile('image.bin', Buffer.from([1, 0, 2]));
+    const missing = pathToFileURL(path.join(tempDir, 'missing.txt')).href;
+
+    expect(
+      await resolver.resolve('session-1', binary, resolver.createBudget())
+    ).toEqual({ status: 'skipped', reason: 'binary file' });
+    expect(
+      await resolver.resolve('session-1', missing, resolver.createBudget())
+    ).toMatchObject({
+      status: 'skipped',
+      reason: expect.stringContaining('could not read file'),
+    });
+  });
+
+  it('should refuse local files outside the session workspace', async () => {
+    const outsideDir = await fs.mkdtemp(
+      path.join(os.tmpdir(), 'resource-links-outside-')
+    );
+    try {
+      const outsideFile = path.join(outsideDir, 'secret.txt');
+      await fs.writeFile(outsideFile, 'secret');
+      await fs.symlink(outsideFile, path.join(tempDir, 'link.txt'));
+
+      for (const uri of [
+        pathToFileURL(outsideFile).href,
+        pathToFileURL(path.join(tempDir, 'link.txt')).href,
+      ]) {
+        expect(
+          await resolver.resolve('session-1', uri, resolver.createBudget())
+        ).toEqual({
+          status: 'skipped',
+          reason: 'outside the session workspace',
+        });
+      }
+    } finally {
+      await fs.rm(outsideDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should not read local files for sessions without a working directory', async () => {
+    const uri = await writeFile('a.ts', 'export const a = 1;\n');
+
+    expect(
+      await resolver.resolve('session-2', uri, resolver.createBudget())
+    ).toEqual({
+      status: 'skipped',
+      reason: 'session working directory is unknown',
+    });
+  });
+
+  it('should ignore links that are not local files', async () => {
+    expect(
+      await resolver.resolve(
+        'session-1',
+        'https://example.com/a.ts',
+        resolver.createBudget()
+      )
+    ).toBeNull();
+  });
+
+  describe('with ContentProcessor', () => {
+    let processor: ContentProcessor;
+
+    beforeEach(() => {
+      processor = new ContentProcessor({
+        config,
+        logger: mockLogger,
+        resourceLinkResolver: resolver,
+      });
+    });
+
+    it('should inline linked files and report truncation', async () => {
+      const uri = await writeFile('notes.md', 'short');
+      const longUri = await writeFile('long.md', 'x'.repeat(40));
+
+      const result = await processor.processContent(
+        [
+          { type: 'resource_link', uri, name: 'notes.md' },
+          { type: 'resource_link', uri: longUri, name: 'long.md' },
+        ],
+        { sessionId: 'session-1' }
+      );
+
+      expect(result.value).toContain(`# Resource Link: notes.md\nURI: ${uri}`);
+      expect(result.value).toContain('\nshort');
+      expect(result.value).toContain('[Truncated: showing 16.0B of 40.0B]');
+      expect(result.metadata['truncatedResources']).toEqual([
+        { index: 1, uri: longUri, bytes: 16, originalBytes: 40 },
+      ]);
+    });
+
+    it('should leave links alone when resolution is disabled', async () => {
+      config.content = { resourceLinks: { resolve: false } };
+      const uri = await writeFile('notes.md', 'short');
+
+      const result = await processor.processContent(
+        [{ type: 'resource_link', uri, name: 'notes.md' }],
+        { sessionId: 'session-1' }
+      );
+
+      expect(result.value).not.toContain('short');
+      expect(result.metadata['truncatedResources']).toBeUndefined();
+    });
+  });
+});
@@ -15,8 +15,11 @@ import type {
   SessionData,
   ConversationMessage,
 } from '../../../src/types';
-import { SessionError } from '../../../src/types';
+import { SessionError, SessionNotFoundError } from '../../../src/types';
 import { testHelpers, TEST_CONSTANTS } from '../../setup';
+import { promises as fs } from 'fs';
+import os from 'os';
+import * as path from 'path';
 
 describe('SessionManager', () => {
   let manager: SessionManager;
@@ -185,6 +188,9 @@ describe('SessionManager', () => {
       await expect(manager.loadSession(nonExistentId)).rejects.toThrow(
         `Session not found: ${nonExistentId}`
       );
+      await expect(manager.loadSession(nonExistentId)).rejects.toBeInstanceOf(
+        SessionNotFoundError
+      );
     });
 
     it('should load session from disk when not in memory', async () => {
@@ -535,8 +541,154 @@ describe('SessionManager', () => {
     });
   });
 
+  describe('recordTurnUsage', () => {
+    it('should accumulate usage per session and per model', async () => {
+      // Arrange
+      const session = await manager.createSession({ name: 'Usage' });
+
+      // Act
+      await manager.recordTurnUsage(session.id, {
+        model: 'sonnet-4.5',
+        inputTokens: 100,
+        outputTokens: 20,
+        totalTokens: 120,
+        durationMs: 1500,
+      });
+      const usage = await manager.recordTurnUsage(session.id, {
+        model: 'gpt-5',
+        inputTokens: 50,
+        outputTokens: 10,
+        totalTokens: 60,
+        durationMs: 500,
+        costUsd: 0.01,
+      });
+
+      // Assert
+      expect(usage).toMatchObject({
+        turns: 2,
+        inputTokens: 150,
+        outputTokens: 30,
+        totalTokens: 180,
+        durationMs: 2000,
+        costUsd: 0.01,
+      });
+      expect(usage.byModel['sonnet-4.5']).toMatchObject({
+        turns: 1,
+        totalTokens: 120,
+      });
+      expect(usage.byModel['sonnet-4.5']!.costUsd).toBeUndefined();
+      expect(usage.byModel['gpt-5']).toMatchObject({ turns: 1, costUsd: 0.01 });
+
+      const updated = await manager.loadSession(session.id);
+      expect(updated.state.tokenCount).toBe(180);
+    });
+
+    it('should keep usage across restarts', async () => {
+      // Arrange
+      const session = await manager.createSession({ name: 'Usage' });
+      await manager.recordTurnUsage(session.id, {
+        model: 'auto',
+        totalTokens: 42,
+      });
+      await manager.cleanup();
+
+      // Act
+      manager = new SessionManager(mockConfig, mockLogger);
+      const usage = await manager.getSessionUsage(session.id);
+
+      // Assert
+      expect(usage).toMatchObject({ turns: 1, totalTokens: 42 });
+    });
+
+    it('should report empty usage for new sessions', async () => {
+      const session = await manager.createSession({ name: 'Usage' });
+
+      const usage = await manager.getSessionUsage(session.id);
+
+      expect(usage).toMatchObject({ turns: 0, totalTokens: 0, byModel: {} });
+    });
+  });
+
+  describe('turn recording', () => {
+    const thought = (text: string) => ({
+      sessionUpdate: 'agent_thought_chunk' as const,
+      content: { type: 'text' as const, text },
+    });
+
+    it('should ignore updates outside a turn', async () => {
+      // Arrange
+      const session = await manager.createSession({ name: 'History' });
+
+      // Act
+      manager.recordSessionUpdate(session.id, thought('idle'));
+      manager.startTurnRecording(session.id);
+      await manager.finishTurnRecording(session.id);
+
+      // Assert
+      const updated = await manager.loadSession(session.id);
+      expect(updated.conversation).toEqual([]);
+    });
+
+    it('should merge text chunks and skip state updates', async () => {
+      // Arrange
+      const session = await manager.createSession({ name: 'History' });
+      manager.startTurnRecording(session.id);
+
+      // Act
+      manager.recordSessionUpdate(session.id, thought('Reading '));
+      manager.recordSessionUpdate(session.id, thought('files'));
+      manager.recordSessionUpdate(session.id, {
+        sessionUpdate: 'current_mode_update',
+        currentModeId: 'plan',
+      });
+      manager.recordSessionUpdate(session.id, {
+        sessionUpdate: 'tool_call',
+        toolCallId: 'tool-1',
+        title: 'Read file',
+        status: 'completed',
+      });
+      await manager.finishTurnRecording(session.id);
+
+      // Assert - a turn without a reply gets an assistant message of its own
+      const updated = await manager.loadSession(session.id);
+      expect(updated.conversation).toHaveLength(1);
+      expect(updated.conversation[0]).toMatchObject({
+        role: 'assistant',
+        content: [],
+        updates: [
+          thought('Reading files'),
+          expect.objectContaining({ toolCallId: 'tool-1' }),
+        ],
+      });
+      expect(updated.state.messageCount).toBe(1);
+    });
+
+    it('should save updates with the turn reply across restarts', async () => {
+      // Arrange
+      const session = await manager.createSession({ name: 'History' });
+      manager.startTurnRecording(session.id);
+      manager.recordSessionUpdate(session.id, thought('Thinking'));
+      await manager.addMessage(session.id, {
+        id: 'assistant-1',
+        role: 'assistant',
+        content: [{ type: 'text', text: 'Done' }],
+        timestamp: new Date(),
+      });
+
+      // Act
+      await manager.finishTurnRecording(session.id);
+      await manager.cleanup();
+      manager = new SessionManager(mockConfig, mockLogger);
+      const restored = await manager.loadSession(session.id);
+
+      // Assert
+      expect(restored.conversation).toHaveLength(1);
+      expect(restored.conversation[0]!.updates).toEqual([thought('Thinking')]);
+    });
+  });
+
   describe('cleanupExpiredSessions', () => {
-    it('should remove expired sessions', async () => {
+    it('should release expired sessions from memory', async () => {
       // Arrange
       const expiredSession = await manager.createSession({ name: 'Expired' });
 
@@ -547,16 +699,39 @@ describe('SessionManager', () => {
       expiredSession.state.lastActivity = expiredTime;
 
       const activeSession = await manager.createSession({ name: 'Active' });
+      const listener = jest.fn();
+      manager.onSessionDeleted(listener);
 
       // Act
       const cleanedCount = await manager.cleanupExpiredSessions();
 
       // Assert
       expect(cleanedCount).toBe(1);
-      await expect(manager.loadSession(expiredSession.id)).rejects.toThrow();
-      await expect(
-        manager.loadSession(activeSession.id)
-      ).resolves.toBeDefined();
+      expect(manager.hasSession(expiredSession.id)).toBe(false);
+      expect(manager.hasSession(activeSession.id)).toBe(true);
+      expect(listener).toHaveBeenCalledWith(expiredSession.id);
+    });
+
+    it('should keep expired sessions on disk so they can be loaded', async () => {
+      // Arrange
+      const expiredSession = await manager.createSession({ name: 'Expired' });
+      await manager.addMessage(expiredSession.id, {
+        id: 'msg-1',
+        role: 'user',
+        content: [{ type: 'text', text: 'Yesterday' }],
+        timestamp: new Date(),
+      });
+      expiredSession.state.lastActivity = new Date(
+        Date.now() - mockConfig.sessionTimeout - 1000
+      );
+
+      // Act
+      await manager.cleanupExpiredSessions();
+
+      // Assert
+      const restored = await manager.loadSession(expiredSession.id);
+      expect(restored.metadata.name).toBe('Expired');
+      expect(restored.conversation).toHaveLength(1);
     });
 
     it('should not remove active sessions', async () => {
@@ -583,10 +758,10 @@ describe('SessionManager', () => {
       );
       session.state.lastActivity = expiredTime;
 
-      // Mock delete to fail
+      // Mock saving the expired session to fail
       jest
-        .spyOn(manager, 'deleteSession')
-        .mockRejectedValue(new Error('Delete failed'));
+        .spyOn(manager as any, 'persistSession')
+        .mockRejectedValueOnce(new Error('Write failed'));
 
       // Act
       const cleanedCount = await manager.cleanupExpiredSessions();
@@ -846,4 +1021,178 @@ describe('SessionManager', () => {
       }
     });
   });
+
+  describe('persistence', () => {
+    const readSessionFile = async (sessionId: string): Promise<any> =>
+      JSON.parse(
+        await fs.readFile(path.join(tempDir, `${sessionId}.json`), 'utf-8')
+      );
+
+    it('should write sessions to the session directory', async () => {
+      // Act
+      const session = await manager.createSession({ name: 'On Disk' });
+
+      // Assert
+      const file = await readSessionFile(session.id);
+      expect(file.version).toBe(1);
+      expect(file.session.id).toBe(session.id);
+      expect(file.session.metadata.name).toBe('On Disk');
+    });
+
+    it('should restore sessions after a restart', async () => {
+      // Arrange
+      const session = await manager.createSession({ name: 'Yesterday' });
+      await manager.addMessage(session.id, {
+        id: 'msg-1',
+        role: 'user',
+        content: [{ type: 'text', text: 'Hello' }],
+        timestamp: new Date('2024-01-01T00:00:00Z'),
+      });
+      await manager.setSessionMode(session.id, 'plan');
+      await manager.setCursorChatId(session.id, 'chat-123');
+      await manager.cleanup();
+
+      // Act - a fresh manager simulates an adapter restart
+      manager = new SessionManager(mockConfig, mockLogger);
+      expect(manager.hasSession(session.id)).toBe(false);
+      const restored = await manager.loadSession(session.id);
+
+      // Assert
+      expect(restored.metadata.name).toBe('Yesterday');
+      expect(restored.conversation).toHaveLength(1);
+      expect(restored.conversation[0]!.timestamp).toEqual(
+        new Date('2024-01-01T00:00:00Z')
+      );
+      expect(restored.createdAt).toBeInstanceOf(Date);
+      expect(restored.state.lastActivity).toBeInstanceOf(Date);
+      expect(manager.getSessionMode(session.id)).toBe('plan');
+      expect(manager.getCursorChatId(session.id)).toBe('chat-123');
+    });
+
+    it('should expand ~ in the session directory', async () => {
+      // Arrange
+      jest.spyOn(os, 'homedir').mockReturnValue(tempDir);
+      const homeManager = new SessionManager(
+        { ...mockConfig, sessionDir: '~/sessions' },
+        mockLogger
+      );
+
+      try {
+        // Act
+        const session = await homeManager.createSession();
+
+        // Assert
+        await expect(
+          fs.access(path.join(tempDir, 'sessions', `${session.id}.json`))
+        ).resolves.toBeUndefined();
+      } finally {
+        await homeManager.cleanup();
+      }
+    });
+
+    it('should keep the previous file intact when a write fails', async () => {
+      // Arrange
+      const session = await manager.createSession({ name: 'Original' });
+      jest
+        .spyOn(fs, 'rename')
+        .mockRejectedValueOnce(new Error('Simulated crash'));
+
+      // Act
+      await expect(
+        manager.updateSession(session.id, { name: 'Updated' })
+      ).rejects.toThrow(SessionError);
+
+      // Assert
+      const file = await readSessionFile(session.id);
+      expect(file.session.metadata.name).toBe('Original');
+      const entries = await fs.readdir(tempDir);
+      expect(entries.filter((entry) => entry.endsWith('.tmp'))).toEqual([]);
+    });
+
+    it('should ignore leftover temp files from interrupted writes', async () => {
+      // Arrange
+      const session = await manager.createSession({ name: 'Listed' });
+      await fs.writeFile(
+        path.join(tempDir, `${session.id}.json.123.abc.tmp`),
+        '{"version":1,"ses'
+      );
+
+      // Act
+      const result = await manager.listSessions();
+
+      // Assert
+      expect(result.total).toBe(1);
+      expect(result.items[0]!.id).toBe(session.id);
+    });
+
+    it('should quarantine corrupted session files', async () => {
+      // Arrange
+      const sessionId = testHelpers.generateTestSessionId();
+      await fs.writeFile(
+        path.join(tempDir, `${sessionId}.json`),
+        '{"version":1,"session":'
+      );
+
+      // Act & Assert
+      await expect(manager.loadSession(sessionId)).rejects.toThrow(
+        `Session not found: ${sessionId}`
+      );
+      const entries = await fs.readdir(tempDir);
+      expect(entries).not.toContain(`${sessionId}.json`);
+      expect(
+        entries.some((entry) => entry.startsWith(`${sessionId}.json.corrupt-`))
+      ).toBe(true);
+    });
+
+    it('should skip corrupted files when listing sessions', async () => {
+      // Arrange
+      const session = await manager.createSession({ name: 'Healthy' });
+      await fs.writeFile(
+        path.join(tempDir, 'broken-session.json'),
+        JSON.stringify({ version: 1, session: { id: 'broken-session' } })
+      );
+
+      // Act
+      const result = await manager.listSessions();
+
+      // Assert
+      expect(result.items.map((item) => item.id)).toEqual([session.id]);
+    });
+
+    it('should list sessions that are only on disk', async () => {
+      // Arrange
+      const session = await manager.createSession({ name: 'Persisted' });
+      await manager.cleanup();
+      manager = new SessionManager(mockConfig, mockLogger);
+
+      // Act
+      const result = await manager.listSessions();
+
+      // Assert
+      expect(result.items.map((item) => item.id)).toEqual([session.id]);
+      expect(manager.getMetrics().totalSessions).toBe(0);
+    });
+
+    it('should remove the session file on delete', async () => {
+      // Arrange
+      const session = await manager.createSession();
+
+      // Act
+      await manager.deleteSession(session.id);
+
+      // Assert
+      await expect(fs.readdir(tempDir)).resolves.toEqual([]);
+      manager = new SessionManager(mockConfig, mockLogger);
+      await expect(manager.loadSession(session.id)).rejects.toThrow(
+        SessionError
+      );
+    });
+
+    it('should not resolve session IDs outside the session directory', async () => {
+      // Act & Assert
+      await expect(manager.loadSession('../escape')).rejects.toThrow(
+        'Session not found: ../escape'
+      );
+    });
+  });
 });
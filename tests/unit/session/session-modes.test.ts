@@ -15,6 +15,7 @@ import { createLogger } from '../../../src/utils/logger';
 import { DEFAULT_CONFIG } from '../../../src';
 import type { AdapterConfig, Logger, SessionData } from '../../../src/types';
 import { SessionError } from '../../../src/types';
+import { validateConfig } from '../../../src/utils/config';
 import type { SessionModeState, SessionModeId } from '@agentclientprotocol/sdk';
 import { testHelpers } from '../../setup';
 
@@ -302,30 +303,31 @@ describe('SessionManager - Session Modes', () => {
       expect(planConfig).toBeDefined();
     });
 
-    it('should return undefined for invalid mode', () => {
+    it('should return the plan mode config for invalid mode', () => {
       // Act
       const config = manager.getModeConfig('invalid-mode' as SessionModeId);
 
       // Assert
-      expect(config).toBeUndefined();
+      expect(config).toEqual(manager.getModeConfig('plan'));
+      expect(config.cursorArgs).not.toContain('--force');
     });
 
-    it('should return undefined for empty string mode', () => {
+    it('should return the plan mode config for empty string mode', () => {
       // Act
       const config = manager.getModeConfig('' as SessionModeId);
 
       // Assert
-      expect(config).toBeUndefined();
+      expect(config).toEqual(manager.getModeConfig('plan'));
     });
 
-    it('should return undefined for null-like mode IDs', () => {
+    it('should return the plan mode config for null-like mode IDs', () => {
       // Act
       const config1 = manager.getModeConfig(null as any);
       const config2 = manager.getModeConfig(undefined as any);
 
       // Assert
-      expect(config1).toBeUndefined();
-      expect(config2).toBeUndefined();
+      expect(config1).toEqual(manager.getModeConfig('plan'));
+      expect(config2).toEqual(manager.getModeConfig('plan'));
     });
 
     describe('ask mode configuration', () => {
@@ -338,51 +340,49 @@ describe('SessionManager - Session Modes', () => {
         expect(askConfig?.permissionBehavior).toBe('strict');
       });
 
-      it('should not define available tools', () => {
+      it('should offer all tools', () => {
         // Act
         const askConfig = manager.getModeConfig('ask');
 
-        // Assert - Ask mode doesn't specify tools, relies on default behavior
+        // Assert - Every edit and command asks for permission instead
         expect(askConfig?.availableTools).toBeUndefined();
       });
 
-      it('should not define system prompt', () => {
+      it('should let cursor-agent apply permitted changes with --force', () => {
         // Act
         const askConfig = manager.getModeConfig('ask');
 
         // Assert
-        expect(askConfig?.systemPrompt).toBeUndefined();
+        expect(askConfig?.cursorArgs).toEqual(['--force']);
+        expect(askConfig?.systemPrompt).toContain('Ask mode');
       });
     });
 
     describe('agent mode configuration', () => {
-      it('should have strict permission behavior', () => {
+      it('should reuse remembered permission decisions', () => {
         // Act
         const agentConfig = manager.getModeConfig('agent');
 
         // Assert
         expect(agentConfig).toBeDefined();
-        expect(agentConfig?.permissionBehavior).toBe('strict');
+        expect(agentConfig?.permissionBehavior).toBe('auto');
       });
 
-      it('should include filesystem and terminal tools', () => {
+      it('should offer all tools', () => {
         // Act
         const agentConfig = manager.getModeConfig('agent');
 
         // Assert
-        expect(agentConfig?.availableTools).toBeDefined();
-        expect(Array.isArray(agentConfig?.availableTools)).toBe(true);
-        expect(agentConfig?.availableTools).toContain('filesystem');
-        expect(agentConfig?.availableTools).toContain('terminal');
-        expect(agentConfig?.availableTools?.length).toBe(2);
+        expect(agentConfig?.availableTools).toBeUndefined();
       });
 
-      it('should have both filesystem and terminal in correct order', () => {
+      it('should let cursor-agent apply changes with --force', () => {
         // Act
         const agentConfig = manager.getModeConfig('agent');
 
         // Assert
-        expect(agentConfig?.availableTools).toEqual(['filesystem', 'terminal']);
+        expect(agentConfig?.cursorArgs).toEqual(['--force']);
+        expect(agentConfig?.systemPrompt).toContain('Agent mode');
       });
     });
 
@@ -396,24 +396,21 @@ describe('SessionManager - Session Modes', () => {
         expect(planConfig?.permissionBehavior).toBe('strict');
       });
 
-      it('should include only filesystem tool', () => {
+      it('should offer only read-only tool kinds', () => {
         // Act
         const planConfig = manager.getModeConfig('plan');
 
-        // Assert
-        expect(planConfig?.availableTools).toBeDefined();
-        expect(Array.isArray(planConfig?.availableTools)).toBe(true);
-        expect(planConfig?.availableTools).toContain('filesystem');
-        expect(planConfig?.availableTools).not.toContain('terminal');
-        expect(planConfig?.availableTools?.length).toBe(1);
+        // Assert - Plan mode is for planning, not executing
+        expect(planConfig?.availableTools).toEqual(['read', 'search', 'think']);
       });
 
-      it('should not include terminal tool', () => {
+      it('should run cursor-agent in plan mode without --force', () => {
         // Act
         const planConfig = manager.getModeConfig('plan');
 
-        // Assert - Plan mode is for planning, not executing
-        expect(planConfig?.availableTools).toEqual(['filesystem']);
+        // Assert
+        expect(planConfig?.cursorArgs).toEqual(['--mode', 'plan']);
+        expect(planConfig?.systemPrompt).toContain('Do not create, modify');
       });
     });
 
@@ -494,49 +491,162 @@ describe('SessionManager - Session Modes', () => {
       });
     });
 
-    describe('permission behavior consistency', () => {
-      it('all modes should use strict permission behavior', () => {
+    describe('cursor-agent flags', () => {
+      it('should pass --force in every mode except plan', () => {
         // Arrange
         const availableModes = manager.getAvailableModes();
 
-        // Act & Assert - All current modes should be strict
+        // Act & Assert
         availableModes.forEach((mode) => {
           const config = manager.getModeConfig(mode.id);
-          expect(config?.permissionBehavior).toBe('strict');
+          expect(config?.cursorArgs?.includes('--force')).toBe(
+            mode.id !== 'plan'
+          );
         });
       });
-    });
 
-    describe('tool availability patterns', () => {
-      it('should have increasing tool availability: ask < plan < agent', () => {
+      it('should let new sessions edit through the permission flow', () => {
         // Act
-        const askConfig = manager.getModeConfig('ask');
-        const planConfig = manager.getModeConfig('plan');
-        const agentConfig = manager.getModeConfig('agent');
+        const config = manager.getModeConfig(
+          manager.getSessionMode(testSession.id)
+        );
+
+        // Assert
+        expect(config.cursorArgs).toEqual(['--force']);
+        expect(config.permissionBehavior).toBe('strict');
+      });
+    });
+  });
 
-        // Assert - Tool availability increases
-        const askTools = askConfig?.availableTools?.length ?? 0;
-        const planTools = planConfig?.availableTools?.length ?? 0;
-        const agentTools = agentConfig?.availableTools?.length ?? 0;
+  describe('configured modes', () => {
+    beforeEach(() => {
+      mockConfig.modes = [
+        {
+          id: 'review',
+          name: 'Review',
+          description: 'Review changes without editing',
+          systemPrompt: 'Review the code and reply with a unified diff.',
+          availableTools: ['read', 'search'],
+          permissionBehavior: 'strict',
+        },
+        {
+          id: 'ask',
+          name: 'Ask',
+          description: 'Questions only',
+          cursorArgs: ['--mode', 'ask'],
+        },
+      ];
+    });
+
+    it('should advertise configured modes after the built-in ones', () => {
+      // Act
+      const modes = manager.getAvailableModes();
 
-        expect(askTools).toBeLessThanOrEqual(planTools);
-        expect(planTools).toBeLessThan(agentTools);
+      // Assert
+      expect(modes.map((mode) => mode.id)).toEqual([
+        'agent',
+        'plan',
+        'ask',
+        'review',
+      ]);
+      expect(modes[3]).toEqual({
+        id: 'review',
+        name: 'Review',
+        description: 'Review changes without editing',
       });
+      expect(
+        manager.getSessionModeState(testSession.id).availableModes
+      ).toEqual(modes);
+    });
 
-      it('agent mode should have superset of plan tools', () => {
-        // Act
-        const planConfig = manager.getModeConfig('plan');
-        const agentConfig = manager.getModeConfig('agent');
+    it('should replace built-in modes with the same ID', () => {
+      // Act
+      const askMode = manager
+        .getAvailableModes()
+        .find((mode) => mode.id === 'ask');
 
-        // Assert - Agent should include all plan tools
-        const planTools = planConfig?.availableTools ?? [];
-        const agentTools = agentConfig?.availableTools ?? [];
+      // Assert
+      expect(askMode?.description).toBe('Questions only');
+      expect(manager.getModeConfig('ask')).toEqual({
+        cursorArgs: ['--mode', 'ask'],
+      });
+    });
 
-        planTools.forEach((tool) => {
-          expect(agentTools).toContain(tool);
-        });
+    it('should not pass --force unless the mode asks for it', () => {
+      // Act
+      const reviewConfig = manager.getModeConfig('review');
+
+      // Assert
+      expect(reviewConfig).toEqual({
+        systemPrompt: 'Review the code and reply with a unified diff.',
+        availableTools: ['read', 'search'],
+        permissionBehavior: 'strict',
+        cursorArgs: [],
       });
     });
+
+    it('should switch sessions to a configured mode', async () => {
+      // Act
+      const previous = await manager.setSessionMode(testSession.id, 'review');
+
+      // Assert
+      expect(previous).toBe('ask');
+      expect(manager.getSessionMode(testSession.id)).toBe('review');
+    });
+
+    it('should fall back to plan mode when a mode is removed', async () => {
+      // Arrange
+      await manager.setSessionMode(testSession.id, 'review');
+
+      // Act
+      mockConfig.modes = [];
+
+      // Assert
+      expect(manager.getSessionMode(testSession.id)).toBe('plan');
+      expect(await manager.resetUnknownModes()).toEqual([testSession.id]);
+      expect(testSession.state.currentMode).toBe('plan');
+    });
+
+    it('should move sessions loaded from disk out of removed modes', async () => {
+      // Arrange
+      await manager.setSessionMode(testSession.id, 'review');
+      await manager.cleanup();
+      mockConfig.modes = [];
+      manager = new SessionManager(mockConfig, mockLogger);
+
+      // Act
+      const loaded = await manager.loadSession(testSession.id);
+
+      // Assert
+      expect(loaded.state.currentMode).toBe('plan');
+      expect(loaded.metadata.mode).toBe('plan');
+    });
+
+    it('should validate mode definitions', () => {
+      // Act
+      const result = validateConfig({
+        ...mockConfig,
+        modes: [
+          { id: 'docs', name: '' },
+          {
+            id: 'docs',
+            name: 'Docs',
+            permissionBehavior: 'sometimes' as any,
+            permissionRules: [{ action: 'maybe' as any }],
+            turnTimeoutMs: 100,
+          },
+        ],
+      });
+
+      // Assert
+      expect(result.errors).toEqual([
+        expect.stringContaining('modes[0].name'),
+        expect.stringContaining('modes[1].turnTimeoutMs'),
+        expect.stringContaining('modes[1].permissionBehavior'),
+        expect.stringContaining('modes[1].permissionRules[0].action'),
+        'Duplicate mode ID in modes: docs',
+      ]);
+    });
   });
 
   describe('Session creation with mode', () => {
@@ -10,6 +10,7 @@ import {
   executeSequential,
 } from '../../src/tools/terminal-utils';
 import { TerminalManager } from '../../src/tools/terminal-manager';
+import type { ToolCallManager } from '../../src/tools/tool-call-manager';
 import type { Logger } from '../../src/types';
 import type {
   TerminalHandle,
@@ -310,6 +311,47 @@ describe('Terminal Utilities', () => {
       expect(result.timedOut).toBe(false);
       expect(result.exitCode).toBe(0);
     });
+
+    it('should embed the terminal in a tool call', async () => {
+      const client = createMockClient((params) => {
+        return new MockTerminalHandle('term-123', params.sessionId, {
+          waitTime: 10,
+        });
+      });
+
+      const manager = new TerminalManager(
+        { clientSupportsTerminals: true, maxConcurrentTerminals: 5 },
+        client as AgentSideConnection,
+        createMockLogger()
+      );
+      const toolCallManager = {
+        updateToolCall: jest.fn(async () => {}),
+        createTerminalContent: (terminalId: string) => [
+          { type: 'terminal', terminalId },
+        ],
+      };
+
+      const result = await executeWithTimeout(
+        manager,
+        'session-1',
+        'npm',
+        ['test'],
+        1000,
+        {
+          toolCall: {
+            toolCallManager: toolCallManager as unknown as ToolCallManager,
+            toolCallId: 'tool-1',
+          },
+        }
+      );
+
+      expect(result.terminalId).toBe('term-123');
+      expect(toolCallManager.updateToolCall).toHaveBeenCalledWith(
+        'session-1',
+        'tool-1',
+        { content: [{ type: 'terminal', terminalId: 'term-123' }] }
+      );
+    });
   });
 
   describe('executeSequential', () => {
@@ -11,6 +11,8 @@ import { CursorCliBridge } from '../../../src/cursor/cli-bridge';
 import type { AdapterConfig, Logger } from '../../../src/types';
 import { ToolError } from '../../../src/types';
 import fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
 
 // Mock the CursorCliBridge to prevent real cursor-agent calls
 jest.mock('../../../src/cursor/cli-bridge', () => {
@@ -182,139 +184,168 @@ describe('CursorToolsProvider', () => {
   });
 
   describe('searchCodebase', () => {
-    test('should execute search with basic query', async () => {
-      const mockResult = {
-        success: true,
-        stdout: JSON.stringify({
-          results: [
-            {
-              file: 'src/test.ts',
-              line: 10,
-              column: 5,
-              content: 'function test() {',
-              context: ['// Some context', '  return true;'],
-            },
-          ],
-        }),
-        stderr: '',
-        metadata: { executionTime: 150 },
-      };
+    let projectDir: string;
+
+    const search = (params: Record<string, any>) =>
+      provider
+        .getTools()
+        .find((t) => t.name === 'search_codebase')!
+        .handler(params);
+
+    beforeEach(async () => {
+      projectDir = await fs.mkdtemp(path.join(os.tmpdir(), 'cursor-search-'));
+      await fs.mkdir(path.join(projectDir, 'src'));
+      await fs.writeFile(
+        path.join(projectDir, 'src', 'test.ts'),
+        [
+          '// Some context',
+          'export function test() {',
+          '  return true;',
+          '}',
+          'class TestClass {}',
+        ].join('\n')
+      );
+      await fs.writeFile(
+        path.join(projectDir, 'src', 'notes.md'),
+        'A test of testclass (1+1)\n'
+      );
 
-      mockCliBridge.executeCommand.mockResolvedValue(mockResult);
+      provider = new CursorToolsProvider(
+        {
+          ...mockConfig,
+          tools: {
+            ...mockConfig.tools,
+            cursor: { ...mockConfig.tools.cursor, projectRoot: projectDir },
+          },
+        },
+        mockLogger,
+        mockCliBridge
+      );
+    });
 
-      const tools = provider.getTools();
-      const searchTool = tools.find((t) => t.name === 'search_codebase')!;
+    afterEach(async () => {
+      await fs.rm(projectDir, { recursive: true, force: true });
+    });
 
-      const result = await searchTool.handler({
-        query: 'function test',
-      });
+    test('should search files in-process with context and locations', async () => {
+      const result = await search({ query: 'function test' });
 
       expect(result.success).toBe(true);
       expect(result.result.query).toBe('function test');
-      expect(result.result.results).toHaveLength(1);
-      expect(result.result.results[0].file).toBe('src/test.ts');
+      expect(result.result.results).toEqual([
+        {
+          file: 'src/test.ts',
+          line: 2,
+          column: 8,
+          content: 'export function test() {',
+          context: [
+            '// Some context',
+            '  return true;',
+            '}',
+            'class TestClass {}',
+          ],
+        },
+      ]);
+      expect(result.result.truncated).toBe(false);
+      expect(result.metadata!['filesSearched']).toBe(2);
+      expect(result.metadata!['locations']).toEqual([
+        { path: path.join(projectDir, 'src/test.ts'), line: 2 },
+      ]);
+      expect(mockCliBridge.executeCommand).not.toHaveBeenCalled();
+    });
 
-      expect(mockCliBridge.executeCommand).toHaveBeenCalledWith(
-        expect.arrayContaining([
-          'cursor-agent',
-          'search',
-          '--query',
-          'function test',
-        ])
+    test('should honor file pattern and case sensitivity', async () => {
+      const insensitive = await search({ query: 'testclass' });
+      expect(insensitive.result.results.map((r: any) => r.file).sort()).toEqual(
+        ['src/notes.md', 'src/test.ts']
       );
+
+      const sensitive = await search({
+        query: 'TestClass',
+        case_sensitive: true,
+      });
+      expect(sensitive.result.results.map((r: any) => r.file)).toEqual([
+        'src/test.ts',
+      ]);
+
+      const markdownOnly = await search({
+        query: 'testclass',
+        file_pattern: '*.md',
+      });
+      expect(markdownOnly.result.results.map((r: any) => r.file)).toEqual([
+        'src/notes.md',
+      ]);
     });
 
-    test('should handle search with file pattern and case sensitivity', async () => {
-      const mockResult = {
-        success: true,
-        stdout: JSON.stringify({ results: [] }),
-        stderr: '',
-        metadata: { executionTime: 100 },
-      };
+    test('should search literally when regex is false', async () => {
+      const result = await search({ query: '(1+1)', regex: false });
 
-      mockCliBridge.executeCommand.mockResolvedValue(mockResult);
+      expect(result.success).toBe(true);
+      expect(result.result.results).toHaveLength(1);
+      expect(result.result.results[0].column).toBe(21);
+    });
 
-      const tools = provider.getTools();
-      const searchTool = tools.find((t) => t.name === 'search_codebase')!;
+    test('should skip files excluded by .gitignore', async () => {
+      await fs.writeFile(path.join(projectDir, '.gitignore'), '*.md\n');
 
-      await searchTool.handler({
-        query: 'TestClass',
-        file_pattern: '*.ts',
-        case_sensitive: true,
-        max_results: 20,
-      });
+      const result = await search({ query: 'testclass' });
 
-      expect(mockCliBridge.executeCommand).toHaveBeenCalledWith([
-        'cursor-agent',
-        'search',
-        '--query',
-        'TestClass',
-        '--files',
-        '*.ts',
-        '--case-sensitive',
-        '--limit',
-        '20',
-        '--context',
-        '3',
+      expect(result.result.results.map((r: any) => r.file)).toEqual([
+        'src/test.ts',
       ]);
     });
 
-    test('should handle search failure', async () => {
-      const mockResult = {
-        success: false,
-        stdout: '',
-        stderr: '',
-        error: 'Search command failed',
-      };
+    test('should stop at max_results and report truncation', async () => {
+      const result = await search({ query: 't', max_results: 2 });
 
-      mockCliBridge.executeCommand.mockResolvedValue(mockResult);
+      expect(result.result.results).toHaveLength(2);
+      expect(result.result.truncated).toBe(true);
+    });
 
-      const tools = provider.getTools();
-      const searchTool = tools.find((t) => t.name === 'search_codebase')!;
+    test('should reject invalid max_results', async () => {
+      const result = await search({ query: 't', max_results: -1 });
 
-      const result = await searchTool.handler({
-        query: 'nonexistent',
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Invalid max_results');
+    });
+
+    test('should search from the session working directory', async () => {
+      const sessionDir = path.join(projectDir, 'src');
+      provider = new CursorToolsProvider(
+        mockConfig,
+        mockLogger,
+        mockCliBridge,
+        {
+          getSessionCwd: (sessionId) =>
+            sessionId === 'session-1' ? sessionDir : undefined,
+        }
+      );
+
+      const result = await search({
+        query: 'TestClass',
+        case_sensitive: true,
+        _sessionId: 'session-1',
       });
 
+      expect(result.result.results[0].file).toBe('test.ts');
+      expect(result.metadata!['locations']).toEqual([
+        { path: path.join(sessionDir, 'test.ts'), line: 5 },
+      ]);
+    });
+
+    test('should report invalid regular expressions', async () => {
+      const result = await search({ query: 'test(' });
+
       expect(result.success).toBe(false);
-      expect(result.error).toContain('Search failed');
+      expect(result.error).toContain('Invalid regular expression');
+      expect(result.error).toContain('regex: false');
       expect(mockLogger.error).toHaveBeenCalledWith(
         'Failed to search codebase',
         expect.objectContaining({
-          query: 'nonexistent',
+          query: 'test(',
         })
       );
     });
-
-    test('should parse text-based search results', async () => {
-      const mockResult = {
-        success: true,
-        stdout: `src/file1.ts:10:5:function test() {
-src/file1.ts:11:  return true;
-src/file2.ts:25:1:const test = () => {`,
-        stderr: '',
-        metadata: { executionTime: 120 },
-      };
-
-      mockCliBridge.executeCommand.mockResolvedValue(mockResult);
-
-      const tools = provider.getTools();
-      const searchTool = tools.find((t) => t.name === 'search_codebase')!;
-
-      const result = await searchTool.handler({
-        query: 'test',
-      });
-
-      expect(result.success).toBe(true);
-      expect(result.result.results).toHaveLength(2);
-      expect(result.result.results[0]).toEqual({
-        file: 'src/file1.ts',
-        line: 10,
-        column: 5,
-        content: 'function test() {',
-        context: ['src/file1.ts:11:  return true;'],
-      });
-    });
   });
 
   describe('analyzeCode', () => {
@@ -408,99 +439,270 @@ src/file2.ts:25:1:const test = () => {`,
   });
 
   describe('applyCodeChanges', () => {
-    test('should apply code changes successfully', async () => {
-      const mockResult = {
-        success: true,
-        stdout: JSON.stringify({
-          success: true,
-          modified: ['src/test.ts', 'src/helper.ts'],
-          errors: [],
-        }),
-        stderr: '',
-        metadata: { executionTime: 800 },
-      };
+    let projectDir: string;
+    let sourceFile: string;
 
-      mockCliBridge.executeCommand.mockResolvedValue(mockResult);
+    const SOURCE = ['line 1', 'line 2', 'line 3', 'line 4', 'line 5'];
 
-      // Mock fs.writeFile and fs.unlink
-      jest.spyOn(fs, 'writeFile').mockResolvedValue(undefined);
-      jest.spyOn(fs, 'unlink').mockResolvedValue(undefined);
+    const applyChanges = (params: Record<string, any>) =>
+      provider
+        .getTools()
+        .find((t) => t.name === 'apply_code_changes')!
+        .handler(params);
 
-      const tools = provider.getTools();
-      const applyTool = tools.find((t) => t.name === 'apply_code_changes')!;
+    beforeEach(async () => {
+      projectDir = await fs.mkdtemp(path.join(os.tmpdir(), 'cursor-apply-'));
+      sourceFile = path.join(projectDir, 'src', 'test.ts');
+      await fs.mkdir(path.dirname(sourceFile));
+      await fs.writeFile(sourceFile, SOURCE.join('\n') + '\n');
 
-      const changes = [
+      provider = new CursorToolsProvider(
         {
-          file: 'src/test.ts',
-          startLine: 10,
-          endLine: 15,
-          newContent: 'function updated() {\n  return "new";\n}',
-          description: 'Update function implementation',
+          ...mockConfig,
+          tools: {
+            ...mockConfig.tools,
+            cursor: { ...mockConfig.tools.cursor!, projectRoot: projectDir },
+          },
         },
-      ];
+        mockLogger,
+        mockCliBridge
+      );
+    });
 
-      const result = await applyTool.handler({
-        changes,
-        dry_run: false,
-        backup: true,
+    afterEach(async () => {
+      await fs.rm(projectDir, { recursive: true, force: true });
+    });
+
+    test('should apply line-range changes with a backup and a minimal diff', async () => {
+      const result = await applyChanges({
+        changes: [
+          {
+            file: 'src/test.ts',
+            startLine: 2,
+            endLine: 3,
+            newContent: 'line 2\nchanged 3\nadded 3b',
+            description: 'Update line 3',
+          },
+        ],
       });
 
       expect(result.success).toBe(true);
       expect(result.result.applied).toBe(true);
       expect(result.result.changesCount).toBe(1);
-
-      expect(fs.writeFile).toHaveBeenCalledWith(
-        expect.stringContaining('.cursor-changes.json'),
-        expect.stringContaining(JSON.stringify(changes, null, 2))
+      expect(await fs.readFile(sourceFile, 'utf8')).toBe(
+        'line 1\nline 2\nchanged 3\nadded 3b\nline 4\nline 5\n'
       );
-
-      expect(mockCliBridge.executeCommand).toHaveBeenCalledWith(
-        expect.arrayContaining([
-          'cursor-agent',
-          'apply-changes',
-          '--backup',
-          '--changes-file',
-        ])
+      expect(await fs.readFile(`${sourceFile}.bak`, 'utf8')).toBe(
+        SOURCE.join('\n') + '\n'
       );
+
+      const expectedDiff = [
+        `--- ${sourceFile}`,
+        `+++ ${sourceFile}`,
+        '@@ -1,5 +1,6 @@',
+        ' line 1',
+        ' line 2',
+        '-line 3',
+        '+changed 3',
+        '+added 3b',
+        ' line 4',
+        ' line 5',
+      ].join('\n');
+      expect(result.result.files).toEqual([
+        {
+          path: sourceFile,
+          isNewFile: false,
+          linesAdded: 2,
+          linesRemoved: 1,
+          diff: expectedDiff,
+          backup: `${sourceFile}.bak`,
+        },
+      ]);
+      expect(result.metadata!['diffs']).toEqual([
+        {
+          type: 'diff',
+          path: sourceFile,
+          oldText: SOURCE.join('\n') + '\n',
+          newText: 'line 1\nline 2\nchanged 3\nadded 3b\nline 4\nline 5\n',
+          _meta: { unifiedDiff: expectedDiff },
+        },
+      ]);
+      expect(result.metadata!['locations']).toEqual([
+        { path: sourceFile, line: 2 },
+      ]);
+      expect(mockCliBridge.executeCommand).not.toHaveBeenCalled();
     });
 
-    test('should handle dry run mode', async () => {
-      const mockResult = {
-        success: true,
-        stdout: JSON.stringify({
-          preview: ['src/test.ts: 5 lines would be changed'],
-          errors: [],
-        }),
-        stderr: '',
-      };
+    test('should read line numbers against the original file', async () => {
+      const result = await applyChanges({
+        changes: [
+          { file: 'src/test.ts', startLine: 5, endLine: 5, newContent: 'E' },
+          { file: 'src/test.ts', startLine: 2, endLine: 1, newContent: 'A2' },
+          { file: 'src/test.ts', startLine: 3, endLine: 4, newContent: '' },
+        ],
+        backup: false,
+      });
 
-      mockCliBridge.executeCommand.mockResolvedValue(mockResult);
+      expect(result.success).toBe(true);
+      expect(await fs.readFile(sourceFile, 'utf8')).toBe(
+        'line 1\nA2\nline 2\nE\n'
+      );
+      await expect(fs.access(`${sourceFile}.bak`)).rejects.toThrow();
+    });
 
-      const fs = require('fs/promises');
-      jest.spyOn(fs, 'writeFile').mockResolvedValue(undefined);
-      jest.spyOn(fs, 'unlink').mockResolvedValue(undefined);
+    test('should preview changes without writing in dry run mode', async () => {
+      const result = await applyChanges({
+        changes: [
+          { file: 'src/test.ts', startLine: 1, endLine: 1, newContent: 'new' },
+          { file: 'src/new.ts', startLine: 1, endLine: 0, newContent: 'x' },
+        ],
+        dry_run: true,
+      });
 
-      const tools = provider.getTools();
-      const applyTool = tools.find((t) => t.name === 'apply_code_changes')!;
+      expect(result.success).toBe(true);
+      expect(result.result.applied).toBe(false);
+      expect(result.result.files[1]).toMatchObject({
+        isNewFile: true,
+        diff: `--- /dev/null\n+++ ${path.join(projectDir, 'src/new.ts')}\n@@ -0,0 +1,1 @@\n+x`,
+      });
+      expect(await fs.readFile(sourceFile, 'utf8')).toBe(
+        SOURCE.join('\n') + '\n'
+      );
+      await expect(
+        fs.access(path.join(projectDir, 'src/new.ts'))
+      ).rejects.toThrow();
+    });
 
-      const result = await applyTool.handler({
-        changes: [
+    test.each([
+      [
+        'overlapping',
+        [
+          { file: 'src/test.ts', startLine: 1, endLine: 3, newContent: 'a' },
+          { file: 'src/test.ts', startLine: 3, endLine: 4, newContent: 'b' },
+        ],
+        'overlap: lines 1-3 and 3-4',
+      ],
+      [
+        'past the end of the file',
+        [{ file: 'src/test.ts', startLine: 5, endLine: 6, newContent: 'a' }],
+        'past the end of the file (5 lines)',
+      ],
+      [
+        'no longer matching oldContent',
+        [
           {
             file: 'src/test.ts',
-            startLine: 1,
-            endLine: 5,
-            newContent: 'new content',
+            startLine: 2,
+            endLine: 2,
+            oldContent: 'old line 2',
+            newContent: 'a',
           },
         ],
-        dry_run: true,
+        'no longer match oldContent',
+      ],
+    ])('should reject changes %s', async (_case, changes, message) => {
+      const result = await applyChanges({
+        changes: [
+          { file: 'src/other.ts', startLine: 1, endLine: 0, newContent: 'x' },
+          ...changes,
+        ],
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain(message);
+      expect(await fs.readFile(sourceFile, 'utf8')).toBe(
+        SOURCE.join('\n') + '\n'
+      );
+      await expect(
+        fs.access(path.join(projectDir, 'src/other.ts'))
+      ).rejects.toThrow();
+    });
+
+    test('should edit files through the client when it supports fs', async () => {
+      const fileSystemClient = {
+        readTextFile: jest
+          .fn<() => Promise<string>>()
+          .mockResolvedValue('unsaved 1\nunsaved 2\n'),
+        writeTextFile: jest
+          .fn<() => Promise<void>>()
+          .mockResolvedValue(undefined),
+      };
+      provider = new CursorToolsProvider(
+        mockConfig,
+        mockLogger,
+        mockCliBridge,
+        {
+          getSessionCwd: () => projectDir,
+          getFileSystemClient: () => fileSystemClient,
+          getClientCapabilities: () => ({
+            fs: { readTextFile: true, writeTextFile: true },
+          }),
+        }
+      );
+
+      const result = await applyChanges({
+        changes: [
+          { file: 'src/test.ts', startLine: 2, endLine: 2, newContent: 'b' },
+        ],
+        backup: false,
+        _sessionId: 'session-1',
       });
 
       expect(result.success).toBe(true);
-      expect(result.result.applied).toBe(false);
+      expect(fileSystemClient.readTextFile).toHaveBeenCalledWith({
+        sessionId: 'session-1',
+        path: sourceFile,
+      });
+      expect(fileSystemClient.writeTextFile).toHaveBeenCalledWith({
+        sessionId: 'session-1',
+        path: sourceFile,
+        content: 'unsaved 1\nb\n',
+      });
+      expect(await fs.readFile(sourceFile, 'utf8')).toBe(
+        SOURCE.join('\n') + '\n'
+      );
+    });
 
-      expect(mockCliBridge.executeCommand).toHaveBeenCalledWith(
-        expect.arrayContaining(['cursor-agent', 'apply-changes', '--dry-run'])
+    test('should restore written files when a later write fails', async () => {
+      const fileSystemClient = {
+        readTextFile: jest
+          .fn<(options: { path: string }) => Promise<string>>()
+          .mockImplementation(async (options) => `${options.path}\n`),
+        writeTextFile: jest
+          .fn<() => Promise<void>>()
+          .mockResolvedValueOnce(undefined)
+          .mockRejectedValueOnce(new Error('Disk full'))
+          .mockResolvedValue(undefined),
+      };
+      provider = new CursorToolsProvider(
+        mockConfig,
+        mockLogger,
+        mockCliBridge,
+        {
+          getSessionCwd: () => projectDir,
+          getFileSystemClient: () => fileSystemClient,
+          getClientCapabilities: () => ({
+            fs: { readTextFile: true, writeTextFile: true },
+          }),
+        }
       );
+
+      const result = await applyChanges({
+        changes: [
+          { file: 'a.ts', startLine: 1, endLine: 1, newContent: 'a' },
+          { file: 'b.ts', startLine: 1, endLine: 1, newContent: 'b' },
+        ],
+        backup: false,
+        _sessionId: 'session-1',
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Disk full');
+      expect(fileSystemClient.writeTextFile).toHaveBeenLastCalledWith({
+        sessionId: 'session-1',
+        path: path.join(projectDir, 'a.ts'),
+        content: `${path.join(projectDir, 'a.ts')}\n`,
+      });
     });
 
     test('should handle disabled code modification', async () => {
@@ -557,83 +759,195 @@ src/file2.ts:25:1:const test = () => {`,
       expect(result.success).toBe(false);
       expect(result.error).toContain('Invalid changes');
     });
+
+    test('should reject files outside the project root', async () => {
+      const outside = path.join(path.dirname(projectDir), 'outside.ts');
+
+      for (const file of ['../outside.ts', outside]) {
+        const result = await applyChanges({
+          changes: [
+            { file: 'src/test.ts', startLine: 1, endLine: 1, newContent: 'x' },
+            { file, startLine: 1, endLine: 0, newContent: 'owned' },
+          ],
+        });
+
+        expect(result.success).toBe(false);
+        expect(result.error).toMatch(
+          /^Access denied: .* is outside the workspace/
+        );
+      }
+      await expect(fs.access(outside)).rejects.toThrow();
+      expect(await fs.readFile(sourceFile, 'utf8')).toBe(
+        SOURCE.join('\n') + '\n'
+      );
+    });
   });
 
   describe('runTests', () => {
-    test('should run tests successfully', async () => {
-      const mockResult = {
-        success: true,
-        stdout: JSON.stringify({
-          framework: 'jest',
-          tests: [
-            {
-              file: 'test/example.test.ts',
-              suite: 'Example',
-              test: 'should work',
-              status: 'passed',
-              duration: 0.025,
-            },
-          ],
-          summary: {
-            total: 15,
-            passed: 14,
-            failed: 1,
-            skipped: 0,
-          },
-        }),
-        stderr: '',
-        metadata: { executionTime: 5000 },
+    const JEST_OUTPUT = [
+      'FAIL tests/math.test.ts',
+      '  ● math › adds numbers',
+      '',
+      '    expect(received).toBe(expected) // Object.is equality',
+      '',
+      '      at Object.<anonymous> (tests/math.test.ts:12:19)',
+      '',
+      'Tests:       1 failed, 1 skipped, 13 passed, 15 total',
+    ].join('\n');
+
+    let projectDir: string;
+    let terminal: {
+      id: string;
+      waitForExit: jest.Mock<() => Promise<{ exitCode: number | null }>>;
+      currentOutput: jest.Mock<
+        () => Promise<{ output: string; truncated: boolean }>
+      >;
+      kill: jest.Mock<() => Promise<void>>;
+      release: jest.Mock<() => Promise<void>>;
+    };
+    let terminalManager: {
+      canCreateTerminals: jest.Mock<() => boolean>;
+      createTerminal: jest.Mock<(...args: any[]) => Promise<typeof terminal>>;
+    };
+    let toolCallManager: {
+      updateToolCall: jest.Mock<(...args: any[]) => Promise<void>>;
+      createTerminalContent: (terminalId: string) => any[];
+    };
+
+    const runTests = (params: Record<string, any>) =>
+      provider
+        .getTools()
+        .find((t) => t.name === 'run_tests')!
+        .handler({ _sessionId: 'session-1', ...params });
+
+    beforeEach(async () => {
+      projectDir = await fs.mkdtemp(path.join(os.tmpdir(), 'cursor-tests-'));
+      await fs.writeFile(
+        path.join(projectDir, 'package.json'),
+        JSON.stringify({
+          scripts: { test: 'jest' },
+          devDependencies: { jest: '^29.0.0' },
+        })
+      );
+
+      terminal = {
+        id: 'term-1',
+        waitForExit: jest.fn(async () => ({ exitCode: 1 })),
+        currentOutput: jest.fn(async () => ({
+          output: JEST_OUTPUT,
+          truncated: false,
+        })),
+        kill: jest.fn(async () => {}),
+        release: jest.fn(async () => {}),
+      };
+      terminalManager = {
+        canCreateTerminals: jest.fn(() => true),
+        createTerminal: jest.fn(async () => terminal),
+      };
+      toolCallManager = {
+        updateToolCall: jest.fn(async () => {}),
+        createTerminalContent: (terminalId) => [
+          { type: 'terminal', terminalId },
+        ],
       };
 
-      mockCliBridge.executeCommand.mockResolvedValue(mockResult);
+      provider = new CursorToolsProvider(
+        mockConfig,
+        mockLogger,
+        mockCliBridge,
+        {
+          getSessionCwd: () => projectDir,
+          getTerminalManager: () => terminalManager as any,
+          getToolCallManager: () => toolCallManager as any,
+        }
+      );
+    });
 
-      const tools = provider.getTools();
-      const testTool = tools.find((t) => t.name === 'run_tests')!;
+    afterEach(async () => {
+      await fs.rm(projectDir, { recursive: true, force: true });
+    });
 
-      const result = await testTool.handler({
-        test_pattern: '**/*.test.ts',
-        test_framework: 'jest',
+    test('should run the detected framework in an embedded terminal', async () => {
+      const result = await runTests({
+        test_pattern: 'math',
         coverage: true,
         timeout: 60,
+        _toolCallId: 'tool-1',
       });
 
-      expect(result.success).toBe(true);
-      expect(result.result.framework).toBe('jest');
-      expect(result.result.summary.total).toBe(15);
+      expect(terminalManager.createTerminal).toHaveBeenCalledWith('session-1', {
+        command: 'npx',
+        args: ['jest', '--coverage', 'math'],
+        cwd: projectDir,
+      });
+      expect(toolCallManager.updateToolCall).toHaveBeenCalledWith(
+        'session-1',
+        'tool-1',
+        { content: [{ type: 'terminal', terminalId: 'term-1' }] }
+      );
+      expect(terminal.release).toHaveBeenCalled();
 
-      expect(mockCliBridge.executeCommand).toHaveBeenCalledWith(
-        [
-          'cursor-agent',
-          'test',
-          '--pattern',
-          '**/*.test.ts',
-          '--framework',
-          'jest',
-          '--coverage',
-          '--timeout',
-          '60',
+      expect(result.success).toBe(true);
+      expect(result.result).toMatchObject({
+        framework: 'jest',
+        command: 'npx jest --coverage math',
+        passed: false,
+        exitCode: 1,
+        timedOut: false,
+        summary: { total: 15, passed: 13, failed: 1, skipped: 1 },
+        failures: [
+          {
+            name: 'math › adds numbers',
+            file: 'tests/math.test.ts',
+            line: 12,
+            message: 'expect(received).toBe(expected) // Object.is equality',
+          },
         ],
-        { timeout: 60000 }
+      });
+      expect(result.metadata!['locations']).toEqual([
+        { path: path.join(projectDir, 'tests/math.test.ts'), line: 12 },
+      ]);
+    });
+
+    test('should use the requested framework', async () => {
+      terminal.waitForExit.mockResolvedValue({ exitCode: 0 });
+      terminal.currentOutput.mockResolvedValue({
+        output: 'test result: ok. 3 passed; 0 failed; 1 ignored; 0 measured',
+        truncated: false,
+      });
+
+      const result = await runTests({ test_framework: 'cargo' });
+
+      expect(terminalManager.createTerminal).toHaveBeenCalledWith(
+        'session-1',
+        expect.objectContaining({ command: 'cargo', args: ['test'] })
       );
+      expect(result.result.passed).toBe(true);
+      expect(result.result.summary).toEqual({
+        total: 4,
+        passed: 3,
+        failed: 0,
+        skipped: 1,
+      });
     });
 
-    test('should handle test failures', async () => {
-      const mockResult = {
-        success: false,
-        stdout: 'FAIL test/broken.test.ts',
-        stderr: 'Test execution failed',
-        error: 'Tests failed',
-      };
+    test('should fail when no framework is detected', async () => {
+      await fs.rm(path.join(projectDir, 'package.json'));
 
-      mockCliBridge.executeCommand.mockResolvedValue(mockResult);
+      const result = await runTests({});
 
-      const tools = provider.getTools();
-      const testTool = tools.find((t) => t.name === 'run_tests')!;
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('No test framework detected');
+      expect(terminalManager.createTerminal).not.toHaveBeenCalled();
+    });
 
-      const result = await testTool.handler({});
+    test('should fail when the client does not support terminals', async () => {
+      terminalManager.canCreateTerminals.mockReturnValue(false);
+
+      const result = await runTests({});
 
       expect(result.success).toBe(false);
-      expect(result.error).toBe('Tests failed');
+      expect(result.error).toContain('client that supports terminals');
     });
 
     test('should handle disabled test execution', async () => {
@@ -665,84 +979,120 @@ src/file2.ts:25:1:const test = () => {`,
   });
 
   describe('getProjectInfo', () => {
-    test('should get complete project information', async () => {
-      const mockResult = {
-        success: true,
-        stdout: JSON.stringify({
+    let projectDir: string;
+
+    const getInfo = (params: Record<string, any>) =>
+      provider
+        .getTools()
+        .find((t) => t.name === 'get_project_info')!
+        .handler(params);
+
+    beforeEach(async () => {
+      projectDir = await fs.mkdtemp(path.join(os.tmpdir(), 'cursor-info-'));
+      await fs.writeFile(
+        path.join(projectDir, 'package.json'),
+        JSON.stringify({
           name: 'test-project',
           version: '1.0.0',
-          dependencies: {
-            react: '^18.0.0',
-            typescript: '^5.0.0',
-          },
-          devDependencies: {
-            jest: '^29.0.0',
-          },
-          scripts: {
-            test: 'jest',
-            build: 'tsc',
-          },
-          structure: {
-            directories: ['src', 'test', 'dist'],
-            files: 42,
-          },
-        }),
-        stderr: '',
-        metadata: { executionTime: 200 },
-      };
+          scripts: { test: 'jest', build: 'tsc' },
+          dependencies: { react: '^18.0.0' },
+          devDependencies: { jest: '^29.0.0' },
+        })
+      );
+      await fs.mkdir(path.join(projectDir, 'src'));
+      await fs.writeFile(path.join(projectDir, 'src', 'index.ts'), '');
 
-      mockCliBridge.executeCommand.mockResolvedValue(mockResult);
+      provider = new CursorToolsProvider(
+        mockConfig,
+        mockLogger,
+        mockCliBridge,
+        {
+          getSessionCwd: (sessionId) =>
+            sessionId === 'session-1' ? projectDir : undefined,
+        }
+      );
+    });
 
-      const tools = provider.getTools();
-      const infoTool = tools.find((t) => t.name === 'get_project_info')!;
+    afterEach(async () => {
+      await provider.cleanup();
+      await fs.rm(projectDir, { recursive: true, force: true });
+    });
 
-      const result = await infoTool.handler({
-        include_dependencies: true,
-        include_scripts: true,
+    test('should read the project in the session cwd', async () => {
+      const result = await getInfo({
         include_structure: true,
+        _sessionId: 'session-1',
       });
 
       expect(result.success).toBe(true);
-      expect(result.result.name).toBe('test-project');
-      expect(result.result.dependencies.react).toBe('^18.0.0');
-      expect(result.result.scripts.test).toBe('jest');
+      expect(result.result).toMatchObject({
+        root: projectDir,
+        name: 'test-project',
+        version: '1.0.0',
+        manifests: [
+          {
+            type: 'npm',
+            path: 'package.json',
+            scripts: { test: 'jest', build: 'tsc' },
+            dependencies: { react: '^18.0.0' },
+            devDependencies: { jest: '^29.0.0' },
+          },
+        ],
+        workspaces: [],
+        structure: {
+          entries: ['package.json', 'src/', 'src/index.ts'],
+          truncated: false,
+        },
+      });
+      expect(mockCliBridge.executeCommand).not.toHaveBeenCalled();
+    });
 
-      expect(mockCliBridge.executeCommand).toHaveBeenCalledWith([
-        'cursor-agent',
-        'info',
-        '--dependencies',
-        '--scripts',
-        '--structure',
+    test('should leave out the parts not asked for', async () => {
+      const result = await getInfo({
+        include_dependencies: false,
+        include_scripts: false,
+        _sessionId: 'session-1',
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.result.manifests).toEqual([
+        {
+          type: 'npm',
+          path: 'package.json',
+          name: 'test-project',
+          version: '1.0.0',
+        },
       ]);
+      expect(result.result.structure).toBeUndefined();
     });
 
-    test('should handle minimal project info request', async () => {
-      const mockResult = {
-        success: true,
-        stdout: JSON.stringify({
-          name: 'minimal-project',
-          version: '0.1.0',
-        }),
-        stderr: '',
-      };
+    test('should cache the info until the project changes', async () => {
+      const first = await getInfo({ _sessionId: 'session-1' });
+      await fs.writeFile(
+        path.join(projectDir, 'package.json'),
+        JSON.stringify({ name: 'renamed', version: '2.0.0' })
+      );
 
-      mockCliBridge.executeCommand.mockResolvedValue(mockResult);
+      // The change may take a moment to be reported
+      let info = first;
+      for (let i = 0; i < 50 && info.result.name !== 'renamed'; i++) {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        info = await getInfo({ _sessionId: 'session-1' });
+      }
 
-      const tools = provider.getTools();
-      const infoTool = tools.find((t) => t.name === 'get_project_info')!;
+      expect(first.result.name).toBe('test-project');
+      expect(info.result.name).toBe('renamed');
+    });
 
-      const result = await infoTool.handler({
-        include_dependencies: false,
-        include_scripts: false,
-        include_structure: false,
-      });
+    test('should drop the cached info of a released session', async () => {
+      const cache = (provider as any).projectInfoCache;
+      const invalidate = jest.spyOn(cache, 'invalidate');
+      await getInfo({ _sessionId: 'session-1' });
 
-      expect(result.success).toBe(true);
+      provider.releaseSession('session-1');
 
-      expect(mockCliBridge.executeCommand).toHaveBeenCalledWith([
-        'cursor-agent',
-        'info',
-      ]);
+      expect(invalidate).toHaveBeenCalledWith('session-1');
+      expect(cache.entries.size).toBe(0);
     });
   });
 
@@ -830,10 +1180,10 @@ src/file2.ts:25:1:const test = () => {`,
       );
 
       const tools = provider.getTools();
-      const searchTool = tools.find((t) => t.name === 'search_codebase')!;
+      const analyzeTool = tools.find((t) => t.name === 'analyze_code')!;
 
-      const result = await searchTool.handler({
-        query: 'test',
+      const result = await analyzeTool.handler({
+        file_path: 'src/test.ts',
       });
 
       expect(result.success).toBe(false);
@@ -0,0 +1,272 @@
+/**
+ * Unit tests for the workspace file system tools
+ *
+ * Tests listing, file info, finding, grepping, deleting, moving and
+ * patching files in the session's working directory, the workspace
+ * sandbox, and permission requests for the tools that change files.
+ */
+
+import { jest } from '@jest/globals';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { ClientCapabilities } from '@agentclientprotocol/sdk';
+import type { FileSystemClient } from '../../../src/client/filesystem-client';
+import { FilesystemToolProvider } from '../../../src/tools/filesystem';
+import { ToolRegistry } from '../../../src/tools/registry';
+import type { ToolCallManager } from '../../../src/tools/tool-call-manager';
+import type { AdapterConfig, Logger, ToolResult } from '../../../src/types';
+
+describe('FilesystemToolProvider workspace tools', () => {
+  let workspace: string;
+  let outside: string;
+  let config: AdapterConfig;
+  let logger: Logger;
+  let fileSystemClient: jest.Mocked<FileSystemClient>;
+
+  const createProvider = (capabilities: ClientCapabilities = {}) =>
+    new FilesystemToolProvider(config, logger, capabilities, fileSystemClient, {
+      getSessionCwd: (sessionId) =>
+        sessionId === 'session-1' ? workspace : undefined,
+    });
+
+  const run = (
+    name: string,
+    params: Record<string, any>,
+    provider = createProvider()
+  ): Promise<ToolResult> =>
+    provider
+      .getTools()
+      .find((tool) => tool.name === name)!
+      .handler({ ...params, _sessionId: 'session-1' });
+
+  beforeEach(async () => {
+    const tempDir = await fs.realpath(
+      await fs.mkdtemp(path.join(os.tmpdir(), 'fs-tools-'))
+    );
+    workspace = path.join(tempDir, 'workspace');
+    outside = path.join(tempDir, 'outside');
+    await fs.mkdir(path.join(workspace, 'src'), { recursive: true });
+    await fs.mkdir(outside);
+    await fs.writeFile(path.join(workspace, 'src', 'index.ts'), 'a\nb\nc\n');
+    await fs.writeFile(path.join(workspace, 'README.md'), '# Demo\n');
+    await fs.writeFile(path.join(outside, 'secret.txt'), 'secret');
+
+    config = {
+      logLevel: 'error',
+      sessionDir: path.join(tempDir, 'sessions'),
+      maxSessions: 10,
+      sessionTimeout: 3600,
+      tools: {
+        filesystem: { enabled: true },
+        terminal: { enabled: false, maxProcesses: 1 },
+      },
+      cursor: { timeout: 30000, retries: 1 },
+    };
+    logger = {
+      error: jest.fn(),
+      warn: jest.fn(),
+      info: jest.fn(),
+      debug: jest.fn(),
+    };
+    fileSystemClient = {
+      readTextFile: jest.fn(),
+      writeTextFile: jest.fn(),
+    } as unknown as jest.Mocked<FileSystemClient>;
+  });
+
+  afterEach(async () => {
+    await fs.rm(path.dirname(workspace), { recursive: true, force: true });
+  });
+
+  it('should offer the workspace tools only with a session cwd lookup', () => {
+    const names = (provider: FilesystemToolProvider) =>
+      provider.getTools().map((tool) => tool.name);
+
+    expect(names(createProvider({ fs: { readTextFile: true } }))).toEqual([
+      'read_file',
+      'list_directory',
+      'get_file_info',
+      'find_files',
+      'grep',
+      'delete_file',
+      'move_file',
+      'patch_file',
+    ]);
+    expect(
+      names(new FilesystemToolProvider(config, logger, {}, fileSystemClient))
+    ).toEqual([]);
+  });
+
+  it('should list directories and describe files', async () => {
+    const list = await run('list_directory', {});
+    expect(list.result).toEqual({
+      path: workspace,
+      entries: [
+        { name: 'README.md', type: 'file', size: 7 },
+        { name: 'src', type: 'directory' },
+      ],
+      truncated: false,
+    });
+
+    const info = await run('get_file_info', { path: 'src/index.ts' });
+    expect(info.result).toMatchObject({
+      path: path.join(workspace, 'src', 'index.ts'),
+      type: 'file',
+      size: 6,
+    });
+    expect(info.result.permissions).toMatch(/^[0-7]{3}$/);
+  });
+
+  it('should find files and grep their contents', async () => {
+    const found = await run('find_files', { pattern: '*.ts' });
+    expect(found.result.files).toEqual([
+      path.join(workspace, 'src', 'index.ts'),
+    ]);
+
+    const grep = await run('grep', { pattern: '^b$', path: 'src' });
+    expect(grep.result.matches).toEqual([
+      {
+        file: path.join(workspace, 'src', 'index.ts'),
+        line: 2,
+        column: 1,
+        content: 'b',
+      },
+    ]);
+    expect(grep.metadata?.['locations']).toEqual([
+      { path: path.join(workspace, 'src', 'index.ts'), line: 2 },
+    ]);
+  });
+
+  it('should reject paths outside the workspace', async () => {
+    await fs.symlink(outside, path.join(workspace, 'link'));
+
+    for (const [name, params] of [
+      ['get_file_info', { path: '../outside/secret.txt' }],
+      ['list_directory', { path: 'link' }],
+      ['grep', { pattern: 'secret', path: outside }],
+      ['delete_file', { path: 'link/secret.txt' }],
+      ['move_file', { source: 'README.md', destination: '../README.md' }],
+    ] as const) {
+      const result = await run(name, params);
+      expect(result.success).toBe(false);
+      expect(result.error).toMatch(
+        /^Access denied: .* is outside the workspace/
+      );
+    }
+    await expect(
+      fs.readFile(path.join(outside, 'secret.txt'), 'utf8')
+    ).resolves.toBe('secret');
+
+    // The link itself is in the workspace
+    const deleted = await run('delete_file', { path: 'link' });
+    expect(deleted.result).toMatchObject({ deleted: true, type: 'symlink' });
+  });
+
+  it('should delete directories only when recursive', async () => {
+    const refused = await run('delete_file', { path: 'src' });
+    expect(refused.success).toBe(false);
+    expect(refused.error).toContain('ENOTEMPTY');
+
+    const deleted = await run('delete_file', { path: 'src', recursive: true });
+    expect(deleted.success).toBe(true);
+    await expect(fs.access(path.join(workspace, 'src'))).rejects.toThrow();
+
+    const root = await run('delete_file', { path: '.', recursive: true });
+    expect(root.error).toContain('workspace directory itself');
+  });
+
+  it('should move files without replacing existing ones', async () => {
+    const moved = await run('move_file', {
+      source: 'README.md',
+      destination: 'docs/README.md',
+    });
+    expect(moved.result).toMatchObject({ moved: true, overwritten: false });
+    await expect(
+      fs.readFile(path.join(workspace, 'docs', 'README.md'), 'utf8')
+    ).resolves.toBe('# Demo\n');
+
+    const refused = await run('move_file', {
+      source: 'docs/README.md',
+      destination: 'src/index.ts',
+    });
+    expect(refused.error).toContain('Pass overwrite: true');
+  });
+
+  it('should patch files through the client when it supports fs', async () => {
+    fileSystemClient.readTextFile.mockResolvedValue('a\nB (unsaved)\nc\n');
+    fileSystemClient.writeTextFile.mockResolvedValue(undefined);
+    const provider = createProvider({
+      fs: { readTextFile: true, writeTextFile: true },
+    });
+
+    const result = await run(
+      'patch_file',
+      {
+        path: 'src/index.ts',
+        patch: '@@ -2,2 +2,2 @@\n-B (unsaved)\n+b2\n c\n',
+      },
+      provider
+    );
+
+    expect(result.result).toMatchObject({ linesAdded: 1, linesRemoved: 1 });
+    expect(fileSystemClient.writeTextFile).toHaveBeenCalledWith({
+      sessionId: 'session-1',
+      path: path.join(workspace, 'src', 'index.ts'),
+      content: 'a\nb2\nc\n',
+    });
+    expect(result.metadata?.['diffs']).toEqual([
+      expect.objectContaining({
+        type: 'diff',
+        oldText: 'a\nB (unsaved)\nc\n',
+        newText: 'a\nb2\nc\n',
+      }),
+    ]);
+  });
+
+  it('should create files from patches against /dev/null', async () => {
+    const result = await run('patch_file', {
+      path: 'src/new.ts',
+      patch: '--- /dev/null\n+++ b/src/new.ts\n@@ -0,0 +1,2 @@\n+one\n+two\n',
+    });
+
+    expect(result.result).toMatchObject({ isNewFile: true, linesAdded: 2 });
+    await expect(
+      fs.readFile(path.join(workspace, 'src', 'new.ts'), 'utf8')
+    ).resolves.toBe('one\ntwo\n');
+  });
+
+  it('should ask permission before deleting through the registry', async () => {
+    const toolCallManager = {
+      reportToolCall: jest.fn(async () => 'tool-1'),
+      requestToolPermission: jest.fn(async () => ({
+        outcome: 'selected',
+        optionId: 'reject-once',
+      })),
+      updateToolCall: jest.fn(),
+      completeToolCall: jest.fn(),
+      failToolCall: jest.fn(),
+    };
+    const registry = new ToolRegistry(
+      { ...config, tools: { ...config.tools, cursor: { enabled: false } } },
+      logger
+    );
+    registry.setToolCallManager(toolCallManager as unknown as ToolCallManager);
+    registry.registerProvider(createProvider());
+
+    const result = await registry.executeToolWithSession(
+      { id: 'call-1', name: 'delete_file', parameters: { path: 'README.md' } },
+      'session-1'
+    );
+
+    expect(result.error).toBe('Permission denied for delete_file');
+    expect(toolCallManager.reportToolCall).toHaveBeenCalledWith(
+      'session-1',
+      'delete_file',
+      expect.objectContaining({ kind: 'delete' })
+    );
+    await expect(
+      fs.readFile(path.join(workspace, 'README.md'), 'utf8')
+    ).resolves.toBe('# Demo\n');
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Unit tests for line-range code changes
+ *
+ * Tests applying changes to file text and the unified diffs they produce.
+ */
+
+import { applyLineChanges } from '../../../src/tools/line-changes';
+
+const lines = (count: number) =>
+  Array.from({ length: count }, (_, i) => `line ${i + 1}`);
+
+describe('applyLineChanges', () => {
+  it('should put distant changes in separate hunks', () => {
+    const result = applyLineChanges('file.ts', lines(20).join('\n') + '\n', [
+      { file: 'file.ts', startLine: 18, endLine: 18, newContent: 'last' },
+      { file: 'file.ts', startLine: 2, endLine: 2, newContent: 'first' },
+    ]);
+
+    expect(result.diff).toBe(
+      [
+        '--- file.ts',
+        '+++ file.ts',
+        '@@ -1,5 +1,5 @@',
+        ' line 1',
+        '-line 2',
+        '+first',
+        ' line 3',
+        ' line 4',
+        ' line 5',
+        '@@ -15,6 +15,6 @@',
+        ' line 15',
+        ' line 16',
+        ' line 17',
+        '-line 18',
+        '+last',
+        ' line 19',
+        ' line 20',
+      ].join('\n')
+    );
+    expect(result.linesAdded).toBe(2);
+    expect(result.linesRemoved).toBe(2);
+  });
+
+  it('should merge changes whose context overlaps into one hunk', () => {
+    const result = applyLineChanges('file.ts', lines(12).join('\n'), [
+      { file: 'file.ts', startLine: 3, endLine: 3, newContent: 'a' },
+      { file: 'file.ts', startLine: 9, endLine: 8, newContent: 'b\nc' },
+    ]);
+
+    expect(result.diff.match(/^@@/gm)).toHaveLength(1);
+    expect(result.diff).toContain('@@ -1,11 +1,13 @@');
+    expect(result.text.endsWith('line 12')).toBe(true);
+  });
+
+  it('should keep CRLF line endings and report unchanged text', () => {
+    const text = 'a\r\nb\r\n';
+
+    const changed = applyLineChanges('file.ts', text, [
+      { file: 'file.ts', startLine: 2, endLine: 2, newContent: 'c\n' },
+    ]);
+    expect(changed.text).toBe('a\r\nc\r\n');
+
+    const unchanged = applyLineChanges('file.ts', text, [
+      { file: 'file.ts', startLine: 1, endLine: 2, newContent: 'a\nb' },
+    ]);
+    expect(unchanged.text).toBe(text);
+    expect(unchanged.diff).toBe('');
+  });
+});
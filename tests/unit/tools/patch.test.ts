@@ -0,0 +1,78 @@
+/**
+ * Unit tests for unified diff patches
+ *
+ * Tests hunk parsing and locating hunks in files that have moved on.
+ */
+
+import { hunksToChanges, parsePatch } from '../../../src/tools/patch';
+import { applyLineChanges } from '../../../src/tools/line-changes';
+
+describe('parsePatch', () => {
+  it('should read hunks and stripped empty context lines', () => {
+    const patch = parsePatch(
+      [
+        'diff --git a/file.ts b/file.ts',
+        '--- a/file.ts',
+        '+++ b/file.ts',
+        '@@ -1,3 +1,3 @@',
+        ' one',
+        '',
+        '-three',
+        '+THREE',
+        '\\ No newline at end of file',
+      ].join('\n')
+    );
+
+    expect(patch).toEqual({
+      isNewFile: false,
+      hunks: [
+        {
+          oldStart: 1,
+          oldLines: ['one', '', 'three'],
+          newLines: ['one', '', 'THREE'],
+        },
+      ],
+    });
+  });
+
+  it('should reject patches without hunks or for several files', () => {
+    expect(() => parsePatch('just text')).toThrow(
+      'Invalid patch: no hunks found'
+    );
+    expect(() =>
+      parsePatch('--- a\n+++ a\n@@ -1 +1 @@\n-x\n+y\n--- b\n+++ b\n')
+    ).toThrow('Invalid patch: it changes more than one file');
+    expect(() => parsePatch('@@ -1,2 +1,2 @@\n-x\n')).toThrow(
+      'Invalid patch: hunk 1 ends early'
+    );
+  });
+});
+
+describe('hunksToChanges', () => {
+  const text = ['import a', '', 'one', 'two', 'three', 'four', ''].join('\n');
+
+  it('should find hunks whose line numbers are off', () => {
+    const { hunks } = parsePatch('@@ -1,2 +1,3 @@\n two\n-three\n+3\n+3.5\n');
+
+    const changes = hunksToChanges('file.ts', text, hunks);
+    expect(changes).toEqual([
+      {
+        file: 'file.ts',
+        startLine: 4,
+        endLine: 5,
+        newContent: 'two\n3\n3.5\n',
+      },
+    ]);
+    expect(applyLineChanges('file.ts', text, changes).text).toBe(
+      ['import a', '', 'one', 'two', '3', '3.5', 'four', ''].join('\n')
+    );
+  });
+
+  it('should report hunks that do not apply', () => {
+    const { hunks } = parsePatch('@@ -3,1 +3,1 @@\n-missing\n+x\n');
+
+    expect(() => hunksToChanges('file.ts', text, hunks)).toThrow(
+      'Hunk 1 of the patch does not apply to file.ts'
+    );
+  });
+});
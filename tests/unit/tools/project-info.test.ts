@@ -0,0 +1,266 @@
+/**
+ * Unit tests for local project introspection
+ *
+ * Tests manifest parsing, workspace discovery, git status, the bounded
+ * directory tree and caching until the project changes.
+ */
+
+import { jest } from '@jest/globals';
+import { execFileSync } from 'child_process';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  ProjectInfoCache,
+  readProjectInfo,
+} from '../../../src/tools/project-info';
+import type { Logger } from '../../../src/types';
+
+describe('readProjectInfo', () => {
+  let projectDir: string;
+
+  const write = async (file: string, content: string) => {
+    await fs.mkdir(path.dirname(path.join(projectDir, file)), {
+      recursive: true,
+    });
+    await fs.writeFile(path.join(projectDir, file), content);
+  };
+
+  beforeEach(async () => {
+    projectDir = await fs.mkdtemp(path.join(os.tmpdir(), 'project-info-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(projectDir, { recursive: true, force: true });
+  });
+
+  it('should read pyproject.toml, Cargo.toml and go.mod', async () => {
+    await write(
+      'pyproject.toml',
+      [
+        '[project]',
+        'name = "app"',
+        'version = "0.3.0"',
+        'dependencies = [',
+        '  "requests[socks]>=2.31",',
+        '  "click",',
+        ']',
+        '',
+        '[project.scripts]',
+        'app = "app.cli:main"',
+        '',
+        '[tool.poetry.group.dev.dependencies]',
+        'pytest = "^8.0"',
+      ].join('\n')
+    );
+    await write(
+      'Cargo.toml',
+      [
+        '[package]',
+        'name = "engine"',
+        'version = "1.2.0"',
+        '',
+        '[dependencies]',
+        'serde = { version = "1.0", features = ["derive"] }',
+        "local = { path = '../local' }",
+        '',
+        '[dev-dependencies]',
+        'proptest = "1"',
+      ].join('\n')
+    );
+    await write(
+      'go.mod',
+      [
+        'module example.com/app',
+        '',
+        'go 1.22',
+        '',
+        'require github.com/pkg/errors v0.9.1',
+        'require (',
+        '\tgolang.org/x/sync v0.7.0',
+        '\tgolang.org/x/text v0.14.0 // indirect',
+        ')',
+      ].join('\n')
+    );
+
+    const info = await readProjectInfo(projectDir);
+
+    expect(info.name).toBe('app');
+    expect(info.version).toBe('0.3.0');
+    expect(info.manifests).toEqual([
+      {
+        type: 'python',
+        path: 'pyproject.toml',
+        name: 'app',
+        version: '0.3.0',
+        scripts: { app: 'app.cli:main' },
+        dependencies: { requests: '>=2.31', click: '*' },
+        devDependencies: { pytest: '^8.0' },
+      },
+      {
+        type: 'cargo',
+        path: 'Cargo.toml',
+        name: 'engine',
+        version: '1.2.0',
+        dependencies: { serde: '1.0', local: 'path:../local' },
+        devDependencies: { proptest: '1' },
+      },
+      {
+        type: 'go',
+        path: 'go.mod',
+        name: 'example.com/app',
+        version: 'go 1.22',
+        dependencies: {
+          'github.com/pkg/errors': 'v0.9.1',
+          'golang.org/x/sync': 'v0.7.0',
+        },
+      },
+    ]);
+  });
+
+  it('should report manifests that cannot be parsed', async () => {
+    await write('package.json', '{ "name": ');
+    await write('Cargo.toml', '[package\nname = "broken"\n');
+
+    const info = await readProjectInfo(projectDir);
+
+    expect(info.name).toBeNull();
+    expect(info.manifests).toEqual([
+      {
+        type: 'npm',
+        path: 'package.json',
+        error: expect.stringContaining('JSON'),
+      },
+      {
+        type: 'cargo',
+        path: 'Cargo.toml',
+        error: expect.any(String),
+      },
+    ]);
+    expect(info.workspaces).toEqual([]);
+  });
+
+  it('should list workspace members', async () => {
+    await write(
+      'package.json',
+      JSON.stringify({ name: 'root', workspaces: ['packages/*'] })
+    );
+    await write('packages/core/package.json', '{"name":"@app/core"}');
+    await write('packages/cli/package.json', '{"name":"@app/cli"}');
+    await write('packages/docs/README.md', '');
+    await write(
+      'pnpm-workspace.yaml',
+      "packages:\n  - 'apps/**'\n  - '!apps/legacy'\n"
+    );
+    await write('apps/web/package.json', '{"name":"web"}');
+    await write('apps/legacy/package.json', '{"name":"legacy"}');
+
+    const info = await readProjectInfo(projectDir);
+
+    expect(info.workspaces).toEqual([
+      {
+        type: 'npm',
+        manifest: 'package.json',
+        patterns: ['packages/*'],
+        packages: [
+          { path: 'packages/cli', name: '@app/cli' },
+          { path: 'packages/core', name: '@app/core' },
+        ],
+        truncated: false,
+      },
+      {
+        type: 'pnpm',
+        manifest: 'pnpm-workspace.yaml',
+        patterns: ['apps/**', '!apps/legacy'],
+        packages: [{ path: 'apps/web', name: 'web' }],
+        truncated: false,
+      },
+    ]);
+  });
+
+  it('should list the tree without ignored paths', async () => {
+    await write('.gitignore', 'dist/\n*.log\n');
+    await write('dist/index.js', '');
+    await write('debug.log', '');
+    await write('node_modules/dep/index.js', '');
+    await write('src/a/b/c/deep.ts', '');
+    await write('src/index.ts', '');
+
+    const info = await readProjectInfo(projectDir);
+
+    expect(info.structure).toEqual({
+      entries: ['.gitignore', 'src/', 'src/a/', 'src/a/b/', 'src/index.ts'],
+      truncated: false,
+    });
+  });
+
+  it('should read the git branch and changes', async () => {
+    const git = (...args: string[]) =>
+      execFileSync('git', args, { cwd: projectDir, stdio: 'ignore' });
+    git('init', '--initial-branch=main');
+    await write('tracked.txt', 'one\n');
+    git('add', 'tracked.txt');
+    git(
+      '-c',
+      'user.name=Test',
+      '-c',
+      'user.email=test@example.com',
+      'commit',
+      '-m',
+      'Initial commit'
+    );
+    await write('tracked.txt', 'two\n');
+    await write('new.txt', '');
+
+    const info = await readProjectInfo(projectDir);
+
+    expect(info.git).toEqual({
+      branch: 'main',
+      ahead: 0,
+      behind: 0,
+      clean: false,
+      changes: [
+        { path: 'tracked.txt', status: ' M' },
+        { path: 'new.txt', status: '??' },
+      ],
+      truncated: false,
+    });
+  });
+});
+
+describe('ProjectInfoCache', () => {
+  let projectDir: string;
+  let cache: ProjectInfoCache;
+
+  beforeEach(async () => {
+    projectDir = await fs.mkdtemp(path.join(os.tmpdir(), 'project-cache-'));
+    const logger: Logger = {
+      error: jest.fn(),
+      warn: jest.fn(),
+      info: jest.fn(),
+      debug: jest.fn(),
+    };
+    cache = new ProjectInfoCache(logger);
+  });
+
+  afterEach(async () => {
+    cache.clear();
+    await fs.rm(projectDir, { recursive: true, force: true });
+  });
+
+  it('should reuse the info per key until the project changes', async () => {
+    const first = cache.get('session-1', projectDir);
+    expect(cache.get('session-1', projectDir)).toBe(first);
+    expect(cache.get('session-2', projectDir)).not.toBe(first);
+    await first;
+
+    await fs.writeFile(path.join(projectDir, 'go.mod'), 'module example');
+
+    let info = await cache.get('session-1', projectDir);
+    for (let i = 0; i < 50 && info.name === null; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      info = await cache.get('session-1', projectDir);
+    }
+    expect(info.name).toBe('example');
+  });
+});
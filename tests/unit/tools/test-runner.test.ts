@@ -0,0 +1,223 @@
+/**
+ * Unit tests for test runner support
+ *
+ * Tests framework detection, test commands and parsing of each runner's
+ * output into counts and failing test locations.
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  detectTestFramework,
+  getTestCommand,
+  parseTestOutput,
+} from '../../../src/tools/test-runner';
+
+describe('detectTestFramework', () => {
+  let projectDir: string;
+
+  beforeEach(async () => {
+    projectDir = await fs.mkdtemp(path.join(os.tmpdir(), 'test-runner-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(projectDir, { recursive: true, force: true });
+  });
+
+  it.each([
+    ['package.json', '{"scripts":{"test":"vitest run"}}', 'vitest'],
+    ['package.json', '{"devDependencies":{"mocha":"^10.0.0"}}', 'mocha'],
+    ['Cargo.toml', '[package]', 'cargo'],
+    ['go.mod', 'module example.com/app', 'go'],
+    ['pyproject.toml', '[project]', 'pytest'],
+  ])('should detect %s with %s', async (file, content, framework) => {
+    await fs.writeFile(path.join(projectDir, file), content);
+
+    expect(await detectTestFramework(projectDir)).toBe(framework);
+  });
+
+  it('should prefer the runner named in the test script', async () => {
+    await fs.writeFile(
+      path.join(projectDir, 'package.json'),
+      JSON.stringify({
+        scripts: { test: 'jest --runInBand' },
+        devDependencies: { vitest: '^1.0.0', jest: '^29.0.0' },
+      })
+    );
+
+    expect(await detectTestFramework(projectDir)).toBe('jest');
+  });
+
+  it('should return null for unknown projects', async () => {
+    expect(await detectTestFramework(projectDir)).toBeNull();
+  });
+});
+
+describe('getTestCommand', () => {
+  it('should pass the pattern the way each runner accepts it', () => {
+    expect(getTestCommand('vitest', { pattern: 'math' })).toEqual({
+      command: 'npx',
+      args: ['vitest', 'run', 'math'],
+    });
+    expect(
+      getTestCommand('go', { pattern: 'TestAdd', coverage: true })
+    ).toEqual({
+      command: 'go',
+      args: ['test', '-v', '-cover', '-run', 'TestAdd', './...'],
+    });
+  });
+
+  it('should reject coverage for runners without it', () => {
+    expect(() => getTestCommand('cargo', { coverage: true })).toThrow(
+      'Coverage is not supported for cargo'
+    );
+  });
+});
+
+describe('parseTestOutput', () => {
+  it('should parse vitest output', () => {
+    const report = parseTestOutput(
+      'vitest',
+      [
+        ' \u001b[31mFAIL\u001b[39m  tests/math.test.ts > math > adds',
+        'AssertionError: expected 3 to be 4',
+        ' ❯ tests/math.test.ts:5:17',
+        '',
+        ' Test Files  1 failed (1)',
+        '      Tests  1 failed | 2 passed | 1 skipped (4)',
+      ].join('\n')
+    );
+
+    expect(report).toEqual({
+      summary: { total: 4, passed: 2, failed: 1, skipped: 1 },
+      failures: [
+        {
+          name: 'math > adds',
+          file: 'tests/math.test.ts',
+          line: 5,
+          message: 'AssertionError: expected 3 to be 4',
+        },
+      ],
+    });
+  });
+
+  it('should parse mocha output', () => {
+    const report = parseTestOutput(
+      'mocha',
+      [
+        '  3 passing (12ms)',
+        '  1 pending',
+        '  1 failing',
+        '',
+        '  1) math',
+        '       adds:',
+        '     AssertionError: expected 3 to equal 4',
+        '      at Context.<anonymous> (test/math.spec.js:8:12)',
+        '      at process.processImmediate (node:internal/timers:476:21)',
+      ].join('\n')
+    );
+
+    expect(report).toEqual({
+      summary: { total: 5, passed: 3, failed: 1, skipped: 1 },
+      failures: [
+        {
+          name: 'math adds',
+          file: 'test/math.spec.js',
+          line: 8,
+          message: 'AssertionError: expected 3 to equal 4',
+        },
+      ],
+    });
+  });
+
+  it('should parse pytest output', () => {
+    const report = parseTestOutput(
+      'pytest',
+      [
+        '___________________________ TestMath.test_add ___________________________',
+        '',
+        '    def test_add(self):',
+        '>       assert add(1, 2) == 4',
+        'E       assert 3 == 4',
+        '',
+        'tests/test_math.py:7: AssertionError',
+        '=========================== short test summary info ============================',
+        'FAILED tests/test_math.py::TestMath::test_add - assert 3 == 4',
+        '==================== 1 failed, 5 passed, 2 skipped in 0.12s ====================',
+      ].join('\n')
+    );
+
+    expect(report).toEqual({
+      summary: { total: 8, passed: 5, failed: 1, skipped: 2 },
+      failures: [
+        {
+          name: 'tests/test_math.py::TestMath::test_add',
+          file: 'tests/test_math.py',
+          line: 7,
+          message: 'assert 3 == 4',
+        },
+      ],
+    });
+  });
+
+  it('should parse go test output', () => {
+    const report = parseTestOutput(
+      'go',
+      [
+        '=== RUN   TestAdd',
+        '    math_test.go:9: expected 4, got 3',
+        '--- FAIL: TestAdd (0.00s)',
+        '=== RUN   TestSub',
+        '--- PASS: TestSub (0.00s)',
+        '=== RUN   TestMul',
+        '    math_test.go:20: not implemented',
+        '--- SKIP: TestMul (0.00s)',
+        'FAIL',
+      ].join('\n')
+    );
+
+    expect(report).toEqual({
+      summary: { total: 3, passed: 1, failed: 1, skipped: 1 },
+      failures: [
+        {
+          name: 'TestAdd',
+          file: 'math_test.go',
+          line: 9,
+          message: 'expected 4, got 3',
+        },
+      ],
+    });
+  });
+
+  it('should parse cargo test output', () => {
+    const report = parseTestOutput(
+      'cargo',
+      [
+        'test tests::adds ... FAILED',
+        'test tests::subtracts ... ok',
+        '',
+        'failures:',
+        '',
+        '---- tests::adds stdout ----',
+        "thread 'tests::adds' panicked at src/lib.rs:12:9:",
+        'assertion `left == right` failed',
+        '',
+        'test result: FAILED. 1 passed; 1 failed; 0 ignored; 0 measured; 0 filtered out',
+        'test result: ok. 2 passed; 0 failed; 1 ignored; 0 measured; 0 filtered out',
+      ].join('\n')
+    );
+
+    expect(report).toEqual({
+      summary: { total: 5, passed: 3, failed: 1, skipped: 1 },
+      failures: [
+        {
+          name: 'tests::adds',
+          file: 'src/lib.rs',
+          line: 12,
+          message: 'assertion `left == right` failed',
+        },
+      ],
+    });
+  });
+});
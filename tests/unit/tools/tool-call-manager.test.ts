@@ -6,6 +6,8 @@
 
 import { jest } from '@jest/globals';
 import { ToolCallManager } from '../../../src/tools/tool-call-manager';
+import { PermissionStore } from '../../../src/protocol/permission-store';
+import { PermissionPolicy } from '../../../src/protocol/permission-policy';
 import type {
   Logger,
   AcpNotification,
@@ -556,6 +558,273 @@ describe('ToolCallManager', () => {
     });
   });
 
+  describe('requestToolPermission with a permission store', () => {
+    const options = [
+      { optionId: 'allow-once', name: 'Allow', kind: 'allow_once' as const },
+      {
+        optionId: 'allow-always',
+        name: 'Always allow',
+        kind: 'allow_always' as const,
+      },
+      { optionId: 'reject-once', name: 'Reject', kind: 'reject_once' as const },
+    ];
+
+    let storeManager: ToolCallManager;
+
+    beforeEach(() => {
+      storeManager = new ToolCallManager({
+        logger: mockLogger,
+        sendNotification: () => {},
+        requestPermission: mockRequestPermission,
+        permissionStore: new PermissionStore({ logger: mockLogger }),
+      });
+    });
+
+    afterEach(async () => {
+      await storeManager.cleanup();
+    });
+
+    const reportShell = (sessionId: string, command: string) =>
+      storeManager.reportToolCall(sessionId, 'shell', {
+        title: `Run: ${command}`,
+        kind: 'execute',
+        rawInput: { command },
+      });
+
+    it('should not prompt again after "allow always"', async () => {
+      mockRequestPermission.mockResolvedValue({
+        outcome: 'selected',
+        optionId: 'allow-always',
+      });
+
+      await storeManager.requestToolPermission(
+        'session1',
+        await reportShell('session1', 'npm test'),
+        options
+      );
+      const second = await storeManager.requestToolPermission(
+        'session1',
+        await reportShell('session1', 'npm test -- --ci'),
+        options
+      );
+
+      expect(mockRequestPermission).toHaveBeenCalledTimes(1);
+      expect(second).toEqual({ outcome: 'selected', optionId: 'allow-once' });
+    });
+
+    it('should keep prompting after a one-time decision', async () => {
+      mockRequestPermission.mockResolvedValue({
+        outcome: 'selected',
+        optionId: 'allow-once',
+      });
+
+      await storeManager.requestToolPermission(
+        'session1',
+        await reportShell('session1', 'npm test'),
+        options
+      );
+      await storeManager.requestToolPermission(
+        'session1',
+        await reportShell('session1', 'npm test'),
+        options
+      );
+
+      expect(mockRequestPermission).toHaveBeenCalledTimes(2);
+    });
+
+    it('should keep decisions per session', async () => {
+      mockRequestPermission.mockResolvedValue({
+        outcome: 'selected',
+        optionId: 'allow-always',
+      });
+
+      await storeManager.requestToolPermission(
+        'session1',
+        await reportShell('session1', 'npm test'),
+        options
+      );
+      await storeManager.requestToolPermission(
+        'session2',
+        await reportShell('session2', 'npm test'),
+        options
+      );
+
+      expect(mockRequestPermission).toHaveBeenCalledTimes(2);
+    });
+
+    it('should ignore "allow always" in strict modes', async () => {
+      mockRequestPermission.mockResolvedValue({
+        outcome: 'selected',
+        optionId: 'allow-always',
+      });
+
+      await storeManager.requestToolPermission(
+        'session1',
+        await reportShell('session1', 'npm test'),
+        options,
+        'strict'
+      );
+      await storeManager.requestToolPermission(
+        'session1',
+        await reportShell('session1', 'npm test'),
+        options,
+        'strict'
+      );
+
+      expect(mockRequestPermission).toHaveBeenCalledTimes(2);
+    });
+
+    it('should allow without prompting in permissive modes', async () => {
+      const outcome = await storeManager.requestToolPermission(
+        'session1',
+        await reportShell('session1', 'npm test'),
+        options,
+        'permissive'
+      );
+
+      expect(outcome).toEqual({ outcome: 'selected', optionId: 'allow-once' });
+      expect(mockRequestPermission).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('requestToolPermission with a permission policy', () => {
+    const options = [
+      { optionId: 'allow-once', name: 'Allow', kind: 'allow_once' as const },
+      {
+        optionId: 'allow-always',
+        name: 'Always allow',
+        kind: 'allow_always' as const,
+      },
+      { optionId: 'reject-once', name: 'Reject', kind: 'reject_once' as const },
+    ];
+
+    let policyManager: ToolCallManager;
+    let getPermissionContext: jest.Mock;
+
+    beforeEach(() => {
+      getPermissionContext = jest
+        .fn()
+        .mockResolvedValue({ mode: 'agent', cwd: '/repo' });
+      policyManager = new ToolCallManager({
+        logger: mockLogger,
+        sendNotification: () => {},
+        requestPermission: mockRequestPermission,
+        permissionStore: new PermissionStore({ logger: mockLogger }),
+        permissionPolicy: new PermissionPolicy({
+          logger: mockLogger,
+          policy: {
+            rules: [
+              { action: 'allow', commands: ['npm test **'] },
+              { action: 'deny', kinds: ['edit'], modes: ['plan'] },
+              { action: 'allow', kinds: ['edit'], paths: ['src/**'] },
+              { action: 'ask', kinds: ['edit'] },
+            ],
+          },
+        }),
+        getPermissionContext,
+      });
+    });
+
+    afterEach(async () => {
+      await policyManager.cleanup();
+    });
+
+    const reportEdit = (filePath: string) =>
+      policyManager.reportToolCall('session1', 'edit', {
+        title: `Edit ${filePath}`,
+        kind: 'edit',
+        locations: [{ path: filePath }],
+      });
+
+    it('should allow matching operations without prompting', async () => {
+      const toolCallId = await policyManager.reportToolCall(
+        'session1',
+        'shell',
+        {
+          title: 'Run tests',
+          kind: 'execute',
+          rawInput: { command: 'npm test' },
+        }
+      );
+
+      const outcome = await policyManager.requestToolPermission(
+        'session1',
+        toolCallId,
+        options
+      );
+
+      expect(outcome).toEqual({ outcome: 'selected', optionId: 'allow-once' });
+      expect(mockRequestPermission).not.toHaveBeenCalled();
+      expect(getPermissionContext).toHaveBeenCalledWith('session1');
+    });
+
+    it('should deny by session mode without prompting', async () => {
+      getPermissionContext.mockResolvedValue({ mode: 'plan', cwd: '/repo' });
+
+      const outcome = await policyManager.requestToolPermission(
+        'session1',
+        await reportEdit('/repo/src/a.ts'),
+        options
+      );
+
+      expect(outcome).toEqual({ outcome: 'selected', optionId: 'reject-once' });
+      expect(mockRequestPermission).not.toHaveBeenCalled();
+    });
+
+    it('should always prompt for "ask" rules', async () => {
+      mockRequestPermission.mockResolvedValue({
+        outcome: 'selected',
+        optionId: 'allow-always',
+      });
+
+      await policyManager.requestToolPermission(
+        'session1',
+        await reportEdit('/repo/README.md'),
+        options
+      );
+      await policyManager.requestToolPermission(
+        'session1',
+        await reportEdit('/repo/README.md'),
+        options
+      );
+
+      expect(mockRequestPermission).toHaveBeenCalledTimes(2);
+    });
+
+    it('should apply deny rules in permissive modes', async () => {
+      getPermissionContext.mockResolvedValue({ mode: 'plan', cwd: '/repo' });
+
+      const outcome = await policyManager.requestToolPermission(
+        'session1',
+        await reportEdit('/repo/src/a.ts'),
+        options,
+        'permissive'
+      );
+
+      expect(outcome).toEqual({ outcome: 'selected', optionId: 'reject-once' });
+    });
+
+    it('should fall back to prompting when no rule matches', async () => {
+      mockRequestPermission.mockResolvedValue({
+        outcome: 'selected',
+        optionId: 'allow-once',
+      });
+      const toolCallId = await policyManager.reportToolCall(
+        'session1',
+        'fetch',
+        { title: 'Fetch', kind: 'fetch' }
+      );
+
+      await policyManager.requestToolPermission(
+        'session1',
+        toolCallId,
+        options
+      );
+
+      expect(mockRequestPermission).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('getToolCallInfo', () => {
     it('should return tool call info', async () => {
       const toolCallId = await manager.reportToolCall('session1', 'test', {
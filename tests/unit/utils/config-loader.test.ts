@@ -0,0 +1,306 @@
+/**
+ * Unit tests for configuration loading
+ *
+ * Tests merging defaults, config files (JSON/YAML), CURSOR_ACP_* environment
+ * variables and command line flags, and reporting the source of each value.
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  explainConfig,
+  getEnvVarName,
+  loadConfigFile,
+  readEnvOverrides,
+  resolveConfig,
+} from '../../../src/utils/config-loader';
+import { validateConfig } from '../../../src/utils/config';
+import { DEFAULT_CONFIG } from '../../../src';
+import { AdapterError } from '../../../src/types';
+
+describe('config-loader', () => {
+  let tempDir: string;
+
+  const writeFile = async (name: string, content: string) => {
+    const filePath = path.join(tempDir, name);
+    await fs.writeFile(filePath, content, 'utf8');
+    return filePath;
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'config-loader-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('resolveConfig', () => {
+    it('should apply defaults, file, env and flags in order', async () => {
+      const configFile = await writeFile(
+        'config.json',
+        JSON.stringify({
+          logLevel: 'warn',
+          maxSessions: 10,
+          cursor: { timeout: 60000 },
+        })
+      );
+
+      const resolved = resolveConfig({
+        defaults: DEFAULT_CONFIG,
+        configFile,
+        env: {
+          CURSOR_ACP_MAX_SESSIONS: '20',
+          CURSOR_ACP_CURSOR_RETRIES: '1',
+        },
+        cliOverrides: [
+          {
+            path: 'cursor.retries',
+            value: 5,
+            source: { kind: 'cli', name: '--retries' },
+          },
+        ],
+      });
+
+      expect(resolved.config).toMatchObject({
+        logLevel: 'warn',
+        maxSessions: 20,
+        sessionTimeout: DEFAULT_CONFIG.sessionTimeout,
+        cursor: { timeout: 60000, retries: 5 },
+      });
+      expect(resolved.sources.get('logLevel')).toEqual({
+        kind: 'file',
+        name: configFile,
+      });
+      expect(resolved.sources.get('maxSessions')).toEqual({
+        kind: 'env',
+        name: 'CURSOR_ACP_MAX_SESSIONS',
+      });
+      expect(resolved.sources.get('cursor.retries')).toEqual({
+        kind: 'cli',
+        name: '--retries',
+      });
+      expect(resolved.sources.get('sessionTimeout')).toEqual({
+        kind: 'default',
+      });
+      expect(resolved.validation.valid).toBe(true);
+    });
+
+    it('should deep merge nested sections without mutating defaults', async () => {
+      const configFile = await writeFile(
+        'config.json',
+        JSON.stringify({ tools: { terminal: { maxProcesses: 2 } } })
+      );
+
+      const resolved = resolveConfig({ defaults: DEFAULT_CONFIG, configFile });
+
+      expect(resolved.config.tools.terminal).toEqual({
+        enabled: true,
+        maxProcesses: 2,
+      });
+      expect(resolved.config.tools.filesystem.enabled).toBe(true);
+      expect(DEFAULT_CONFIG.tools.terminal.maxProcesses).toBe(5);
+    });
+
+    it('should read the config file path from CURSOR_ACP_CONFIG', async () => {
+      const configFile = await writeFile('config.yml', 'maxSessions: 7\n');
+
+      const resolved = resolveConfig({
+        defaults: DEFAULT_CONFIG,
+        env: { CURSOR_ACP_CONFIG: configFile },
+      });
+
+      expect(resolved.config.maxSessions).toBe(7);
+      expect(resolved.configFile).toBe(configFile);
+    });
+
+    it('should validate the merged result', () => {
+      const resolved = resolveConfig({
+        defaults: DEFAULT_CONFIG,
+        env: { CURSOR_ACP_TOOLS_CURSOR_MAX_SEARCH_RESULTS: '5000' },
+      });
+
+      expect(resolved.validation.valid).toBe(false);
+      expect(resolved.validation.errors).toEqual([
+        expect.stringContaining('tools.cursor.maxSearchResults'),
+      ]);
+    });
+  });
+
+  describe('loadConfigFile', () => {
+    it('should parse YAML files', async () => {
+      const configFile = await writeFile(
+        'config.yaml',
+        [
+          'logLevel: debug',
+          'tools:',
+          '  terminal:',
+          '    forbiddenCommands: [rm, sudo]',
+          '',
+        ].join('\n')
+      );
+
+      expect(loadConfigFile(configFile)).toEqual({
+        logLevel: 'debug',
+        tools: { terminal: { forbiddenCommands: ['rm', 'sudo'] } },
+      });
+    });
+
+    it('should treat an empty YAML file as empty config', async () => {
+      const configFile = await writeFile('empty.yaml', '');
+
+      expect(loadConfigFile(configFile)).toEqual({});
+    });
+
+    it('should reject missing, malformed and non-object files', async () => {
+      const malformed = await writeFile('bad.json', '{ nope');
+      const list = await writeFile('list.json', '[1, 2]');
+
+      expect(() => loadConfigFile(path.join(tempDir, 'missing.json'))).toThrow(
+        /Failed to read configuration file/
+      );
+      expect(() => loadConfigFile(malformed)).toThrow(
+        /Failed to parse configuration file/
+      );
+      expect(() => loadConfigFile(list)).toThrow(AdapterError);
+    });
+  });
+
+  describe('readEnvOverrides', () => {
+    it('should name variables after config paths', () => {
+      expect(getEnvVarName('tools.terminal.maxProcesses')).toBe(
+        'CURSOR_ACP_TOOLS_TERMINAL_MAX_PROCESSES'
+      );
+      expect(getEnvVarName('logLevel')).toBe('CURSOR_ACP_LOG_LEVEL');
+    });
+
+    it('should parse values by type', () => {
+      const overrides = readEnvOverrides({
+        CURSOR_ACP_TOOLS_TERMINAL_ENABLED: 'false',
+        CURSOR_ACP_TOOLS_TERMINAL_FORBIDDEN_COMMANDS: 'rm, sudo',
+        CURSOR_ACP_TOOLS_TERMINAL_ALLOWED_COMMANDS: '["npm", "git"]',
+        CURSOR_ACP_PERMISSIONS_POLICY: '{"defaultAction":"ask"}',
+        CURSOR_ACP_SESSION_DIR: '/tmp/sessions',
+        CURSOR_ACP_MAX_SESSIONS: '',
+      });
+
+      expect(
+        Object.fromEntries(overrides.map((o) => [o.path, o.value]))
+      ).toEqual({
+        sessionDir: '/tmp/sessions',
+        'tools.terminal.enabled': false,
+        'tools.terminal.forbiddenCommands': ['rm', 'sudo'],
+        'tools.terminal.allowedCommands': ['npm', 'git'],
+        'permissions.policy': { defaultAction: 'ask' },
+      });
+    });
+
+    it('should reject values of the wrong type', () => {
+      expect(() =>
+        readEnvOverrides({ CURSOR_ACP_MAX_SESSIONS: 'lots' })
+      ).toThrow('Invalid value for CURSOR_ACP_MAX_SESSIONS: expected a number');
+      expect(() =>
+        readEnvOverrides({ CURSOR_ACP_TOOLS_FILESYSTEM_ENABLED: 'maybe' })
+      ).toThrow(/expected a boolean/);
+      expect(() =>
+        readEnvOverrides({ CURSOR_ACP_PERMISSIONS_POLICY: '[]' })
+      ).toThrow(/expected a JSON object/);
+    });
+  });
+
+  describe('explainConfig', () => {
+    it('should list each value with its source', () => {
+      const resolved = resolveConfig({
+        defaults: DEFAULT_CONFIG,
+        env: { CURSOR_ACP_PERMISSIONS_POLICY: '{"rules":[]}' },
+        cliOverrides: [
+          {
+            path: 'tools.terminal.enabled',
+            value: false,
+            source: { kind: 'cli', name: '--no-terminal' },
+          },
+        ],
+      });
+
+      const lines = explainConfig(resolved);
+
+      expect(lines).toContain('logLevel = "info" (default)');
+      expect(lines).toContain(
+        'tools.terminal.enabled = false (flag --no-terminal)'
+      );
+      expect(lines).toContain(
+        'permissions.policy.rules = [] (env CURSOR_ACP_PERMISSIONS_POLICY)'
+      );
+    });
+  });
+
+  describe('validateConfig', () => {
+    it('should validate tools.cursor settings', () => {
+      const result = validateConfig({
+        ...DEFAULT_CONFIG,
+        tools: {
+          ...DEFAULT_CONFIG.tools,
+          cursor: {
+            enabled: 'yes' as any,
+            maxSearchResults: 0,
+            projectRoot: 42 as any,
+          },
+        },
+      });
+
+      expect(result.errors).toEqual([
+        expect.stringContaining('tools.cursor.enabled'),
+        expect.stringContaining('tools.cursor.projectRoot'),
+        expect.stringContaining('tools.cursor.maxSearchResults'),
+      ]);
+    });
+
+    it('should validate terminal limits', () => {
+      const result = validateConfig({
+        ...DEFAULT_CONFIG,
+        tools: {
+          ...DEFAULT_CONFIG.tools,
+          terminal: {
+            enabled: true,
+            maxProcesses: 5,
+            defaultOutputByteLimit: 2048000,
+            maxOutputByteLimit: 1024000,
+            forbiddenCommands: ['rm', 1 as any],
+          },
+        },
+      });
+
+      expect(result.errors).toEqual([
+        expect.stringContaining('tools.terminal.forbiddenCommands'),
+        'tools.terminal.defaultOutputByteLimit should not exceed tools.terminal.maxOutputByteLimit',
+      ]);
+    });
+
+    it('should validate the cursor-agent launch settings', () => {
+      const result = validateConfig({
+        ...DEFAULT_CONFIG,
+        cursor: {
+          ...DEFAULT_CONFIG.cursor,
+          binaryPath: ' ',
+          extraArgs: ['--endpoint', 1 as any],
+          env: { CURSOR_API_KEY: 'key', DEBUG: true as any },
+        },
+      });
+
+      expect(result.errors).toEqual([
+        expect.stringContaining('cursor.binaryPath'),
+        expect.stringContaining('cursor.extraArgs'),
+        expect.stringContaining('cursor.env'),
+      ]);
+    });
+
+    it('should reject numbers that failed to parse', () => {
+      const result = validateConfig({ ...DEFAULT_CONFIG, maxSessions: NaN });
+
+      expect(result.errors).toContain(
+        'Invalid value for maxSessions: not a number'
+      );
+    });
+  });
+});
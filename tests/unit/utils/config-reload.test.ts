@@ -0,0 +1,199 @@
+/**
+ * Unit tests for configuration hot-reload helpers
+ *
+ * Tests which config changes can be applied live and the config file watcher.
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  ConfigWatcher,
+  applyConfigPaths,
+  diffConfig,
+  planConfigReload,
+} from '../../../src/utils/config-reload';
+import { DEFAULT_CONFIG } from '../../../src';
+import type { AdapterConfig, Logger } from '../../../src/types';
+
+describe('config-reload', () => {
+  const withChanges = (changes: Partial<AdapterConfig>): AdapterConfig => ({
+    ...structuredClone(DEFAULT_CONFIG),
+    ...changes,
+  });
+
+  describe('diffConfig', () => {
+    it('should list changed, added and removed leaf paths', () => {
+      const next = withChanges({
+        logLevel: 'debug',
+        tools: {
+          filesystem: { enabled: true },
+          terminal: { enabled: true, maxProcesses: 5, forbiddenCommands: [] },
+        },
+      });
+
+      expect(diffConfig(DEFAULT_CONFIG, next)).toEqual([
+        'logLevel',
+        'tools.terminal.forbiddenCommands',
+      ]);
+      expect(
+        diffConfig(DEFAULT_CONFIG, structuredClone(DEFAULT_CONFIG))
+      ).toEqual([]);
+    });
+  });
+
+  describe('planConfigReload', () => {
+    it('should accept safe changes and reject startup-only ones', () => {
+      const next = withChanges({
+        logLevel: 'warn',
+        maxSessions: 50,
+        sessionDir: '/elsewhere',
+        cursor: { timeout: 60000, retries: 3 },
+        permissions: { persistRules: true, policy: { defaultAction: 'ask' } },
+      });
+
+      const plan = planConfigReload(DEFAULT_CONFIG, next);
+
+      expect(plan.live).toEqual([
+        'logLevel',
+        'maxSessions',
+        'cursor.timeout',
+        'permissions.policy.defaultAction',
+      ]);
+      expect(plan.rejected).toEqual([
+        {
+          path: 'sessionDir',
+          reason: expect.stringContaining('restart to move them'),
+        },
+        {
+          path: 'permissions.persistRules',
+          reason: expect.stringContaining('chosen at startup'),
+        },
+      ]);
+    });
+  });
+
+  describe('applyConfigPaths', () => {
+    it('should copy, create and remove values in place', () => {
+      const target = withChanges({
+        tools: {
+          filesystem: { enabled: true },
+          terminal: {
+            enabled: true,
+            maxProcesses: 5,
+            allowedCommands: ['npm'],
+          },
+        },
+      });
+      const terminal = target.tools.terminal;
+      const source = withChanges({
+        tools: {
+          filesystem: { enabled: true },
+          terminal: { enabled: true, maxProcesses: 2 },
+          cursor: { maxSearchResults: 10 },
+        },
+      });
+
+      applyConfigPaths(target, source, [
+        'tools.terminal.maxProcesses',
+        'tools.terminal.allowedCommands',
+        'tools.cursor.maxSearchResults',
+      ]);
+
+      expect(target.tools.terminal).toBe(terminal);
+      expect(terminal).toEqual({ enabled: true, maxProcesses: 2 });
+      expect(target.tools.cursor).toEqual({ maxSearchResults: 10 });
+    });
+  });
+
+  describe('ConfigWatcher', () => {
+    let tempDir: string;
+    let filePath: string;
+    let watcher: ConfigWatcher | undefined;
+    let mockLogger: Logger;
+
+    const waitFor = async (condition: () => boolean) => {
+      for (let i = 0; i < 100 && !condition(); i++) {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+      }
+    };
+
+    beforeEach(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'config-watch-'));
+      filePath = path.join(tempDir, 'config.json');
+      await fs.writeFile(filePath, '{}');
+      mockLogger = {
+        error: jest.fn(),
+        warn: jest.fn(),
+        info: jest.fn(),
+        debug: jest.fn(),
+      };
+    });
+
+    afterEach(async () => {
+      watcher?.stop();
+      await watcher?.idle();
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('should call onChange once per burst of writes', async () => {
+      const onChange = jest.fn();
+      watcher = new ConfigWatcher({
+        filePath,
+        logger: mockLogger,
+        onChange,
+        debounceMs: 50,
+      });
+      watcher.start();
+
+      await fs.writeFile(filePath, '{"logLevel":"debug"}');
+      await fs.writeFile(filePath, '{"logLevel":"warn"}');
+      await waitFor(() => onChange.mock.calls.length > 0);
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      expect(onChange).toHaveBeenCalledTimes(1);
+    });
+
+    it('should ignore other files in the directory', async () => {
+      const onChange = jest.fn();
+      watcher = new ConfigWatcher({
+        filePath,
+        logger: mockLogger,
+        onChange,
+        debounceMs: 20,
+      });
+      watcher.start();
+
+      await fs.writeFile(path.join(tempDir, 'other.json'), '{}');
+      await new Promise((resolve) => setTimeout(resolve, 150));
+
+      expect(onChange).not.toHaveBeenCalled();
+    });
+
+    it('should log reload failures and keep watching', async () => {
+      const onChange = jest
+        .fn<Promise<void>, []>()
+        .mockRejectedValueOnce(new Error('bad config'))
+        .mockResolvedValue(undefined);
+      watcher = new ConfigWatcher({
+        filePath,
+        logger: mockLogger,
+        onChange,
+        debounceMs: 20,
+      });
+      watcher.start();
+
+      await fs.writeFile(filePath, '{ nope');
+      await waitFor(() => onChange.mock.calls.length > 0);
+      await watcher.idle();
+      await fs.writeFile(filePath, '{}');
+      await waitFor(() => onChange.mock.calls.length > 1);
+
+      expect(mockLogger.error).toHaveBeenCalledWith(
+        'Configuration reload failed',
+        expect.objectContaining({ error: 'bad config' })
+      );
+      expect(onChange).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * Unit tests for .gitignore matching
+ *
+ * Tests pattern parsing, anchoring, directory-only patterns and negation.
+ */
+
+import { isIgnored, parseGitignore } from '../../../src/utils/gitignore';
+
+describe('gitignore', () => {
+  it('should match unanchored names at any depth', () => {
+    const rules = parseGitignore('# build output\n\n*.log\nnode_modules/\n');
+
+    expect(rules).toHaveLength(2);
+    expect(isIgnored(rules, 'debug.log', false)).toBe(true);
+    expect(isIgnored(rules, 'logs/debug.log', false)).toBe(true);
+    expect(isIgnored(rules, 'packages/a/node_modules', true)).toBe(true);
+    expect(isIgnored(rules, 'node_modules', false)).toBe(false);
+    expect(isIgnored(rules, 'src/index.ts', false)).toBe(false);
+  });
+
+  it('should anchor patterns that contain a slash', () => {
+    const rules = parseGitignore('/dist\ndocs/*.html\n');
+
+    expect(isIgnored(rules, 'dist', true)).toBe(true);
+    expect(isIgnored(rules, 'src/dist', true)).toBe(false);
+    expect(isIgnored(rules, 'docs/index.html', false)).toBe(true);
+    expect(isIgnored(rules, 'docs/api/index.html', false)).toBe(false);
+  });
+
+  it('should resolve nested files relative to their directory', () => {
+    const rules = parseGitignore('/generated\n*.tmp\n', 'packages/core');
+
+    expect(isIgnored(rules, 'packages/core/generated', true)).toBe(true);
+    expect(isIgnored(rules, 'generated', true)).toBe(false);
+    expect(isIgnored(rules, 'packages/core/src/a.tmp', false)).toBe(true);
+    expect(isIgnored(rules, 'a.tmp', false)).toBe(false);
+  });
+
+  it('should let the last matching pattern win', () => {
+    const rules = parseGitignore('*.env\n!example.env\n\\!important\n');
+
+    expect(isIgnored(rules, 'prod.env', false)).toBe(true);
+    expect(isIgnored(rules, 'example.env', false)).toBe(false);
+    expect(isIgnored(rules, '!important', false)).toBe(true);
+  });
+});
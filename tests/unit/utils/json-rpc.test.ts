@@ -6,8 +6,15 @@ import {
   validateObjectParams,
   createErrorResponse,
   createSuccessResponse,
+  toJsonRpcError,
   JsonRpcErrorCode,
 } from '../../../src/utils/json-rpc';
+import {
+  AdapterErrorCode,
+  CursorAuthenticationError,
+  CursorError,
+  SessionNotFoundError,
+} from '../../../src/types';
 
 describe('JSON-RPC Utilities', () => {
   describe('validateObjectParams', () => {
@@ -193,4 +200,34 @@ describe('JSON-RPC Utilities', () => {
       expect(JsonRpcErrorCode.INTERNAL_ERROR).toBe(-32603);
     });
   });
+
+  describe('toJsonRpcError', () => {
+    it('should keep the code and data of typed adapter errors', () => {
+      expect(toJsonRpcError(new CursorAuthenticationError())).toEqual({
+        code: AdapterErrorCode.NOT_AUTHENTICATED,
+        message: 'cursor-agent CLI is not authenticated',
+        data: {
+          type: 'cursor_not_authenticated',
+          action: 'Run `cursor-agent login`',
+        },
+      });
+      expect(toJsonRpcError(new SessionNotFoundError('s-1'))).toMatchObject({
+        code: -32001,
+        data: { type: 'session_not_found', sessionId: 's-1' },
+      });
+    });
+
+    it('should use the fallback code for other errors', () => {
+      const error = toJsonRpcError(new CursorError('boom'));
+      expect(error).toMatchObject({
+        code: JsonRpcErrorCode.INTERNAL_ERROR,
+        message: 'boom',
+        data: { name: 'CursorError' },
+      });
+
+      expect(toJsonRpcError('oops', JsonRpcErrorCode.METHOD_NOT_FOUND)).toEqual(
+        { code: -32601, message: 'Unknown error' }
+      );
+    });
+  });
 });